@@ -0,0 +1,524 @@
+/**
+ * Graph algorithms
+ *
+ * On the native engine each algorithm is an extension Cypher function whose
+ * result lists one entry per node, carrying the extension's internal `node_id`
+ * and the node's `id` property as `user_id`. Results are keyed by `user_id`,
+ * falling back to `node_id` for nodes without an `id`. The js engine, used
+ * for projections, is in js-engine.ts.
+ *
+ * Per-node results can also be written to node properties (`writeProperty`)
+ * or kept on a ProjectedGraph (`mutateProperty`); the internal node ids
+ * behind the result keys are tracked for the writes.
+ */
+
+import type { Graph } from './graph';
+import type {
+  AlgorithmOptions,
+  CentralityResult,
+  ComponentsResult,
+  CypherValue,
+  DegreeCentralityResult,
+  LouvainResult,
+  NodeDegree,
+  NodeTriangles,
+  PageRankResult,
+  ShortestPathResult,
+  ShortestPathsResult,
+  TraversalStep,
+  TriangleCountResult,
+} from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier, toCypherLiteral } from './utils';
+import {
+  loadAdjacency,
+  keyNodeIds,
+  pagerankJs,
+  louvainJs,
+  dijkstraJs,
+  degreeCentralityJs,
+  betweennessCentralityJs,
+  closenessCentralityJs,
+  weaklyConnectedComponentsJs,
+  stronglyConnectedComponentsJs,
+  labelPropagationJs,
+  triangleCountJs,
+  traverseJs,
+  astarJs,
+  kShortestPathsJs,
+  allShortestPathsJs,
+  shortestPathsFromJs,
+} from './js-engine';
+import type { Adjacency, CoordinateProperties, PathLimits } from './js-engine';
+import { ProjectedGraph, writeNodeProperty } from './projection';
+
+type NodeRow = { node_id?: CypherValue; user_id?: CypherValue } & Record<string, CypherValue>;
+
+/**
+ * An algorithm result with the internal id of the node behind each key
+ */
+type Computed<T> = { result: T; nodeIds: Map<string, number> };
+
+/**
+ * Check an option is a number, and optionally a non-negative integer
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT otherwise
+ */
+function checkNumber(name: string, value: number, integer: boolean = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && (!Number.isInteger(value) || value < 0))) {
+    const expected = integer ? 'a non-negative integer' : 'a finite number';
+    throw new GraphQLiteError(`${name} must be ${expected}, got ${value}`, 'INVALID_ARGUMENT');
+  }
+  return value;
+}
+
+/**
+ * Whether to use the TypeScript implementation of an algorithm
+ *
+ * Projections always run there, since the extension's functions cover the
+ * whole graph.
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for an unknown engine, or a
+ *   projection with the native engine
+ */
+function useJsEngine(options: AlgorithmOptions): boolean {
+  const engine = options.engine ?? (options.projection ? 'js' : 'native');
+  if (engine !== 'native' && engine !== 'js') {
+    throw new GraphQLiteError(`engine must be 'native' or 'js', got ${String(engine)}`, 'INVALID_ARGUMENT');
+  }
+  if (engine === 'native' && options.projection) {
+    throw new GraphQLiteError('Projections run on the js engine only', 'INVALID_ARGUMENT');
+  }
+  return engine === 'js';
+}
+
+/**
+ * Check an algorithm without a native implementation runs on the js engine
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for the native engine
+ */
+function requireJsEngine(options: AlgorithmOptions, title: string): void {
+  if (!useJsEngine({ ...options, engine: options.engine ?? 'js' })) {
+    throw new GraphQLiteError(`${title} runs on the js engine only`, 'INVALID_ARGUMENT');
+  }
+}
+
+/**
+ * The `maxDepth` and `maxCost` cutoffs of a path search
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for invalid cutoffs, or
+ *   cutoffs on the native engine
+ */
+function pathLimits(options: AlgorithmOptions, js: boolean): PathLimits {
+  if (!js && (options.maxDepth !== undefined || options.maxCost !== undefined)) {
+    throw new GraphQLiteError('maxDepth and maxCost apply on the js engine only', 'INVALID_ARGUMENT');
+  }
+  return {
+    maxDepth: options.maxDepth === undefined ? Infinity : checkNumber('maxDepth', options.maxDepth, true),
+    maxCost: options.maxCost === undefined ? Infinity : checkNumber('maxCost', options.maxCost),
+  };
+}
+
+/**
+ * Check `writeProperty` and `mutateProperty` before running an algorithm
+ *
+ * @param title - Algorithm name used in error messages
+ * @param perNode - Whether the algorithm has a result per node to store
+ * @throws GraphQLiteError with INVALID_ARGUMENT if a result cannot be stored
+ *   as asked
+ */
+function checkStorage(options: AlgorithmOptions, title: string, perNode: boolean = true): void {
+  if (options.writeProperty === undefined && options.mutateProperty === undefined) {
+    return;
+  }
+  if (!perNode) {
+    throw new GraphQLiteError(`${title} results cannot be stored as node properties`, 'INVALID_ARGUMENT');
+  }
+  if (options.writeProperty !== undefined) {
+    quoteIdentifier(options.writeProperty, 'property key');
+  }
+  if (options.mutateProperty !== undefined && !(options.projection instanceof ProjectedGraph)) {
+    throw new GraphQLiteError('mutateProperty needs a ProjectedGraph from graph.project() as the projection', 'INVALID_ARGUMENT');
+  }
+}
+
+/**
+ * Write or keep per-node values as asked by `writeProperty` and `mutateProperty`
+ */
+function store(graph: Graph, options: AlgorithmOptions, values: Record<string, CypherValue>, nodeIds: Map<string, number>): void {
+  if (options.writeProperty !== undefined) {
+    writeNodeProperty(graph, options.writeProperty, values, nodeIds);
+  }
+  if (options.mutateProperty !== undefined && options.projection instanceof ProjectedGraph) {
+    options.projection.mutateNodeProperty(options.mutateProperty, values);
+  }
+}
+
+function mapValues<T>(result: Record<string, T>, pick: (value: T) => CypherValue): Record<string, CypherValue> {
+  return Object.fromEntries(Object.entries(result).map(([id, value]) => [id, pick(value)]));
+}
+
+/**
+ * The adjacency list to run the js engine on
+ *
+ * A ProjectedGraph is used as projected; otherwise the projection is read
+ * from the graph, its weight defaulting to `weight`.
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for a ProjectedGraph from
+ *   another graph, or asked for a different weight or for coordinates
+ */
+function adjacencyFor(graph: Graph, options: AlgorithmOptions, weight?: string, coordinates?: CoordinateProperties): Adjacency {
+  const projection = options.projection;
+  if (projection instanceof ProjectedGraph) {
+    if (projection.graph !== graph) {
+      throw new GraphQLiteError('The ProjectedGraph was projected from another graph', 'INVALID_ARGUMENT');
+    }
+    if (weight !== undefined && weight !== projection.projection.weight) {
+      throw new GraphQLiteError(`The ProjectedGraph was not projected with weight ${weight}`, 'INVALID_ARGUMENT');
+    }
+    if (coordinates) {
+      throw new GraphQLiteError('A ProjectedGraph holds no coordinates for A*', 'INVALID_ARGUMENT');
+    }
+    return projection.adjacency;
+  }
+  return loadAdjacency(graph, { ...projection, weight: projection?.weight ?? weight }, coordinates);
+}
+
+/**
+ * Run a js engine algorithm over the adjacency list for the options
+ */
+function runJs<T>(graph: Graph, options: AlgorithmOptions, run: (adjacency: Adjacency) => T): Computed<T> {
+  const adjacency = adjacencyFor(graph, options);
+  return { result: run(adjacency), nodeIds: keyNodeIds(adjacency) };
+}
+
+/**
+ * Run an algorithm function and return its result
+ *
+ * @param title - Algorithm name used in error messages
+ * @param fn - Cypher function name
+ * @param args - Arguments, written as Cypher literals
+ */
+function runAlgorithm(graph: Graph, title: string, fn: string, args: CypherValue[] = []): CypherValue | undefined {
+  const query = `RETURN ${fn}(${args.map(toCypherLiteral).join(', ')})`;
+  try {
+    return graph.cypher<{ column_0: CypherValue }>(query)[0]?.column_0;
+  } catch (error) {
+    if (error instanceof GraphQLiteError) {
+      throw error;
+    }
+    throw new GraphQLiteError(
+      `${title} computation failed: ${error instanceof Error ? error.message : String(error)}`,
+      'CYPHER_RUNTIME',
+      { cause: error }
+    );
+  }
+}
+
+function nodeRows(value: CypherValue | undefined): NodeRow[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((row): row is NodeRow => typeof row === 'object' && row !== null && !Array.isArray(row));
+}
+
+function rowId(row: NodeRow): string | undefined {
+  const id = row.user_id ?? row.node_id;
+  return id === null || id === undefined ? undefined : String(id);
+}
+
+/**
+ * Key per-node rows by node ID, keeping rows for which pick returns a value
+ */
+function byNode<T>(value: CypherValue | undefined, pick: (row: NodeRow) => T | undefined): Computed<Record<string, T>> {
+  const result: Record<string, T> = {};
+  const nodeIds = new Map<string, number>();
+  for (const row of nodeRows(value)) {
+    const id = rowId(row);
+    const picked = pick(row);
+    if (id !== undefined && picked !== undefined) {
+      result[id] = picked;
+      if (typeof row.node_id === 'number') {
+        nodeIds.set(id, row.node_id);
+      }
+    }
+  }
+  return { result, nodeIds };
+}
+
+function numberField(key: string): (row: NodeRow) => number | undefined {
+  return (row) => (typeof row[key] === 'number' ? (row[key] as number) : undefined);
+}
+
+function pathResult(value: CypherValue | undefined): ShortestPathResult | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null;
+  }
+  const { path, distance, found } = value as { path?: CypherValue; distance?: CypherValue; found?: CypherValue };
+  if (found === false || !Array.isArray(path) || path.length === 0) {
+    return null;
+  }
+  return { path: path.map(String), distance: typeof distance === 'number' ? distance : undefined };
+}
+
+function traversal(value: CypherValue | undefined): Computed<TraversalStep[]> {
+  const rows = nodeRows(value);
+  if (rows.every((row) => typeof row.order === 'number')) {
+    rows.sort((a, b) => (a.order as number) - (b.order as number));
+  }
+  const steps: TraversalStep[] = [];
+  const nodeIds = new Map<string, number>();
+  for (const row of rows) {
+    const id = rowId(row);
+    if (id !== undefined && typeof row.depth === 'number') {
+      steps.push({ id, depth: row.depth });
+      if (typeof row.node_id === 'number') {
+        nodeIds.set(id, row.node_id);
+      }
+    }
+  }
+  return { result: steps, nodeIds };
+}
+
+/**
+ * Store an algorithm's numbers per node as asked, and return them
+ */
+function scores(graph: Graph, options: AlgorithmOptions, computed: Computed<Record<string, number>>): Record<string, number> {
+  store(graph, options, computed.result, computed.nodeIds);
+  return computed.result;
+}
+
+/**
+ * PageRank scores, see Graph.pagerank()
+ */
+export function pagerank(graph: Graph, options: AlgorithmOptions = {}): PageRankResult {
+  const damping = checkNumber('damping', options.damping ?? 0.85);
+  const iterations = checkNumber('iterations', options.iterations ?? 20, true);
+  checkStorage(options, 'PageRank');
+  return scores(
+    graph,
+    options,
+    useJsEngine(options)
+      ? runJs(graph, options, (adjacency) => pagerankJs(adjacency, damping, iterations))
+      : byNode(runAlgorithm(graph, 'PageRank', 'pageRank', [damping, iterations]), numberField('score'))
+  );
+}
+
+/**
+ * Louvain communities, see Graph.louvain()
+ */
+export function louvain(graph: Graph, options: AlgorithmOptions = {}): LouvainResult {
+  const resolution = checkNumber('resolution', options.resolution ?? 1.0);
+  checkStorage(options, 'Louvain');
+  return scores(
+    graph,
+    options,
+    useJsEngine(options)
+      ? runJs(graph, options, (adjacency) => louvainJs(adjacency, resolution))
+      : byNode(runAlgorithm(graph, 'Louvain', 'louvain', [resolution]), numberField('community'))
+  );
+}
+
+/**
+ * Dijkstra shortest path, see Graph.shortestPath()
+ */
+export function shortestPath(graph: Graph, sourceId: string, targetId: string, options: AlgorithmOptions = {}): ShortestPathResult | null {
+  checkStorage(options, 'Shortest path', false);
+  const js = useJsEngine(options);
+  const limits = pathLimits(options, js);
+  if (js) {
+    return dijkstraJs(adjacencyFor(graph, options, options.weight), sourceId, targetId, limits);
+  }
+  const args = options.weight ? [sourceId, targetId, options.weight] : [sourceId, targetId];
+  return pathResult(runAlgorithm(graph, 'Shortest path', 'dijkstra', args));
+}
+
+/**
+ * In, out and total degrees, see Graph.degreeCentrality()
+ *
+ * Stores each node's total degree.
+ */
+export function degreeCentrality(graph: Graph, options: AlgorithmOptions = {}): DegreeCentralityResult {
+  checkStorage(options, 'Degree centrality');
+  const { result, nodeIds } = useJsEngine(options)
+    ? runJs(graph, options, degreeCentralityJs)
+    : byNode(runAlgorithm(graph, 'Degree centrality', 'degreeCentrality'), (row): NodeDegree | undefined => {
+        const inDegree = numberField('in_degree')(row);
+        const outDegree = numberField('out_degree')(row);
+        if (inDegree === undefined || outDegree === undefined) {
+          return undefined;
+        }
+        return { inDegree, outDegree, degree: numberField('degree')(row) ?? inDegree + outDegree };
+      });
+  store(graph, options, mapValues(result, (degrees) => degrees.degree), nodeIds);
+  return result;
+}
+
+/**
+ * Betweenness centrality, see Graph.betweennessCentrality()
+ */
+export function betweennessCentrality(graph: Graph, options: AlgorithmOptions = {}): CentralityResult {
+  checkStorage(options, 'Betweenness centrality');
+  return scores(
+    graph,
+    options,
+    useJsEngine(options)
+      ? runJs(graph, options, betweennessCentralityJs)
+      : byNode(runAlgorithm(graph, 'Betweenness centrality', 'betweennessCentrality'), numberField('score'))
+  );
+}
+
+/**
+ * Closeness centrality, see Graph.closenessCentrality()
+ */
+export function closenessCentrality(graph: Graph, options: AlgorithmOptions = {}): CentralityResult {
+  checkStorage(options, 'Closeness centrality');
+  return scores(
+    graph,
+    options,
+    useJsEngine(options)
+      ? runJs(graph, options, closenessCentralityJs)
+      : byNode(runAlgorithm(graph, 'Closeness centrality', 'closenessCentrality'), numberField('score'))
+  );
+}
+
+/**
+ * Weakly connected components, see Graph.weaklyConnectedComponents()
+ */
+export function weaklyConnectedComponents(graph: Graph, options: AlgorithmOptions = {}): ComponentsResult {
+  checkStorage(options, 'Weakly connected components');
+  return scores(
+    graph,
+    options,
+    useJsEngine(options)
+      ? runJs(graph, options, weaklyConnectedComponentsJs)
+      : byNode(runAlgorithm(graph, 'Weakly connected components', 'wcc'), numberField('component'))
+  );
+}
+
+/**
+ * Strongly connected components, see Graph.stronglyConnectedComponents()
+ */
+export function stronglyConnectedComponents(graph: Graph, options: AlgorithmOptions = {}): ComponentsResult {
+  checkStorage(options, 'Strongly connected components');
+  return scores(
+    graph,
+    options,
+    useJsEngine(options)
+      ? runJs(graph, options, stronglyConnectedComponentsJs)
+      : byNode(runAlgorithm(graph, 'Strongly connected components', 'scc'), numberField('component'))
+  );
+}
+
+/**
+ * Label propagation communities, see Graph.labelPropagation()
+ */
+export function labelPropagation(graph: Graph, options: AlgorithmOptions = {}): ComponentsResult {
+  const iterations = checkNumber('iterations', options.iterations ?? 10, true);
+  checkStorage(options, 'Label propagation');
+  return scores(
+    graph,
+    options,
+    useJsEngine(options)
+      ? runJs(graph, options, (adjacency) => labelPropagationJs(adjacency, iterations))
+      : byNode(runAlgorithm(graph, 'Label propagation', 'labelPropagation', [iterations]), numberField('community'))
+  );
+}
+
+/**
+ * Triangles per node, see Graph.triangleCount()
+ *
+ * Stores each node's triangle count.
+ */
+export function triangleCount(graph: Graph, options: AlgorithmOptions = {}): TriangleCountResult {
+  checkStorage(options, 'Triangle count');
+  const { result, nodeIds } = useJsEngine(options)
+    ? runJs(graph, options, triangleCountJs)
+    : byNode(runAlgorithm(graph, 'Triangle count', 'triangleCount'), (row): NodeTriangles | undefined => {
+        const triangles = numberField('triangles')(row);
+        if (triangles === undefined) {
+          return undefined;
+        }
+        return { triangles, clusteringCoefficient: numberField('clustering_coefficient')(row) ?? 0 };
+      });
+  store(graph, options, mapValues(result, (node) => node.triangles), nodeIds);
+  return result;
+}
+
+/**
+ * Breadth-first or depth-first traversal, see Graph.bfs() and Graph.dfs()
+ *
+ * Stores each visited node's depth.
+ */
+export function traverse(graph: Graph, order: 'bfs' | 'dfs', startId: string, options: AlgorithmOptions = {}): TraversalStep[] {
+  const maxDepth = options.maxDepth === undefined ? undefined : checkNumber('maxDepth', options.maxDepth, true);
+  checkStorage(options, order.toUpperCase());
+  let computed: Computed<TraversalStep[]>;
+  if (useJsEngine(options)) {
+    computed = runJs(graph, options, (adjacency) => traverseJs(adjacency, order, startId, maxDepth));
+  } else {
+    const args: CypherValue[] = maxDepth === undefined ? [startId] : [startId, maxDepth];
+    computed = traversal(runAlgorithm(graph, order.toUpperCase(), order, args));
+  }
+  const depths = Object.fromEntries(computed.result.map((step) => [step.id, step.depth]));
+  store(graph, options, depths, computed.nodeIds);
+  return computed.result;
+}
+
+/**
+ * A* shortest path, see Graph.astar()
+ */
+export function astar(graph: Graph, sourceId: string, targetId: string, options: AlgorithmOptions = {}): ShortestPathResult | null {
+  if ((options.latitude === undefined) !== (options.longitude === undefined)) {
+    throw new GraphQLiteError('A* needs both latitude and longitude, or neither', 'INVALID_ARGUMENT');
+  }
+  checkStorage(options, 'A*', false);
+  const js = useJsEngine(options);
+  const limits = pathLimits(options, js);
+  const coordinates =
+    options.latitude !== undefined && options.longitude !== undefined
+      ? { latitude: options.latitude, longitude: options.longitude }
+      : undefined;
+  if (js) {
+    return astarJs(adjacencyFor(graph, options, options.weight, coordinates), sourceId, targetId, limits);
+  }
+  const args: CypherValue[] = coordinates ? [sourceId, targetId, coordinates.latitude, coordinates.longitude] : [sourceId, targetId];
+  return pathResult(runAlgorithm(graph, 'A*', 'astar', args));
+}
+
+/**
+ * The k cheapest paths by Yen's algorithm, see Graph.kShortestPaths()
+ */
+export function kShortestPaths(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  k: number,
+  options: AlgorithmOptions = {}
+): ShortestPathResult[] {
+  checkNumber('k', k, true);
+  requireJsEngine(options, 'k shortest paths');
+  checkStorage(options, 'k shortest paths', false);
+  const limits = pathLimits(options, true);
+  return kShortestPathsJs(adjacencyFor(graph, options, options.weight), sourceId, targetId, k, limits);
+}
+
+/**
+ * Every path of the lowest cost, see Graph.allShortestPaths()
+ */
+export function allShortestPaths(graph: Graph, sourceId: string, targetId: string, options: AlgorithmOptions = {}): ShortestPathResult[] {
+  requireJsEngine(options, 'All shortest paths');
+  checkStorage(options, 'All shortest paths', false);
+  const limits = pathLimits(options, true);
+  return allShortestPathsJs(adjacencyFor(graph, options, options.weight), sourceId, targetId, limits);
+}
+
+/**
+ * Shortest paths to every node reached, see Graph.shortestPathsFrom()
+ */
+export function shortestPathsFrom(graph: Graph, sourceId: string, options: AlgorithmOptions = {}): ShortestPathsResult {
+  requireJsEngine(options, 'Single-source shortest paths');
+  checkStorage(options, 'Single-source shortest paths', false);
+  const limits = pathLimits(options, true);
+  return shortestPathsFromJs(adjacencyFor(graph, options, options.weight), sourceId, limits);
+}
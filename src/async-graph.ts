@@ -0,0 +1,653 @@
+/**
+ * Promise-based Graph API backed by a worker thread
+ */
+
+import type {
+  CypherValue,
+  CypherRow,
+  CypherResult,
+  GraphOptions,
+  AsyncGraphOptions,
+  AsyncCallOptions,
+  GraphStats,
+  GraphSchema,
+  NodeInput,
+  EdgeInput,
+  BatchUpsertOptions,
+  BatchUpsertResult,
+  AlgorithmOptions,
+  PageRankResult,
+  LouvainResult,
+  ShortestPathResult,
+  ShortestPathsResult,
+  DegreeCentralityResult,
+  CentralityResult,
+  ComponentsResult,
+  TriangleCountResult,
+  TraversalStep,
+} from './types';
+import { GraphQLiteError } from './types';
+import { resultToRows, deserializeError } from './utils';
+import type { WorkerMethod, WorkerRequest, WorkerResponse } from './worker';
+import { ProjectedGraph } from './projection';
+
+function isInMemory(dbPath: string): boolean {
+  return dbPath === '' || dbPath === ':memory:';
+}
+
+/**
+ * A call waiting for, or running in, the worker
+ */
+interface PendingCall {
+  request: Extract<WorkerRequest, { id: number }>;
+  timeout?: number;
+  resolve: (value: unknown) => void;
+  reject: (error: GraphQLiteError) => void;
+  detach: () => void;
+}
+
+/**
+ * Graph API whose connection lives in a Bun Worker
+ *
+ * Every method returns a Promise and leaves the event loop free while the
+ * worker runs the query. Calls run one at a time in the order they were made.
+ *
+ * Cancelling (or timing out) a call that is already running rejects it at
+ * once, but SQLite cannot be interrupted from another thread, so the worker
+ * finishes the statement before running queued calls. With `restartOnCancel`
+ * the worker is terminated instead, losing uncommitted work, and the database
+ * is reopened in a fresh worker once the old one has exited. That needs a
+ * database file: a `:memory:` database would start over empty.
+ *
+ * @example
+ * ```ts
+ * const graph = new AsyncGraph('my-graph.db', { timeout: 5000 });
+ * const rows = await graph.cypher('MATCH (n:Person) RETURN n.name AS name');
+ * const ranks = await graph.pagerank(0.85, 20, { signal: request.signal });
+ * await graph.close();
+ * ```
+ */
+export class AsyncGraph {
+  private worker: Worker | null = null;
+  private starting: boolean = false;
+  private queue: PendingCall[] = [];
+  private active: PendingCall | null = null;
+  private activeTimer: ReturnType<typeof setTimeout> | undefined;
+  private nextId: number = 1;
+  /** Id of a cancelled call the worker is still running */
+  private abandoned: number | null = null;
+  private closed: boolean = false;
+  private openError: GraphQLiteError | null = null;
+  private readyPromise: Promise<void>;
+  private settleReady: { resolve: () => void; reject: (error: GraphQLiteError) => void } | null = null;
+
+  /**
+   * Open a graph database in a new worker
+   *
+   * @param dbPath - Path to SQLite database file (use ':memory:' for in-memory database)
+   * @param options - Graph options plus a default per-call timeout and restartOnCancel
+   * @throws GraphQLiteError with INVALID_ARGUMENT if restartOnCancel is set
+   *   for a `:memory:` database
+   */
+  constructor(
+    private readonly dbPath: string,
+    private readonly options: AsyncGraphOptions = {}
+  ) {
+    if (options.restartOnCancel && isInMemory(dbPath)) {
+      throw new GraphQLiteError('restartOnCancel needs a database file; a :memory: database would be lost', 'INVALID_ARGUMENT');
+    }
+    this.readyPromise = new Promise((resolve, reject) => {
+      this.settleReady = { resolve, reject };
+    });
+    // Failures are also reported to each call, so ready() is optional
+    this.readyPromise.catch(() => undefined);
+    this.spawn();
+  }
+
+  /**
+   * Wait until the worker has opened the database
+   *
+   * @throws GraphQLiteError if the database or extension could not be opened
+   */
+  ready(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  /**
+   * Execute a Cypher query
+   *
+   * @param query - Cypher query string
+   * @param params - Optional parameters as JSON object
+   * @param options - Cancellation signal and timeout
+   * @returns Array of row objects
+   */
+  async cypher<T extends CypherRow = CypherRow>(
+    query: string,
+    params?: Record<string, CypherValue>,
+    options?: AsyncCallOptions
+  ): Promise<T[]> {
+    // Rows are decoded here so nodes and paths keep their classes
+    return resultToRows(await this.cypherRaw(query, params, options)) as T[];
+  }
+
+  /**
+   * Execute a Cypher query and return raw result
+   */
+  cypherRaw(
+    query: string,
+    params?: Record<string, CypherValue>,
+    options?: AsyncCallOptions
+  ): Promise<CypherResult> {
+    return this.call('cypherRaw', [query, params], options);
+  }
+
+  /**
+   * Get graph statistics
+   */
+  getStats(options?: AsyncCallOptions): Promise<GraphStats> {
+    return this.call('getStats', [], options);
+  }
+
+  /**
+   * Describe the labels, relationship types and property keys in the graph
+   */
+  schema(options?: AsyncCallOptions): Promise<GraphSchema> {
+    return this.call('schema', [], options);
+  }
+
+  /**
+   * Load graph into the algorithm cache
+   */
+  loadGraph(options?: AsyncCallOptions): Promise<void> {
+    return this.call('loadGraph', [], options);
+  }
+
+  /**
+   * Unload graph from the algorithm cache
+   */
+  unloadGraph(options?: AsyncCallOptions): Promise<void> {
+    return this.call('unloadGraph', [], options);
+  }
+
+  /**
+   * Reload graph into the algorithm cache
+   */
+  reloadGraph(options?: AsyncCallOptions): Promise<void> {
+    return this.call('reloadGraph', [], options);
+  }
+
+  /**
+   * Upsert a node, see Graph.upsertNode()
+   */
+  upsertNode(
+    nodeId: string,
+    properties: Record<string, CypherValue>,
+    label?: string,
+    options?: AsyncCallOptions
+  ): Promise<void> {
+    return this.call('upsertNode', [nodeId, properties, label], options);
+  }
+
+  /**
+   * Upsert an edge, see Graph.upsertEdge()
+   */
+  upsertEdge(
+    sourceId: string,
+    targetId: string,
+    properties: Record<string, CypherValue>,
+    relType?: string,
+    options?: AsyncCallOptions
+  ): Promise<void> {
+    return this.call('upsertEdge', [sourceId, targetId, properties, relType], options);
+  }
+
+  /**
+   * Upsert many nodes in one transaction, see Graph.upsertNodes()
+   *
+   * The items are collected before being sent to the worker.
+   */
+  async upsertNodes(
+    items: Iterable<NodeInput> | AsyncIterable<NodeInput>,
+    options: BatchUpsertOptions & AsyncCallOptions = {}
+  ): Promise<BatchUpsertResult> {
+    const { signal, timeout, ...batchOptions } = options;
+    return this.call('upsertNodes', [await Array.fromAsync(items), batchOptions], { signal, timeout });
+  }
+
+  /**
+   * Upsert many edges in one transaction, see Graph.upsertEdges()
+   *
+   * The items are collected before being sent to the worker.
+   */
+  async upsertEdges(
+    items: Iterable<EdgeInput> | AsyncIterable<EdgeInput>,
+    options: BatchUpsertOptions & AsyncCallOptions = {}
+  ): Promise<BatchUpsertResult> {
+    const { signal, timeout, ...batchOptions } = options;
+    return this.call('upsertEdges', [await Array.fromAsync(items), batchOptions], { signal, timeout });
+  }
+
+  /**
+   * Run PageRank, see Graph.pagerank()
+   */
+  pagerank(options?: AlgorithmOptions & AsyncCallOptions): Promise<PageRankResult>;
+  pagerank(damping?: number, iterations?: number, options?: AsyncCallOptions): Promise<PageRankResult>;
+  pagerank(
+    dampingOrOptions: number | (AlgorithmOptions & AsyncCallOptions) = 0.85,
+    iterations: number = 20,
+    options?: AsyncCallOptions
+  ): Promise<PageRankResult> {
+    if (typeof dampingOrOptions === 'object') {
+      const { signal, timeout, ...algorithmOptions } = dampingOrOptions;
+      return this.call('pagerank', [algorithmOptions], { signal, timeout });
+    }
+    return this.call('pagerank', [dampingOrOptions, iterations], options);
+  }
+
+  /**
+   * Run Louvain community detection, see Graph.louvain()
+   */
+  louvain(options?: AlgorithmOptions & AsyncCallOptions): Promise<LouvainResult>;
+  louvain(resolution?: number, options?: AsyncCallOptions): Promise<LouvainResult>;
+  louvain(
+    resolutionOrOptions: number | (AlgorithmOptions & AsyncCallOptions) = 1.0,
+    options?: AsyncCallOptions
+  ): Promise<LouvainResult> {
+    if (typeof resolutionOrOptions === 'object') {
+      const { signal, timeout, ...algorithmOptions } = resolutionOrOptions;
+      return this.call('louvain', [algorithmOptions], { signal, timeout });
+    }
+    return this.call('louvain', [resolutionOrOptions], options);
+  }
+
+  /**
+   * Find the shortest path between two nodes, see Graph.shortestPath()
+   *
+   * Given options as the third argument, `signal` and `timeout` are read
+   * from them.
+   */
+  shortestPath(
+    sourceId: string,
+    targetId: string,
+    weight?: string | (AlgorithmOptions & AsyncCallOptions),
+    options?: AsyncCallOptions
+  ): Promise<ShortestPathResult | null> {
+    if (typeof weight === 'object') {
+      const { signal, timeout, ...algorithmOptions } = weight;
+      return this.call('shortestPath', [sourceId, targetId, algorithmOptions], { signal, timeout });
+    }
+    return this.call('shortestPath', [sourceId, targetId, weight], options);
+  }
+
+  /**
+   * Alias for shortestPath() using Dijkstra's algorithm
+   */
+  dijkstra(
+    sourceId: string,
+    targetId: string,
+    weight?: string | (AlgorithmOptions & AsyncCallOptions),
+    options?: AsyncCallOptions
+  ): Promise<ShortestPathResult | null> {
+    return this.shortestPath(sourceId, targetId, weight, options);
+  }
+
+  /**
+   * Count each node's relationships, see Graph.degreeCentrality()
+   */
+  degreeCentrality(options: AlgorithmOptions & AsyncCallOptions = {}): Promise<DegreeCentralityResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('degreeCentrality', [algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Compute betweenness centrality, see Graph.betweennessCentrality()
+   */
+  betweennessCentrality(options: AlgorithmOptions & AsyncCallOptions = {}): Promise<CentralityResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('betweennessCentrality', [algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Compute closeness centrality, see Graph.closenessCentrality()
+   */
+  closenessCentrality(options: AlgorithmOptions & AsyncCallOptions = {}): Promise<CentralityResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('closenessCentrality', [algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Find weakly connected components, see Graph.weaklyConnectedComponents()
+   */
+  weaklyConnectedComponents(options: AlgorithmOptions & AsyncCallOptions = {}): Promise<ComponentsResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('weaklyConnectedComponents', [algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Find strongly connected components, see Graph.stronglyConnectedComponents()
+   */
+  stronglyConnectedComponents(options: AlgorithmOptions & AsyncCallOptions = {}): Promise<ComponentsResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('stronglyConnectedComponents', [algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Detect communities by label propagation, see Graph.labelPropagation()
+   */
+  labelPropagation(options: AlgorithmOptions & AsyncCallOptions = {}): Promise<ComponentsResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('labelPropagation', [algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Count the triangles through each node, see Graph.triangleCount()
+   */
+  triangleCount(options: AlgorithmOptions & AsyncCallOptions = {}): Promise<TriangleCountResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('triangleCount', [algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Visit nodes breadth-first, see Graph.bfs()
+   */
+  bfs(startId: string, options: AlgorithmOptions & AsyncCallOptions = {}): Promise<TraversalStep[]> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('bfs', [startId, algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Visit nodes depth-first, see Graph.dfs()
+   */
+  dfs(startId: string, options: AlgorithmOptions & AsyncCallOptions = {}): Promise<TraversalStep[]> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('dfs', [startId, algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Find a shortest path with A*, see Graph.astar()
+   */
+  astar(
+    sourceId: string,
+    targetId: string,
+    options: AlgorithmOptions & AsyncCallOptions = {}
+  ): Promise<ShortestPathResult | null> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('astar', [sourceId, targetId, algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Find the k cheapest paths between two nodes, see Graph.kShortestPaths()
+   */
+  kShortestPaths(
+    sourceId: string,
+    targetId: string,
+    k: number,
+    options: AlgorithmOptions & AsyncCallOptions = {}
+  ): Promise<ShortestPathResult[]> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('kShortestPaths', [sourceId, targetId, k, algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Find every path of the lowest cost between two nodes, see Graph.allShortestPaths()
+   */
+  allShortestPaths(
+    sourceId: string,
+    targetId: string,
+    options: AlgorithmOptions & AsyncCallOptions = {}
+  ): Promise<ShortestPathResult[]> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('allShortestPaths', [sourceId, targetId, algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Find the shortest path from a node to every node it reaches, see Graph.shortestPathsFrom()
+   */
+  shortestPathsFrom(sourceId: string, options: AlgorithmOptions & AsyncCallOptions = {}): Promise<ShortestPathsResult> {
+    const { signal, timeout, ...algorithmOptions } = options;
+    return this.call('shortestPathsFrom', [sourceId, algorithmOptions], { signal, timeout });
+  }
+
+  /**
+   * Close the database and stop the worker
+   *
+   * Calls made before close() still run; later calls reject with GRAPH_CLOSED.
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    const closing = this.openError ? Promise.resolve() : this.enqueue({ type: 'close', id: this.nextId++ }, {});
+    this.closed = true;
+
+    try {
+      await closing;
+    } finally {
+      this.worker?.terminate();
+      this.worker = null;
+    }
+  }
+
+  /**
+   * Queue a Graph method call for the worker
+   */
+  private call<T>(method: WorkerMethod, args: unknown[], options?: AsyncCallOptions): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new GraphQLiteError('Graph is closed', 'GRAPH_CLOSED'));
+    }
+    if (this.openError) {
+      return Promise.reject(this.openError);
+    }
+    // A ProjectedGraph holds a Graph of this thread, so it cannot reach the worker
+    if (args.some((arg) => typeof arg === 'object' && arg !== null && (arg as AlgorithmOptions).projection instanceof ProjectedGraph)) {
+      return Promise.reject(
+        new GraphQLiteError('A ProjectedGraph cannot be used with AsyncGraph; pass a GraphProjection', 'INVALID_ARGUMENT')
+      );
+    }
+    return this.enqueue({ type: 'call', id: this.nextId++, method, args }, options ?? {}) as Promise<T>;
+  }
+
+  /**
+   * Add a request to the queue, wiring up its signal
+   */
+  private enqueue(request: PendingCall['request'], options: AsyncCallOptions): Promise<unknown> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new GraphQLiteError('Query was cancelled', 'QUERY_CANCELLED', { cause: signal.reason }));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.cancel(pending, new GraphQLiteError('Query was cancelled', 'QUERY_CANCELLED', { cause: signal?.reason }));
+      };
+      const pending: PendingCall = {
+        request,
+        timeout: options.timeout ?? this.options.timeout,
+        resolve,
+        reject,
+        detach: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(pending);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Send the next queued call to the worker if it is idle
+   */
+  private dispatch(): void {
+    if (this.starting || this.active || this.abandoned !== null || !this.worker) {
+      return;
+    }
+
+    const next = this.queue.shift();
+    if (!next) {
+      return;
+    }
+
+    this.active = next;
+    if (next.timeout !== undefined) {
+      this.activeTimer = setTimeout(() => {
+        this.cancel(next, new GraphQLiteError(`Query timed out after ${next.timeout}ms`, 'QUERY_TIMEOUT'));
+      }, next.timeout);
+    }
+    this.worker.postMessage(next.request);
+  }
+
+  /**
+   * Reject a call; if it is already running, either restart the worker or
+   * hold the queue until the worker has finished it
+   */
+  private cancel(pending: PendingCall, error: GraphQLiteError): void {
+    if (pending === this.active) {
+      this.settle(pending, error);
+      if (this.options.restartOnCancel) {
+        this.restart();
+      } else {
+        this.abandoned = pending.request.id;
+      }
+      return;
+    }
+
+    const index = this.queue.indexOf(pending);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      this.settle(pending, error);
+    }
+  }
+
+  /**
+   * Resolve or reject a call and release its timer and signal listener
+   */
+  private settle(pending: PendingCall, outcome: { value: unknown } | GraphQLiteError): void {
+    if (pending === this.active) {
+      clearTimeout(this.activeTimer);
+      this.activeTimer = undefined;
+      this.active = null;
+    }
+    pending.detach();
+
+    if (outcome instanceof GraphQLiteError) {
+      pending.reject(outcome);
+    } else {
+      pending.resolve(outcome.value);
+    }
+  }
+
+  /**
+   * Start a worker and ask it to open the database
+   */
+  private spawn(): void {
+    const worker = new Worker(new URL('./worker.ts', import.meta.url).href);
+    this.worker = worker;
+    this.starting = true;
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if (worker === this.worker) {
+        this.handleResponse(event.data);
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      if (worker !== this.worker) {
+        return;
+      }
+      const error = new GraphQLiteError(`Worker failed: ${event.message}`, 'WORKER_FAILED');
+      if (this.starting || isInMemory(this.dbPath)) {
+        // A :memory: database died with its worker; reopening would hand back an empty graph
+        this.fail(error);
+      } else {
+        if (this.active) {
+          this.settle(this.active, error);
+        }
+        this.restart();
+      }
+    };
+
+    const open: WorkerRequest = { type: 'open', dbPath: this.dbPath, options: this.graphOptions() };
+    worker.postMessage(open);
+  }
+
+  /**
+   * Replace the worker with a fresh one on the same database
+   *
+   * The new worker is spawned once the old one has exited, so its connection
+   * is gone before another opens the file.
+   */
+  private restart(): void {
+    const worker = this.worker;
+    this.worker = null;
+    this.abandoned = null;
+
+    const respawn = () => {
+      if (!this.closed || this.queue.length > 0) {
+        this.spawn();
+      }
+    };
+    if (!worker) {
+      respawn();
+      return;
+    }
+    worker.addEventListener('close', respawn, { once: true });
+    worker.terminate();
+  }
+
+  /**
+   * Handle a message from the worker
+   */
+  private handleResponse(response: WorkerResponse): void {
+    if (response.type === 'ready') {
+      this.starting = false;
+      this.settleReady?.resolve();
+      this.settleReady = null;
+      this.dispatch();
+      return;
+    }
+
+    if (response.type === 'error' && response.id === undefined) {
+      this.fail(deserializeError(response.error));
+      return;
+    }
+
+    if (response.id === this.abandoned) {
+      this.abandoned = null;
+      this.dispatch();
+      return;
+    }
+
+    const pending = this.active;
+    if (!pending || pending.request.id !== response.id) {
+      return;
+    }
+
+    this.settle(pending, response.type === 'error' ? deserializeError(response.error) : { value: response.value });
+    this.dispatch();
+  }
+
+  /**
+   * The database could not be opened: reject everything from now on
+   */
+  private fail(error: GraphQLiteError): void {
+    this.openError = error;
+    this.starting = false;
+    this.worker?.terminate();
+    this.worker = null;
+
+    this.settleReady?.reject(error);
+    this.settleReady = null;
+
+    for (const pending of this.queue.splice(0)) {
+      this.settle(pending, error);
+    }
+  }
+
+  /**
+   * Graph options without the AsyncGraph-only settings
+   */
+  private graphOptions(): GraphOptions {
+    const { timeout, restartOnCancel, ...graphOptions } = this.options;
+    return graphOptions;
+  }
+}
@@ -0,0 +1,831 @@
+/**
+ * Bolt protocol server
+ *
+ * Speaks Bolt 4.4 and 5.0 to 5.4 over TCP, so Neo4j drivers can run Cypher
+ * against a Graph. Handles HELLO, LOGON, LOGOFF, RUN, PULL, DISCARD, BEGIN,
+ * COMMIT, ROLLBACK, RESET, ROUTE, TELEMETRY and GOODBYE.
+ *
+ * Messages are PackStream structures split into chunks, each prefixed with
+ * its 16-bit length and the message ended by an empty chunk.
+ */
+
+import type { Graph } from './graph';
+import type { BoltServeOptions, CypherValue, GraphServer, Transaction } from './types';
+import { GraphQLiteError } from './types';
+import { decodeCypherValue, isReadOnlyQuery, toGraphQLiteError, GraphLock } from './utils';
+import { Node, Relationship, Path } from './values';
+import type { EntityId } from './values';
+import { PackStreamReader, PackStreamWriter, Structure } from './packstream';
+import type { PackStreamValue } from './packstream';
+import { toNeo4jErrorCode } from './server';
+
+const DEFAULT_PORT = 7687;
+const DEFAULT_HOSTNAME = '127.0.0.1';
+const DEFAULT_DATABASE = 'neo4j';
+
+const MAGIC = [0x60, 0x60, 0xb0, 0x17];
+const HANDSHAKE_SIZE = 20;
+const MAX_CHUNK_SIZE = 0xffff;
+
+/**
+ * A Bolt protocol version
+ */
+export interface BoltVersion {
+  major: number;
+  minor: number;
+}
+
+/**
+ * Supported versions, newest first
+ */
+const SUPPORTED_VERSIONS: BoltVersion[] = [
+  { major: 5, minor: 4 },
+  { major: 5, minor: 3 },
+  { major: 5, minor: 2 },
+  { major: 5, minor: 1 },
+  { major: 5, minor: 0 },
+  { major: 4, minor: 4 },
+];
+
+const REQUEST = {
+  HELLO: 0x01,
+  GOODBYE: 0x02,
+  RESET: 0x0f,
+  RUN: 0x10,
+  BEGIN: 0x11,
+  COMMIT: 0x12,
+  ROLLBACK: 0x13,
+  DISCARD: 0x2f,
+  PULL: 0x3f,
+  TELEMETRY: 0x54,
+  ROUTE: 0x66,
+  LOGON: 0x6a,
+  LOGOFF: 0x6b,
+} as const;
+
+const RESPONSE = {
+  SUCCESS: 0x70,
+  RECORD: 0x71,
+  IGNORED: 0x7e,
+  FAILURE: 0x7f,
+} as const;
+
+const NODE = 0x4e;
+const RELATIONSHIP = 0x52;
+const UNBOUND_RELATIONSHIP = 0x72;
+const PATH = 0x50;
+
+const INVALID_REQUEST = 'Neo.ClientError.Request.Invalid';
+
+type PackStreamMap = { [key: string]: PackStreamValue };
+
+/**
+ * An error reported to the client with its own Neo4j status code
+ */
+class BoltError extends Error {
+  constructor(
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Pick the version to speak from the client's handshake
+ *
+ * The handshake holds four proposals, in order of preference, each naming a
+ * major version, a minor version and how many minor versions below it are
+ * also acceptable.
+ *
+ * @returns The newest supported version of the first proposal that has one,
+ *   or null if the handshake is not Bolt or no proposal is supported
+ */
+export function negotiateVersion(handshake: Uint8Array): BoltVersion | null {
+  if (handshake.length < HANDSHAKE_SIZE || MAGIC.some((byte, i) => handshake[i] !== byte)) {
+    return null;
+  }
+
+  for (let offset = 4; offset < HANDSHAKE_SIZE; offset += 4) {
+    const range = handshake[offset + 1] as number;
+    const minor = handshake[offset + 2] as number;
+    const major = handshake[offset + 3] as number;
+    const match = SUPPORTED_VERSIONS.find(
+      (version) => version.major === major && version.minor <= minor && version.minor >= minor - range
+    );
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+/**
+ * Split a message into chunks and add the end marker
+ */
+export function chunkMessage(message: Uint8Array): Uint8Array {
+  const chunks = Math.max(Math.ceil(message.length / MAX_CHUNK_SIZE), 1);
+  const bytes = new Uint8Array(message.length + chunks * 2 + 2);
+
+  let offset = 0;
+  for (let start = 0; start < message.length; start += MAX_CHUNK_SIZE) {
+    const chunk = message.subarray(start, start + MAX_CHUNK_SIZE);
+    bytes[offset] = chunk.length >> 8;
+    bytes[offset + 1] = chunk.length & 0xff;
+    bytes.set(chunk, offset + 2);
+    offset += chunk.length + 2;
+  }
+  return bytes.subarray(0, offset + 2);
+}
+
+/**
+ * Incremental reassembler for chunked messages
+ *
+ * Empty chunks outside a message are keep-alives and are skipped.
+ */
+export class MessageReader {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private parts: Uint8Array[] = [];
+
+  /**
+   * Add received bytes and yield every message they complete
+   */
+  *write(data: Uint8Array): Generator<Uint8Array> {
+    const buffer = new Uint8Array(this.buffer.length + data.length);
+    buffer.set(this.buffer);
+    buffer.set(data, this.buffer.length);
+    this.buffer = buffer;
+
+    while (this.buffer.length >= 2) {
+      const size = ((this.buffer[0] as number) << 8) | (this.buffer[1] as number);
+      if (this.buffer.length < size + 2) {
+        break;
+      }
+      const chunk = this.buffer.slice(2, size + 2);
+      this.buffer = this.buffer.subarray(size + 2);
+
+      if (size > 0) {
+        this.parts.push(chunk);
+      } else if (this.parts.length > 0) {
+        const message = new Uint8Array(this.parts.reduce((total, part) => total + part.length, 0));
+        let offset = 0;
+        for (const part of this.parts) {
+          message.set(part, offset);
+          offset += part.length;
+        }
+        this.parts = [];
+        yield message;
+      }
+    }
+  }
+}
+
+function boltId(id: EntityId): number {
+  const value = typeof id === 'number' ? id : Number(id);
+  return Number.isSafeInteger(value) ? value : -1;
+}
+
+function toBoltProperties(properties: Record<string, CypherValue>, version: BoltVersion): PackStreamMap {
+  const map: PackStreamMap = {};
+  for (const [key, value] of Object.entries(properties)) {
+    map[key] = toBoltValue(value, version);
+  }
+  return map;
+}
+
+function toBoltNode(node: Node, version: BoltVersion): Structure {
+  const fields: PackStreamValue[] = [boltId(node.id), node.labels, toBoltProperties(node.properties, version)];
+  if (version.major >= 5) {
+    fields.push(String(node.id));
+  }
+  return new Structure(NODE, fields);
+}
+
+function toBoltRelationship(rel: Relationship, version: BoltVersion): Structure {
+  const fields: PackStreamValue[] = [
+    boltId(rel.id),
+    boltId(rel.start),
+    boltId(rel.end),
+    rel.type,
+    toBoltProperties(rel.properties, version),
+  ];
+  if (version.major >= 5) {
+    fields.push(String(rel.id), String(rel.start), String(rel.end));
+  }
+  return new Structure(RELATIONSHIP, fields);
+}
+
+/**
+ * Encode a path as its distinct nodes and relationships plus the hops
+ * between them
+ *
+ * Each hop is a 1-based relationship index, negative when the relationship
+ * is traversed against its direction, followed by the index of the next node.
+ */
+function toBoltPath(path: Path, version: BoltVersion): Structure {
+  const nodeIndex = new Map<string, number>();
+  const nodes: Structure[] = [];
+  const relIndex = new Map<string, number>();
+  const rels: Structure[] = [];
+
+  const addNode = (node: Node): number => {
+    const key = String(node.id);
+    let index = nodeIndex.get(key);
+    if (index === undefined) {
+      index = nodes.length;
+      nodeIndex.set(key, index);
+      nodes.push(toBoltNode(node, version));
+    }
+    return index;
+  };
+
+  if (path.start) {
+    addNode(path.start);
+  }
+
+  const indices: number[] = [];
+  for (const { start, relationship, end } of path.segments()) {
+    const key = String(relationship.id);
+    let index = relIndex.get(key);
+    if (index === undefined) {
+      index = rels.length + 1;
+      relIndex.set(key, index);
+      const fields: PackStreamValue[] = [
+        boltId(relationship.id),
+        relationship.type,
+        toBoltProperties(relationship.properties, version),
+      ];
+      if (version.major >= 5) {
+        fields.push(String(relationship.id));
+      }
+      rels.push(new Structure(UNBOUND_RELATIONSHIP, fields));
+    }
+    indices.push(String(relationship.start) === String(start.id) ? index : -index, addNode(end));
+  }
+
+  return new Structure(PATH, [nodes, rels, indices]);
+}
+
+/**
+ * Convert a decoded query value to PackStream for a Bolt version
+ *
+ * Nodes, relationships and paths become Bolt structures; version 5 adds
+ * string element ids alongside the integer ids.
+ */
+export function toBoltValue(value: CypherValue, version: BoltVersion): PackStreamValue {
+  if (value instanceof Node) {
+    return toBoltNode(value, version);
+  }
+  if (value instanceof Relationship) {
+    return toBoltRelationship(value, version);
+  }
+  if (value instanceof Path) {
+    return toBoltPath(value, version);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toBoltValue(item, version));
+  }
+  if (value !== null && typeof value === 'object') {
+    return toBoltProperties(value, version);
+  }
+  return value;
+}
+
+/**
+ * Convert a query parameter sent by a client
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for byte arrays and
+ *   structures such as temporal and spatial values
+ */
+function fromBoltValue(value: PackStreamValue): CypherValue {
+  if (value instanceof Structure) {
+    throw new GraphQLiteError(`Unsupported parameter value: structure 0x${value.tag.toString(16)}`, 'INVALID_ARGUMENT');
+  }
+  if (value instanceof Uint8Array) {
+    throw new GraphQLiteError('Unsupported parameter value: byte array', 'INVALID_ARGUMENT');
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromBoltValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    const map: Record<string, CypherValue> = {};
+    for (const [key, item] of Object.entries(value)) {
+      map[key] = fromBoltValue(item);
+    }
+    return map;
+  }
+  return value;
+}
+
+function mapField(message: Structure, index: number): PackStreamMap {
+  const value = message.fields[index];
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value) || value instanceof Structure || value instanceof Uint8Array) {
+    throw new BoltError(INVALID_REQUEST, `Field ${index} of message 0x${message.tag.toString(16)} must be a map`);
+  }
+  return value;
+}
+
+/**
+ * State shared by the connections of one server
+ */
+interface BoltContext {
+  graph: Graph;
+  database: string;
+  address: string;
+  lock: GraphLock;
+  nextConnectionId: number;
+  nextBookmark: number;
+}
+
+/**
+ * Sink for bytes sent to a client, and a way to hang up
+ */
+interface BoltTransport {
+  write(bytes: Uint8Array): void;
+  end(): void;
+}
+
+/**
+ * Writes to a socket, holding back what the kernel does not take at once
+ * until the socket drains
+ */
+class SocketTransport implements BoltTransport {
+  private readonly pending: Uint8Array[] = [];
+  private ending: boolean = false;
+
+  constructor(private readonly socket: { write(data: Uint8Array): number; end(): unknown }) {}
+
+  write(bytes: Uint8Array): void {
+    this.pending.push(bytes);
+    if (this.pending.length === 1) {
+      this.flush();
+    }
+  }
+
+  end(): void {
+    this.ending = true;
+    this.flush();
+  }
+
+  /**
+   * Write as much pending data as the socket takes, then hang up if asked to
+   */
+  flush(): void {
+    while (this.pending.length > 0) {
+      const next = this.pending[0] as Uint8Array;
+      const written = this.socket.write(next);
+      if (written < next.length) {
+        this.pending[0] = next.subarray(Math.max(written, 0));
+        return;
+      }
+      this.pending.shift();
+    }
+    if (this.ending) {
+      this.socket.end();
+    }
+  }
+}
+
+/**
+ * A query result waiting to be pulled
+ */
+interface PendingResult {
+  qid: number;
+  records: PackStreamValue[][];
+  type: 'r' | 'w';
+}
+
+type ConnectionState = 'negotiation' | 'connected' | 'authentication' | 'ready' | 'failed' | 'defunct';
+
+/**
+ * Protocol state of one client connection
+ */
+class BoltConnection {
+  private state: ConnectionState = 'negotiation';
+  private version: BoltVersion = { major: 0, minor: 0 };
+  private handshake: Uint8Array = new Uint8Array(0);
+  private readonly reader = new MessageReader();
+  private transaction: Transaction | null = null;
+  private results: PendingResult[] = [];
+  private nextQid: number = 0;
+  private work: Promise<void> = Promise.resolve();
+  private readonly id: number;
+
+  constructor(
+    private readonly context: BoltContext,
+    private readonly transport: BoltTransport
+  ) {
+    this.id = context.nextConnectionId++;
+  }
+
+  /**
+   * Handle bytes from the client
+   */
+  receive(data: Uint8Array): void {
+    if (this.state === 'defunct') {
+      return;
+    }
+
+    let bytes = data;
+    if (this.state === 'negotiation') {
+      const handshake = new Uint8Array(this.handshake.length + bytes.length);
+      handshake.set(this.handshake);
+      handshake.set(bytes, this.handshake.length);
+      if (handshake.length < HANDSHAKE_SIZE) {
+        this.handshake = handshake;
+        return;
+      }
+
+      const version = negotiateVersion(handshake);
+      this.transport.write(new Uint8Array([0, 0, version?.minor ?? 0, version?.major ?? 0]));
+      if (!version) {
+        this.close();
+        return;
+      }
+      this.version = version;
+      this.state = 'connected';
+      bytes = handshake.subarray(HANDSHAKE_SIZE);
+    }
+
+    for (const message of this.reader.write(bytes)) {
+      // Messages run one at a time, in order, even while waiting for the lock
+      this.work = this.work.then(() => this.handle(message));
+    }
+  }
+
+  /**
+   * Roll back any open transaction and hang up
+   */
+  close(): void {
+    if (this.state === 'defunct') {
+      return;
+    }
+    this.state = 'defunct';
+    this.endTransaction(false);
+    this.transport.end();
+  }
+
+  private async handle(bytes: Uint8Array): Promise<void> {
+    if (this.state === 'defunct') {
+      return;
+    }
+
+    let message: PackStreamValue;
+    try {
+      message = new PackStreamReader(bytes).unpack();
+    } catch (error) {
+      this.fail(error, true);
+      return;
+    }
+    if (!(message instanceof Structure)) {
+      this.fail(new BoltError(INVALID_REQUEST, 'Messages must be structures'), true);
+      return;
+    }
+
+    if (message.tag === REQUEST.GOODBYE) {
+      this.close();
+      return;
+    }
+    if (this.state === 'failed' && message.tag !== REQUEST.RESET) {
+      this.send(RESPONSE.IGNORED, []);
+      return;
+    }
+
+    try {
+      await this.dispatch(message);
+    } catch (error) {
+      // Before authentication there is no session to recover
+      this.fail(error, this.state === 'connected' || this.state === 'authentication');
+    }
+  }
+
+  private async dispatch(message: Structure): Promise<void> {
+    const { tag } = message;
+
+    if (this.state === 'connected') {
+      if (tag !== REQUEST.HELLO) {
+        throw new BoltError(INVALID_REQUEST, 'Expected HELLO');
+      }
+      // From 5.1 credentials come in a separate LOGON message
+      this.state = this.version.major > 5 || (this.version.major === 5 && this.version.minor >= 1) ? 'authentication' : 'ready';
+      this.success({
+        server: `Neo4j/${this.version.major}.${this.version.minor}.0`,
+        connection_id: `bolt-${this.id}`,
+        hints: {},
+      });
+      return;
+    }
+
+    if (this.state === 'authentication') {
+      if (tag !== REQUEST.LOGON) {
+        throw new BoltError(INVALID_REQUEST, 'Expected LOGON');
+      }
+      // Credentials are accepted without checking
+      this.state = 'ready';
+      this.success({});
+      return;
+    }
+
+    switch (tag) {
+      case REQUEST.RESET:
+        this.endTransaction(false);
+        this.results = [];
+        this.state = 'ready';
+        this.success({});
+        return;
+      case REQUEST.RUN:
+        return this.run(message);
+      case REQUEST.PULL:
+      case REQUEST.DISCARD:
+        return this.pull(message, tag === REQUEST.PULL);
+      case REQUEST.BEGIN:
+        return this.begin(message);
+      case REQUEST.COMMIT:
+      case REQUEST.ROLLBACK: {
+        if (!this.transaction) {
+          throw new BoltError(INVALID_REQUEST, 'No transaction is open');
+        }
+        const commit = tag === REQUEST.COMMIT;
+        this.endTransaction(commit);
+        this.success(commit ? { bookmark: this.bookmark() } : {});
+        return;
+      }
+      case REQUEST.LOGOFF:
+        if (this.transaction) {
+          throw new BoltError(INVALID_REQUEST, 'Cannot log off with a transaction open');
+        }
+        this.state = 'authentication';
+        this.success({});
+        return;
+      case REQUEST.ROUTE:
+        return this.route(message);
+      case REQUEST.TELEMETRY:
+        this.success({});
+        return;
+      default:
+        throw new BoltError(INVALID_REQUEST, `Unknown message 0x${tag.toString(16)}`);
+    }
+  }
+
+  private async run(message: Structure): Promise<void> {
+    const [query] = message.fields;
+    if (typeof query !== 'string') {
+      throw new BoltError(INVALID_REQUEST, 'RUN needs a query string');
+    }
+    const params = fromBoltValue(mapField(message, 1)) as Record<string, CypherValue>;
+    this.checkDatabase(mapField(message, 2));
+
+    if (this.transaction) {
+      const result = this.execute(query, params);
+      result.qid = this.nextQid++;
+      this.results.push(result);
+      this.success({ fields: result.columns, t_first: 0, qid: result.qid });
+      return;
+    }
+
+    if (!(await this.acquire())) {
+      return;
+    }
+    let result: PendingResult & { columns: string[] };
+    try {
+      result = this.execute(query, params);
+    } finally {
+      this.context.lock.release();
+    }
+    this.results = [result];
+    this.success({ fields: result.columns, t_first: 0 });
+  }
+
+  private execute(query: string, params: Record<string, CypherValue>): PendingResult & { columns: string[] } {
+    const raw = this.context.graph.cypherRaw(query, Object.keys(params).length > 0 ? params : undefined);
+    return {
+      qid: -1,
+      columns: raw.columns,
+      records: raw.data.map((row) => row.map((cell) => toBoltValue(decodeCypherValue(cell), this.version))),
+      type: isReadOnlyQuery(query) ? 'r' : 'w',
+    };
+  }
+
+  private pull(message: Structure, send: boolean): void {
+    const extra = mapField(message, 0);
+    const n = typeof extra.n === 'number' ? extra.n : -1;
+    const qid = typeof extra.qid === 'number' ? extra.qid : -1;
+
+    const result = qid === -1 ? this.results[this.results.length - 1] : this.results.find((item) => item.qid === qid);
+    if (!result) {
+      throw new BoltError(INVALID_REQUEST, 'No result to pull');
+    }
+
+    const records = result.records.splice(0, n < 0 ? result.records.length : n);
+    if (send) {
+      for (const record of records) {
+        this.send(RESPONSE.RECORD, [record]);
+      }
+    }
+    if (result.records.length > 0) {
+      this.success({ has_more: true });
+      return;
+    }
+
+    this.results = this.results.filter((item) => item !== result);
+    const metadata: PackStreamMap = { type: result.type, t_last: 0, db: this.context.database };
+    if (!this.transaction && result.type === 'w') {
+      metadata.bookmark = this.bookmark();
+    }
+    this.success(metadata);
+  }
+
+  private async begin(message: Structure): Promise<void> {
+    if (this.transaction) {
+      throw new BoltError(INVALID_REQUEST, 'A transaction is already open');
+    }
+    this.checkDatabase(mapField(message, 0));
+
+    if (!(await this.acquire())) {
+      return;
+    }
+    try {
+      this.transaction = this.context.graph.beginTransaction();
+    } catch (error) {
+      this.context.lock.release();
+      throw error;
+    }
+    this.results = [];
+    this.nextQid = 0;
+    this.success({});
+  }
+
+  private route(message: Structure): void {
+    const routing = mapField(message, 0);
+    this.checkDatabase(mapField(message, 2));
+
+    // Clients that connected through a proxy or a wildcard address know best
+    const address = typeof routing.address === 'string' ? routing.address : this.context.address;
+    this.success({
+      rt: {
+        ttl: 300,
+        db: this.context.database,
+        servers: ['WRITE', 'READ', 'ROUTE'].map((role) => ({ addresses: [address], role })),
+      },
+    });
+  }
+
+  private checkDatabase(extra: PackStreamMap): void {
+    if (typeof extra.db === 'string' && extra.db !== this.context.database) {
+      throw new BoltError('Neo.ClientError.Database.DatabaseNotFound', `Database does not exist: ${extra.db}`);
+    }
+  }
+
+  /**
+   * Wait for the graph, giving it back if the client left meanwhile
+   */
+  private async acquire(): Promise<boolean> {
+    await this.context.lock.acquire();
+    if (this.state === 'defunct') {
+      this.context.lock.release();
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Commit or roll back the open transaction, if any, and free the graph
+   */
+  private endTransaction(commit: boolean): void {
+    const transaction = this.transaction;
+    if (!transaction) {
+      return;
+    }
+    this.transaction = null;
+    this.results = [];
+    try {
+      if (commit) {
+        transaction.commit();
+      } else {
+        transaction.rollback();
+      }
+    } finally {
+      this.context.lock.release();
+    }
+  }
+
+  /**
+   * Report an error, rolling back any open transaction
+   *
+   * @param fatal - Hang up afterwards, for errors the session cannot recover from
+   */
+  private fail(error: unknown, fatal: boolean): void {
+    let code: string;
+    let message: string;
+    if (error instanceof BoltError) {
+      ({ code, message } = error);
+    } else {
+      const cause = toGraphQLiteError(error);
+      code = toNeo4jErrorCode(cause);
+      message = cause.message;
+    }
+
+    try {
+      this.endTransaction(false);
+    } catch {
+      // The failure being reported matters more than the rollback's
+    }
+    this.results = [];
+    this.send(RESPONSE.FAILURE, [{ code, message }]);
+
+    if (fatal) {
+      this.close();
+    } else {
+      this.state = 'failed';
+    }
+  }
+
+  private bookmark(): string {
+    return `graphqlite:${this.context.nextBookmark++}`;
+  }
+
+  private success(metadata: PackStreamMap): void {
+    this.send(RESPONSE.SUCCESS, [metadata]);
+  }
+
+  private send(tag: number, fields: PackStreamValue[]): void {
+    this.transport.write(chunkMessage(new PackStreamWriter().pack(new Structure(tag, fields)).toBytes()));
+  }
+}
+
+/**
+ * Serve a graph over the Bolt protocol
+ *
+ * Lets Neo4j drivers and tools connect with `bolt://` or `neo4j://` URLs.
+ * Credentials are accepted without checking, so bind to a public interface
+ * with care. Nodes, relationships and paths are sent as Bolt structures;
+ * parameters may not contain temporal, spatial or byte array values.
+ *
+ * Connections share the graph's single connection: queries run one at a
+ * time, and while a client has a transaction open, other clients wait.
+ *
+ * @param graph - Graph to serve; avoid using it elsewhere while serving
+ * @param options - Port, hostname and database name
+ * @returns The running server
+ *
+ * @example
+ * ```ts
+ * const server = serveBolt(graph, { port: 7687 });
+ * // const driver = neo4j.driver('bolt://127.0.0.1:7687');
+ * await server.stop();
+ * ```
+ */
+export function serveBolt(graph: Graph, options: BoltServeOptions = {}): GraphServer {
+  const hostname = options.hostname ?? DEFAULT_HOSTNAME;
+  const context: BoltContext = {
+    graph,
+    database: options.database ?? DEFAULT_DATABASE,
+    address: '',
+    lock: new GraphLock(),
+    nextConnectionId: 1,
+    nextBookmark: 1,
+  };
+  const transports = new Map<BoltConnection, SocketTransport>();
+
+  const listener = Bun.listen<BoltConnection>({
+    hostname,
+    port: options.port ?? DEFAULT_PORT,
+    socket: {
+      open(socket) {
+        const transport = new SocketTransport(socket);
+        socket.data = new BoltConnection(context, transport);
+        transports.set(socket.data, transport);
+      },
+      data(socket, data) {
+        socket.data.receive(data);
+      },
+      drain(socket) {
+        transports.get(socket.data)?.flush();
+      },
+      close(socket) {
+        transports.delete(socket.data);
+        socket.data.close();
+      },
+      error(socket) {
+        transports.delete(socket.data);
+        socket.data.close();
+      },
+    },
+  });
+  context.address = `${hostname}:${listener.port}`;
+
+  return {
+    url: `bolt://${context.address}`,
+    port: listener.port,
+    async stop() {
+      for (const connection of transports.keys()) {
+        connection.close();
+      }
+      transports.clear();
+      listener.stop(true);
+    },
+  };
+}
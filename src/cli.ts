@@ -0,0 +1,396 @@
+#!/usr/bin/env bun
+/**
+ * graphqlite command-line tool
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+import { Graph } from './graph';
+import { countGraph } from './introspection';
+import type { AlgorithmEngine, CypherResult, CypherValue, CsvNodeFile, CsvEdgeFile, GraphFormat, TextSink } from './types';
+import { GraphQLiteError } from './types';
+import { toGraphQLiteError } from './utils';
+import { CypherScriptSplitter } from './dump';
+import { readText } from './interchange';
+import { formatResult, isOutputFormat } from './format';
+import type { OutputFormat } from './format';
+import { runRepl, parseParams } from './repl';
+import { Migrator } from './migrations';
+
+/**
+ * Streams the command-line tool writes to
+ */
+export interface CliIO {
+  stdout: TextSink;
+  stderr: TextSink;
+}
+
+const USAGE = `Usage: graphqlite <command> <database> [arguments] [options]
+
+Commands:
+  query <db> [cypher]            Run a query, or every statement read from stdin
+  repl <db>                      Start an interactive Cypher shell
+  import <db> <file>             Import a GraphML, GEXF, JSON graph or Cypher file
+  import <db> --nodes <file> [--edges <file>]
+                                 Import neo4j-admin style CSV files
+  export <db> [file]             Export the graph to a file, or stdout
+  stats <db>                     Show node and edge counts
+  migrate <db> [dir]             Apply pending migrations from dir (default: ./migrations)
+  rollback <db> [dir]            Roll back the most recent migration
+  status <db> [dir]              List applied and pending migrations
+  algo pagerank <db>             Rank nodes with PageRank
+  algo louvain <db>              Detect communities with Louvain
+  algo shortest-path <db> <source> <target>
+                                 Find the shortest path between two nodes
+
+Options:
+  -f, --format <format>          Output format for query, stats, status and algo: table, json
+                                 or csv (default: table); file format for import and
+                                 export: graphml, gexf, json-graph or cypher (default:
+                                 from the file extension)
+  -p, --params <json>            Query parameters as a JSON object
+  --extension <path>             Path to the GraphQLite extension
+  --nodes [Label:...=]<file>     Node CSV file, optionally with labels (repeatable)
+  --edges [TYPE=]<file>          Edge CSV file, optionally with a default type (repeatable)
+  --delimiter <char>             CSV field delimiter (default: ,)
+  --array-delimiter <char>       CSV list and label separator (default: ;)
+  --skip-invalid-rows            Report invalid CSV rows instead of aborting
+  --damping <n>                  PageRank damping factor (default: 0.85)
+  --iterations <n>               PageRank iterations (default: 20)
+  --resolution <n>               Louvain resolution (default: 1.0)
+  --weight <property>            Edge property used as shortest-path weight
+  --engine <engine>              Algorithm engine: native or js (default: native)
+  --limit <n>                    Maximum rows printed by algo commands
+  --to <id>                      Last migration to apply, or to keep when rolling back
+  --steps <n>                    Number of migrations to roll back (default: 1)
+  -h, --help                     Show this help
+`;
+
+const FILE_FORMATS: Record<string, GraphFormat | 'cypher'> = {
+  '.graphml': 'graphml',
+  '.gexf': 'gexf',
+  '.json': 'json-graph',
+  '.cypher': 'cypher',
+  '.cql': 'cypher',
+};
+
+const OPTIONS = {
+  format: { type: 'string', short: 'f' },
+  params: { type: 'string', short: 'p' },
+  extension: { type: 'string' },
+  nodes: { type: 'string', multiple: true },
+  edges: { type: 'string', multiple: true },
+  delimiter: { type: 'string' },
+  'array-delimiter': { type: 'string' },
+  'skip-invalid-rows': { type: 'boolean' },
+  damping: { type: 'string' },
+  iterations: { type: 'string' },
+  resolution: { type: 'string' },
+  weight: { type: 'string' },
+  engine: { type: 'string' },
+  limit: { type: 'string' },
+  to: { type: 'string' },
+  steps: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+/**
+ * A mistake in the command line, reported with a pointer to --help
+ */
+class UsageError extends Error {}
+
+function outputFormat(values: CliValues): OutputFormat {
+  const format = values.format ?? 'table';
+  if (!isOutputFormat(format)) {
+    throw new UsageError(`Unknown output format: ${format}`);
+  }
+  return format;
+}
+
+function fileFormat(values: CliValues, file: string | undefined): GraphFormat | 'cypher' {
+  const format = values.format ?? (file ? FILE_FORMATS[path.extname(file).toLowerCase()] : undefined);
+  if (!format) {
+    throw new UsageError('Cannot tell the file format; pass --format graphml, gexf, json-graph or cypher');
+  }
+  const formats: string[] = Object.values(FILE_FORMATS);
+  if (!formats.includes(format)) {
+    throw new UsageError(`Unknown file format: ${format}`);
+  }
+  return format as GraphFormat | 'cypher';
+}
+
+function numberOption(values: CliValues, name: 'damping' | 'iterations' | 'resolution' | 'limit' | 'steps'): number | undefined {
+  const text = values[name];
+  if (text === undefined) {
+    return undefined;
+  }
+  const value = Number(text);
+  if (text.trim() === '' || Number.isNaN(value)) {
+    throw new UsageError(`--${name} must be a number, got ${text}`);
+  }
+  return value;
+}
+
+function requireFile(file: string): string {
+  if (!fs.existsSync(file)) {
+    throw new GraphQLiteError(`File not found: ${file}`, 'INVALID_ARGUMENT');
+  }
+  return file;
+}
+
+/**
+ * Split `prefix=file` into its parts, as in `--nodes Person:Admin=people.csv`
+ */
+export function parseFileSpec(spec: string): { prefix?: string; file: string } {
+  const equals = spec.indexOf('=');
+  return equals === -1 ? { file: spec } : { prefix: spec.slice(0, equals), file: spec.slice(equals + 1) };
+}
+
+function openGraph(dbPath: string, values: CliValues, mustExist: boolean): Graph {
+  if (mustExist && dbPath !== ':memory:' && !fs.existsSync(dbPath)) {
+    throw new GraphQLiteError(`Database not found: ${dbPath}`, 'INVALID_ARGUMENT');
+  }
+  return new Graph(dbPath, values.extension !== undefined ? { extensionPath: values.extension } : undefined);
+}
+
+async function write(sink: TextSink, text: string): Promise<void> {
+  if (text) {
+    await sink.write(text);
+  }
+}
+
+async function query(graph: Graph, cypher: string | undefined, values: CliValues, io: CliIO): Promise<void> {
+  const format = outputFormat(values);
+  const params = values.params !== undefined ? parseParams(values.params) : undefined;
+
+  const run = async (text: string) => {
+    try {
+      await write(io.stdout, formatResult(graph.cypherRaw(text, params), format));
+    } catch (error) {
+      throw toGraphQLiteError(error, { query: text, params });
+    }
+  };
+
+  if (cypher !== undefined) {
+    await run(cypher);
+    return;
+  }
+
+  const splitter = new CypherScriptSplitter();
+  for await (const chunk of readText(Bun.stdin.stream())) {
+    for (const statement of splitter.write(chunk)) {
+      await run(statement.text);
+    }
+  }
+  for (const statement of splitter.end()) {
+    await run(statement.text);
+  }
+}
+
+async function importFiles(graph: Graph, file: string | undefined, values: CliValues, io: CliIO): Promise<void> {
+  if (values.nodes || values.edges) {
+    const nodes = (values.nodes ?? []).map((spec): CsvNodeFile => {
+      const { prefix, file } = parseFileSpec(spec);
+      return { source: Bun.file(requireFile(file)).stream(), name: file, labels: prefix?.split(':').filter(Boolean) };
+    });
+    const edges = (values.edges ?? []).map((spec): CsvEdgeFile => {
+      const { prefix, file } = parseFileSpec(spec);
+      return { source: Bun.file(requireFile(file)).stream(), name: file, type: prefix || undefined };
+    });
+
+    const result = await graph.importCsv({
+      nodes,
+      edges,
+      delimiter: values.delimiter,
+      arrayDelimiter: values['array-delimiter'],
+      skipInvalidRows: values['skip-invalid-rows'],
+    });
+    for (const error of result.errors) {
+      await write(io.stderr, `${error.file}:${error.line}: ${error.message}\n`);
+    }
+    const skipped = result.errors.length > 0 ? `, skipped ${result.errors.length} invalid rows` : '';
+    await write(io.stdout, `Imported ${result.nodes} nodes and ${result.edges} edges${skipped}\n`);
+    return;
+  }
+
+  if (file === undefined) {
+    throw new UsageError('import needs a file, or --nodes and --edges for CSV');
+  }
+  const format = fileFormat(values, file);
+  const source = Bun.file(requireFile(file)).stream();
+
+  if (format === 'cypher') {
+    const { statements } = await graph.restoreCypher(source);
+    await write(io.stdout, `Ran ${statements} statements\n`);
+  } else {
+    const { nodes, edges } = await graph.import(source, { format });
+    await write(io.stdout, `Imported ${nodes} nodes and ${edges} edges\n`);
+  }
+}
+
+async function exportFile(graph: Graph, file: string | undefined, values: CliValues, io: CliIO): Promise<void> {
+  const format = fileFormat(values, file);
+  const writer = file !== undefined ? Bun.file(file).writer() : null;
+  const sink: TextSink = writer ?? io.stdout;
+
+  try {
+    if (format === 'cypher') {
+      await graph.dumpCypher(sink);
+    } else {
+      await graph.export(sink, { format });
+    }
+  } finally {
+    await writer?.end();
+  }
+}
+
+function limitRows(rows: CypherValue[][], values: CliValues): CypherValue[][] {
+  const limit = numberOption(values, 'limit');
+  return limit === undefined ? rows : rows.slice(0, Math.max(limit, 0));
+}
+
+function runAlgorithm(graph: Graph, name: string, args: string[], values: CliValues): CypherResult {
+  const engine = values.engine as AlgorithmEngine | undefined;
+  switch (name) {
+    case 'pagerank': {
+      const ranks = graph.pagerank({
+        damping: numberOption(values, 'damping'),
+        iterations: numberOption(values, 'iterations'),
+        engine,
+      });
+      const rows = Object.entries(ranks).sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+      return { columns: ['node', 'score'], data: limitRows(rows, values) };
+    }
+    case 'louvain': {
+      const communities = graph.louvain({ resolution: numberOption(values, 'resolution'), engine });
+      const rows = Object.entries(communities).sort(([a, x], [b, y]) => x - y || a.localeCompare(b));
+      return { columns: ['node', 'community'], data: limitRows(rows, values) };
+    }
+    case 'shortest-path': {
+      const [source, target] = args;
+      if (source === undefined || target === undefined) {
+        throw new UsageError('algo shortest-path needs a source and a target node id');
+      }
+      const result = graph.shortestPath(source, target, { weight: values.weight, engine });
+      return { columns: ['path', 'distance'], data: result ? [[result.path, result.distance ?? null]] : [] };
+    }
+    default:
+      throw new UsageError(`Unknown algorithm: ${name}; expected pagerank, louvain or shortest-path`);
+  }
+}
+
+async function runMigrations(graph: Graph, command: string, directory: string, values: CliValues, io: CliIO): Promise<void> {
+  const migrator = await Migrator.fromDirectory(graph, requireFile(directory));
+
+  switch (command) {
+    case 'migrate': {
+      const applied = await migrator.migrate({ to: values.to });
+      await write(io.stdout, applied.length > 0 ? applied.map((id) => `Applied ${id}\n`).join('') : 'No pending migrations\n');
+      break;
+    }
+    case 'rollback': {
+      const rolledBack = await migrator.rollback({ steps: numberOption(values, 'steps'), to: values.to });
+      await write(io.stdout, rolledBack.length > 0 ? rolledBack.map((id) => `Rolled back ${id}\n`).join('') : 'Nothing to roll back\n');
+      break;
+    }
+    default: {
+      const rows = migrator
+        .status()
+        .map((status) => [status.id, status.appliedAt === null ? 'pending' : status.defined ? 'applied' : 'missing', status.appliedAt]);
+      await write(io.stdout, formatResult({ columns: ['id', 'status', 'applied_at'], data: rows }, outputFormat(values)));
+    }
+  }
+}
+
+/**
+ * Run the command-line tool
+ *
+ * @param argv - Arguments after the executable and script names
+ * @param io - Streams for output and errors
+ * @returns Exit code: 0 on success, 1 on failure, 2 for a bad command line
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+  let graph: Graph | null = null;
+
+  try {
+    let parsed;
+    try {
+      parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+    const { values, positionals } = parsed;
+    const [command, ...args] = positionals;
+
+    if (values.help || command === undefined || command === 'help') {
+      await write(io.stdout, USAGE);
+      return 0;
+    }
+
+    const [dbPath, ...rest] = command === 'algo' ? args.slice(1) : args;
+    if (dbPath === undefined) {
+      throw new UsageError(`${command} needs a database path`);
+    }
+
+    switch (command) {
+      case 'query':
+        graph = openGraph(dbPath, values, false);
+        await query(graph, rest[0], values, io);
+        break;
+      case 'repl':
+        graph = openGraph(dbPath, values, false);
+        await runRepl(graph, {
+          format: outputFormat(values),
+          historyFile: path.join(os.homedir(), '.graphqlite_history'),
+        });
+        break;
+      case 'import':
+        graph = openGraph(dbPath, values, false);
+        await importFiles(graph, rest[0], values, io);
+        break;
+      case 'export':
+        graph = openGraph(dbPath, values, true);
+        await exportFile(graph, rest[0], values, io);
+        break;
+      case 'stats': {
+        graph = openGraph(dbPath, values, true);
+        const stats = countGraph(graph);
+        await write(io.stdout, formatResult({ columns: ['nodes', 'edges'], data: [[stats.nodes, stats.edges]] }, outputFormat(values)));
+        break;
+      }
+      case 'migrate':
+      case 'rollback':
+      case 'status':
+        graph = openGraph(dbPath, values, command !== 'migrate');
+        await runMigrations(graph, command, rest[0] ?? 'migrations', values, io);
+        break;
+      case 'algo':
+        graph = openGraph(dbPath, values, true);
+        await write(io.stdout, formatResult(runAlgorithm(graph, args[0] as string, rest, values), outputFormat(values)));
+        break;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      await write(io.stderr, `${error.message}\nRun 'graphqlite --help' for usage.\n`);
+      return 2;
+    }
+    await write(io.stderr, `${toGraphQLiteError(error).format()}\n`);
+    return 1;
+  } finally {
+    graph?.close();
+  }
+}
+
+if (import.meta.main) {
+  process.exitCode = await runCli(process.argv.slice(2));
+}
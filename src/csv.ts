@@ -0,0 +1,376 @@
+/**
+ * Streaming CSV parsing and neo4j-admin style header mapping
+ */
+
+import type { CypherValue, CsvNodeFile, CsvEdgeFile, CsvRowError } from './types';
+import { GraphQLiteError } from './types';
+import type { InterchangeRecord, ValueKind } from './interchange';
+import { readText } from './interchange';
+
+/**
+ * A field of a CSV record
+ */
+export interface CsvField {
+  value: string;
+  /** Whether the field was enclosed in quotes, which keeps `""` distinct from an empty field */
+  quoted: boolean;
+}
+
+/**
+ * A CSV record and the line it starts on
+ */
+export interface CsvRecord {
+  fields: CsvField[];
+  line: number;
+}
+
+/**
+ * Incremental RFC 4180 CSV parser
+ *
+ * Quoted fields may contain delimiters, doubled quotes and line breaks.
+ * Carriage returns outside quotes are ignored and blank lines are skipped.
+ */
+export class CsvParser {
+  private field: string = '';
+  private quoted: boolean = false;
+  private inQuotes: boolean = false;
+  private pendingQuote: boolean = false;
+  private fields: CsvField[] = [];
+  private line: number = 1;
+  private recordLine: number = 1;
+  private started: boolean = false;
+
+  constructor(private readonly delimiter: string = ',') {
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+      throw new GraphQLiteError(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`, 'INVALID_ARGUMENT');
+    }
+  }
+
+  /**
+   * Add text and yield every record it completes
+   */
+  *write(chunk: string): Generator<CsvRecord> {
+    let text = chunk;
+    if (!this.started) {
+      this.started = text.length > 0;
+      if (text.startsWith('\uFEFF')) {
+        text = text.slice(1);
+      }
+    }
+
+    for (const char of text) {
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+        } else if (char === '"') {
+          this.pendingQuote = true;
+          continue;
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n') {
+        const record = this.endRecord();
+        this.line++;
+        this.recordLine = this.line;
+        if (record) yield record;
+      } else if (char === '\r') {
+        continue;
+      } else if (char === '"' && this.field === '' && !this.quoted) {
+        this.inQuotes = true;
+        this.quoted = true;
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  /**
+   * Signal the end of input, yielding the last record if it has no newline
+   *
+   * @throws GraphQLiteError with INVALID_INPUT on an unterminated quote
+   */
+  *end(): Generator<CsvRecord> {
+    if (this.inQuotes && !this.pendingQuote) {
+      throw new GraphQLiteError(`Unterminated quoted field starting on line ${this.recordLine}`, 'INVALID_INPUT');
+    }
+    this.inQuotes = false;
+    this.pendingQuote = false;
+
+    const record = this.endRecord();
+    if (record) yield record;
+  }
+
+  private endField(): void {
+    this.fields.push({ value: this.field, quoted: this.quoted });
+    this.field = '';
+    this.quoted = false;
+  }
+
+  private endRecord(): CsvRecord | null {
+    const blank = this.fields.length === 0 && this.field === '' && !this.quoted;
+    this.endField();
+    const record = { fields: this.fields, line: this.recordLine };
+    this.fields = [];
+    return blank ? null : record;
+  }
+}
+
+/**
+ * Parse a single line of CSV text, e.g. a header given as an option
+ */
+export function parseCsvLine(text: string, delimiter: string = ','): string[] {
+  const parser = new CsvParser(delimiter);
+  const records = [...parser.write(text), ...parser.end()];
+  return records[0]?.fields.map((field) => field.value) ?? [];
+}
+
+/**
+ * Escape a value for a CSV field, quoting only when needed
+ */
+export function formatCsvField(value: string, delimiter: string = ','): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * What a CSV column maps to
+ */
+export type CsvColumn =
+  | { role: 'id' | 'labels' | 'start' | 'end' | 'type' | 'ignore' }
+  | { role: 'property'; name: string; kind: ValueKind };
+
+const CSV_TYPES: Record<string, ValueKind> = {
+  int: 'long',
+  long: 'long',
+  short: 'long',
+  byte: 'long',
+  float: 'double',
+  double: 'double',
+  boolean: 'boolean',
+  string: 'string',
+  char: 'string',
+  json: 'json',
+};
+
+const ROLES: Record<string, Exclude<CsvColumn['role'], 'property'>> = {
+  ID: 'id',
+  LABEL: 'labels',
+  START_ID: 'start',
+  END_ID: 'end',
+  TYPE: 'type',
+  IGNORE: 'ignore',
+};
+
+/**
+ * Map neo4j-admin style header fields to columns
+ *
+ * `name:type` declares a property (`int`, `long`, `float`, `double`,
+ * `boolean`, `string`, `json`, optionally with `[]` for lists), `:ID`,
+ * `:LABEL`, `:START_ID`, `:END_ID`, `:TYPE` and `:IGNORE` map the special
+ * columns. ID spaces such as `:ID(Person)` are accepted and ignored.
+ *
+ * @throws GraphQLiteError with INVALID_INPUT for unknown types or roles
+ */
+export function parseCsvHeader(fields: string[]): CsvColumn[] {
+  return fields.map((field): CsvColumn => {
+    const colon = field.lastIndexOf(':');
+    const name = colon === -1 ? field.trim() : field.slice(0, colon).trim();
+    const annotation = colon === -1 ? '' : field.slice(colon + 1).trim().replace(/\(.*\)$/, '');
+
+    const role = ROLES[annotation.toUpperCase()];
+    if (role) {
+      return { role };
+    }
+
+    const list = annotation.endsWith('[]');
+    const typeName = (list ? annotation.slice(0, -2) : annotation || 'string').toLowerCase();
+    const kind = CSV_TYPES[typeName];
+    if (!kind || (list && kind === 'json') || name === '') {
+      throw new GraphQLiteError(`Invalid CSV header field: ${field}`, 'INVALID_INPUT');
+    }
+    return { role: 'property', name, kind: list ? (`${kind}[]` as ValueKind) : kind };
+  });
+}
+
+/**
+ * Convert a field to a value of the given kind
+ *
+ * @throws Error describing the problem if the text does not fit the kind
+ */
+export function coerceCsvValue(text: string, kind: ValueKind, arrayDelimiter: string): CypherValue {
+  if (kind.endsWith('[]')) {
+    const itemKind = kind.slice(0, -2) as ValueKind;
+    return text === '' ? [] : text.split(arrayDelimiter).map((item) => coerceCsvValue(item, itemKind, arrayDelimiter));
+  }
+
+  switch (kind) {
+    case 'long':
+      if (!/^\s*[-+]?\d+\s*$/.test(text)) {
+        throw new Error(`expected an integer, got ${JSON.stringify(text)}`);
+      }
+      return Number(text);
+    case 'double': {
+      const value = Number(text);
+      if (text.trim() === '' || Number.isNaN(value)) {
+        throw new Error(`expected a number, got ${JSON.stringify(text)}`);
+      }
+      return value;
+    }
+    case 'boolean': {
+      const lower = text.trim().toLowerCase();
+      if (lower !== 'true' && lower !== 'false') {
+        throw new Error(`expected true or false, got ${JSON.stringify(text)}`);
+      }
+      return lower === 'true';
+    }
+    case 'json':
+      try {
+        return JSON.parse(text) as CypherValue;
+      } catch {
+        throw new Error(`expected JSON, got ${JSON.stringify(text)}`);
+      }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Options shared by every file of a CSV import
+ */
+export interface CsvReadOptions {
+  delimiter: string;
+  arrayDelimiter: string;
+  /** Called for a bad row; throw to abort the import */
+  onError: (error: CsvRowError) => void;
+}
+
+/**
+ * Error for malformed CSV input, naming the file and line it came from
+ */
+export function csvInputError(name: string, error: unknown, line?: number): GraphQLiteError {
+  const message = error instanceof Error ? error.message : String(error);
+  const where = line === undefined ? name : `${name} line ${line}`;
+  return new GraphQLiteError(`Invalid CSV input: ${where}: ${message}`, 'INVALID_INPUT');
+}
+
+/**
+ * Read one node or edge CSV file as interchange records
+ *
+ * Empty unquoted fields leave the property unset; `""` is an empty string.
+ * Header and quoting errors abort the file; bad rows go to `onError`.
+ */
+export async function* readCsvFile(
+  kind: 'node' | 'edge',
+  file: CsvNodeFile | CsvEdgeFile,
+  name: string,
+  options: CsvReadOptions
+): AsyncGenerator<InterchangeRecord> {
+  const parser = new CsvParser(options.delimiter);
+  let columns: CsvColumn[] | null = null;
+  if (file.header !== undefined) {
+    try {
+      columns = parseCsvHeader(parseCsvLine(file.header, options.delimiter));
+    } catch (error) {
+      throw csvInputError(name, error);
+    }
+  }
+
+  const toRecord = (record: CsvRecord, columns: CsvColumn[]): InterchangeRecord => {
+    if (record.fields.length > columns.length) {
+      throw new Error(`expected ${columns.length} fields, got ${record.fields.length}`);
+    }
+
+    const properties: Record<string, CypherValue> = {};
+    let id: string | undefined;
+    let start: string | undefined;
+    let end: string | undefined;
+    let type = kind === 'edge' ? (file as CsvEdgeFile).type : undefined;
+    const labels = kind === 'node' ? [...((file as CsvNodeFile).labels ?? [])] : [];
+
+    columns.forEach((column, index) => {
+      const field = record.fields[index];
+      if (!field || (field.value === '' && !field.quoted)) {
+        return;
+      }
+      switch (column.role) {
+        case 'id': id = field.value; break;
+        case 'start': start = field.value; break;
+        case 'end': end = field.value; break;
+        case 'type': type = field.value; break;
+        case 'labels':
+          labels.push(...field.value.split(options.arrayDelimiter).filter(Boolean));
+          break;
+        case 'property':
+          try {
+            properties[column.name] = coerceCsvValue(field.value, column.kind, options.arrayDelimiter);
+          } catch (error) {
+            throw new Error(`column ${column.name}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+          break;
+      }
+    });
+
+    if (kind === 'node') {
+      if (id === undefined) {
+        throw new Error('missing :ID value');
+      }
+      return { kind: 'node', id, labels: [...new Set(labels)], properties };
+    }
+
+    if (start === undefined || end === undefined) {
+      throw new Error('missing :START_ID or :END_ID value');
+    }
+    if (!type) {
+      throw new Error('missing :TYPE value and no default type');
+    }
+    return { kind: 'edge', source: start, target: end, type, properties };
+  };
+
+  const convert = (record: CsvRecord): InterchangeRecord | null => {
+    if (!columns) {
+      try {
+        columns = parseCsvHeader(record.fields.map((field) => field.value));
+      } catch (error) {
+        throw csvInputError(name, error, record.line);
+      }
+      return null;
+    }
+    try {
+      return toRecord(record, columns);
+    } catch (error) {
+      options.onError({ file: name, line: record.line, message: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  };
+
+  for await (const chunk of readText(file.source)) {
+    for (const record of parser.write(chunk)) {
+      const converted = convert(record);
+      if (converted) yield converted;
+    }
+  }
+
+  let last: CsvRecord[];
+  try {
+    last = [...parser.end()];
+  } catch (error) {
+    throw csvInputError(name, error);
+  }
+  for (const record of last) {
+    const converted = convert(record);
+    if (converted) yield converted;
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Cypher script dump and restore
+ */
+
+import type { Graph } from './graph';
+import type { CypherValue, DumpOptions, RestoreResult, TextSink, TextSource } from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier, toCypherLiteral, toCypherMap, toGraphQLiteError } from './utils';
+import { readText, writeText } from './interchange';
+import { scanNodeRows, scanEdgeRows } from './import-export';
+
+/**
+ * Generate a Cypher script that recreates a graph
+ *
+ * Nodes come first, ordered by `id`, then relationships ordered by their
+ * endpoints, type and properties. Nodes without an `id` are skipped.
+ */
+export function* writeCypherDump(graph: Graph, pageSize?: number): Generator<string> {
+  yield '// GraphQLite Cypher dump\n';
+
+  for (const row of scanNodeRows(graph, pageSize)) {
+    const labels = row.labels.map((label) => `:${quoteIdentifier(label, 'label')}`).join('');
+    yield `CREATE (n${labels} ${toCypherMap({ ...row.properties, id: row.id })});\n`;
+  }
+
+  // Rows with the same endpoints and type come back in storage order, so
+  // sort each such group by its text
+  let groupKey: string | null = null;
+  let group: string[] = [];
+  for (const row of scanEdgeRows(graph, pageSize)) {
+    const key = JSON.stringify([row.source, row.target, row.type]);
+    if (key !== groupKey) {
+      yield* group.sort();
+      group = [];
+      groupKey = key;
+    }
+    const properties = toCypherMap(row.properties);
+    group.push(
+      `MATCH (a {id: ${toCypherLiteral(row.source)}}), (b {id: ${toCypherLiteral(row.target)}}) ` +
+        `CREATE (a)-[r:${quoteIdentifier(row.type, 'relationship type')}${properties === '{}' ? '' : ` ${properties}`}]->(b);\n`
+    );
+  }
+  yield* group.sort();
+}
+
+/**
+ * A statement read from a Cypher script and the line it starts on
+ */
+export interface CypherStatement {
+  text: string;
+  line: number;
+}
+
+type SplitterState = 'code' | 'single' | 'double' | 'backtick' | 'line-comment' | 'block-comment';
+
+const CLOSING_QUOTES: Partial<Record<SplitterState, string>> = {
+  single: "'",
+  double: '"',
+  backtick: '`',
+};
+
+const UNTERMINATED: Partial<Record<SplitterState, string>> = {
+  single: 'string literal',
+  double: 'string literal',
+  backtick: 'quoted name',
+  'block-comment': 'comment',
+};
+
+/**
+ * Incremental splitter for `;`-separated Cypher scripts
+ *
+ * Semicolons inside string literals and backtick-quoted names do not end a
+ * statement. Comments are removed and empty statements are skipped.
+ */
+export class CypherScriptSplitter {
+  private state: SplitterState = 'code';
+  private escape: boolean = false;
+  private held: string = '';
+  private statement: string = '';
+  private blank: boolean = true;
+  private line: number = 1;
+  private statementLine: number = 1;
+
+  /**
+   * Whether text of an unfinished statement, string or comment is buffered
+   */
+  get pending(): boolean {
+    return !this.blank || this.state === 'block-comment' || CLOSING_QUOTES[this.state] !== undefined;
+  }
+
+  /**
+   * Add text and yield every statement it completes
+   */
+  *write(chunk: string): Generator<CypherStatement> {
+    for (const char of chunk) {
+      const held = this.held;
+      this.held = '';
+
+      switch (this.state) {
+        case 'single':
+        case 'double':
+        case 'backtick':
+          this.append(char);
+          if (this.escape) {
+            this.escape = false;
+          } else if (char === '\\' && this.state !== 'backtick') {
+            this.escape = true;
+          } else if (char === CLOSING_QUOTES[this.state]) {
+            this.state = 'code';
+          }
+          break;
+        case 'line-comment':
+          if (char === '\n') {
+            this.state = 'code';
+            this.append(char);
+          }
+          break;
+        case 'block-comment':
+          if (char === '\n') {
+            this.line++;
+          }
+          if (held === '*' && char === '/') {
+            this.state = 'code';
+            this.statement += ' ';
+          } else if (char === '*') {
+            this.held = '*';
+          }
+          break;
+        case 'code':
+          if (held === '/') {
+            if (char === '/' || char === '*') {
+              this.state = char === '/' ? 'line-comment' : 'block-comment';
+              break;
+            }
+            this.append('/');
+          }
+          if (char === '/') {
+            this.held = '/';
+          } else if (char === ';') {
+            const statement = this.endStatement();
+            if (statement) yield statement;
+          } else {
+            if (char === "'") this.state = 'single';
+            else if (char === '"') this.state = 'double';
+            else if (char === '`') this.state = 'backtick';
+            this.append(char);
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Signal the end of input, yielding a final statement without a semicolon
+   *
+   * @throws GraphQLiteError with INVALID_INPUT on an unterminated string or comment
+   */
+  *end(): Generator<CypherStatement> {
+    const unterminated = UNTERMINATED[this.state];
+    if (unterminated) {
+      throw new GraphQLiteError(`Unterminated ${unterminated} in statement on line ${this.statementLine}`, 'INVALID_INPUT');
+    }
+    if (this.held === '/') {
+      this.append('/');
+    }
+    this.held = '';
+    this.state = 'code';
+
+    const statement = this.endStatement();
+    if (statement) yield statement;
+  }
+
+  private append(char: string): void {
+    if (this.blank && !/\s/.test(char)) {
+      this.blank = false;
+      this.statementLine = this.line;
+    }
+    if (char === '\n') {
+      this.line++;
+    }
+    this.statement += char;
+  }
+
+  private endStatement(): CypherStatement | null {
+    const text = this.statement.trim();
+    this.statement = '';
+    this.blank = true;
+    return text ? { text, line: this.statementLine } : null;
+  }
+}
+
+/**
+ * Write a Cypher script that recreates the graph to a sink
+ */
+export async function dumpCypher(graph: Graph, sink: TextSink, options: DumpOptions = {}): Promise<void> {
+  await writeText(sink, writeCypherDump(graph, options.pageSize));
+}
+
+/**
+ * Run every statement of a Cypher script in one transaction
+ *
+ * @throws GraphQLiteError naming the line of the statement that failed
+ */
+export async function restoreCypher(graph: Graph, source: TextSource): Promise<RestoreResult> {
+  const splitter = new CypherScriptSplitter();
+
+  const run = (statement: CypherStatement): void => {
+    try {
+      graph.cypher(statement.text);
+    } catch (error) {
+      const cause = toGraphQLiteError(error, { query: statement.text });
+      throw new GraphQLiteError(`Statement on line ${statement.line} failed: ${cause.message}`, cause.code, {
+        query: cause.query,
+        line: cause.line,
+        column: cause.column,
+        cause,
+      });
+    }
+  };
+
+  return graph.transactionAsync(async () => {
+    let statements = 0;
+    for await (const chunk of readText(source)) {
+      for (const statement of splitter.write(chunk)) {
+        run(statement);
+        statements++;
+      }
+    }
+    for (const statement of splitter.end()) {
+      run(statement);
+      statements++;
+    }
+    return { statements };
+  });
+}
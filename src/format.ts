@@ -0,0 +1,110 @@
+/**
+ * Text rendering of query results for the command-line tool
+ */
+
+import type { CypherValue, CypherResult } from './types';
+import { GraphQLiteError } from './types';
+import { formatCsvField } from './csv';
+
+/**
+ * Output formats supported by formatResult()
+ */
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+const OUTPUT_FORMATS: ReadonlySet<string> = new Set<OutputFormat>(['table', 'json', 'csv']);
+
+/**
+ * Check whether a string names an OutputFormat
+ */
+export function isOutputFormat(name: string): name is OutputFormat {
+  return OUTPUT_FORMATS.has(name);
+}
+
+/**
+ * Render a single value for a table cell or CSV field
+ *
+ * Strings are shown as-is, null as an empty string and lists and maps as JSON.
+ */
+export function formatCell(value: CypherValue): string {
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Render a result as an aligned text table with a row count
+ *
+ * @example
+ * ```
+ * | name  | age |
+ * |-------|-----|
+ * | Alice | 30  |
+ * (1 row)
+ * ```
+ */
+export function formatTable(result: CypherResult): string {
+  const count = `(${result.data.length} ${result.data.length === 1 ? 'row' : 'rows'})`;
+  if (result.columns.length === 0) {
+    return `${count}\n`;
+  }
+
+  // Keep each cell on one line
+  const cells = result.data.map((row) => result.columns.map((_, i) => formatCell(row[i] ?? null).replace(/\r?\n/g, '\\n')));
+  const widths = result.columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => (row[i] as string).length))
+  );
+  const line = (values: string[]) => `| ${values.map((value, i) => value.padEnd(widths[i] as number)).join(' | ')} |`;
+
+  return [
+    line(result.columns),
+    `|${widths.map((width) => '-'.repeat(width + 2)).join('|')}|`,
+    ...cells.map(line),
+    count,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a result as a JSON array of row objects
+ */
+export function formatJson(result: CypherResult): string {
+  const rows = result.data.map((row) => Object.fromEntries(result.columns.map((column, i) => [column, row[i] ?? null])));
+  return `${JSON.stringify(rows, null, 2)}\n`;
+}
+
+/**
+ * Render a result as CSV with a header line
+ */
+export function formatCsv(result: CypherResult): string {
+  const line = (values: string[]) => values.map((value) => formatCsvField(value)).join(',');
+  return [
+    line(result.columns),
+    ...result.data.map((row) => line(result.columns.map((_, i) => formatCell(row[i] ?? null)))),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a result in the given format
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for an unknown format
+ */
+export function formatResult(result: CypherResult, format: OutputFormat): string {
+  switch (format) {
+    case 'table':
+      return formatTable(result);
+    case 'json':
+      return formatJson(result);
+    case 'csv':
+      return formatCsv(result);
+    default:
+      throw new GraphQLiteError(`Unknown output format: ${String(format)}`, 'INVALID_ARGUMENT');
+  }
+}
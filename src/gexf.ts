@@ -0,0 +1,278 @@
+/**
+ * GEXF 1.3 reader and writer
+ *
+ * Node labels are stored in a `labels` liststring attribute and
+ * relationship types in the edge `label`. Properties map to GEXF attribute
+ * columns, including the list types; mixed-type properties are stored as
+ * JSON strings with their kind recorded in a `gql:type` attribute.
+ */
+
+import type { GraphScan, InterchangeRecord, ValueKind } from './interchange';
+import {
+  collectKinds,
+  encodeValue,
+  decodeValue,
+  isValueKind,
+  invalidInput,
+  TYPE_NAMESPACE,
+  TYPE_ATTRIBUTE,
+} from './interchange';
+import { XmlTokenizer, escapeXml } from './xml';
+import type { XmlEvent } from './xml';
+
+const GEXF_TYPES: Record<ValueKind, string> = {
+  boolean: 'boolean',
+  long: 'long',
+  double: 'double',
+  string: 'string',
+  'boolean[]': 'listboolean',
+  'long[]': 'listlong',
+  'double[]': 'listdouble',
+  'string[]': 'liststring',
+  json: 'string',
+};
+
+const LABELS_ATTRIBUTE = 'labels';
+
+interface GexfAttribute {
+  name: string;
+  kind: ValueKind;
+  default?: string;
+}
+
+function kindFromGexf(attributes: Record<string, string>): ValueKind {
+  const declared = attributes[TYPE_ATTRIBUTE];
+  if (declared !== undefined && isValueKind(declared)) {
+    return declared;
+  }
+
+  const type = (attributes.type ?? 'string').toLowerCase();
+  const list = type.startsWith('list');
+  const base = list ? type.slice(4) : type;
+
+  let kind: ValueKind;
+  if (['integer', 'long', 'short', 'byte'].includes(base)) {
+    kind = 'long';
+  } else if (base === 'float' || base === 'double') {
+    kind = 'double';
+  } else if (base === 'boolean') {
+    kind = 'boolean';
+  } else {
+    kind = 'string';
+  }
+  return list ? (`${kind}[]` as ValueKind) : kind;
+}
+
+function attributeElement(id: string, name: string, kind: ValueKind): string {
+  const typeAttribute = kind === 'json' ? ` ${TYPE_ATTRIBUTE}="json"` : '';
+  return `      <attribute id="${id}" title="${escapeXml(name)}" type="${GEXF_TYPES[kind]}"${typeAttribute}/>\n`;
+}
+
+function attvalueElement(id: string, text: string): string {
+  return `<attvalue for="${id}" value="${escapeXml(text)}"/>`;
+}
+
+/**
+ * Write a graph as GEXF 1.3
+ */
+export function* writeGexf(scan: GraphScan): Generator<string> {
+  const nodeColumns = [...collectKinds(scan.nodes())].map(([name, kind], index) => ({ id: `n${index}`, name, kind }));
+  const edgeColumns = [...collectKinds(scan.edges())].map(([name, kind], index) => ({ id: `e${index}`, name, kind }));
+  const nodeColumnByName = new Map(nodeColumns.map((column) => [column.name, column]));
+  const edgeColumnByName = new Map(edgeColumns.map((column) => [column.name, column]));
+
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield `<gexf xmlns="http://gexf.net/1.3" xmlns:gql="${TYPE_NAMESPACE}" version="1.3">\n`;
+  yield '  <graph defaultedgetype="directed" mode="static">\n';
+  yield '    <attributes class="node">\n';
+  yield attributeElement(LABELS_ATTRIBUTE, 'labels', 'string[]');
+  for (const column of nodeColumns) {
+    yield attributeElement(column.id, column.name, column.kind);
+  }
+  yield '    </attributes>\n';
+  yield '    <attributes class="edge">\n';
+  for (const column of edgeColumns) {
+    yield attributeElement(column.id, column.name, column.kind);
+  }
+  yield '    </attributes>\n';
+
+  yield '    <nodes>\n';
+  for (const node of scan.nodes()) {
+    let line = `      <node id="${escapeXml(String(node.id))}" label="${escapeXml(String(node.id))}"><attvalues>`;
+    line += attvalueElement(LABELS_ATTRIBUTE, encodeValue('string[]', node.labels));
+    for (const [name, value] of Object.entries(node.properties)) {
+      const column = nodeColumnByName.get(name);
+      if (column && value !== null) {
+        line += attvalueElement(column.id, encodeValue(column.kind, value));
+      }
+    }
+    yield `${line}</attvalues></node>\n`;
+  }
+  yield '    </nodes>\n';
+
+  yield '    <edges>\n';
+  let edgeIndex = 0;
+  for (const edge of scan.edges()) {
+    let line =
+      `      <edge id="${edgeIndex++}" source="${escapeXml(String(edge.source))}" target="${escapeXml(String(edge.target))}"` +
+      ` label="${escapeXml(edge.type)}"><attvalues>`;
+    for (const [name, value] of Object.entries(edge.properties)) {
+      const column = edgeColumnByName.get(name);
+      if (column && value !== null) {
+        line += attvalueElement(column.id, encodeValue(column.kind, value));
+      }
+    }
+    yield `${line}</attvalues></edge>\n`;
+  }
+  yield '    </edges>\n';
+
+  yield '  </graph>\n</gexf>\n';
+}
+
+/**
+ * Read nodes and edges from GEXF text
+ *
+ * Dynamic attributes (spells, start/end) are ignored and only the first
+ * value of each attribute is kept.
+ */
+export async function* readGexf(chunks: AsyncIterable<string>): AsyncGenerator<InterchangeRecord> {
+  const tokenizer = new XmlTokenizer();
+  const columns: Record<'node' | 'edge', Map<string, GexfAttribute>> = { node: new Map(), edge: new Map() };
+  let attributeClass: 'node' | 'edge' | null = null;
+  let currentColumn: GexfAttribute | null = null;
+  let defaultText: string | null = null;
+  let record: InterchangeRecord | null = null;
+  let depth = 0;
+
+  const applyValue = (target: InterchangeRecord, id: string, text: string) => {
+    if (target.kind === 'node' && id === LABELS_ATTRIBUTE) {
+      const labels = decodeValue('string[]', text);
+      target.labels = Array.isArray(labels) ? labels.map(String) : [String(labels)];
+      return;
+    }
+
+    const column = columns[target.kind].get(id);
+    const name = column?.name ?? id;
+    if (!(name in target.properties)) {
+      target.properties[name] = decodeValue(column?.kind ?? 'string', text);
+    }
+  };
+
+  const finish = (target: InterchangeRecord): InterchangeRecord => {
+    for (const [id, column] of columns[target.kind]) {
+      if (column.default !== undefined && id !== LABELS_ATTRIBUTE && !(column.name in target.properties)) {
+        target.properties[column.name] = decodeValue(column.kind, column.default);
+      }
+    }
+    return target;
+  };
+
+  const handle = (event: XmlEvent): InterchangeRecord | null => {
+    if (event.type === 'text') {
+      if (defaultText !== null) {
+        defaultText += event.text;
+      }
+      return null;
+    }
+
+    if (event.type === 'close') {
+      switch (event.name) {
+        case 'attributes':
+          attributeClass = null;
+          return null;
+        case 'attribute':
+          currentColumn = null;
+          return null;
+        case 'default':
+          if (currentColumn && defaultText !== null) {
+            currentColumn.default = defaultText;
+          }
+          defaultText = null;
+          return null;
+        case 'node':
+        case 'edge': {
+          depth--;
+          if (depth > 0) {
+            return null;
+          }
+          const finished = record ? finish(record) : null;
+          record = null;
+          return finished;
+        }
+        default:
+          return null;
+      }
+    }
+
+    const { attributes } = event;
+    switch (event.name) {
+      case 'attributes':
+        attributeClass = attributes.class === 'edge' ? 'edge' : 'node';
+        return null;
+      case 'attribute': {
+        if (!attributeClass || attributes.id === undefined) {
+          throw invalidInput('GEXF', '<attribute> outside <attributes> or without an id');
+        }
+        const column: GexfAttribute = { name: attributes.title ?? attributes.id, kind: kindFromGexf(attributes) };
+        columns[attributeClass].set(attributes.id, column);
+        currentColumn = event.selfClosing ? null : column;
+        return null;
+      }
+      case 'default':
+        defaultText = event.selfClosing ? null : '';
+        return null;
+      case 'node':
+      case 'edge': {
+        if (record) {
+          // Nested nodes (hierarchical GEXF) are flattened away
+          if (!event.selfClosing) depth++;
+          return null;
+        }
+        let next: InterchangeRecord;
+        if (event.name === 'node') {
+          if (attributes.id === undefined) {
+            throw invalidInput('GEXF', '<node> without an id');
+          }
+          next = { kind: 'node', id: attributes.id, labels: [], properties: {} };
+        } else {
+          if (attributes.source === undefined || attributes.target === undefined) {
+            throw invalidInput('GEXF', '<edge> without a source and target');
+          }
+          next = {
+            kind: 'edge',
+            source: attributes.source,
+            target: attributes.target,
+            type: attributes.label || attributes.kind || 'RELATED',
+            properties: {},
+          };
+        }
+        if (event.selfClosing) {
+          return finish(next);
+        }
+        record = next;
+        depth = 1;
+        return null;
+      }
+      case 'attvalue': {
+        const id = attributes.for ?? attributes.id;
+        if (record && depth === 1 && id !== undefined && attributes.value !== undefined) {
+          applyValue(record, id, attributes.value);
+        }
+        return null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  for await (const chunk of chunks) {
+    for (const event of tokenizer.write(chunk)) {
+      const output = handle(event);
+      if (output) yield output;
+    }
+  }
+  for (const event of tokenizer.end()) {
+    const output = handle(event);
+    if (output) yield output;
+  }
+}
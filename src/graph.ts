@@ -10,20 +10,162 @@ import type {
   CypherRow,
   CypherResult,
   GraphOptions,
+  JournalMode,
   GraphStats,
+  GraphSchema,
+  IndexInfo,
+  IndexOptions,
+  Transaction,
+  NodeId,
+  NodeInput,
+  EdgeInput,
+  BatchUpsertOptions,
+  BatchUpsertResult,
+  PaginateOptions,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  CsvImportOptions,
+  CsvImportResult,
+  DumpOptions,
+  RestoreResult,
+  TextSink,
+  TextSource,
+  AlgorithmOptions,
   PageRankResult,
   LouvainResult,
   ShortestPathResult,
+  ShortestPathsResult,
+  DegreeCentralityResult,
+  CentralityResult,
+  ComponentsResult,
+  TriangleCountResult,
+  TraversalStep,
+  GraphProjection,
 } from './types';
 import { GraphQLiteError } from './types';
 import {
   parseCypherResult,
   resultToRows,
   resolveExtensionPath,
-  escapeCypherString,
-  formatCypherValue,
-  formatCypherProperties,
+  quoteIdentifier,
+  toGraphQLiteError,
+  appendPageClause,
 } from './utils';
+import { QueryBuilder } from './query';
+import { exportGraph, importGraph, importCsv } from './import-export';
+import { dumpCypher, restoreCypher } from './dump';
+import { countGraph, describeGraph } from './introspection';
+import { createIndex, listIndexes, dropIndex, findIndexedValues } from './indexes';
+import {
+  pagerank,
+  louvain,
+  shortestPath,
+  degreeCentrality,
+  betweennessCentrality,
+  closenessCentrality,
+  weaklyConnectedComponents,
+  stronglyConnectedComponents,
+  labelPropagation,
+  triangleCount,
+  traverse,
+  astar,
+  kShortestPaths,
+  allShortestPaths,
+  shortestPathsFrom,
+} from './algorithms';
+import { loadAdjacency } from './js-engine';
+import { ProjectedGraph } from './projection';
+import { NodeModel, EdgeModel } from './schema';
+import type { NodeDefinition, EdgeDefinition, PropertySchema } from './schema';
+
+/** Default number of items processed per chunk by upsertNodes()/upsertEdges() */
+const DEFAULT_BATCH_CHUNK_SIZE = 500;
+
+/**
+ * Journal modes accepted by GraphOptions.journalMode
+ */
+const JOURNAL_MODES: ReadonlySet<string> = new Set<JournalMode>(['DELETE', 'TRUNCATE', 'PERSIST', 'MEMORY', 'WAL', 'OFF']);
+
+/**
+ * Default number of rows fetched per page by paginate() and friends
+ */
+const DEFAULT_PAGE_SIZE = 1000;
+
+/**
+ * Bind property values as query parameters
+ *
+ * Each value is added to params under a generated name; keys are quoted so
+ * they can contain spaces or other characters that are not valid in a bare
+ * Cypher identifier.
+ *
+ * @returns Pairs of quoted property key and parameter reference
+ * @example bindProperties({ 'first name': 'Al' }, params) => [['`first name`', '$p0']]
+ */
+function bindProperties(
+  properties: Record<string, CypherValue>,
+  params: Record<string, CypherValue>
+): Array<[string, string]> {
+  return Object.entries(properties).map(([key, value], index) => {
+    const name = `p${index}`;
+    params[name] = value;
+    return [quoteIdentifier(key, 'property key'), `$${name}`];
+  });
+}
+
+/**
+ * Copy property values into an UNWIND row as `p0`, `p1`, ... in key order
+ */
+function propertyRow(
+  properties: Record<string, CypherValue>,
+  row: Record<string, CypherValue>
+): Record<string, CypherValue> {
+  Object.values(properties).forEach((value, index) => {
+    row[`p${index}`] = value;
+  });
+  return row;
+}
+
+/**
+ * Quoted property keys paired with the UNWIND row fields propertyRow() fills
+ */
+function rowBindings(keys: string[]): Array<[string, string]> {
+  return keys.map((key, index) => [quoteIdentifier(key, 'property key'), `row.p${index}`]);
+}
+
+/**
+ * Split items into runs of consecutive items with the same key, so each run
+ * can be written by one query without reordering the writes
+ */
+function runsBy<T>(items: T[], key: (item: T) => string): T[][] {
+  const runs: T[][] = [];
+  let last: string | undefined;
+  for (const item of items) {
+    const current = key(item);
+    const run = runs[runs.length - 1];
+    if (run && current === last) {
+      run.push(item);
+    } else {
+      runs.push([item]);
+      last = current;
+    }
+  }
+  return runs;
+}
+
+/**
+ * Edges written by one query share a relationship type and property keys
+ */
+function edgeSignature(item: EdgeInput): string {
+  return JSON.stringify([item.relType || 'RELATED', Object.keys(item.properties ?? {})]);
+}
+
+/**
+ * Row bound to `row` in an UNWIND edge write
+ */
+function edgeRow(item: EdgeInput): Record<string, CypherValue> {
+  return propertyRow(item.properties ?? {}, { source: item.source, target: item.target });
+}
 
 /**
  * A GraphQLite database connection
@@ -33,6 +175,7 @@ import {
 export class Graph {
   private db: Database;
   private extensionLoaded: boolean = false;
+  private transactionDepth: number = 0;
 
   /**
    * Open a GraphQLite database connection
@@ -43,6 +186,20 @@ export class Graph {
   constructor(dbPath: string, options?: GraphOptions) {
     // Open SQLite database
     this.db = new Database(dbPath);
+
+    if (options?.busyTimeout !== undefined) {
+      if (!Number.isInteger(options.busyTimeout) || options.busyTimeout < 0) {
+        throw new GraphQLiteError(`busyTimeout must be a non-negative integer, got ${options.busyTimeout}`, 'INVALID_ARGUMENT');
+      }
+      this.db.run(`PRAGMA busy_timeout = ${options.busyTimeout}`);
+    }
+
+    if (options?.journalMode !== undefined) {
+      if (!JOURNAL_MODES.has(options.journalMode)) {
+        throw new GraphQLiteError(`Unknown journal mode: ${options.journalMode}`, 'INVALID_ARGUMENT');
+      }
+      this.db.run(`PRAGMA journal_mode = ${options.journalMode}`);
+    }
     
     // Enable load_extension if needed
     if (options?.enableLoadExtension !== false) {
@@ -77,7 +234,7 @@ export class Graph {
       
       // Verify file exists
       if (!fs.existsSync(absolutePath)) {
-        throw new GraphQLiteError(`Extension file not found: ${absolutePath}`);
+        throw new GraphQLiteError(`Extension file not found: ${absolutePath}`, 'EXTENSION_NOT_FOUND');
       }
       
       // Use Bun's native loadExtension method
@@ -91,14 +248,16 @@ export class Graph {
       if (testResult?.result?.includes('successfully')) {
         this.extensionLoaded = true;
       } else {
-        throw new GraphQLiteError('Extension loaded but verification failed');
+        throw new GraphQLiteError('Extension loaded but verification failed', 'EXTENSION_LOAD_FAILED');
       }
     } catch (error) {
       if (error instanceof GraphQLiteError) {
         throw error;
       }
       throw new GraphQLiteError(
-        `Failed to load extension from ${extensionPath}: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to load extension from ${extensionPath}: ${error instanceof Error ? error.message : String(error)}`,
+        'EXTENSION_LOAD_FAILED',
+        { cause: error }
       );
     }
   }
@@ -109,7 +268,8 @@ export class Graph {
   private ensureExtensionLoaded(): void {
     if (!this.extensionLoaded) {
       throw new GraphQLiteError(
-        'GraphQLite extension not loaded. Provide extensionPath in constructor options.'
+        'GraphQLite extension not loaded. Provide extensionPath in constructor options.',
+        'EXTENSION_NOT_LOADED'
       );
     }
   }
@@ -135,12 +295,7 @@ export class Graph {
       
       return result?.result || '';
     } catch (error) {
-      if (error instanceof GraphQLiteError) {
-        throw error;
-      }
-      throw new GraphQLiteError(
-        `Cypher query failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toGraphQLiteError(error, { query, params });
     }
   }
 
@@ -167,7 +322,7 @@ export class Graph {
       return [];
     }
 
-    const cypherResult = parseCypherResult(resultStr);
+    const cypherResult = parseCypherResult(resultStr, query, params);
     return resultToRows(cypherResult) as T[];
   }
 
@@ -188,7 +343,171 @@ export class Graph {
       return { columns: [], data: [] };
     }
 
-    return parseCypherResult(resultStr);
+    return parseCypherResult(resultStr, query, params);
+  }
+
+  /**
+   * Iterate over the rows of a query one page at a time
+   *
+   * Only one page of rows is held in memory. The query is re-run with
+   * SKIP/LIMIT (or a keyset parameter, see paginate()) for each page, so give
+   * it an ORDER BY for a stable order and run it inside a transaction if
+   * concurrent writes must not shift rows between pages.
+   *
+   * @param query - Cypher query ending in a RETURN clause
+   * @param options - Parameters, page size and keyset settings
+   *
+   * @example
+   * ```ts
+   * for (const row of graph.cypherIterator('MATCH (n:Person) RETURN n.id AS id ORDER BY id')) {
+   *   console.log(row.id);
+   * }
+   * ```
+   */
+  *cypherIterator<T extends CypherRow = CypherRow>(
+    query: string,
+    options?: PaginateOptions
+  ): Generator<T, void, undefined> {
+    for (const page of this.paginate<T>(query, options)) {
+      yield* page;
+    }
+  }
+
+  /**
+   * Stream the rows of a query, yielding to the event loop between pages
+   *
+   * @param query - Cypher query ending in a RETURN clause
+   * @param options - Parameters, page size and keyset settings
+   *
+   * @example
+   * ```ts
+   * for await (const row of graph.stream('MATCH (n) RETURN n.id AS id ORDER BY id')) {
+   *   await send(row);
+   * }
+   * ```
+   */
+  async *stream<T extends CypherRow = CypherRow>(
+    query: string,
+    options?: PaginateOptions
+  ): AsyncGenerator<T, void, undefined> {
+    for (const page of this.paginate<T>(query, options)) {
+      yield* page;
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  /**
+   * Run a query page by page, yielding each page of rows
+   *
+   * By default pages are fetched by appending `SKIP`/`LIMIT`. With `keyset`
+   * the query itself filters on a parameter (default `$after`) holding the
+   * key of the last row of the previous page (null for the first page), and
+   * only `LIMIT` is appended. Keyset paging stays fast on deep pages.
+   *
+   * @param query - Cypher query ending in a RETURN clause, without SKIP/LIMIT
+   * @param options - Parameters, page size and keyset settings
+   * @throws GraphQLiteError with INVALID_ARGUMENT if the query cannot be paged
+   *
+   * @example
+   * ```ts
+   * const pages = graph.paginate(
+   *   'MATCH (n:Person) WHERE $after IS NULL OR n.id > $after RETURN n.id AS id ORDER BY id',
+   *   { pageSize: 500, keyset: { column: 'id' } }
+   * );
+   * for (const rows of pages) {
+   *   process(rows);
+   * }
+   * ```
+   */
+  *paginate<T extends CypherRow = CypherRow>(
+    query: string,
+    options: PaginateOptions = {}
+  ): Generator<T[], void, undefined> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new GraphQLiteError(`pageSize must be a positive integer, got ${pageSize}`, 'INVALID_ARGUMENT');
+    }
+
+    const keyset = options.keyset;
+    const keyParam = keyset?.param ?? 'after';
+    if (keyset) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(keyParam)) {
+        throw new GraphQLiteError(`Invalid keyset parameter name: ${keyParam}`, 'INVALID_IDENTIFIER');
+      }
+      if (!new RegExp(`\\$${keyParam}\\b`).test(query)) {
+        throw new GraphQLiteError(`Keyset query must filter on $${keyParam}`, 'INVALID_ARGUMENT', { query });
+      }
+      if (!/\bORDER\s+BY\b/i.test(query)) {
+        throw new GraphQLiteError('Keyset query must have an ORDER BY clause', 'INVALID_ARGUMENT', { query });
+      }
+    }
+
+    let skip = 0;
+    let after: CypherValue = keyset?.after ?? null;
+
+    while (true) {
+      const pageQuery = appendPageClause(query, keyset ? 0 : skip, pageSize);
+      const params = keyset ? { ...options.params, [keyParam]: after } : options.params;
+      const rows = this.cypher<T>(pageQuery, params);
+
+      if (rows.length > 0) {
+        yield rows;
+      }
+      if (rows.length < pageSize) {
+        return;
+      }
+
+      if (keyset) {
+        const lastKey = rows[rows.length - 1]?.[keyset.column];
+        if (lastKey === undefined) {
+          throw new GraphQLiteError(`Keyset column ${keyset.column} is not in the result`, 'INVALID_ARGUMENT', { query });
+        }
+        after = lastKey;
+      } else {
+        skip += pageSize;
+      }
+    }
+  }
+
+  /**
+   * Start a typed query builder bound to this graph
+   *
+   * @returns A QueryBuilder whose run() executes through cypher()
+   *
+   * @example
+   * ```ts
+   * const rows = graph.query()
+   *   .match(node('p', 'Person', { name: param('name', 'Alice') }))
+   *   .return({ age: expr<number>('p.age') })
+   *   .run();
+   * ```
+   */
+  query(): QueryBuilder {
+    return new QueryBuilder(this);
+  }
+
+  /**
+   * Get typed create/find/update/delete helpers for a schema definition
+   *
+   * Writes are validated against the definition before any query runs.
+   *
+   * @param definition - Node or edge definition from defineNode()/defineEdge()
+   *
+   * @example
+   * ```ts
+   * const Person = defineNode('Person', { name: 'string', age: 'number?' });
+   * const people = graph.model(Person);
+   * people.create('alice', { name: 'Alice', age: 30 });
+   * ```
+   */
+  model<S extends PropertySchema>(definition: NodeDefinition<string, S>): NodeModel<S>;
+  model<S extends PropertySchema>(definition: EdgeDefinition<string, S>): EdgeModel<S>;
+  model<S extends PropertySchema>(
+    definition: NodeDefinition<string, S> | EdgeDefinition<string, S>
+  ): NodeModel<S> | EdgeModel<S> {
+    return definition.kind === 'node'
+      ? new NodeModel(this, definition)
+      : new EdgeModel(this, definition);
   }
 
   /**
@@ -199,26 +518,100 @@ export class Graph {
   }
 
   /**
-   * Get graph statistics
+   * Count the nodes and relationships in the graph
+   *
+   * Counts what is stored, whether or not the graph is loaded into the
+   * algorithm cache.
    */
   getStats(): GraphStats {
-    try {
-      const stmt = this.db.prepare("SELECT gql_graph_loaded() as result");
-      const result = stmt.get() as { result: string } | undefined;
-      
-      if (result?.result) {
-        const parsed = JSON.parse(result.result);
-        if (parsed.loaded) {
-          return {
-            nodes: parsed.nodes ?? 0,
-            edges: parsed.edges ?? 0,
-          };
-        }
-      }
-      return { nodes: 0, edges: 0 };
-    } catch {
-      return { nodes: 0, edges: 0 };
-    }
+    return countGraph(this);
+  }
+
+  /**
+   * Describe what the graph holds
+   *
+   * Scans every node and relationship, so the counts are exact whether or
+   * not the graph is loaded into the algorithm cache. Property keys are
+   * reported per label and per relationship type with the kinds of value
+   * seen and the share of nodes or relationships lacking a value.
+   *
+   * @example
+   * ```ts
+   * const { labels, relationshipTypes } = graph.schema();
+   * for (const { label, count, properties } of labels) {
+   *   console.log(label, count, properties.map((p) => `${p.key}: ${p.types.join(' | ')}`));
+   * }
+   * ```
+   */
+  schema(): GraphSchema {
+    return describeGraph(this);
+  }
+
+  /**
+   * Index a property of nodes with a label
+   *
+   * Speeds up lookups by the property, including the id lookups made by
+   * upsertNode() and upsertNodes() when the property is `id`. Does nothing if
+   * the label and property are already indexed.
+   *
+   * @param label - Node label
+   * @param property - Property key
+   * @param options - Name of the index
+   * @returns The index, as listed by listIndexes()
+   * @throws GraphQLiteError with INVALID_ARGUMENT if the name is taken or the
+   *   label and property have a unique constraint
+   *
+   * @example
+   * ```ts
+   * graph.createIndex('Person', 'id');
+   * ```
+   */
+  createIndex(label: string, property: string, options?: IndexOptions): IndexInfo {
+    this.ensureExtensionLoaded();
+    return createIndex(this, label, property, false, options);
+  }
+
+  /**
+   * Require nodes with a label to have distinct values of a property
+   *
+   * The property is indexed as by createIndex(). Writes that would give two
+   * nodes with the label the same value fail with CONSTRAINT_VIOLATION and
+   * change nothing.
+   *
+   * @param label - Node label
+   * @param property - Property key
+   * @param options - Name of the constraint
+   * @returns The constraint, as listed by listIndexes()
+   * @throws GraphQLiteError with CONSTRAINT_VIOLATION if existing nodes
+   *   already share a value
+   *
+   * @example
+   * ```ts
+   * graph.createUniqueConstraint('Person', 'email');
+   * graph.cypher("CREATE (:Person {email: 'a@example.com'})");
+   * graph.cypher("CREATE (:Person {email: 'a@example.com'})"); // throws
+   * ```
+   */
+  createUniqueConstraint(label: string, property: string, options?: IndexOptions): IndexInfo {
+    this.ensureExtensionLoaded();
+    return createIndex(this, label, property, true, options);
+  }
+
+  /**
+   * List indexes and unique constraints, sorted by name
+   */
+  listIndexes(): IndexInfo[] {
+    return listIndexes(this);
+  }
+
+  /**
+   * Drop an index or unique constraint
+   *
+   * @param name - Name from listIndexes()
+   * @returns Whether it existed
+   */
+  dropIndex(name: string): boolean {
+    return dropIndex(this, name);
   }
 
   /**
@@ -245,6 +638,218 @@ export class Graph {
     stmt.run();
   }
 
+  /**
+   * Run a function inside a transaction
+   *
+   * The outermost call issues BEGIN/COMMIT; nested calls use SAVEPOINTs so that
+   * an inner failure only rolls back its own work. If the function throws, the
+   * transaction (or savepoint) is rolled back and the error is rethrown.
+   *
+   * @param fn - Function to run; receives this graph
+   * @returns The value returned by fn
+   *
+   * @example
+   * ```ts
+   * graph.transaction(() => {
+   *   graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+   *   graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+   *   graph.upsertEdge('alice', 'bob', {}, 'KNOWS');
+   * });
+   * ```
+   */
+  transaction<T>(fn: (graph: Graph) => T): T {
+    const savepoint = this.beginTransactionScope();
+
+    let result: T;
+    try {
+      result = fn(this);
+    } catch (error) {
+      this.rollbackTransactionScope(savepoint);
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      this.rollbackTransactionScope(savepoint);
+      // Swallow the orphaned promise's outcome; the caller gets the error below
+      result.catch(() => {});
+      throw new GraphQLiteError(
+        'transaction() callback returned a Promise. Use transactionAsync() for async work.',
+        'INVALID_ARGUMENT'
+      );
+    }
+
+    this.commitTransactionScope(savepoint);
+    return result;
+  }
+
+  /**
+   * Run an async function inside a transaction
+   *
+   * Behaves like transaction(), but awaits the function before committing.
+   * The connection is shared, so other queries issued on this graph while the
+   * function is suspended become part of the same transaction.
+   *
+   * @param fn - Async function to run; receives this graph
+   * @returns The value resolved by fn
+   *
+   * @example
+   * ```ts
+   * await graph.transactionAsync(async () => {
+   *   for await (const row of source) {
+   *     graph.upsertNode(row.id, row.properties, 'Person');
+   *   }
+   * });
+   * ```
+   */
+  async transactionAsync<T>(fn: (graph: Graph) => Promise<T> | T): Promise<T> {
+    const savepoint = this.beginTransactionScope();
+
+    let result: T;
+    try {
+      result = await fn(this);
+    } catch (error) {
+      this.rollbackTransactionScope(savepoint);
+      throw error;
+    }
+
+    this.commitTransactionScope(savepoint);
+    return result;
+  }
+
+  /**
+   * Open a transaction that stays open until committed or rolled back
+   *
+   * For transactions whose lifetime is not a single function call, such as
+   * one spanning several requests. Queries issued on this graph while it is
+   * open become part of it. If a transaction is already open, a savepoint is
+   * used, so handles must be finished in the reverse order of opening.
+   *
+   * @returns Handle to commit or roll back the transaction
+   * @throws GraphQLiteError with TRANSACTION_FAILED when committing or rolling
+   *   back a finished handle, or one with a nested handle still open
+   *
+   * @example
+   * ```ts
+   * const tx = graph.beginTransaction();
+   * try {
+   *   graph.cypher("CREATE (:Person {name: 'Alice'})");
+   *   tx.commit();
+   * } catch (error) {
+   *   tx.rollback();
+   *   throw error;
+   * }
+   * ```
+   */
+  beginTransaction(): Transaction {
+    const savepoint = this.beginTransactionScope();
+    const depth = this.transactionDepth;
+    let active = true;
+
+    const finish = (action: string) => {
+      if (!active) {
+        throw new GraphQLiteError(`Cannot ${action} a transaction that has already finished`, 'TRANSACTION_FAILED');
+      }
+      if (this.transactionDepth !== depth) {
+        throw new GraphQLiteError(`Cannot ${action} a transaction while a nested one is open`, 'TRANSACTION_FAILED');
+      }
+      active = false;
+    };
+
+    return {
+      get active() {
+        return active;
+      },
+      commit: () => {
+        finish('commit');
+        this.commitTransactionScope(savepoint);
+      },
+      rollback: () => {
+        finish('roll back');
+        this.rollbackTransactionScope(savepoint);
+      },
+    };
+  }
+
+  /**
+   * Check whether a transaction is currently open on the connection
+   */
+  inTransaction(): boolean {
+    return this.db.inTransaction;
+  }
+
+  /**
+   * Open a transaction, or a savepoint if one is already open
+   *
+   * @returns The savepoint name, or null for a top-level transaction
+   */
+  private beginTransactionScope(): string | null {
+    const savepoint = this.db.inTransaction
+      ? `graphqlite_sp_${this.transactionDepth}`
+      : null;
+
+    try {
+      this.db.run(savepoint ? `SAVEPOINT ${savepoint}` : 'BEGIN');
+    } catch (error) {
+      const cause = toGraphQLiteError(error, {}, 'TRANSACTION_FAILED');
+      throw new GraphQLiteError(`Failed to begin transaction: ${cause.message}`, cause.code, { cause: error });
+    }
+
+    this.transactionDepth++;
+    return savepoint;
+  }
+
+  /**
+   * Commit a transaction or release a savepoint
+   */
+  private commitTransactionScope(savepoint: string | null): void {
+    try {
+      this.db.run(savepoint ? `RELEASE SAVEPOINT ${savepoint}` : 'COMMIT');
+    } catch (error) {
+      this.rollbackTransactionScope(savepoint);
+      const cause = toGraphQLiteError(error, {}, 'TRANSACTION_FAILED');
+      throw new GraphQLiteError(`Failed to commit transaction: ${cause.message}`, cause.code, { cause: error });
+    }
+    this.transactionDepth--;
+  }
+
+  /**
+   * Roll back a transaction or savepoint and resync the algorithm cache
+   */
+  private rollbackTransactionScope(savepoint: string | null): void {
+    this.transactionDepth--;
+
+    try {
+      if (savepoint) {
+        this.db.run(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+        this.db.run(`RELEASE SAVEPOINT ${savepoint}`);
+      } else if (this.db.inTransaction) {
+        this.db.run('ROLLBACK');
+      }
+    } finally {
+      this.resetGraphCache();
+    }
+  }
+
+  /**
+   * Reload the algorithm cache if it is loaded, so it no longer reflects
+   * rolled-back writes
+   */
+  private resetGraphCache(): void {
+    if (!this.extensionLoaded) {
+      return;
+    }
+
+    try {
+      const stmt = this.db.prepare("SELECT gql_graph_loaded() as result");
+      const result = stmt.get() as { result: string } | undefined;
+      if (result?.result && JSON.parse(result.result).loaded) {
+        this.reloadGraph();
+      }
+    } catch {
+      // Cache state is best-effort; the rollback itself already succeeded
+    }
+  }
+
   /**
    * Upsert a node (create if not exists, update if exists)
    * 
@@ -263,25 +868,12 @@ export class Graph {
     label?: string
   ): void {
     this.ensureExtensionLoaded();
+    quoteIdentifier(label || 'Entity', 'label');
 
-    const escapedId = escapeCypherString(nodeId);
-    const nodeLabel = label || 'Entity';
-    const allProperties = { ...properties, id: nodeId };
-
-    // Check if node exists
-    const checkResult = this.cypher(`MATCH (n {id: '${escapedId}'}) RETURN count(n) as cnt`);
-    const exists = checkResult.length > 0 && (checkResult[0]?.cnt as number) > 0;
-
-    if (exists) {
-      // Update existing node - set each property individually
-      for (const [key, value] of Object.entries(properties)) {
-        const valStr = formatCypherValue(value);
-        this.cypher(`MATCH (n {id: '${escapedId}'}) SET n.${key} = ${valStr}`);
-      }
+    if (this.existingNodeIds([nodeId]).has(nodeId)) {
+      this.updateNode(nodeId, properties);
     } else {
-      // Create new node with all properties
-      const propPairs = formatCypherProperties(allProperties);
-      this.cypher(`CREATE (n:${nodeLabel} {${propPairs}})`);
+      this.createNode(nodeId, properties, label ? [label] : []);
     }
   }
 
@@ -306,134 +898,560 @@ export class Graph {
   ): void {
     this.ensureExtensionLoaded();
 
-    const relationshipType = relType || 'RELATED';
-    const escSource = escapeCypherString(sourceId);
-    const escTarget = escapeCypherString(targetId);
+    const relationshipType = quoteIdentifier(relType || 'RELATED', 'relationship type');
 
-    // Check if edge exists
+    // Check if an edge of this type exists
     const checkResult = this.cypher(
-      `MATCH (a {id: '${escSource}'})-[r]->(b {id: '${escTarget}'}) RETURN count(r) as cnt`
+      `MATCH (a {id: $source})-[r:${relationshipType}]->(b {id: $target}) RETURN count(r) as cnt`,
+      { source: sourceId, target: targetId }
     );
     const exists = checkResult.length > 0 && (checkResult[0]?.cnt as number) > 0;
 
     if (exists) {
-      // Update existing edge - set each property individually
-      for (const [key, value] of Object.entries(properties)) {
-        const valStr = formatCypherValue(value);
-        this.cypher(
-          `MATCH (a {id: '${escSource}'})-[r:${relationshipType}]->(b {id: '${escTarget}'}) SET r.${key} = ${valStr}`
-        );
-      }
+      this.updateEdge(sourceId, targetId, properties, relType);
     } else {
-      // Create new edge
-      if (Object.keys(properties).length > 0) {
-        const propPairs = formatCypherProperties(properties);
-        this.cypher(
-          `MATCH (a {id: '${escSource}'}), (b {id: '${escTarget}'}) CREATE (a)-[r:${relationshipType} {${propPairs}}]->(b)`
-        );
-      } else {
-        this.cypher(
-          `MATCH (a {id: '${escSource}'}), (b {id: '${escTarget}'}) CREATE (a)-[r:${relationshipType}]->(b)`
-        );
-      }
+      this.createEdge(sourceId, targetId, properties, relType);
     }
   }
 
   /**
-   * Compute PageRank scores for all nodes
-   * 
-   * @param damping - Damping factor (default: 0.85)
-   * @param iterations - Number of iterations (default: 20)
-   * @returns Map of node IDs to PageRank scores
-   * 
+   * Upsert many nodes in a single transaction
+   *
+   * Items are processed in chunks: each chunk costs one existence lookup plus
+   * one UNWIND write per group of nodes sharing labels and property keys,
+   * instead of one lookup and one write per node.
+   * Passing an async iterable returns a Promise.
+   *
+   * @param items - Nodes to upsert (array, iterable or async iterable)
+   * @param options - Optional batch configuration
+   * @returns Counts of created and updated nodes
+   *
    * @example
    * ```ts
-   * const ranks = graph.pagerank(0.85, 20);
-   * console.log(ranks['alice']); // 0.123...
+   * const { created, updated } = graph.upsertNodes([
+   *   { id: 'alice', properties: { name: 'Alice' }, label: 'Person' },
+   *   { id: 'bob', properties: { name: 'Bob' }, label: 'Person' },
+   * ]);
    * ```
    */
-  pagerank(damping: number = 0.85, iterations: number = 20): PageRankResult {
-    this.ensureExtensionLoaded();
-
-    try {
-      // Use Cypher function: RETURN pageRank(damping, iterations)
-      const query = `RETURN pageRank(${damping}, ${iterations})`;
-      const results = this.cypher<{ column_0: Array<{ node_id: number; user_id?: string; score: number }> }>(query);
-
-      if (results.length > 0 && results[0]?.column_0) {
-        const ranks: PageRankResult = {};
-        const algoResults = results[0].column_0;
-        
-        if (Array.isArray(algoResults)) {
-          for (const row of algoResults) {
-            // Use user_id if available (string ID), otherwise fall back to node_id
-            const id = row.user_id ?? String(row.node_id);
-            if (id && typeof row.score === 'number') {
-              ranks[String(id)] = row.score;
-            }
-          }
-        }
-        
-        return ranks;
-      }
-    } catch (error) {
-      if (error instanceof GraphQLiteError) {
-        throw error;
-      }
-      throw new GraphQLiteError(
-        `PageRank computation failed: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
-
-    return {};
+  upsertNodes(items: Iterable<NodeInput>, options?: BatchUpsertOptions): BatchUpsertResult;
+  upsertNodes(items: AsyncIterable<NodeInput>, options?: BatchUpsertOptions): Promise<BatchUpsertResult>;
+  upsertNodes(
+    items: Iterable<NodeInput> | AsyncIterable<NodeInput>,
+    options?: BatchUpsertOptions
+  ): BatchUpsertResult | Promise<BatchUpsertResult> {
+    return this.runBatch(items, options, (chunk, result) => this.upsertNodeChunk(chunk, result));
   }
 
   /**
-   * Compute Louvain community detection
-   * 
-   * @param resolution - Resolution parameter (default: 1.0)
-   * @returns Map of node IDs to community IDs
-   * 
+   * Upsert many edges in a single transaction
+   *
+   * Edges are matched on source, target and relationship type. Passing an
+   * async iterable returns a Promise.
+   *
+   * @param items - Edges to upsert (array, iterable or async iterable)
+   * @param options - Optional batch configuration
+   * @returns Counts of created and updated edges
+   *
    * @example
    * ```ts
-   * const communities = graph.louvain(1.0);
-   * console.log(communities['alice']); // 0 (community ID)
+   * graph.upsertEdges([
+   *   { source: 'alice', target: 'bob', properties: { since: 2020 }, relType: 'KNOWS' },
+   * ]);
+   * ```
+   */
+  upsertEdges(items: Iterable<EdgeInput>, options?: BatchUpsertOptions): BatchUpsertResult;
+  upsertEdges(items: AsyncIterable<EdgeInput>, options?: BatchUpsertOptions): Promise<BatchUpsertResult>;
+  upsertEdges(
+    items: Iterable<EdgeInput> | AsyncIterable<EdgeInput>,
+    options?: BatchUpsertOptions
+  ): BatchUpsertResult | Promise<BatchUpsertResult> {
+    return this.runBatch(items, options, (chunk, result) => this.upsertEdgeChunk(chunk, result));
+  }
+
+  /**
+   * Create many edges in a single transaction
+   *
+   * Unlike upsertEdges(), existing edges are not looked up, so parallel edges
+   * of the same type between two nodes are kept. Passing an async iterable
+   * returns a Promise.
+   *
+   * @param items - Edges to create (array, iterable or async iterable)
+   * @param options - Optional batch configuration
+   * @returns Count of created edges; `updated` is always 0
+   *
+   * @example
+   * ```ts
+   * graph.createEdges([
+   *   { source: 'alice', target: 'bob', properties: { at: '2024-01-01' }, relType: 'CALLED' },
+   *   { source: 'alice', target: 'bob', properties: { at: '2024-01-02' }, relType: 'CALLED' },
+   * ]);
+   * ```
+   */
+  createEdges(items: Iterable<EdgeInput>, options?: BatchUpsertOptions): BatchUpsertResult;
+  createEdges(items: AsyncIterable<EdgeInput>, options?: BatchUpsertOptions): Promise<BatchUpsertResult>;
+  createEdges(
+    items: Iterable<EdgeInput> | AsyncIterable<EdgeInput>,
+    options?: BatchUpsertOptions
+  ): BatchUpsertResult | Promise<BatchUpsertResult> {
+    return this.runBatch(items, options, (chunk, result) => this.createEdgeChunk(chunk, result));
+  }
+
+  /**
+   * Export every node and edge in an interchange format
+   *
+   * Nodes are identified by their `id` property; nodes without one are
+   * skipped. The graph is read page by page, so only the output of a single
+   * page is held in memory when writing to a sink.
+   *
+   * @param sink - Destination for the text, e.g. `Bun.file(path).writer()`
+   * @param options - Format ('graphml', 'gexf' or 'json-graph') and page size
+   * @returns The document, when no sink is given
+   *
+   * @example
+   * ```ts
+   * const graphml = await graph.export({ format: 'graphml' });
+   *
+   * const writer = Bun.file('graph.gexf').writer();
+   * await graph.export(writer, { format: 'gexf' });
+   * await writer.end();
+   * ```
+   */
+  export(options: ExportOptions): Promise<string>;
+  export(sink: TextSink, options: ExportOptions): Promise<void>;
+  async export(sinkOrOptions: TextSink | ExportOptions, options?: ExportOptions): Promise<string | void> {
+    if (options === undefined) {
+      const chunks: string[] = [];
+      await exportGraph(this, { write: (chunk) => chunks.push(chunk) }, sinkOrOptions as ExportOptions);
+      return chunks.join('');
+    }
+    await exportGraph(this, sinkOrOptions as TextSink, options);
+  }
+
+  /**
+   * Import nodes and edges from an interchange format in one transaction
+   *
+   * Nodes and edges are upserted in batches as the source is read, keeping
+   * labels, relationship types and typed properties. Pass `mode: 'create'`
+   * to keep parallel edges of the same type instead of merging them.
+   *
+   * @param source - Document text, or chunks such as `Bun.file(path).stream()`
+   * @param options - Format ('graphml', 'gexf' or 'json-graph'), batch size and edge mode
+   * @returns Number of nodes and edges read
+   * @throws GraphQLiteError with INVALID_INPUT if the document is malformed
+   *
+   * @example
+   * ```ts
+   * const { nodes, edges } = await graph.import(Bun.file('graph.graphml').stream(), { format: 'graphml' });
+   * ```
+   */
+  import(source: TextSource, options: ImportOptions): Promise<ImportResult> {
+    return importGraph(this, source, options);
+  }
+
+  /**
+   * Bulk load node and edge CSV files in one transaction
+   *
+   * Headers follow neo4j-admin import conventions: `:ID` is stored as the
+   * `id` property, `:LABEL` holds labels separated by `arrayDelimiter`,
+   * `:START_ID`, `:END_ID` and `:TYPE` describe edges, `:IGNORE` skips a
+   * column and other columns become properties typed by their suffix
+   * (`age:int`, `score:float`, `active:boolean`, `tags:string[]`,
+   * `data:json`; untyped columns are strings). Empty fields leave the
+   * property unset. Rows are upserted in batches rather than one at a time.
+   *
+   * @param options - Node and edge files, delimiters, batch size and error handling
+   * @returns Number of nodes and edges imported, plus skipped rows
+   * @throws GraphQLiteError with INVALID_INPUT naming the file and line of
+   *   the first invalid row, unless `skipInvalidRows` is set; nothing is
+   *   written in that case
+   *
+   * @example
+   * ```ts
+   * const result = await graph.importCsv({
+   *   nodes: [{ source: Bun.file('people.csv').stream(), labels: ['Person'] }],
+   *   edges: [{ source: Bun.file('knows.csv').stream(), type: 'KNOWS' }],
+   *   skipInvalidRows: true,
+   * });
+   * for (const error of result.errors) {
+   *   console.warn(`${error.file}:${error.line}: ${error.message}`);
+   * }
+   * ```
+   */
+  importCsv(options: CsvImportOptions): Promise<CsvImportResult> {
+    return importCsv(this, options);
+  }
+
+  /**
+   * Write a Cypher script of CREATE statements that recreates the graph
+   *
+   * The script lists nodes ordered by `id`, then relationships matched by
+   * their endpoints' ids, with property keys sorted. The same graph always
+   * produces the same script, so dumps can be diffed and kept in git. Nodes
+   * without an `id` property are left out, along with their relationships.
+   *
+   * @param sink - Destination for the script, e.g. `Bun.file(path).writer()`
+   * @param options - Page size used while scanning the graph
+   * @returns The script, when no sink is given
+   *
+   * @example
+   * ```ts
+   * const writer = Bun.file('snapshot.cypher').writer();
+   * await graph.dumpCypher(writer);
+   * await writer.end();
+   * ```
+   */
+  dumpCypher(options?: DumpOptions): Promise<string>;
+  dumpCypher(sink: TextSink, options?: DumpOptions): Promise<void>;
+  async dumpCypher(sinkOrOptions?: TextSink | DumpOptions, options?: DumpOptions): Promise<string | void> {
+    if (sinkOrOptions === undefined || !('write' in sinkOrOptions)) {
+      const chunks: string[] = [];
+      await dumpCypher(this, { write: (chunk) => chunks.push(chunk) }, sinkOrOptions);
+      return chunks.join('');
+    }
+    await dumpCypher(this, sinkOrOptions, options);
+  }
+
+  /**
+   * Run a Cypher script, such as one written by dumpCypher(), in one transaction
+   *
+   * Statements are separated by semicolons and comments are ignored. If a
+   * statement fails, nothing from the script is kept.
+   *
+   * @param source - Script text, or chunks such as `Bun.file(path).stream()`
+   * @returns Number of statements run
+   * @throws GraphQLiteError naming the line of the failing statement
+   *
+   * @example
+   * ```ts
+   * const copy = new Graph('copy.db');
+   * await copy.restoreCypher(Bun.file('snapshot.cypher').stream());
    * ```
    */
-  louvain(resolution: number = 1.0): LouvainResult {
+  restoreCypher(source: TextSource): Promise<RestoreResult> {
+    return restoreCypher(this, source);
+  }
+
+  /**
+   * Feed items to a chunk processor inside one transaction
+   */
+  private runBatch<T>(
+    items: Iterable<T> | AsyncIterable<T>,
+    options: BatchUpsertOptions | undefined,
+    processChunk: (chunk: T[], result: BatchUpsertResult) => void
+  ): BatchUpsertResult | Promise<BatchUpsertResult> {
     this.ensureExtensionLoaded();
 
-    try {
-      // Use Cypher function: RETURN louvain(resolution)
-      const query = `RETURN louvain(${resolution})`;
-      const results = this.cypher<{ column_0: Array<{ node_id: number; user_id?: string; community: number }> }>(query);
-
-      if (results.length > 0 && results[0]?.column_0) {
-        const communities: LouvainResult = {};
-        const algoResults = results[0].column_0;
-        
-        if (Array.isArray(algoResults)) {
-          for (const row of algoResults) {
-            // Use user_id if available (string ID), otherwise fall back to node_id
-            const id = row.user_id ?? String(row.node_id);
-            if (id && typeof row.community === 'number') {
-              communities[String(id)] = row.community;
-            }
+    const chunkSize = options?.chunkSize ?? DEFAULT_BATCH_CHUNK_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new GraphQLiteError(`chunkSize must be a positive integer, got ${chunkSize}`, 'INVALID_ARGUMENT');
+    }
+
+    const result: BatchUpsertResult = { created: 0, updated: 0 };
+
+    if (Symbol.asyncIterator in items) {
+      return this.transactionAsync(async () => {
+        let chunk: T[] = [];
+        for await (const item of items) {
+          chunk.push(item);
+          if (chunk.length >= chunkSize) {
+            processChunk(chunk, result);
+            chunk = [];
           }
         }
-        
-        return communities;
+        if (chunk.length > 0) {
+          processChunk(chunk, result);
+        }
+        return result;
+      });
+    }
+
+    return this.transaction(() => {
+      let chunk: T[] = [];
+      for (const item of items) {
+        chunk.push(item);
+        if (chunk.length >= chunkSize) {
+          processChunk(chunk, result);
+          chunk = [];
+        }
       }
-    } catch (error) {
-      if (error instanceof GraphQLiteError) {
-        throw error;
+      if (chunk.length > 0) {
+        processChunk(chunk, result);
       }
-      throw new GraphQLiteError(
-        `Louvain computation failed: ${error instanceof Error ? error.message : String(error)}`
+      return result;
+    });
+  }
+
+  /**
+   * Upsert one chunk of nodes using a single existence lookup
+   *
+   * New nodes are created first, one query per group sharing labels and
+   * property keys, then updates run in input order, one query per run of
+   * updates setting the same keys.
+   */
+  private upsertNodeChunk(chunk: NodeInput[], result: BatchUpsertResult): void {
+    const existing = this.existingNodeIds([...new Set(chunk.map((item) => item.id))]);
+    const creates: NodeInput[] = [];
+    const updates: NodeInput[] = [];
+
+    for (const item of chunk) {
+      if (existing.has(item.id)) {
+        updates.push(item);
+        result.updated++;
+      } else {
+        creates.push(item);
+        existing.add(item.id);
+        result.created++;
+      }
+    }
+
+    const groups = new Map<string, { labels: string; keys: string[]; rows: Array<Record<string, CypherValue>> }>();
+    for (const item of creates) {
+      const properties = { ...item.properties, id: item.id };
+      const labels = item.labels ?? (item.label ? [item.label] : []);
+      const nodeLabels = (labels.length > 0 ? labels : ['Entity'])
+        .map((label) => `:${quoteIdentifier(label, 'label')}`)
+        .join('');
+      const keys = Object.keys(properties);
+      const signature = JSON.stringify([nodeLabels, keys]);
+      let group = groups.get(signature);
+      if (!group) {
+        group = { labels: nodeLabels, keys, rows: [] };
+        groups.set(signature, group);
+      }
+      group.rows.push(propertyRow(properties, {}));
+    }
+    for (const { labels, keys, rows } of groups.values()) {
+      const propPairs = rowBindings(keys).map(([key, value]) => `${key}: ${value}`);
+      this.cypher(`UNWIND $rows AS row CREATE (n${labels} {${propPairs.join(', ')}})`, { rows });
+    }
+
+    const withProperties = updates.filter((item) => Object.keys(item.properties ?? {}).length > 0);
+    for (const run of runsBy(withProperties, (item) => JSON.stringify(Object.keys(item.properties ?? {})))) {
+      const assignments = rowBindings(Object.keys(run[0]?.properties ?? {})).map(([key, value]) => `n.${key} = ${value}`);
+      this.cypher(`UNWIND $rows AS row MATCH (n {id: row.id}) SET ${assignments.join(', ')}`, {
+        rows: run.map((item) => propertyRow(item.properties ?? {}, { id: item.id })),
+      });
+    }
+  }
+
+  /**
+   * Upsert one chunk of edges using a single existence lookup
+   *
+   * Writes are batched like upsertNodeChunk(), grouped by relationship type
+   * and property keys.
+   */
+  private upsertEdgeChunk(chunk: EdgeInput[], result: BatchUpsertResult): void {
+    const edgeKey = (source: NodeId, target: NodeId, relType: string) =>
+      JSON.stringify([source, target, relType]);
+
+    const sources = [...new Set(chunk.map((item) => item.source))];
+    const existing = new Set(
+      this.cypher<{ source: NodeId; target: NodeId; relType: string }>(
+        'MATCH (a)-[r]->(b) WHERE a.id IN $sources RETURN a.id as source, b.id as target, type(r) as relType',
+        { sources }
+      ).map((row) => edgeKey(row.source, row.target, row.relType))
+    );
+    const creates: EdgeInput[] = [];
+    const updates: EdgeInput[] = [];
+
+    for (const item of chunk) {
+      quoteIdentifier(item.relType || 'RELATED', 'relationship type');
+      const key = edgeKey(item.source, item.target, item.relType || 'RELATED');
+      if (existing.has(key)) {
+        updates.push(item);
+        result.updated++;
+      } else {
+        creates.push(item);
+        existing.add(key);
+        result.created++;
+      }
+    }
+
+    this.createEdgeGroups(creates);
+
+    const withProperties = updates.filter((item) => Object.keys(item.properties ?? {}).length > 0);
+    for (const run of runsBy(withProperties, edgeSignature)) {
+      const first = run[0] as EdgeInput;
+      const relationshipType = quoteIdentifier(first.relType || 'RELATED', 'relationship type');
+      const assignments = rowBindings(Object.keys(first.properties ?? {})).map(([key, value]) => `r.${key} = ${value}`);
+      this.cypher(
+        `UNWIND $rows AS row MATCH (a {id: row.source})-[r:${relationshipType}]->(b {id: row.target}) SET ${assignments.join(', ')}`,
+        { rows: run.map(edgeRow) }
       );
     }
+  }
+
+  /**
+   * Create one chunk of edges without looking for existing ones
+   */
+  private createEdgeChunk(chunk: EdgeInput[], result: BatchUpsertResult): void {
+    for (const item of chunk) {
+      quoteIdentifier(item.relType || 'RELATED', 'relationship type');
+    }
+    this.createEdgeGroups(chunk);
+    result.created += chunk.length;
+  }
+
+  /**
+   * Create edges, one query per group sharing relationship type and property keys
+   */
+  private createEdgeGroups(items: EdgeInput[]): void {
+    const groups = new Map<string, EdgeInput[]>();
+    for (const item of items) {
+      const group = groups.get(edgeSignature(item));
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(edgeSignature(item), [item]);
+      }
+    }
+    for (const group of groups.values()) {
+      const first = group[0] as EdgeInput;
+      const relationshipType = quoteIdentifier(first.relType || 'RELATED', 'relationship type');
+      const propPairs = rowBindings(Object.keys(first.properties ?? {})).map(([key, value]) => `${key}: ${value}`);
+      const properties = propPairs.length > 0 ? ` {${propPairs.join(', ')}}` : '';
+      this.cypher(
+        `UNWIND $rows AS row MATCH (a {id: row.source}), (b {id: row.target}) CREATE (a)-[r:${relationshipType}${properties}]->(b)`,
+        { rows: group.map(edgeRow) }
+      );
+    }
+  }
+
+  /**
+   * Find which of the given node ids exist, using the index on `id` if there is one
+   */
+  private existingNodeIds(ids: NodeId[]): Set<NodeId> {
+    return (
+      findIndexedValues(this, 'id', ids) ??
+      new Set(
+        this.cypher<{ id: NodeId }>('MATCH (n) WHERE n.id IN $ids RETURN n.id as id', { ids })
+          .map((row) => row.id)
+      )
+    );
+  }
+
+  /**
+   * Create a node with the given id, properties and labels
+   */
+  private createNode(
+    nodeId: string,
+    properties: Record<string, CypherValue>,
+    labels: string[]
+  ): void {
+    const nodeLabels = (labels.length > 0 ? labels : ['Entity'])
+      .map((label) => `:${quoteIdentifier(label, 'label')}`)
+      .join('');
+    const params: Record<string, CypherValue> = {};
+    const propPairs = bindProperties({ ...properties, id: nodeId }, params)
+      .map(([key, param]) => `${key}: ${param}`);
+    this.cypher(`CREATE (n${nodeLabels} {${propPairs.join(', ')}})`, params);
+  }
+
+  /**
+   * Set properties on an existing node in a single query
+   */
+  private updateNode(nodeId: string, properties: Record<string, CypherValue>): void {
+    const params: Record<string, CypherValue> = { id: nodeId };
+    const assignments = bindProperties(properties, params)
+      .map(([key, param]) => `n.${key} = ${param}`);
+    if (assignments.length === 0) {
+      return;
+    }
+
+    this.cypher(`MATCH (n {id: $id}) SET ${assignments.join(', ')}`, params);
+  }
+
+  /**
+   * Create an edge between two existing nodes
+   */
+  private createEdge(
+    sourceId: string,
+    targetId: string,
+    properties: Record<string, CypherValue>,
+    relType?: string
+  ): void {
+    const relationshipType = quoteIdentifier(relType || 'RELATED', 'relationship type');
+    const params: Record<string, CypherValue> = { source: sourceId, target: targetId };
+    const propPairs = bindProperties(properties, params)
+      .map(([key, param]) => `${key}: ${param}`);
+
+    if (propPairs.length > 0) {
+      this.cypher(
+        `MATCH (a {id: $source}), (b {id: $target}) CREATE (a)-[r:${relationshipType} {${propPairs.join(', ')}}]->(b)`,
+        params
+      );
+    } else {
+      this.cypher(
+        `MATCH (a {id: $source}), (b {id: $target}) CREATE (a)-[r:${relationshipType}]->(b)`,
+        params
+      );
+    }
+  }
+
+  /**
+   * Set properties on an existing edge in a single query
+   */
+  private updateEdge(
+    sourceId: string,
+    targetId: string,
+    properties: Record<string, CypherValue>,
+    relType?: string
+  ): void {
+    const params: Record<string, CypherValue> = { source: sourceId, target: targetId };
+    const assignments = bindProperties(properties, params)
+      .map(([key, param]) => `r.${key} = ${param}`);
+    if (assignments.length === 0) {
+      return;
+    }
+
+    const relationshipType = quoteIdentifier(relType || 'RELATED', 'relationship type');
+    this.cypher(
+      `MATCH (a {id: $source})-[r:${relationshipType}]->(b {id: $target}) SET ${assignments.join(', ')}`,
+      params
+    );
+  }
+
+  /**
+   * Compute PageRank scores for all nodes
+   * 
+   * @param damping - Damping factor (default: 0.85)
+   * @param iterations - Number of iterations (default: 20)
+   * @returns Map of node IDs to PageRank scores
+   * 
+   * @example
+   * ```ts
+   * const ranks = graph.pagerank(0.85, 20);
+   * console.log(ranks['alice']); // 0.123...
+   * const same = graph.pagerank({ damping: 0.85, iterations: 20 });
+   * ```
+   */
+  pagerank(options?: AlgorithmOptions): PageRankResult;
+  pagerank(damping?: number, iterations?: number): PageRankResult;
+  pagerank(dampingOrOptions?: number | AlgorithmOptions, iterations?: number): PageRankResult {
+    this.ensureExtensionLoaded();
+    const options = typeof dampingOrOptions === 'object' ? dampingOrOptions : { damping: dampingOrOptions, iterations };
+    return pagerank(this, options);
+  }
 
-    return {};
+  /**
+   * Compute Louvain community detection
+   * 
+   * @param resolution - Resolution parameter (default: 1.0)
+   * @returns Map of node IDs to community IDs
+   * 
+   * @example
+   * ```ts
+   * const communities = graph.louvain(1.0);
+   * console.log(communities['alice']); // 0 (community ID)
+   * ```
+   */
+  louvain(options?: AlgorithmOptions): LouvainResult;
+  louvain(resolution?: number): LouvainResult;
+  louvain(resolutionOrOptions?: number | AlgorithmOptions): LouvainResult {
+    this.ensureExtensionLoaded();
+    const options = typeof resolutionOrOptions === 'object' ? resolutionOrOptions : { resolution: resolutionOrOptions };
+    return louvain(this, options);
   }
 
   /**
@@ -441,7 +1459,8 @@ export class Graph {
    * 
    * @param sourceId - Source node identifier
    * @param targetId - Target node identifier
-   * @param weight - Optional property name to use as edge weight
+   * @param weight - Optional property name to use as edge weight, or options
+   *   with `weight`
    * @returns Path result with node IDs and optional distance, or null if no path exists
    * 
    * @example
@@ -456,49 +1475,11 @@ export class Graph {
   shortestPath(
     sourceId: string,
     targetId: string,
-    weight?: string
+    weight?: string | AlgorithmOptions
   ): ShortestPathResult | null {
     this.ensureExtensionLoaded();
-
-    try {
-      // Use Cypher function: RETURN dijkstra("source", "target", "weight?")
-      // Escape quotes in IDs
-      const escSource = sourceId.replace(/"/g, '\\"');
-      const escTarget = targetId.replace(/"/g, '\\"');
-      
-      let query: string;
-      if (weight) {
-        const escWeight = weight.replace(/"/g, '\\"');
-        query = `RETURN dijkstra("${escSource}", "${escTarget}", "${escWeight}")`;
-      } else {
-        query = `RETURN dijkstra("${escSource}", "${escTarget}")`;
-      }
-
-      const results = this.cypher<{ column_0: { path: string[]; distance?: number; found?: boolean } }>(query);
-
-      if (results.length > 0 && results[0]?.column_0) {
-        const pathData = results[0].column_0;
-        
-        // Check if path was found
-        if (pathData.found === false || !pathData.path || pathData.path.length === 0) {
-          return null;
-        }
-
-        return {
-          path: pathData.path,
-          distance: pathData.distance,
-        };
-      }
-    } catch (error) {
-      if (error instanceof GraphQLiteError) {
-        throw error;
-      }
-      throw new GraphQLiteError(
-        `Shortest path computation failed: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
-
-    return null;
+    const options = typeof weight === 'object' ? weight : { weight };
+    return shortestPath(this, sourceId, targetId, options);
   }
 
   /**
@@ -506,7 +1487,8 @@ export class Graph {
    * 
    * @param sourceId - Source node identifier
    * @param targetId - Target node identifier
-   * @param weight - Optional property name to use as edge weight
+   * @param weight - Optional property name to use as edge weight, or options
+   *   with `weight`
    * @returns Path result with node IDs and optional distance, or null if no path exists
    * 
    * @example
@@ -517,11 +1499,239 @@ export class Graph {
   dijkstra(
     sourceId: string,
     targetId: string,
-    weight?: string
+    weight?: string | AlgorithmOptions
   ): ShortestPathResult | null {
     return this.shortestPath(sourceId, targetId, weight);
   }
 
+  /**
+   * Count each node's incoming and outgoing relationships
+   * 
+   * @param options - `projection` and `engine`
+   * @returns Map of node IDs to their degrees
+   * 
+   * @example
+   * ```ts
+   * const degrees = graph.degreeCentrality();
+   * console.log(degrees['alice']); // { inDegree: 1, outDegree: 2, degree: 3 }
+   * ```
+   */
+  degreeCentrality(options: AlgorithmOptions = {}): DegreeCentralityResult {
+    this.ensureExtensionLoaded();
+    return degreeCentrality(this, options);
+  }
+
+  /**
+   * Compute betweenness centrality: how often each node lies on the shortest
+   * paths between other nodes
+   * 
+   * @param options - `projection` and `engine`
+   * @returns Map of node IDs to scores
+   */
+  betweennessCentrality(options: AlgorithmOptions = {}): CentralityResult {
+    this.ensureExtensionLoaded();
+    return betweennessCentrality(this, options);
+  }
+
+  /**
+   * Compute closeness centrality: the inverse of each node's average distance
+   * to the nodes it can reach
+   * 
+   * @param options - `projection` and `engine`
+   * @returns Map of node IDs to scores
+   */
+  closenessCentrality(options: AlgorithmOptions = {}): CentralityResult {
+    this.ensureExtensionLoaded();
+    return closenessCentrality(this, options);
+  }
+
+  /**
+   * Find weakly connected components, ignoring relationship direction
+   * 
+   * @param options - `projection` and `engine`
+   * @returns Map of node IDs to component IDs
+   * 
+   * @example
+   * ```ts
+   * const components = graph.weaklyConnectedComponents();
+   * const isolated = components['alice'] !== components['bob'];
+   * ```
+   */
+  weaklyConnectedComponents(options: AlgorithmOptions = {}): ComponentsResult {
+    this.ensureExtensionLoaded();
+    return weaklyConnectedComponents(this, options);
+  }
+
+  /**
+   * Find strongly connected components, in which every node reaches every
+   * other following relationship direction
+   * 
+   * @param options - `projection` and `engine`
+   * @returns Map of node IDs to component IDs
+   */
+  stronglyConnectedComponents(options: AlgorithmOptions = {}): ComponentsResult {
+    this.ensureExtensionLoaded();
+    return stronglyConnectedComponents(this, options);
+  }
+
+  /**
+   * Detect communities by label propagation
+   * 
+   * @param options - `iterations` (default: 10), `projection` and `engine`
+   * @returns Map of node IDs to community IDs
+   */
+  labelPropagation(options: AlgorithmOptions = {}): ComponentsResult {
+    this.ensureExtensionLoaded();
+    return labelPropagation(this, options);
+  }
+
+  /**
+   * Count the triangles through each node, with its clustering coefficient
+   * 
+   * @param options - `projection` and `engine`
+   * @returns Map of node IDs to triangle counts
+   * 
+   * @example
+   * ```ts
+   * const triangles = graph.triangleCount();
+   * console.log(triangles['alice']); // { triangles: 1, clusteringCoefficient: 0.33 }
+   * ```
+   */
+  triangleCount(options: AlgorithmOptions = {}): TriangleCountResult {
+    this.ensureExtensionLoaded();
+    return triangleCount(this, options);
+  }
+
+  /**
+   * Visit nodes breadth-first from a start node
+   * 
+   * @param startId - Start node identifier
+   * @param options - `maxDepth` (default: unlimited), `projection` and `engine`
+   * @returns Nodes in visiting order, starting with the start node at depth 0
+   * 
+   * @example
+   * ```ts
+   * const nearby = graph.bfs('alice', { maxDepth: 2 }).map((step) => step.id);
+   * ```
+   */
+  bfs(startId: string, options: AlgorithmOptions = {}): TraversalStep[] {
+    this.ensureExtensionLoaded();
+    return traverse(this, 'bfs', startId, options);
+  }
+
+  /**
+   * Visit nodes depth-first from a start node
+   * 
+   * @param startId - Start node identifier
+   * @param options - `maxDepth` (default: unlimited), `projection` and `engine`
+   * @returns Nodes in visiting order, starting with the start node at depth 0
+   */
+  dfs(startId: string, options: AlgorithmOptions = {}): TraversalStep[] {
+    this.ensureExtensionLoaded();
+    return traverse(this, 'dfs', startId, options);
+  }
+
+  /**
+   * Find a shortest path with A*, guided by the distance between node
+   * coordinates when `latitude` and `longitude` properties are given
+   * 
+   * @param sourceId - Source node identifier
+   * @param targetId - Target node identifier
+   * @param options - `latitude` and `longitude` property names, `projection` and `engine`
+   * @returns Path result with node IDs and optional distance, or null if no path exists
+   * @throws GraphQLiteError with INVALID_ARGUMENT if only one of `latitude`
+   *   and `longitude` is given
+   * 
+   * @example
+   * ```ts
+   * const route = graph.astar('paris', 'berlin', { latitude: 'lat', longitude: 'lon' });
+   * ```
+   */
+  astar(sourceId: string, targetId: string, options: AlgorithmOptions = {}): ShortestPathResult | null {
+    this.ensureExtensionLoaded();
+    return astar(this, sourceId, targetId, options);
+  }
+
+  /**
+   * Find the k cheapest loopless paths between two nodes with Yen's algorithm
+   *
+   * Runs on the js engine only.
+   * 
+   * @param sourceId - Source node identifier
+   * @param targetId - Target node identifier
+   * @param k - Number of paths to find
+   * @param options - `weight`, `maxDepth` and `maxCost` cutoffs, and `projection`
+   * @returns Up to k paths, cheapest first, with their relationship types and weights
+   * 
+   * @example
+   * ```ts
+   * for (const route of graph.kShortestPaths('paris', 'berlin', 3, { weight: 'km', maxDepth: 6 })) {
+   *   console.log(route.path, route.relationships, route.distance);
+   * }
+   * ```
+   */
+  kShortestPaths(sourceId: string, targetId: string, k: number, options: AlgorithmOptions = {}): ShortestPathResult[] {
+    this.ensureExtensionLoaded();
+    return kShortestPaths(this, sourceId, targetId, k, options);
+  }
+
+  /**
+   * Find every loopless path of the lowest cost between two nodes
+   *
+   * Runs on the js engine only.
+   * 
+   * @param sourceId - Source node identifier
+   * @param targetId - Target node identifier
+   * @param options - `weight`, `maxDepth` and `maxCost` cutoffs, and `projection`
+   * @returns The paths, empty if there is none
+   */
+  allShortestPaths(sourceId: string, targetId: string, options: AlgorithmOptions = {}): ShortestPathResult[] {
+    this.ensureExtensionLoaded();
+    return allShortestPaths(this, sourceId, targetId, options);
+  }
+
+  /**
+   * Find the shortest path from a node to every node it reaches
+   *
+   * Runs on the js engine only.
+   * 
+   * @param sourceId - Source node identifier
+   * @param options - `weight`, `maxDepth` and `maxCost` cutoffs, and `projection`
+   * @returns Map of node IDs to their paths, including the source itself
+   * 
+   * @example
+   * ```ts
+   * const nearby = graph.shortestPathsFrom('depot', { weight: 'minutes', maxCost: 30 });
+   * ```
+   */
+  shortestPathsFrom(sourceId: string, options: AlgorithmOptions = {}): ShortestPathsResult {
+    this.ensureExtensionLoaded();
+    return shortestPathsFrom(this, sourceId, options);
+  }
+
+  /**
+   * Read a projection of the graph into memory
+   *
+   * Algorithms given the result as their `projection` run over it without
+   * reading the graph again, and can keep their results on it with
+   * `mutateProperty`.
+   * 
+   * @param projection - Labels, relationship types, direction and weight to project
+   * @returns The projected graph
+   * @throws GraphQLiteError with INVALID_ARGUMENT for an unknown direction
+   * 
+   * @example
+   * ```ts
+   * const people = graph.project({ labels: ['Person'], direction: 'both' });
+   * graph.pagerank({ projection: people, mutateProperty: 'rank' });
+   * people.writeNodeProperties();
+   * ```
+   */
+  project(projection: GraphProjection = {}): ProjectedGraph {
+    this.ensureExtensionLoaded();
+    return new ProjectedGraph(this, projection, loadAdjacency(this, projection));
+  }
+
   /**
    * Access the underlying SQLite database
    */
@@ -0,0 +1,275 @@
+/**
+ * GraphML reader and writer
+ *
+ * Follows the layout used by Neo4j's GraphML export: node labels go in a
+ * `labels` key as `:A:B`, relationship types in an edge `label` key. Lists
+ * and mixed-type properties are stored as JSON strings, with their kind
+ * recorded in a `gql:type` attribute on the key.
+ */
+
+import type { GraphScan, InterchangeRecord, ValueKind } from './interchange';
+import {
+  collectKinds,
+  encodeValue,
+  decodeValue,
+  isValueKind,
+  invalidInput,
+  TYPE_NAMESPACE,
+  TYPE_ATTRIBUTE,
+} from './interchange';
+import { XmlTokenizer, escapeXml } from './xml';
+import type { XmlEvent } from './xml';
+
+const GRAPHML_TYPES: Partial<Record<ValueKind, string>> = {
+  boolean: 'boolean',
+  long: 'long',
+  double: 'double',
+  string: 'string',
+};
+
+const LABELS_KEY = 'labels';
+const TYPE_KEY = 'label';
+
+interface GraphmlKey {
+  name: string;
+  kind: ValueKind;
+  domain: string;
+  default?: string;
+}
+
+function kindFromGraphml(attributes: Record<string, string>): ValueKind {
+  const declared = attributes[TYPE_ATTRIBUTE];
+  if (declared !== undefined && isValueKind(declared)) {
+    return declared;
+  }
+
+  switch (attributes['attr.type']) {
+    case 'boolean':
+      return 'boolean';
+    case 'int':
+    case 'long':
+      return 'long';
+    case 'float':
+    case 'double':
+      return 'double';
+    default:
+      return 'string';
+  }
+}
+
+function formatLabels(labels: string[]): string {
+  return labels.map((label) => `:${label}`).join('');
+}
+
+function parseLabels(text: string | undefined): string[] {
+  return (text ?? '').split(':').map((label) => label.trim()).filter(Boolean);
+}
+
+function keyElement(id: string, domain: string, name: string, kind: ValueKind): string {
+  const native = GRAPHML_TYPES[kind];
+  const typeAttribute = native ? '' : ` ${TYPE_ATTRIBUTE}="${kind}"`;
+  return `  <key id="${id}" for="${domain}" attr.name="${escapeXml(name)}" attr.type="${native ?? 'string'}"${typeAttribute}/>\n`;
+}
+
+function dataElement(key: string, text: string): string {
+  return `<data key="${key}">${escapeXml(text)}</data>`;
+}
+
+/**
+ * Write a graph as GraphML
+ */
+export function* writeGraphml(scan: GraphScan): Generator<string> {
+  const nodeKeys = [...collectKinds(scan.nodes())].map(([name, kind], index) => ({ id: `n${index}`, name, kind }));
+  const edgeKeys = [...collectKinds(scan.edges())].map(([name, kind], index) => ({ id: `e${index}`, name, kind }));
+  const nodeKeyByName = new Map(nodeKeys.map((key) => [key.name, key]));
+  const edgeKeyByName = new Map(edgeKeys.map((key) => [key.name, key]));
+
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:gql="${TYPE_NAMESPACE}">\n`;
+  yield `  <key id="${LABELS_KEY}" for="node" attr.name="labels" attr.type="string"/>\n`;
+  yield `  <key id="${TYPE_KEY}" for="edge" attr.name="label" attr.type="string"/>\n`;
+  for (const key of nodeKeys) {
+    yield keyElement(key.id, 'node', key.name, key.kind);
+  }
+  for (const key of edgeKeys) {
+    yield keyElement(key.id, 'edge', key.name, key.kind);
+  }
+  yield '  <graph id="G" edgedefault="directed">\n';
+
+  for (const node of scan.nodes()) {
+    const labels = formatLabels(node.labels);
+    let line = `    <node id="${escapeXml(String(node.id))}" labels="${escapeXml(labels)}">${dataElement(LABELS_KEY, labels)}`;
+    for (const [name, value] of Object.entries(node.properties)) {
+      const key = nodeKeyByName.get(name);
+      if (key && value !== null) {
+        line += dataElement(key.id, encodeValue(key.kind, value));
+      }
+    }
+    yield `${line}</node>\n`;
+  }
+
+  let edgeIndex = 0;
+  for (const edge of scan.edges()) {
+    let line =
+      `    <edge id="e${edgeIndex++}" source="${escapeXml(String(edge.source))}" target="${escapeXml(String(edge.target))}"` +
+      ` label="${escapeXml(edge.type)}">${dataElement(TYPE_KEY, edge.type)}`;
+    for (const [name, value] of Object.entries(edge.properties)) {
+      const key = edgeKeyByName.get(name);
+      if (key && value !== null) {
+        line += dataElement(key.id, encodeValue(key.kind, value));
+      }
+    }
+    yield `${line}</edge>\n`;
+  }
+
+  yield '  </graph>\n</graphml>\n';
+}
+
+/**
+ * Read nodes and edges from GraphML text
+ *
+ * Keys may declare defaults; nested graphs and hyperedges are not supported.
+ */
+export async function* readGraphml(chunks: AsyncIterable<string>): AsyncGenerator<InterchangeRecord> {
+  const tokenizer = new XmlTokenizer();
+  const keys = new Map<string, GraphmlKey>();
+  let currentKey: GraphmlKey | null = null;
+  let defaultText: string | null = null;
+  let record: InterchangeRecord | null = null;
+  let data: { key: string; text: string } | null = null;
+
+  const applyData = (target: InterchangeRecord, keyId: string, text: string) => {
+    if (target.kind === 'node' && keyId === LABELS_KEY) {
+      target.labels = parseLabels(text);
+    } else if (target.kind === 'edge' && keyId === TYPE_KEY) {
+      target.type = text.trim() || target.type;
+    } else {
+      const key = keys.get(keyId);
+      target.properties[key?.name ?? keyId] = decodeValue(key?.kind ?? 'string', text);
+    }
+  };
+
+  const finish = (target: InterchangeRecord): InterchangeRecord => {
+    for (const [keyId, key] of keys) {
+      const applies = key.domain === 'all' || key.domain === target.kind;
+      if (applies && key.default !== undefined && keyId !== LABELS_KEY && keyId !== TYPE_KEY && !(key.name in target.properties)) {
+        target.properties[key.name] = decodeValue(key.kind, key.default);
+      }
+    }
+    return target;
+  };
+
+  const handle = (event: XmlEvent): InterchangeRecord | null => {
+    if (event.type === 'text') {
+      if (data) {
+        data.text += event.text;
+      } else if (defaultText !== null) {
+        defaultText += event.text;
+      }
+      return null;
+    }
+
+    if (event.type === 'close') {
+      switch (event.name) {
+        case 'data':
+          if (record && data) {
+            applyData(record, data.key, data.text);
+          }
+          data = null;
+          return null;
+        case 'default':
+          if (currentKey && defaultText !== null) {
+            currentKey.default = defaultText;
+          }
+          defaultText = null;
+          return null;
+        case 'key':
+          currentKey = null;
+          return null;
+        case 'node':
+        case 'edge': {
+          const finished = record ? finish(record) : null;
+          record = null;
+          return finished;
+        }
+        default:
+          return null;
+      }
+    }
+
+    const { attributes } = event;
+    switch (event.name) {
+      case 'key': {
+        const id = attributes.id;
+        if (id === undefined) {
+          throw invalidInput('GraphML', '<key> without an id');
+        }
+        const key: GraphmlKey = { name: attributes['attr.name'] ?? id, kind: kindFromGraphml(attributes), domain: attributes.for ?? 'all' };
+        keys.set(id, key);
+        currentKey = event.selfClosing ? null : key;
+        return null;
+      }
+      case 'default':
+        defaultText = event.selfClosing ? null : '';
+        return null;
+      case 'graph':
+        if (record) {
+          throw invalidInput('GraphML', 'nested graphs are not supported');
+        }
+        return null;
+      case 'node': {
+        if (attributes.id === undefined) {
+          throw invalidInput('GraphML', '<node> without an id');
+        }
+        const node: InterchangeRecord = { kind: 'node', id: attributes.id, labels: parseLabels(attributes.labels), properties: {} };
+        if (event.selfClosing) {
+          return finish(node);
+        }
+        record = node;
+        return null;
+      }
+      case 'edge': {
+        if (attributes.source === undefined || attributes.target === undefined) {
+          throw invalidInput('GraphML', '<edge> without a source and target');
+        }
+        const edge: InterchangeRecord = {
+          kind: 'edge',
+          source: attributes.source,
+          target: attributes.target,
+          type: attributes.label || 'RELATED',
+          properties: {},
+        };
+        if (event.selfClosing) {
+          return finish(edge);
+        }
+        record = edge;
+        return null;
+      }
+      case 'data':
+        if (attributes.key === undefined) {
+          throw invalidInput('GraphML', '<data> without a key');
+        }
+        if (event.selfClosing) {
+          if (record) applyData(record, attributes.key, '');
+        } else {
+          data = { key: attributes.key, text: '' };
+        }
+        return null;
+      case 'hyperedge':
+        throw invalidInput('GraphML', 'hyperedges are not supported');
+      default:
+        return null;
+    }
+  };
+
+  for await (const chunk of chunks) {
+    for (const event of tokenizer.write(chunk)) {
+      const output = handle(event);
+      if (output) yield output;
+    }
+  }
+  for (const event of tokenizer.end()) {
+    const output = handle(event);
+    if (output) yield output;
+  }
+}
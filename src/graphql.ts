@@ -0,0 +1,666 @@
+/**
+ * GraphQL schema generation and resolvers for a graph
+ *
+ * Builds SDL type definitions from the labels, relationship types and
+ * property keys found in a graph, plus resolvers that compile each root
+ * field's whole selection into one Cypher query. The output plugs into any
+ * server that takes `typeDefs` and `resolvers`, such as graphql-js with
+ * @graphql-tools/schema, Apollo Server or GraphQL Yoga; no GraphQL library
+ * is needed here.
+ */
+
+import type { Graph } from './graph';
+import type { CypherValue, GraphSchema, LabelInfo, PropertyKeyInfo, PropertyValueType } from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier } from './utils';
+import type { CompiledQuery } from './query';
+
+// ============================================================================
+// GraphQL syntax tree
+// ============================================================================
+
+/**
+ * The parts of a GraphQL syntax tree value node the compiler reads
+ */
+export type GraphQLValueNode =
+  | { kind: 'Variable'; name: { value: string } }
+  | { kind: 'IntValue' | 'FloatValue'; value: string }
+  | { kind: 'StringValue' | 'EnumValue'; value: string }
+  | { kind: 'BooleanValue'; value: boolean }
+  | { kind: 'NullValue' }
+  | { kind: 'ListValue'; values: readonly GraphQLValueNode[] }
+  | { kind: 'ObjectValue'; fields: readonly { name: { value: string }; value: GraphQLValueNode }[] };
+
+/**
+ * The parts of a GraphQL syntax tree selection the compiler reads
+ */
+export type GraphQLSelectionNode =
+  | GraphQLFieldNode
+  | { kind: 'FragmentSpread'; name: { value: string }; directives?: readonly GraphQLDirectiveNode[] }
+  | { kind: 'InlineFragment'; selectionSet: GraphQLSelectionSetNode; directives?: readonly GraphQLDirectiveNode[] };
+
+export interface GraphQLDirectiveNode {
+  name: { value: string };
+  arguments?: readonly GraphQLArgumentNode[];
+}
+
+export interface GraphQLArgumentNode {
+  name: { value: string };
+  value: GraphQLValueNode;
+}
+
+export interface GraphQLSelectionSetNode {
+  selections: readonly GraphQLSelectionNode[];
+}
+
+export interface GraphQLFieldNode {
+  kind: 'Field';
+  alias?: { value: string };
+  name: { value: string };
+  arguments?: readonly GraphQLArgumentNode[];
+  directives?: readonly GraphQLDirectiveNode[];
+  selectionSet?: GraphQLSelectionSetNode;
+}
+
+/**
+ * The parts of graphql-js's GraphQLResolveInfo the resolvers read
+ */
+export interface GraphQLResolveInfo {
+  fieldNodes: readonly GraphQLFieldNode[];
+  fragments: Record<string, { selectionSet: GraphQLSelectionSetNode }>;
+  variableValues: Record<string, unknown>;
+  path: { key: string | number };
+}
+
+export type GraphQLResolver = (
+  parent: unknown,
+  args: Record<string, unknown>,
+  context: unknown,
+  info: GraphQLResolveInfo
+) => unknown;
+
+/**
+ * Resolvers by type name and field name
+ */
+export type GraphQLResolvers = Record<string, Record<string, GraphQLResolver>>;
+
+/**
+ * Generated schema: SDL for `typeDefs` and matching `resolvers`
+ */
+export interface GraphQLSchemaDefinition {
+  typeDefs: string;
+  resolvers: GraphQLResolvers;
+}
+
+// ============================================================================
+// Schema model
+// ============================================================================
+
+interface PropertyField {
+  name: string;
+  key: string;
+  type: string;
+  /** Whether values are JSON-encoded into a String */
+  json: boolean;
+  /** Whether the field can be filtered on and sorted by */
+  comparable: boolean;
+}
+
+interface RelationshipField {
+  name: string;
+  relType: string;
+  direction: 'out' | 'in';
+  target: NodeType;
+}
+
+interface NodeType {
+  name: string;
+  label: string;
+  properties: PropertyField[];
+  relationships: RelationshipField[];
+  /** Enum of sort orders, or null if nothing can be sorted on */
+  orderEnum: string | null;
+}
+
+interface RootField {
+  type: NodeType;
+  /** The `id` field a lookup matches on, or null for list fields */
+  id: PropertyField | null;
+}
+
+interface GraphQLModel {
+  types: NodeType[];
+  /** Root fields: name to the type they return and, for lookups, the id field */
+  roots: Map<string, RootField>;
+}
+
+const RESERVED_TYPES = new Set(['Query', 'Mutation', 'Subscription', 'String', 'Int', 'Float', 'Boolean', 'ID']);
+const LIST_ARGUMENTS = ['first', 'offset', 'orderBy'];
+const SCALAR_TYPES: Record<string, string> = { string: 'String', integer: 'Int', float: 'Float', boolean: 'Boolean' };
+
+/**
+ * Turn arbitrary text into a valid GraphQL name
+ */
+function toName(text: string): string {
+  let name = text.replace(/[^_0-9A-Za-z]/g, '_');
+  if (!/^[_A-Za-z]/.test(name)) {
+    name = `_${name}`;
+  }
+  return name.startsWith('__') ? `x${name.slice(1)}` : name;
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function upperFirst(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Field name for a relationship type: `ACTED_IN` becomes `actedIn`
+ */
+function relationshipFieldName(type: string): string {
+  if (/^[A-Z0-9_]+$/.test(type)) {
+    const words = type.toLowerCase().split('_').filter(Boolean);
+    return toName(words.map((word, i) => (i === 0 ? word : upperFirst(word))).join('') || type);
+  }
+  return toName(lowerFirst(type));
+}
+
+function pluralize(name: string): string {
+  if (/[^aeiou]y$/i.test(name)) {
+    return `${name.slice(0, -1)}ies`;
+  }
+  if (/(s|x|z|ch|sh)$/i.test(name)) {
+    return `${name}es`;
+  }
+  return `${name}s`;
+}
+
+/**
+ * Hand out names, appending underscores to ones already taken
+ */
+function nameClaimer(taken: Iterable<string> = []): (name: string) => string {
+  const used = new Set(taken);
+  return (name) => {
+    let unique = name;
+    while (used.has(unique)) {
+      unique += '_';
+    }
+    used.add(unique);
+    return unique;
+  };
+}
+
+function propertyType(property: PropertyKeyInfo): Pick<PropertyField, 'type' | 'json' | 'comparable'> {
+  const { key, types, itemTypes } = property;
+  const numeric = (type: PropertyValueType) => type === 'integer' || type === 'float';
+  // Int is 32-bit, so wider integers such as epoch milliseconds need Float
+  const int = property.wideIntegers ? 'Float' : 'Int';
+
+  if (!types.includes('list')) {
+    if (types.every((type) => type === 'integer')) {
+      return { type: int, json: false, comparable: true };
+    }
+    if (types.every(numeric)) {
+      return { type: 'Float', json: false, comparable: true };
+    }
+    if (types.length === 1 && (types[0] === 'string' || types[0] === 'boolean')) {
+      const type = key === 'id' && types[0] === 'string' ? 'ID' : (SCALAR_TYPES[types[0]] as string);
+      return { type, json: false, comparable: true };
+    }
+  } else if (types.length === 1) {
+    if (itemTypes.length === 0) {
+      return { type: '[String]', json: false, comparable: false };
+    }
+    if (itemTypes.every(numeric)) {
+      return { type: itemTypes.includes('float') ? '[Float]' : `[${int}]`, json: false, comparable: false };
+    }
+    const item = itemTypes.length === 1 ? SCALAR_TYPES[itemTypes[0] as string] : undefined;
+    if (item) {
+      return { type: `[${item}]`, json: false, comparable: false };
+    }
+  }
+  return { type: 'String', json: true, comparable: false };
+}
+
+/**
+ * Derive GraphQL types, fields and root fields from a graph schema
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT if the graph has no labels
+ */
+function buildModel(schema: GraphSchema): GraphQLModel {
+  if (schema.labels.length === 0) {
+    throw new GraphQLiteError('Cannot build a GraphQL schema for a graph without labeled nodes', 'INVALID_ARGUMENT');
+  }
+
+  const relationships = schema.relationshipTypes.flatMap(({ type, pairs }) =>
+    pairs.map(({ from, to }) => ({ from, type, to }))
+  );
+
+  const claimType = nameClaimer(RESERVED_TYPES);
+  const types = new Map<string, NodeType>();
+  for (const { label } of schema.labels) {
+    types.set(label, { name: claimType(toName(label)), label, properties: [], relationships: [], orderEnum: null });
+  }
+
+  for (const type of types.values()) {
+    const claimField = nameClaimer(['_labels']);
+    const label = schema.labels.find((info) => info.label === type.label) as LabelInfo;
+    for (const property of label.properties) {
+      type.properties.push({ name: claimField(toName(property.key)), key: property.key, ...propertyType(property) });
+    }
+    if (type.properties.some((field) => field.comparable)) {
+      type.orderEnum = claimType(`${type.name}OrderBy`);
+    }
+
+    // One field per direction and type, or per target label when there are several
+    for (const direction of ['out', 'in'] as const) {
+      const links = relationships.filter((rel) => (direction === 'out' ? rel.from : rel.to) === type.label);
+      for (const link of links) {
+        const targetLabel = direction === 'out' ? link.to : link.from;
+        const target = types.get(targetLabel);
+        if (!target) {
+          continue;
+        }
+        const base = relationshipFieldName(link.type);
+        const name = direction === 'out' ? base : `incoming${upperFirst(base)}`;
+        const ambiguous = links.filter((other) => other.type === link.type).length > 1;
+        type.relationships.push({
+          name: claimField(ambiguous ? `${name}${target.name}` : name),
+          relType: link.type,
+          direction,
+          target,
+        });
+      }
+    }
+  }
+
+  const claimRoot = nameClaimer();
+  const roots = new Map<string, RootField>();
+  for (const type of types.values()) {
+    const id = type.properties.find((field) => field.key === 'id' && field.comparable);
+    if (id) {
+      roots.set(claimRoot(lowerFirst(type.name)), { type, id });
+    }
+    roots.set(claimRoot(pluralize(lowerFirst(type.name))), { type, id: null });
+  }
+
+  return { types: [...types.values()], roots };
+}
+
+function listArguments(type: NodeType): string {
+  const filters = type.properties
+    .filter((field) => field.comparable && !LIST_ARGUMENTS.includes(field.name))
+    .map((field) => `${field.name}: ${field.type}`);
+  const paging = ['first: Int', 'offset: Int'];
+  if (type.orderEnum) {
+    paging.push(`orderBy: [${type.orderEnum}!]`);
+  }
+  return `(${[...filters, ...paging].join(', ')})`;
+}
+
+/**
+ * Print the model as SDL
+ */
+function printModel(model: GraphQLModel): string {
+  const blocks: string[] = [];
+
+  for (const type of model.types) {
+    const lines = [`type ${type.name} {`, `  "Labels of the node"`, `  _labels: [String!]!`];
+    for (const field of type.properties) {
+      if (field.json) {
+        lines.push(`  ${JSON.stringify(`JSON-encoded value of property ${JSON.stringify(field.key)}`)}`);
+      } else if (field.name !== field.key) {
+        lines.push(`  ${JSON.stringify(`Property ${JSON.stringify(field.key)}`)}`);
+      }
+      lines.push(`  ${field.name}: ${field.type}`);
+    }
+    for (const field of type.relationships) {
+      const arrow = field.direction === 'out' ? `-[:${field.relType}]->` : `<-[:${field.relType}]-`;
+      lines.push(`  ${JSON.stringify(`Nodes reached by ${arrow}`)}`);
+      lines.push(`  ${field.name}${listArguments(field.target)}: [${field.target.name}!]!`);
+    }
+    lines.push('}');
+    blocks.push(lines.join('\n'));
+
+    if (type.orderEnum) {
+      const values = type.properties
+        .filter((field) => field.comparable)
+        .flatMap((field) => [`  ${field.name}_ASC`, `  ${field.name}_DESC`]);
+      blocks.push([`enum ${type.orderEnum} {`, ...values, '}'].join('\n'));
+    }
+  }
+
+  const roots = [...model.roots].map(([name, { type, id }]) =>
+    id ? `  ${name}(${id.name}: ${id.type}!): ${type.name}` : `  ${name}${listArguments(type)}: [${type.name}!]!`
+  );
+  blocks.push(['type Query {', ...roots, '}'].join('\n'));
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// ============================================================================
+// Selection compiler
+// ============================================================================
+
+/**
+ * Evaluate an argument value, substituting variables
+ */
+function evaluate(node: GraphQLValueNode, variables: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case 'Variable':
+      return variables[node.name.value];
+    case 'IntValue':
+    case 'FloatValue':
+      return Number(node.value);
+    case 'StringValue':
+    case 'EnumValue':
+    case 'BooleanValue':
+      return node.value;
+    case 'NullValue':
+      return null;
+    case 'ListValue':
+      return node.values.map((value) => evaluate(value, variables));
+    case 'ObjectValue':
+      return Object.fromEntries(node.fields.map((field) => [field.name.value, evaluate(field.value, variables)]));
+  }
+}
+
+function argumentValues(
+  nodes: readonly GraphQLArgumentNode[] | undefined,
+  variables: Record<string, unknown>
+): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  for (const node of nodes ?? []) {
+    args[node.name.value] = evaluate(node.value, variables);
+  }
+  return args;
+}
+
+/**
+ * Compiles a root field and its selection into one Cypher query
+ *
+ * Each relationship field becomes an OPTIONAL MATCH whose rows are
+ * collected back to one per parent before the next field is matched, so
+ * sibling fields never multiply each other's rows.
+ */
+class SelectionCompiler {
+  private readonly params: Record<string, CypherValue> = {};
+  private nextParam: number = 0;
+  private nextVariable: number = 0;
+
+  constructor(
+    private readonly info: Pick<GraphQLResolveInfo, 'fragments' | 'variableValues'>
+  ) {}
+
+  compile(field: RootField, args: Record<string, unknown>, fields: readonly GraphQLFieldNode[]): CompiledQuery {
+    const { type } = field;
+    const single = field.id !== null;
+    const root = this.variable();
+    const clauses = [`MATCH (${root}:${quoteIdentifier(type.label, 'label')})${this.where(root, type, args, single)}`];
+
+    // Root lists default to id order, so pages do not overlap
+    const id = type.properties.find((candidate) => candidate.key === 'id' && candidate.comparable);
+    const orderBy = args.orderBy ?? (id ? [`${id.name}_ASC`] : undefined);
+    const order = single ? [] : this.orderBy(root, type, orderBy);
+    const paging = single ? ' LIMIT 1' : this.paging(args);
+    if (order.length > 0 || paging) {
+      clauses.push(`WITH ${root}${order.length > 0 ? ` ORDER BY ${order.join(', ')}` : ''}${paging}`);
+    }
+
+    const node = this.node(root, type, this.selections(fields), []);
+    clauses.push(...node.clauses);
+    clauses.push(`RETURN ${node.map} AS value${order.length > 0 ? ` ORDER BY ${order.join(', ')}` : ''}`);
+
+    return { query: clauses.join(' '), params: this.params };
+  }
+
+  /**
+   * Clauses and map expression for a node's selected fields
+   *
+   * @param scope - Variables later clauses must carry along
+   * @returns The clauses, the map, and the variables holding its collected lists
+   */
+  private node(
+    variable: string,
+    type: NodeType,
+    selections: Map<string, GraphQLFieldNode[]>,
+    scope: string[]
+  ): { clauses: string[]; map: string; lists: string[] } {
+    const clauses: string[] = [];
+    const entries: string[] = [];
+    const lists: string[] = [];
+
+    for (const [key, nodes] of selections) {
+      const field = nodes[0] as GraphQLFieldNode;
+      const name = field.name.value;
+      const entryKey = quoteIdentifier(key, 'field');
+
+      if (name === '_labels') {
+        entries.push(`${entryKey}: labels(${variable})`);
+        continue;
+      }
+      const property = type.properties.find((candidate) => candidate.name === name);
+      if (property) {
+        entries.push(`${entryKey}: ${variable}.${quoteIdentifier(property.key, 'property key')}`);
+        continue;
+      }
+      const relationship = type.relationships.find((candidate) => candidate.name === name);
+      if (!relationship) {
+        continue;
+      }
+
+      const args = argumentValues(field.arguments, this.info.variableValues);
+      const carried = [...scope, variable, ...lists];
+      const target = this.variable();
+      const rel = `[:${quoteIdentifier(relationship.relType, 'relationship type')}]`;
+      const pattern =
+        relationship.direction === 'out'
+          ? `(${variable})-${rel}->(${target}:${quoteIdentifier(relationship.target.label, 'label')})`
+          : `(${variable})<-${rel}-(${target}:${quoteIdentifier(relationship.target.label, 'label')})`;
+      clauses.push(`OPTIONAL MATCH ${pattern}${this.where(target, relationship.target, args, false)}`);
+
+      const inner = this.node(target, relationship.target, this.selections(nodes), carried);
+      clauses.push(...inner.clauses);
+
+      const order = this.orderBy(target, relationship.target, args.orderBy);
+      if (order.length > 0) {
+        clauses.push(`WITH ${[...carried, target, ...inner.lists].join(', ')} ORDER BY ${order.join(', ')}`);
+      }
+      const list = `${target}_list`;
+      clauses.push(
+        `WITH ${[...carried, `collect(CASE WHEN ${target} IS NULL THEN NULL ELSE ${inner.map} END) AS ${list}`].join(', ')}`
+      );
+      lists.push(list);
+      entries.push(`${entryKey}: ${list}${this.slice(args)}`);
+    }
+
+    return { clauses, map: `{${entries.join(', ')}}`, lists };
+  }
+
+  /**
+   * Merge the selections of a field's nodes by response key, expanding fragments
+   */
+  private selections(nodes: readonly GraphQLFieldNode[]): Map<string, GraphQLFieldNode[]> {
+    const fields = new Map<string, GraphQLFieldNode[]>();
+    const visit = (selections: readonly GraphQLSelectionNode[]) => {
+      for (const selection of selections) {
+        if (!this.included(selection.directives)) {
+          continue;
+        }
+        if (selection.kind === 'Field') {
+          const key = selection.alias?.value ?? selection.name.value;
+          fields.set(key, [...(fields.get(key) ?? []), selection]);
+        } else if (selection.kind === 'InlineFragment') {
+          visit(selection.selectionSet.selections);
+        } else {
+          const fragment = this.info.fragments[selection.name.value];
+          if (fragment) {
+            visit(fragment.selectionSet.selections);
+          }
+        }
+      }
+    };
+    for (const node of nodes) {
+      visit(node.selectionSet?.selections ?? []);
+    }
+    return fields;
+  }
+
+  /**
+   * Apply @skip and @include
+   */
+  private included(directives: readonly GraphQLDirectiveNode[] | undefined): boolean {
+    for (const directive of directives ?? []) {
+      const condition = argumentValues(directive.arguments, this.info.variableValues).if;
+      if ((directive.name.value === 'skip' && condition === true) || (directive.name.value === 'include' && condition === false)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private where(variable: string, type: NodeType, args: Record<string, unknown>, single: boolean): string {
+    const conditions: string[] = [];
+    for (const field of type.properties) {
+      if (!field.comparable || (!single && LIST_ARGUMENTS.includes(field.name)) || !(field.name in args)) {
+        continue;
+      }
+      const value = args[field.name];
+      if (value === undefined) {
+        continue;
+      }
+      const property = `${variable}.${quoteIdentifier(field.key, 'property key')}`;
+      conditions.push(value === null ? `${property} IS NULL` : `${property} = ${this.param(value as CypherValue)}`);
+    }
+    return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  /**
+   * Sort expressions for an orderBy argument
+   */
+  private orderBy(variable: string, type: NodeType, orderBy: unknown): string[] {
+    const values = orderBy === undefined || orderBy === null ? [] : Array.isArray(orderBy) ? orderBy : [orderBy];
+    return values.map((value) => {
+      const match = typeof value === 'string' ? /^(.*)_(ASC|DESC)$/.exec(value) : null;
+      const field = match ? type.properties.find((candidate) => candidate.comparable && candidate.name === match[1]) : undefined;
+      if (!match || !field) {
+        throw new GraphQLiteError(`Invalid orderBy value for ${type.name}: ${String(value)}`, 'INVALID_ARGUMENT');
+      }
+      return `${variable}.${quoteIdentifier(field.key, 'property key')} ${match[2]}`;
+    });
+  }
+
+  private paging(args: Record<string, unknown>): string {
+    const { first, offset } = this.window(args);
+    return `${offset > 0 ? ` SKIP ${offset}` : ''}${first !== undefined ? ` LIMIT ${first}` : ''}`;
+  }
+
+  private slice(args: Record<string, unknown>): string {
+    const { first, offset } = this.window(args);
+    if (first === undefined) {
+      return offset > 0 ? `[${offset}..]` : '';
+    }
+    return `[${offset}..${offset + first}]`;
+  }
+
+  private window(args: Record<string, unknown>): { first?: number; offset: number } {
+    const count = (name: string): number | undefined => {
+      const value = args[name];
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+        throw new GraphQLiteError(`${name} must be a non-negative integer, got ${String(value)}`, 'INVALID_ARGUMENT');
+      }
+      return value;
+    };
+    return { first: count('first'), offset: count('offset') ?? 0 };
+  }
+
+  private param(value: CypherValue): string {
+    const name = `p${this.nextParam++}`;
+    this.params[name] = value;
+    return `$${name}`;
+  }
+
+  private variable(): string {
+    return `n${this.nextVariable++}`;
+  }
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * Read a field's value from its parent by response key, so aliased fields
+ * with different arguments each get their own value
+ */
+const byResponseKey: GraphQLResolver = (parent, _args, _context, info) =>
+  (parent as Record<string | number, unknown> | null)?.[info.path.key] ?? null;
+
+const jsonByResponseKey: GraphQLResolver = (parent, args, context, info) => {
+  const value = byResponseKey(parent, args, context, info);
+  return value === null || typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function modelResolvers(graph: Graph, model: GraphQLModel): GraphQLResolvers {
+  const resolvers: GraphQLResolvers = { Query: {} };
+
+  for (const type of model.types) {
+    const fields: Record<string, GraphQLResolver> = { _labels: byResponseKey };
+    for (const field of type.properties) {
+      fields[field.name] = field.json ? jsonByResponseKey : byResponseKey;
+    }
+    for (const field of type.relationships) {
+      fields[field.name] = byResponseKey;
+    }
+    resolvers[type.name] = fields;
+  }
+
+  for (const [name, field] of model.roots) {
+    (resolvers.Query as Record<string, GraphQLResolver>)[name] = (_parent, args, _context, info) => {
+      const { query, params } = new SelectionCompiler(info).compile(field, args, info.fieldNodes);
+      const rows = graph.cypher<{ value: CypherValue }>(query, Object.keys(params).length > 0 ? params : undefined);
+      const values = rows.map((row) => row.value);
+      return field.id ? (values[0] ?? null) : values;
+    };
+  }
+
+  return resolvers;
+}
+
+/**
+ * Generate a GraphQL schema for a graph
+ *
+ * Each label becomes an object type with a field per property key, typed
+ * from the values found, and a list field per relationship type and
+ * direction (`KNOWS` gives `knows` and `incomingKnows`). The Query type has
+ * a list field per label with equality filters, `first`, `offset` and
+ * `orderBy` arguments, plus a lookup by `id` for labels that have one.
+ * Lists are sorted by `id` unless `orderBy` says otherwise.
+ * Property values that fit no GraphQL scalar are JSON-encoded strings.
+ *
+ * The schema reflects the graph when this is called; regenerate it after
+ * adding labels, relationship types or property keys.
+ *
+ * @param schema - Description of the graph to build from (default: `graph.schema()`)
+ * @returns SDL and resolvers to hand to a GraphQL server
+ * @throws GraphQLiteError with INVALID_ARGUMENT if the graph has no labeled nodes
+ *
+ * @example
+ * ```ts
+ * import { makeExecutableSchema } from '@graphql-tools/schema';
+ * import { graphql } from 'graphql';
+ *
+ * const schema = makeExecutableSchema(graphqlSchema(graph));
+ * await graphql({ schema, source: '{ persons(first: 10) { name knows { name } } }' });
+ * ```
+ */
+export function graphqlSchema(graph: Graph, schema: GraphSchema = graph.schema()): GraphQLSchemaDefinition {
+  const model = buildModel(schema);
+  return { typeDefs: printModel(model), resolvers: modelResolvers(graph, model) };
+}
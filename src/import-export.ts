@@ -0,0 +1,236 @@
+/**
+ * Graph import and export across interchange formats
+ */
+
+import type { Graph } from './graph';
+import type {
+  CypherValue,
+  GraphFormat,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  CsvImportOptions,
+  CsvImportResult,
+  CsvRowError,
+  NodeId,
+  NodeInput,
+  EdgeInput,
+  TextSink,
+  TextSource,
+} from './types';
+import { GraphQLiteError } from './types';
+import type { GraphScan, InterchangeNode, InterchangeEdge, InterchangeRecord } from './interchange';
+import { readText, writeText } from './interchange';
+import { writeGraphml, readGraphml } from './graphml';
+import { writeGexf, readGexf } from './gexf';
+import { writeJsonGraph, readJsonGraph } from './json-graph';
+import { readCsvFile, csvInputError } from './csv';
+import type { CsvReadOptions } from './csv';
+
+const WRITERS: Record<GraphFormat, (scan: GraphScan) => Iterable<string>> = {
+  graphml: writeGraphml,
+  gexf: writeGexf,
+  'json-graph': writeJsonGraph,
+};
+
+const READERS: Record<GraphFormat, (chunks: AsyncIterable<string>) => AsyncIterable<InterchangeRecord>> = {
+  graphml: readGraphml,
+  gexf: readGexf,
+  'json-graph': readJsonGraph,
+};
+
+/**
+ * Default number of nodes or edges written per batch during import
+ */
+const DEFAULT_IMPORT_CHUNK_SIZE = 500;
+
+function checkFormat(format: string): asserts format is GraphFormat {
+  if (!Object.hasOwn(WRITERS, format)) {
+    throw new GraphQLiteError(`Unknown graph format: ${format}`, 'INVALID_ARGUMENT');
+  }
+}
+
+/**
+ * A node row as read by scanNodeRows()
+ */
+export type NodeRow = {
+  id: CypherValue;
+  labels: string[];
+  properties: Record<string, CypherValue>;
+};
+
+/**
+ * An edge row as read by scanEdgeRows()
+ */
+export type EdgeRow = {
+  source: CypherValue;
+  target: CypherValue;
+  type: string;
+  properties: Record<string, CypherValue>;
+};
+
+/**
+ * Read every node with an `id` property, ordered by id, page by page
+ */
+export function scanNodeRows(graph: Graph, pageSize?: number): Generator<NodeRow> {
+  return graph.cypherIterator<NodeRow>(
+    'MATCH (n) WHERE n.id IS NOT NULL AND ($after IS NULL OR n.id > $after) ' +
+      'RETURN n.id AS id, labels(n) AS labels, properties(n) AS properties ORDER BY id',
+    { pageSize, keyset: { column: 'id' } }
+  );
+}
+
+/**
+ * Read every edge between nodes with an `id` property, page by page
+ */
+export function scanEdgeRows(graph: Graph, pageSize?: number): Generator<EdgeRow> {
+  return graph.cypherIterator<EdgeRow>(
+    'MATCH (a)-[r]->(b) WHERE a.id IS NOT NULL AND b.id IS NOT NULL ' +
+      'RETURN a.id AS source, b.id AS target, type(r) AS type, properties(r) AS properties ' +
+      'ORDER BY source, target, type',
+    { pageSize }
+  );
+}
+
+/**
+ * Keep numeric ids as numbers and turn anything else into a string
+ */
+function toNodeId(value: CypherValue): NodeId {
+  return typeof value === 'number' ? value : String(value);
+}
+
+/**
+ * Scan a graph page by page
+ *
+ * Nodes are keyed by their `id` property; nodes without one are skipped,
+ * along with their edges.
+ */
+export function scanGraph(graph: Graph, pageSize?: number): GraphScan {
+  return {
+    *nodes(): Generator<InterchangeNode> {
+      for (const row of scanNodeRows(graph, pageSize)) {
+        const { id: _id, ...properties } = row.properties;
+        yield { kind: 'node', id: toNodeId(row.id), labels: row.labels, properties };
+      }
+    },
+    *edges(): Generator<InterchangeEdge> {
+      for (const row of scanEdgeRows(graph, pageSize)) {
+        yield { kind: 'edge', source: toNodeId(row.source), target: toNodeId(row.target), type: row.type, properties: row.properties };
+      }
+    },
+  };
+}
+
+/**
+ * Write every node and edge of a graph to a sink
+ */
+export async function exportGraph(graph: Graph, sink: TextSink, options: ExportOptions): Promise<void> {
+  checkFormat(options.format);
+  await writeText(sink, WRITERS[options.format](scanGraph(graph, options.pageSize)));
+}
+
+/**
+ * Upsert every node and edge read from a source, in one transaction
+ *
+ * Edges are written after the nodes read before them, so files must list
+ * an edge's endpoints before the edge (as all supported formats normally do).
+ */
+export async function importGraph(graph: Graph, source: TextSource, options: ImportOptions): Promise<ImportResult> {
+  checkFormat(options.format);
+  const chunkSize = options.chunkSize ?? DEFAULT_IMPORT_CHUNK_SIZE;
+  const records = READERS[options.format](readText(source));
+
+  return graph.transactionAsync(async () => {
+    return importRecords(graph, records, chunkSize, options.mode);
+  });
+}
+
+/**
+ * Upsert the rows of node and edge CSV files, in one transaction
+ *
+ * Every node file is read before any edge file. Invalid rows abort the
+ * import unless `skipInvalidRows` is set, in which case they are reported
+ * in the result.
+ */
+export async function importCsv(graph: Graph, options: CsvImportOptions): Promise<CsvImportResult> {
+  const { nodes = [], edges = [], delimiter = ',', arrayDelimiter = ';', skipInvalidRows = false } = options;
+  if (arrayDelimiter === '' || arrayDelimiter === delimiter) {
+    throw new GraphQLiteError('arrayDelimiter must be non-empty and differ from delimiter', 'INVALID_ARGUMENT');
+  }
+
+  const errors: CsvRowError[] = [];
+  const readOptions: CsvReadOptions = {
+    delimiter,
+    arrayDelimiter,
+    onError: (error) => {
+      if (!skipInvalidRows) {
+        throw csvInputError(error.file, error.message, error.line);
+      }
+      errors.push(error);
+    },
+  };
+
+  async function* records(): AsyncGenerator<InterchangeRecord> {
+    for (const [index, file] of nodes.entries()) {
+      yield* readCsvFile('node', file, file.name ?? `nodes[${index}]`, readOptions);
+    }
+    for (const [index, file] of edges.entries()) {
+      yield* readCsvFile('edge', file, file.name ?? `edges[${index}]`, readOptions);
+    }
+  }
+
+  return graph.transactionAsync(async () => {
+    const counts = await importRecords(graph, records(), options.chunkSize ?? DEFAULT_IMPORT_CHUNK_SIZE);
+    return { ...counts, errors };
+  });
+}
+
+/**
+ * Upsert nodes and edges in batches, flushing pending nodes before any edges
+ *
+ * With mode 'create' edges are created instead, so parallel edges of the
+ * same type survive a round trip but a repeated import duplicates them.
+ */
+export async function importRecords(
+  graph: Graph,
+  records: AsyncIterable<InterchangeRecord>,
+  chunkSize: number = DEFAULT_IMPORT_CHUNK_SIZE,
+  mode: 'upsert' | 'create' = 'upsert'
+): Promise<ImportResult> {
+  const result: ImportResult = { nodes: 0, edges: 0 };
+  let nodes: NodeInput[] = [];
+  let edges: EdgeInput[] = [];
+
+  const flushNodes = () => {
+    if (nodes.length > 0) {
+      graph.upsertNodes(nodes, { chunkSize });
+      result.nodes += nodes.length;
+      nodes = [];
+    }
+  };
+  const flushEdges = () => {
+    flushNodes();
+    if (edges.length > 0) {
+      if (mode === 'create') {
+        graph.createEdges(edges, { chunkSize });
+      } else {
+        graph.upsertEdges(edges, { chunkSize });
+      }
+      result.edges += edges.length;
+      edges = [];
+    }
+  };
+
+  for await (const record of records) {
+    if (record.kind === 'node') {
+      nodes.push({ id: record.id, labels: record.labels, properties: record.properties });
+      if (nodes.length >= chunkSize) flushNodes();
+    } else {
+      edges.push({ source: record.source, target: record.target, relType: record.type, properties: record.properties });
+      if (edges.length >= chunkSize) flushEdges();
+    }
+  }
+  flushEdges();
+
+  return result;
+}
@@ -5,20 +5,119 @@
  */
 
 export { Graph } from './graph';
+export { AsyncGraph } from './async-graph';
+export { GraphPool } from './pool';
 export type {
   CypherValue,
   CypherRow,
   CypherResult,
   GraphOptions,
+  JournalMode,
+  AsyncGraphOptions,
+  AsyncCallOptions,
+  GraphPoolOptions,
+  PoolStats,
   GraphStats,
+  GraphSchema,
+  LabelInfo,
+  RelationshipTypeInfo,
+  RelationshipPairInfo,
+  PropertyKeyInfo,
+  PropertyValueType,
+  IndexInfo,
+  IndexOptions,
+  Transaction,
   UpsertNodeOptions,
   UpsertEdgeOptions,
+  NodeId,
+  NodeInput,
+  EdgeInput,
+  BatchUpsertOptions,
+  BatchUpsertResult,
+  PaginateOptions,
+  KeysetOptions,
+  GraphFormat,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  CsvNodeFile,
+  CsvEdgeFile,
+  CsvImportOptions,
+  CsvImportResult,
+  CsvRowError,
+  DumpOptions,
+  RestoreResult,
+  ServeOptions,
+  BoltServeOptions,
+  GraphServer,
+  TextSink,
+  TextSource,
+  AlgorithmEngine,
+  ProjectionDirection,
+  GraphProjection,
+  AlgorithmOptions,
   PageRankResult,
   LouvainResult,
   ShortestPathResult,
-  GraphQLiteError,
+  ShortestPathsResult,
+  NodeDegree,
+  DegreeCentralityResult,
+  CentralityResult,
+  ComponentsResult,
+  NodeTriangles,
+  TriangleCountResult,
+  TraversalStep,
+  GraphQLiteErrorCode,
+  GraphQLiteErrorDetails,
 } from './types';
+export { GraphQLiteError } from './types';
+
+export { serve } from './server';
+export { serveBolt } from './bolt';
+
+export { ProjectedGraph } from './projection';
+
+export { Migrator, loadMigrations } from './migrations';
+export type { Migration, MigrationStep, MigrationStatus, MigrateOptions, RollbackOptions } from './migrations';
+
+export { graphqlSchema } from './graphql';
+export type {
+  GraphQLSchemaDefinition,
+  GraphQLResolvers,
+  GraphQLResolver,
+  GraphQLResolveInfo,
+} from './graphql';
+
+export {
+  QueryBuilder,
+  NodePattern,
+  RelationshipPattern,
+  PathPattern,
+  Param,
+  Expr,
+  node,
+  rel,
+  param,
+  expr,
+} from './query';
+export type { Pattern, PropertyValues, Projection, ProjectionRow, CompiledQuery } from './query';
+
+export { defineNode, defineEdge, validateProperties, NodeModel, EdgeModel } from './schema';
+export type {
+  PropertyType,
+  PropertySpec,
+  PropertySchema,
+  InferProperties,
+  NodeRecord,
+  EdgeRecord,
+  NodeDefinition,
+  EdgeDefinition,
+  FindOptions,
+} from './schema';
+
+export { Node, Relationship, Path, isNode, isRelationship, isPath } from './values';
+export type { EntityId, PathSegment } from './values';
 
 // Re-export for convenience
-export { parseCypherResult, resultToRows } from './utils';
+export { parseCypherResult, parseCypherError, resultToRows, decodeCypherValue, isReadOnlyQuery } from './utils';
 
@@ -0,0 +1,305 @@
+/**
+ * Property indexes and unique constraints
+ *
+ * The extension stores node properties in one table per value type
+ * (`node_props_int`, `node_props_text`, `node_props_real`, `node_props_bool`),
+ * keyed by node id and a property key id from `property_keys`, with labels in
+ * `node_labels`. An index on a label and property adds a partial SQLite index
+ * per value table covering that property key; indexes on the same property
+ * under different labels share them. A unique constraint also adds triggers
+ * that abort writes giving two nodes with the label the same value.
+ *
+ * Indexes and constraints are recorded in the `_graphqlite_indexes` table, so
+ * they persist with the database file.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { Graph } from './graph';
+import type { IndexInfo, IndexOptions, NodeId } from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier, toGraphQLiteError } from './utils';
+
+const REGISTRY = '_graphqlite_indexes';
+
+/** Property value tables, with the suffix used in index and trigger names */
+const VALUE_TABLES: Array<[table: string, suffix: string]> = [
+  ['node_props_int', 'int'],
+  ['node_props_text', 'text'],
+  ['node_props_real', 'real'],
+  ['node_props_bool', 'bool'],
+];
+
+const STORAGE_TABLES = ['node_labels', 'property_keys', ...VALUE_TABLES.map(([table]) => table)];
+
+type RegistryRow = { id: number; name: string; label: string; property: string; is_unique: number };
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function toInfo(row: RegistryRow): IndexInfo {
+  return { name: row.name, label: row.label, property: row.property, unique: row.is_unique === 1 };
+}
+
+/**
+ * Check the extension's storage tables exist and create the registry
+ *
+ * @throws GraphQLiteError with SQLITE_ERROR if a storage table is missing
+ */
+function prepareStorage(db: Database): void {
+  const found = new Set(
+    db
+      .query<{ name: string }, []>("SELECT name FROM sqlite_master WHERE type = 'table'")
+      .all()
+      .map((row) => row.name)
+  );
+  const missing = STORAGE_TABLES.filter((table) => !found.has(table));
+  if (missing.length > 0) {
+    throw new GraphQLiteError(`Graph storage table ${missing.join(', ')} not found`, 'SQLITE_ERROR');
+  }
+  db.run(
+    `CREATE TABLE IF NOT EXISTS ${REGISTRY} (` +
+      'id INTEGER PRIMARY KEY, name TEXT NOT NULL UNIQUE, label TEXT NOT NULL, property TEXT NOT NULL, ' +
+      'is_unique INTEGER NOT NULL, UNIQUE (label, property))'
+  );
+}
+
+function hasRegistry(db: Database): boolean {
+  return db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(REGISTRY) !== null;
+}
+
+/**
+ * Id of a property key, registering the key if it is new
+ */
+function propertyKeyId(db: Database, property: string): number {
+  db.query('INSERT OR IGNORE INTO property_keys (key) VALUES (?)').run(property);
+  const row = db.query<{ id: number }, [string]>('SELECT id FROM property_keys WHERE key = ?').get(property);
+  return (row as { id: number }).id;
+}
+
+function valueIndexName(keyId: number, suffix: string): string {
+  return `_graphqlite_idx_${keyId}_${suffix}`;
+}
+
+function triggerNames(id: number): string[] {
+  return [
+    ...VALUE_TABLES.flatMap(([, suffix]) => [`_graphqlite_uq_${id}_${suffix}_insert`, `_graphqlite_uq_${id}_${suffix}_update`]),
+    `_graphqlite_uq_${id}_label`,
+  ];
+}
+
+function createValueIndexes(db: Database, keyId: number): void {
+  for (const [table, suffix] of VALUE_TABLES) {
+    db.run(`CREATE INDEX IF NOT EXISTS ${valueIndexName(keyId, suffix)} ON ${table} (value, node_id) WHERE key_id = ${keyId}`);
+  }
+}
+
+/**
+ * Create the triggers that enforce a unique constraint
+ */
+function createUniqueTriggers(db: Database, row: RegistryRow, keyId: number): void {
+  const label = sqlString(row.label);
+  const message = sqlString(`Unique constraint ${row.name} violated: ${row.label} nodes must have distinct ${row.property} values`);
+
+  for (const [table, suffix] of VALUE_TABLES) {
+    const duplicate =
+      `EXISTS (SELECT 1 FROM node_labels WHERE node_id = NEW.node_id AND label = ${label}) AND EXISTS (` +
+      `SELECT 1 FROM ${table} p JOIN node_labels l ON l.node_id = p.node_id AND l.label = ${label} ` +
+      `WHERE p.key_id = ${keyId} AND p.value = NEW.value AND p.node_id <> NEW.node_id)`;
+    for (const event of ['insert', 'update'] as const) {
+      db.run(
+        `CREATE TRIGGER _graphqlite_uq_${row.id}_${suffix}_${event} ` +
+          `BEFORE ${event === 'insert' ? 'INSERT' : 'UPDATE OF value, key_id'} ON ${table} ` +
+          `WHEN NEW.key_id = ${keyId} AND ${duplicate} BEGIN SELECT RAISE(ABORT, ${message}); END`
+      );
+    }
+  }
+
+  // Giving an existing node the label must not create a duplicate either
+  const duplicates = VALUE_TABLES.map(
+    ([table]) =>
+      `SELECT 1 FROM ${table} p JOIN ${table} q ON q.key_id = p.key_id AND q.value = p.value AND q.node_id <> p.node_id ` +
+      `JOIN node_labels l ON l.node_id = q.node_id AND l.label = ${label} WHERE p.node_id = NEW.node_id AND p.key_id = ${keyId}`
+  ).join(' UNION ALL ');
+  db.run(
+    `CREATE TRIGGER _graphqlite_uq_${row.id}_label BEFORE INSERT ON node_labels ` +
+      `WHEN NEW.label = ${label} AND EXISTS (${duplicates}) BEGIN SELECT RAISE(ABORT, ${message}); END`
+  );
+}
+
+/**
+ * Throw if nodes with the label already share a value of the property
+ */
+function checkDistinct(db: Database, label: string, property: string, keyId: number): void {
+  for (const [table] of VALUE_TABLES) {
+    const duplicate = db
+      .query<{ value: unknown }, [string, number]>(
+        `SELECT p.value AS value FROM ${table} p JOIN node_labels l ON l.node_id = p.node_id AND l.label = ? ` +
+          'WHERE p.key_id = ? GROUP BY p.value HAVING count(*) > 1 LIMIT 1'
+      )
+      .get(label, keyId);
+    if (duplicate) {
+      throw new GraphQLiteError(
+        `Cannot create unique constraint: several ${label} nodes have ${property} ${JSON.stringify(duplicate.value)}`,
+        'CONSTRAINT_VIOLATION'
+      );
+    }
+  }
+}
+
+/**
+ * Create an index or unique constraint, or return the one already on the
+ * label and property
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT if the name is taken, or the
+ *   label and property already have the other kind
+ * @throws GraphQLiteError with CONSTRAINT_VIOLATION if a unique constraint is
+ *   asked for and existing nodes break it
+ */
+export function createIndex(graph: Graph, label: string, property: string, unique: boolean, options: IndexOptions = {}): IndexInfo {
+  quoteIdentifier(label, 'label');
+  quoteIdentifier(property, 'property key');
+  const name = options.name ?? `${unique ? 'unique' : 'index'}_${label}_${property}`;
+  if (name.length === 0) {
+    throw new GraphQLiteError('Index name must be a non-empty string', 'INVALID_ARGUMENT');
+  }
+
+  const db = graph.getDatabase();
+  try {
+    return db.transaction((): IndexInfo => {
+      prepareStorage(db);
+      const existing = db
+        .query<RegistryRow, [string, string]>(`SELECT * FROM ${REGISTRY} WHERE label = ? AND property = ?`)
+        .get(label, property);
+      if (existing) {
+        if ((existing.is_unique === 1) !== unique) {
+          const kind = existing.is_unique === 1 ? 'a unique constraint' : 'an index';
+          throw new GraphQLiteError(`${label}.${property} already has ${kind}, ${existing.name}`, 'INVALID_ARGUMENT');
+        }
+        return toInfo(existing);
+      }
+      if (db.query(`SELECT 1 FROM ${REGISTRY} WHERE name = ?`).get(name) !== null) {
+        throw new GraphQLiteError(`An index named ${name} already exists`, 'INVALID_ARGUMENT');
+      }
+
+      const keyId = propertyKeyId(db, property);
+      if (unique) {
+        checkDistinct(db, label, property, keyId);
+      }
+      const row = db
+        .query<RegistryRow, [string, string, string, number]>(
+          `INSERT INTO ${REGISTRY} (name, label, property, is_unique) VALUES (?, ?, ?, ?) RETURNING *`
+        )
+        .get(name, label, property, unique ? 1 : 0) as RegistryRow;
+      createValueIndexes(db, keyId);
+      if (unique) {
+        createUniqueTriggers(db, row, keyId);
+      }
+      return toInfo(row);
+    })();
+  } catch (error) {
+    throw toGraphQLiteError(error);
+  }
+}
+
+/**
+ * List indexes and unique constraints, sorted by name
+ */
+export function listIndexes(graph: Graph): IndexInfo[] {
+  const db = graph.getDatabase();
+  if (!hasRegistry(db)) {
+    return [];
+  }
+  return db.query<RegistryRow, []>(`SELECT * FROM ${REGISTRY} ORDER BY name`).all().map(toInfo);
+}
+
+/**
+ * Drop an index or unique constraint by name
+ *
+ * The SQLite indexes on its property are dropped when no other index uses them.
+ *
+ * @returns Whether it existed
+ */
+export function dropIndex(graph: Graph, name: string): boolean {
+  const db = graph.getDatabase();
+  if (!hasRegistry(db)) {
+    return false;
+  }
+  try {
+    return db.transaction((): boolean => {
+      const row = db.query<RegistryRow, [string]>(`SELECT * FROM ${REGISTRY} WHERE name = ?`).get(name);
+      if (!row) {
+        return false;
+      }
+      db.query(`DELETE FROM ${REGISTRY} WHERE id = ?`).run(row.id);
+      for (const trigger of triggerNames(row.id)) {
+        db.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+      }
+      const shared = db.query(`SELECT 1 FROM ${REGISTRY} WHERE property = ?`).get(row.property) !== null;
+      const key = db.query<{ id: number }, [string]>('SELECT id FROM property_keys WHERE key = ?').get(row.property);
+      if (!shared && key) {
+        for (const [, suffix] of VALUE_TABLES) {
+          db.run(`DROP INDEX IF EXISTS ${valueIndexName(key.id, suffix)}`);
+        }
+      }
+      return true;
+    })();
+  } catch (error) {
+    throw toGraphQLiteError(error);
+  }
+}
+
+/**
+ * Find which of the given values of a property some node has
+ *
+ * Reads the extension's property tables directly rather than through Cypher,
+ * so it is only used once an index has been created on the property. Strings
+ * are looked up in `node_props_text`, integers in `node_props_int` and other
+ * numbers in `node_props_real`.
+ *
+ * @returns The values found
+ */
+function findPropertyValues(graph: Graph, property: string, values: NodeId[]): Set<NodeId> {
+  const db = graph.getDatabase();
+  const found = new Set<NodeId>();
+  const key = db.query<{ id: number }, [string]>('SELECT id FROM property_keys WHERE key = ?').get(property);
+  if (!key) {
+    return found;
+  }
+
+  const byTable: Array<[table: string, values: NodeId[]]> = [
+    ['node_props_text', values.filter((value) => typeof value === 'string')],
+    ['node_props_int', values.filter((value) => typeof value === 'number' && Number.isInteger(value))],
+    ['node_props_real', values.filter((value) => typeof value === 'number' && !Number.isInteger(value))],
+  ];
+  for (const [table, tableValues] of byTable) {
+    if (tableValues.length === 0) {
+      continue;
+    }
+    // The key id is inlined so SQLite can match the partial index
+    const rows = db
+      .query<{ value: NodeId }, [string]>(
+        `SELECT DISTINCT value FROM ${table} WHERE key_id = ${key.id} AND value IN (SELECT value FROM json_each(?))`
+      )
+      .all(JSON.stringify(tableValues));
+    for (const row of rows) {
+      found.add(row.value);
+    }
+  }
+  return found;
+}
+
+/**
+ * Find which of the given values of a property some node has, using its
+ * index
+ *
+ * @returns The values found, or null if the property has no index
+ */
+export function findIndexedValues(graph: Graph, property: string, values: NodeId[]): Set<NodeId> | null {
+  const db = graph.getDatabase();
+  if (!hasRegistry(db)) {
+    return null;
+  }
+  const indexed = db.query(`SELECT 1 FROM ${REGISTRY} WHERE property = ? LIMIT 1`).get(property);
+  return indexed ? findPropertyValues(graph, property, values) : null;
+}
@@ -0,0 +1,246 @@
+/**
+ * Shared model and value encoding for graph import/export formats
+ */
+
+import type { CypherValue, NodeId, TextSink, TextSource } from './types';
+import { GraphQLiteError } from './types';
+
+/**
+ * A node as read from or written to an interchange file
+ */
+export interface InterchangeNode {
+  kind: 'node';
+  id: NodeId;
+  labels: string[];
+  properties: Record<string, CypherValue>;
+}
+
+/**
+ * An edge as read from or written to an interchange file
+ */
+export interface InterchangeEdge {
+  kind: 'edge';
+  source: NodeId;
+  target: NodeId;
+  type: string;
+  properties: Record<string, CypherValue>;
+}
+
+export type InterchangeRecord = InterchangeNode | InterchangeEdge;
+
+/**
+ * Re-iterable view of a graph handed to format writers
+ *
+ * Each call starts a fresh scan, so writers that need to declare property
+ * types up front can make two passes.
+ */
+export interface GraphScan {
+  nodes(): Iterable<InterchangeNode>;
+  edges(): Iterable<InterchangeEdge>;
+}
+
+/**
+ * Type of a property column, used by formats that declare attribute types
+ */
+export type ValueKind =
+  | 'boolean'
+  | 'long'
+  | 'double'
+  | 'string'
+  | 'boolean[]'
+  | 'long[]'
+  | 'double[]'
+  | 'string[]'
+  | 'json';
+
+const VALUE_KINDS: ReadonlySet<string> = new Set<ValueKind>([
+  'boolean', 'long', 'double', 'string', 'boolean[]', 'long[]', 'double[]', 'string[]', 'json',
+]);
+
+/**
+ * Check whether a string names a ValueKind
+ */
+export function isValueKind(name: string): name is ValueKind {
+  return VALUE_KINDS.has(name);
+}
+
+function scalarKind(value: CypherValue): ValueKind {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'long' : 'double';
+  if (typeof value === 'string') return 'string';
+  return 'json';
+}
+
+/**
+ * Narrowest kind that can hold a value, or null for null and empty lists
+ */
+export function kindOf(value: CypherValue): ValueKind | null {
+  if (value === null) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    return scalarKind(value);
+  }
+
+  let kind: ValueKind | null = null;
+  for (const item of value) {
+    const itemKind = item === null || Array.isArray(item) ? 'json' : scalarKind(item);
+    kind = kind === null ? itemKind : mergeKinds(kind, itemKind);
+  }
+  if (kind === null) {
+    return null;
+  }
+  return kind === 'json' ? 'json' : (`${kind}[]` as ValueKind);
+}
+
+/**
+ * Widest of two kinds: long widens to double, anything else mixed becomes json
+ */
+export function mergeKinds(a: ValueKind, b: ValueKind): ValueKind {
+  if (a === b) return a;
+  const pair = new Set([a, b]);
+  if (pair.has('long') && pair.has('double')) return 'double';
+  if (pair.has('long[]') && pair.has('double[]')) return 'double[]';
+  return 'json';
+}
+
+/**
+ * Work out the kind of every property key over a set of records
+ *
+ * Keys whose only values are empty lists are declared as string lists.
+ */
+export function collectKinds(records: Iterable<{ properties: Record<string, CypherValue> }>): Map<string, ValueKind> {
+  const kinds = new Map<string, ValueKind>();
+  const emptyLists = new Set<string>();
+
+  for (const record of records) {
+    for (const [key, value] of Object.entries(record.properties)) {
+      const kind = value === null ? undefined : kindOf(value);
+      if (kind === null) {
+        emptyLists.add(key);
+      } else if (kind !== undefined) {
+        const current = kinds.get(key);
+        kinds.set(key, current === undefined ? kind : mergeKinds(current, kind));
+      }
+    }
+  }
+
+  for (const key of emptyLists) {
+    const kind = kinds.get(key);
+    if (kind === undefined) {
+      kinds.set(key, 'string[]');
+    } else if (!kind.endsWith('[]')) {
+      kinds.set(key, 'json');
+    }
+  }
+  return kinds;
+}
+
+/**
+ * Encode a value as attribute text for its column kind
+ */
+export function encodeValue(kind: ValueKind, value: CypherValue): string {
+  if (kind === 'boolean' || kind === 'long' || kind === 'double' || kind === 'string') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Decode attribute text written for a column kind
+ *
+ * Lists are read as JSON, falling back to `[a, b]` and `a|b` notation used
+ * by other tools.
+ */
+export function decodeValue(kind: ValueKind, text: string): CypherValue {
+  switch (kind) {
+    case 'string':
+      return text;
+    case 'boolean':
+      return text.trim().toLowerCase() === 'true';
+    case 'long':
+    case 'double':
+      return Number(text);
+    case 'json':
+      try {
+        return JSON.parse(text) as CypherValue;
+      } catch {
+        return text;
+      }
+  }
+
+  const itemKind = kind.slice(0, -2) as ValueKind;
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed) as CypherValue;
+    } catch {
+      // Not JSON: fall through to comma-separated items
+    }
+  }
+
+  const inner = trimmed.startsWith('[') && trimmed.endsWith(']') ? trimmed.slice(1, -1) : trimmed;
+  if (inner === '') {
+    return [];
+  }
+  const items = trimmed.startsWith('[') ? inner.split(',') : inner.split('|');
+  return items.map((item) => decodeValue(itemKind, itemKind === 'string' ? item.trim() : item));
+}
+
+/**
+ * Iterate over the text of a TextSource, decoding bytes as UTF-8
+ */
+export async function* readText(source: TextSource): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    yield source;
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  for await (const chunk of source) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  const tail = decoder.decode();
+  if (tail) {
+    yield tail;
+  }
+}
+
+/**
+ * Size at which buffered output is flushed to the sink
+ */
+const SINK_BUFFER_SIZE = 64 * 1024;
+
+/**
+ * Write generated text to a sink in large chunks, awaiting async sinks
+ */
+export async function writeText(sink: TextSink, chunks: Iterable<string>): Promise<void> {
+  let buffer = '';
+  for (const chunk of chunks) {
+    buffer += chunk;
+    if (buffer.length >= SINK_BUFFER_SIZE) {
+      await sink.write(buffer);
+      buffer = '';
+    }
+  }
+  if (buffer) {
+    await sink.write(buffer);
+  }
+}
+
+/**
+ * Error for a malformed input document
+ */
+export function invalidInput(format: string, message: string): GraphQLiteError {
+  return new GraphQLiteError(`Invalid ${format} input: ${message}`, 'INVALID_INPUT');
+}
+
+/**
+ * XML namespace for the attribute that records GraphQLite value kinds
+ */
+export const TYPE_NAMESPACE = 'urn:graphqlite:types';
+
+/**
+ * Attribute carrying a ValueKind that the XML format cannot express natively
+ */
+export const TYPE_ATTRIBUTE = 'gql:type';
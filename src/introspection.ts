@@ -0,0 +1,174 @@
+/**
+ * Schema introspection: what labels, relationship types and property keys a
+ * graph holds
+ */
+
+import type { Graph } from './graph';
+import type {
+  CypherValue,
+  GraphSchema,
+  GraphStats,
+  LabelInfo,
+  PropertyKeyInfo,
+  PropertyValueType,
+  RelationshipTypeInfo,
+} from './types';
+
+type NodeRow = { labels: string[]; properties: Record<string, CypherValue> };
+type RelationshipRow = { from: string[]; type: string; to: string[]; properties: Record<string, CypherValue> };
+
+interface KeyTally {
+  present: number;
+  types: Set<PropertyValueType>;
+  itemTypes: Set<PropertyValueType>;
+  wideIntegers: boolean;
+}
+
+/**
+ * Kind of a non-null value
+ */
+export function valueType(value: CypherValue): PropertyValueType {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'float';
+  }
+  if (typeof value === 'string') {
+    return 'string';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  return Array.isArray(value) ? 'list' : 'map';
+}
+
+/**
+ * Counts entities and, per property key, the values seen
+ */
+class PropertyTally {
+  count: number = 0;
+  private readonly keys = new Map<string, KeyTally>();
+
+  add(properties: Record<string, CypherValue>): void {
+    this.count++;
+    for (const [key, value] of Object.entries(properties)) {
+      if (value === null || value === undefined) {
+        continue;
+      }
+      let tally = this.keys.get(key);
+      if (!tally) {
+        tally = { present: 0, types: new Set(), itemTypes: new Set(), wideIntegers: false };
+        this.keys.set(key, tally);
+      }
+      tally.present++;
+      tally.types.add(valueType(value));
+      tally.wideIntegers ||= isWideInteger(value);
+      if (Array.isArray(value)) {
+        for (const item of value) {
+          if (item !== null) {
+            tally.itemTypes.add(valueType(item));
+            tally.wideIntegers ||= isWideInteger(item);
+          }
+        }
+      }
+    }
+  }
+
+  properties(): PropertyKeyInfo[] {
+    return [...this.keys.keys()].sort().map((key) => {
+      const tally = this.keys.get(key) as KeyTally;
+      return {
+        key,
+        types: [...tally.types].sort(),
+        itemTypes: [...tally.itemTypes].sort(),
+        nullRatio: (this.count - tally.present) / this.count,
+        ...(tally.wideIntegers ? { wideIntegers: true as const } : {}),
+      };
+    });
+  }
+}
+
+function isWideInteger(value: CypherValue): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && (value < -0x80000000 || value > 0x7fffffff);
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function tallyFor(tallies: Map<string, PropertyTally>, key: string): PropertyTally {
+  let tally = tallies.get(key);
+  if (!tally) {
+    tally = new PropertyTally();
+    tallies.set(key, tally);
+  }
+  return tally;
+}
+
+/**
+ * Count the nodes and relationships stored in a graph
+ */
+export function countGraph(graph: Graph): GraphStats {
+  const count = (query: string) => graph.cypher<{ count: number }>(query)[0]?.count ?? 0;
+  return {
+    nodes: count('MATCH (n) RETURN count(n) AS count'),
+    edges: count('MATCH ()-[r]->() RETURN count(r) AS count'),
+  };
+}
+
+/**
+ * Scan every node and relationship of a graph and summarize what it holds
+ */
+export function describeGraph(graph: Graph): GraphSchema {
+  let nodes = 0;
+  const labels = new Map<string, PropertyTally>();
+  for (const row of graph.cypherIterator<NodeRow>('MATCH (n) RETURN labels(n) AS labels, properties(n) AS properties')) {
+    nodes++;
+    for (const label of row.labels) {
+      tallyFor(labels, label).add(row.properties);
+    }
+  }
+
+  let edges = 0;
+  const types = new Map<string, PropertyTally>();
+  const pairs = new Map<string, Map<string, number>>();
+  for (const row of graph.cypherIterator<RelationshipRow>(
+    'MATCH (a)-[r]->(b) RETURN labels(a) AS from, type(r) AS type, labels(b) AS to, properties(r) AS properties'
+  )) {
+    edges++;
+    tallyFor(types, row.type).add(row.properties);
+    let counts = pairs.get(row.type);
+    if (!counts) {
+      counts = new Map();
+      pairs.set(row.type, counts);
+    }
+    for (const from of row.from) {
+      for (const to of row.to) {
+        const key = JSON.stringify([from, to]);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    labels: [...labels.keys()].sort().map((label): LabelInfo => {
+      const tally = labels.get(label) as PropertyTally;
+      return { label, count: tally.count, properties: tally.properties() };
+    }),
+    relationshipTypes: [...types.keys()].sort().map((type): RelationshipTypeInfo => {
+      const tally = types.get(type) as PropertyTally;
+      const counts = pairs.get(type) as Map<string, number>;
+      return {
+        type,
+        count: tally.count,
+        pairs: [...counts]
+          .map(([key, count]) => {
+            const [from, to] = JSON.parse(key) as [string, string];
+            return { from, to, count };
+          })
+          .sort((a, b) => compare(a.from, b.from) || compare(a.to, b.to)),
+        properties: tally.properties(),
+      };
+    }),
+  };
+}
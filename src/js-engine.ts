@@ -0,0 +1,983 @@
+/**
+ * TypeScript implementations of the graph algorithms
+ *
+ * Selected with `engine: 'js'`, and used for every run over a projection. The
+ * graph is read once into an adjacency list with two Cypher queries, so these
+ * run without the extension's algorithm functions and graph cache, and follow
+ * the same conventions: results keyed by `id` property or internal node id,
+ * relationships followed in their direction, and missing or non-numeric
+ * weights counted as 1.
+ */
+
+import type { Graph } from './graph';
+import type {
+  CentralityResult,
+  ComponentsResult,
+  CypherValue,
+  DegreeCentralityResult,
+  GraphProjection,
+  LouvainResult,
+  PageRankResult,
+  ShortestPathResult,
+  ShortestPathsResult,
+  TraversalStep,
+  TriangleCountResult,
+} from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier } from './utils';
+
+/**
+ * A graph as read by loadAdjacency(), with nodes numbered from 0
+ */
+export interface Adjacency {
+  /** Result key of each node */
+  ids: string[];
+  /** Internal id of each node */
+  nodeIds: number[];
+  /** Relationships between node numbers, as followed by the projection */
+  edges: Array<{ source: number; target: number; weight: number; type: string }>;
+  /** Latitude and longitude of each node, when asked for and both are numbers */
+  coordinates?: Array<[latitude: number, longitude: number] | null>;
+}
+
+/**
+ * Node properties holding coordinates, for the A* heuristic
+ */
+export interface CoordinateProperties {
+  latitude: string;
+  longitude: string;
+}
+
+/**
+ * Most relationships and highest total weight of a path, Infinity for no limit
+ */
+export interface PathLimits {
+  maxDepth: number;
+  maxCost: number;
+}
+
+type NodeRow = { node_id: CypherValue; user_id: CypherValue; labels: CypherValue; latitude?: CypherValue; longitude?: CypherValue };
+type EdgeRow = { source: CypherValue; target: CypherValue; type: CypherValue; weight?: CypherValue };
+
+const DIRECTIONS = ['outgoing', 'incoming', 'both'];
+
+const NO_LIMITS: PathLimits = { maxDepth: Infinity, maxCost: Infinity };
+
+/** Relative difference below which path costs count as equal */
+const COST_EPSILON = 1e-9;
+
+/**
+ * Read the nodes and relationships in a projection
+ *
+ * Labels and relationship types are filtered here rather than in Cypher, so
+ * the queries stay the same for every projection.
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for an unknown direction
+ */
+export function loadAdjacency(graph: Graph, projection: GraphProjection = {}, coordinates?: CoordinateProperties): Adjacency {
+  const direction = projection.direction ?? 'outgoing';
+  if (!DIRECTIONS.includes(direction)) {
+    throw new GraphQLiteError(`direction must be one of ${DIRECTIONS.join(', ')}, got ${String(direction)}`, 'INVALID_ARGUMENT');
+  }
+  const labels = projection.labels ? new Set(projection.labels) : null;
+  const types = projection.relationshipTypes ? new Set(projection.relationshipTypes) : null;
+
+  const coordinateColumns = coordinates
+    ? `, n.${quoteIdentifier(coordinates.latitude, 'property key')} AS latitude, ` +
+      `n.${quoteIdentifier(coordinates.longitude, 'property key')} AS longitude`
+    : '';
+  const adjacency: Adjacency = { ids: [], nodeIds: [], edges: [], coordinates: coordinates ? [] : undefined };
+  const index = new Map<string, number>();
+  for (const row of graph.cypher<NodeRow>(`MATCH (n) RETURN id(n) AS node_id, n.id AS user_id, labels(n) AS labels${coordinateColumns}`)) {
+    if (labels && !(Array.isArray(row.labels) && row.labels.some((label) => labels.has(String(label))))) {
+      continue;
+    }
+    index.set(String(row.node_id), adjacency.ids.length);
+    adjacency.ids.push(String(row.user_id ?? row.node_id));
+    adjacency.nodeIds.push(Number(row.node_id));
+    adjacency.coordinates?.push(
+      typeof row.latitude === 'number' && typeof row.longitude === 'number' ? [row.latitude, row.longitude] : null
+    );
+  }
+
+  const weightColumn = projection.weight ? `, r.${quoteIdentifier(projection.weight, 'property key')} AS weight` : '';
+  for (const row of graph.cypher<EdgeRow>(`MATCH (a)-[r]->(b) RETURN id(a) AS source, id(b) AS target, type(r) AS type${weightColumn}`)) {
+    const source = index.get(String(row.source));
+    const target = index.get(String(row.target));
+    if (source === undefined || target === undefined || (types && !types.has(String(row.type)))) {
+      continue;
+    }
+    const weight = typeof row.weight === 'number' ? row.weight : 1;
+    const type = String(row.type);
+    if (direction !== 'incoming') {
+      adjacency.edges.push({ source, target, weight, type });
+    }
+    if (direction !== 'outgoing') {
+      adjacency.edges.push({ source: target, target: source, weight, type });
+    }
+  }
+  return adjacency;
+}
+
+function keyed<T>(ids: string[], values: T[]): Record<string, T> {
+  const result: Record<string, T> = {};
+  ids.forEach((id, node) => {
+    if (!(id in result)) {
+      result[id] = values[node] as T;
+    }
+  });
+  return result;
+}
+
+/**
+ * Internal id of the node behind each result key
+ */
+export function keyNodeIds(adjacency: Adjacency): Map<string, number> {
+  const nodeIds = new Map<string, number>();
+  adjacency.ids.forEach((id, node) => {
+    if (!nodeIds.has(id)) {
+      nodeIds.set(id, adjacency.nodeIds[node] as number);
+    }
+  });
+  return nodeIds;
+}
+
+/**
+ * Distinct targets of each node's relationships
+ */
+function successors(adjacency: Adjacency): number[][] {
+  const lists = adjacency.ids.map(() => new Set<number>());
+  for (const edge of adjacency.edges) {
+    lists[edge.source]?.add(edge.target);
+  }
+  return lists.map((targets) => [...targets]);
+}
+
+/**
+ * Distinct neighbours of each node ignoring direction, without the node itself
+ */
+function neighbourSets(adjacency: Adjacency): Array<Set<number>> {
+  const sets = adjacency.ids.map(() => new Set<number>());
+  for (const { source, target } of adjacency.edges) {
+    if (source !== target) {
+      sets[source]?.add(target);
+      sets[target]?.add(source);
+    }
+  }
+  return sets;
+}
+
+/**
+ * Number distinct values from 0 in order of first appearance
+ */
+function renumber(values: number[]): number[] {
+  const numbers = new Map<number, number>();
+  return values.map((value) => {
+    if (!numbers.has(value)) {
+      numbers.set(value, numbers.size);
+    }
+    return numbers.get(value) as number;
+  });
+}
+
+/**
+ * PageRank by power iteration
+ *
+ * Rank held by nodes without outgoing relationships is spread evenly over
+ * every node, so scores always sum to 1.
+ */
+export function pagerankJs(adjacency: Adjacency, damping: number, iterations: number): PageRankResult {
+  const count = adjacency.ids.length;
+  if (count === 0) {
+    return {};
+  }
+  const outDegree = new Array<number>(count).fill(0);
+  for (const edge of adjacency.edges) {
+    outDegree[edge.source] = (outDegree[edge.source] as number) + 1;
+  }
+
+  let rank = new Array<number>(count).fill(1 / count);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let dangling = 0;
+    for (let node = 0; node < count; node++) {
+      if (outDegree[node] === 0) {
+        dangling += rank[node] as number;
+      }
+    }
+    const next = new Array<number>(count).fill((1 - damping) / count + (damping * dangling) / count);
+    for (const edge of adjacency.edges) {
+      next[edge.target] = (next[edge.target] as number) + (damping * (rank[edge.source] as number)) / (outDegree[edge.source] as number);
+    }
+    rank = next;
+  }
+  return keyed(adjacency.ids, rank);
+}
+
+/**
+ * Louvain community detection, ignoring relationship direction
+ *
+ * Nodes are moved between communities in order of node number and the
+ * communities merged into single nodes until modularity stops improving.
+ * Communities are numbered from 0 in order of their first node.
+ */
+export function louvainJs(adjacency: Adjacency, resolution: number): LouvainResult {
+  let count = adjacency.ids.length;
+  let edges: Array<{ source: number; target: number; weight: number }> = adjacency.edges;
+  let membership = adjacency.ids.map((_, node) => node);
+
+  for (;;) {
+    const neighbours = Array.from({ length: count }, () => new Map<number, number>());
+    const strength = new Array<number>(count).fill(0);
+    for (const { source, target, weight } of edges) {
+      neighbours[source]?.set(target, (neighbours[source]?.get(target) ?? 0) + weight);
+      neighbours[target]?.set(source, (neighbours[target]?.get(source) ?? 0) + weight);
+      strength[source] = (strength[source] as number) + weight;
+      strength[target] = (strength[target] as number) + weight;
+    }
+    const totalStrength = strength.reduce((sum, value) => sum + value, 0);
+    if (totalStrength === 0) {
+      break;
+    }
+
+    const community = strength.map((_, node) => node);
+    const communityStrength = [...strength];
+    let improved = false;
+    let moved = true;
+    while (moved) {
+      moved = false;
+      for (let node = 0; node < count; node++) {
+        const current = community[node] as number;
+        const nodeStrength = strength[node] as number;
+        const links = new Map<number, number>();
+        for (const [neighbour, weight] of neighbours[node] as Map<number, number>) {
+          if (neighbour !== node) {
+            const target = community[neighbour] as number;
+            links.set(target, (links.get(target) ?? 0) + weight);
+          }
+        }
+
+        communityStrength[current] = (communityStrength[current] as number) - nodeStrength;
+        const gain = (target: number) =>
+          (links.get(target) ?? 0) - (resolution * (communityStrength[target] as number) * nodeStrength) / totalStrength;
+        let best = current;
+        let bestGain = gain(current);
+        for (const target of links.keys()) {
+          const targetGain = gain(target);
+          if (targetGain > bestGain + 1e-12) {
+            best = target;
+            bestGain = targetGain;
+          }
+        }
+        communityStrength[best] = (communityStrength[best] as number) + nodeStrength;
+        community[node] = best;
+        if (best !== current) {
+          moved = true;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) {
+      break;
+    }
+
+    const renumbered = renumber(community);
+    membership = membership.map((node) => renumbered[node] as number);
+    edges = edges.map((edge) => ({
+      source: renumbered[edge.source] as number,
+      target: renumbered[edge.target] as number,
+      weight: edge.weight,
+    }));
+    count = new Set(renumbered).size;
+  }
+  return keyed(adjacency.ids, renumber(membership));
+}
+
+/**
+ * In, out and total degrees
+ */
+export function degreeCentralityJs(adjacency: Adjacency): DegreeCentralityResult {
+  const inDegree = new Array<number>(adjacency.ids.length).fill(0);
+  const outDegree = new Array<number>(adjacency.ids.length).fill(0);
+  for (const { source, target } of adjacency.edges) {
+    outDegree[source] = (outDegree[source] as number) + 1;
+    inDegree[target] = (inDegree[target] as number) + 1;
+  }
+  return keyed(
+    adjacency.ids,
+    adjacency.ids.map((_, node) => ({
+      inDegree: inDegree[node] as number,
+      outDegree: outDegree[node] as number,
+      degree: (inDegree[node] as number) + (outDegree[node] as number),
+    }))
+  );
+}
+
+/**
+ * Unweighted betweenness centrality by Brandes' algorithm, without
+ * normalisation
+ */
+export function betweennessCentralityJs(adjacency: Adjacency): CentralityResult {
+  const count = adjacency.ids.length;
+  const next = successors(adjacency);
+  const score = new Array<number>(count).fill(0);
+
+  for (let start = 0; start < count; start++) {
+    const order: number[] = [];
+    const predecessors = adjacency.ids.map((): number[] => []);
+    const paths = new Array<number>(count).fill(0);
+    const distance = new Array<number>(count).fill(-1);
+    paths[start] = 1;
+    distance[start] = 0;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head] as number;
+      order.push(node);
+      for (const target of next[node] as number[]) {
+        if (distance[target] === -1) {
+          distance[target] = (distance[node] as number) + 1;
+          queue.push(target);
+        }
+        if (distance[target] === (distance[node] as number) + 1) {
+          paths[target] = (paths[target] as number) + (paths[node] as number);
+          predecessors[target]?.push(node);
+        }
+      }
+    }
+
+    const dependency = new Array<number>(count).fill(0);
+    for (let position = order.length - 1; position >= 0; position--) {
+      const node = order[position] as number;
+      for (const predecessor of predecessors[node] as number[]) {
+        dependency[predecessor] =
+          (dependency[predecessor] as number) +
+          ((paths[predecessor] as number) / (paths[node] as number)) * (1 + (dependency[node] as number));
+      }
+      if (node !== start) {
+        score[node] = (score[node] as number) + (dependency[node] as number);
+      }
+    }
+  }
+  return keyed(adjacency.ids, score);
+}
+
+/**
+ * Unweighted closeness centrality: nodes reached divided by the sum of their
+ * distances, or 0 for a node that reaches none
+ */
+export function closenessCentralityJs(adjacency: Adjacency): CentralityResult {
+  const next = successors(adjacency);
+  const score = adjacency.ids.map((_, start) => {
+    const distance = new Map<number, number>([[start, 0]]);
+    const queue = [start];
+    let total = 0;
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head] as number;
+      for (const target of next[node] as number[]) {
+        if (!distance.has(target)) {
+          const hops = (distance.get(node) as number) + 1;
+          distance.set(target, hops);
+          total += hops;
+          queue.push(target);
+        }
+      }
+    }
+    return total === 0 ? 0 : (distance.size - 1) / total;
+  });
+  return keyed(adjacency.ids, score);
+}
+
+/**
+ * Weakly connected components, numbered from 0 in order of their first node
+ */
+export function weaklyConnectedComponentsJs(adjacency: Adjacency): ComponentsResult {
+  const parent = adjacency.ids.map((_, node) => node);
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node] as number] as number;
+      node = parent[node] as number;
+    }
+    return node;
+  };
+  for (const { source, target } of adjacency.edges) {
+    const a = find(source);
+    const b = find(target);
+    if (a !== b) {
+      parent[Math.max(a, b)] = Math.min(a, b);
+    }
+  }
+  return keyed(adjacency.ids, renumber(adjacency.ids.map((_, node) => find(node))));
+}
+
+/**
+ * Strongly connected components by Tarjan's algorithm, numbered from 0 in
+ * order of their first node
+ */
+export function stronglyConnectedComponentsJs(adjacency: Adjacency): ComponentsResult {
+  const count = adjacency.ids.length;
+  const next = successors(adjacency);
+  const index = new Array<number>(count).fill(-1);
+  const low = new Array<number>(count).fill(0);
+  const component = new Array<number>(count).fill(-1);
+  const onStack = new Array<boolean>(count).fill(false);
+  const stack: number[] = [];
+  let counter = 0;
+  let components = 0;
+
+  for (let root = 0; root < count; root++) {
+    if (index[root] !== -1) {
+      continue;
+    }
+    // Explicit call stack of [node, next successor position], so deep graphs cannot overflow
+    const frames: Array<[number, number]> = [[root, 0]];
+    index[root] = low[root] = counter++;
+    stack.push(root);
+    onStack[root] = true;
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1] as [number, number];
+      const [node, position] = frame;
+      const targets = next[node] as number[];
+      if (position < targets.length) {
+        frame[1] = position + 1;
+        const target = targets[position] as number;
+        if (index[target] === -1) {
+          index[target] = low[target] = counter++;
+          stack.push(target);
+          onStack[target] = true;
+          frames.push([target, 0]);
+        } else if (onStack[target]) {
+          low[node] = Math.min(low[node] as number, index[target] as number);
+        }
+        continue;
+      }
+
+      frames.pop();
+      const caller = frames[frames.length - 1];
+      if (caller) {
+        low[caller[0]] = Math.min(low[caller[0]] as number, low[node] as number);
+      }
+      if (low[node] === index[node]) {
+        for (let member = stack.pop(); member !== undefined; member = stack.pop()) {
+          onStack[member] = false;
+          component[member] = components;
+          if (member === node) {
+            break;
+          }
+        }
+        components++;
+      }
+    }
+  }
+  return keyed(adjacency.ids, renumber(component));
+}
+
+/**
+ * Label propagation, ignoring relationship direction
+ *
+ * Nodes take the label most common among their neighbours, in order of node
+ * number and preferring the smallest label on ties, until no label changes.
+ * Communities are numbered from 0 in order of their first node.
+ */
+export function labelPropagationJs(adjacency: Adjacency, iterations: number): ComponentsResult {
+  const neighbours = adjacency.ids.map((): number[] => []);
+  for (const { source, target } of adjacency.edges) {
+    if (source !== target) {
+      neighbours[source]?.push(target);
+      neighbours[target]?.push(source);
+    }
+  }
+  const label = adjacency.ids.map((_, node) => node);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let changed = false;
+    for (let node = 0; node < label.length; node++) {
+      const counts = new Map<number, number>();
+      for (const neighbour of neighbours[node] as number[]) {
+        const neighbourLabel = label[neighbour] as number;
+        counts.set(neighbourLabel, (counts.get(neighbourLabel) ?? 0) + 1);
+      }
+      let best = label[node] as number;
+      let bestCount = 0;
+      for (const [candidate, candidateCount] of counts) {
+        if (candidateCount > bestCount || (candidateCount === bestCount && candidate < best)) {
+          best = candidate;
+          bestCount = candidateCount;
+        }
+      }
+      if (bestCount > 0 && best !== label[node]) {
+        label[node] = best;
+        changed = true;
+      }
+    }
+    if (!changed) {
+      break;
+    }
+  }
+  return keyed(adjacency.ids, renumber(label));
+}
+
+/**
+ * Triangles through each node, ignoring relationship direction
+ */
+export function triangleCountJs(adjacency: Adjacency): TriangleCountResult {
+  const neighbours = neighbourSets(adjacency);
+  const triangles = new Array<number>(adjacency.ids.length).fill(0);
+  neighbours.forEach((first, a) => {
+    for (const b of first) {
+      if (b <= a) {
+        continue;
+      }
+      for (const c of neighbours[b] as Set<number>) {
+        if (c > b && first.has(c)) {
+          for (const node of [a, b, c]) {
+            triangles[node] = (triangles[node] as number) + 1;
+          }
+        }
+      }
+    }
+  });
+  return keyed(
+    adjacency.ids,
+    neighbours.map((set, node) => {
+      const degree = set.size;
+      const count = triangles[node] as number;
+      return { triangles: count, clusteringCoefficient: degree < 2 ? 0 : (2 * count) / (degree * (degree - 1)) };
+    })
+  );
+}
+
+/**
+ * Breadth-first or depth-first traversal from the first node with the key
+ *
+ * @returns Nodes in visiting order, or none if the start node is missing
+ */
+export function traverseJs(adjacency: Adjacency, order: 'bfs' | 'dfs', startId: string, maxDepth: number = Infinity): TraversalStep[] {
+  const start = adjacency.ids.indexOf(startId);
+  if (start === -1) {
+    return [];
+  }
+  const next = successors(adjacency);
+  const visited = new Set<number>();
+  const steps: TraversalStep[] = [];
+  // A queue for BFS, a stack for DFS
+  const pending: Array<[node: number, depth: number]> = [[start, 0]];
+
+  while (pending.length > 0) {
+    const [node, depth] = (order === 'bfs' ? pending.shift() : pending.pop()) as [number, number];
+    if (visited.has(node)) {
+      continue;
+    }
+    visited.add(node);
+    steps.push({ id: adjacency.ids[node] as string, depth });
+    if (depth < maxDepth) {
+      const targets = (next[node] as number[]).filter((target) => !visited.has(target));
+      // Reversed on the stack so DFS visits successors in order
+      pending.push(...(order === 'bfs' ? targets : targets.reverse()).map((target): [number, number] => [target, depth + 1]));
+    }
+  }
+  return steps;
+}
+
+/**
+ * Dijkstra shortest path between the first nodes with the given keys
+ *
+ * @returns The path, or null if either node is missing or unreachable
+ *   within the limits
+ */
+export function dijkstraJs(
+  adjacency: Adjacency,
+  sourceId: string,
+  targetId: string,
+  limits: PathLimits = NO_LIMITS
+): ShortestPathResult | null {
+  return searchPath(adjacency, sourceId, targetId, () => 0, limits);
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * A* shortest path guided by the great-circle distance in kilometres between
+ * node coordinates
+ *
+ * The path is shortest when weights are at least the distance in kilometres
+ * between their nodes; nodes without coordinates get no guidance.
+ *
+ * @returns The path, or null if either node is missing or unreachable
+ *   within the limits
+ */
+export function astarJs(
+  adjacency: Adjacency,
+  sourceId: string,
+  targetId: string,
+  limits: PathLimits = NO_LIMITS
+): ShortestPathResult | null {
+  const coordinates = adjacency.coordinates ?? [];
+  const goal = coordinates[adjacency.ids.indexOf(targetId)];
+  if (!goal) {
+    return searchPath(adjacency, sourceId, targetId, () => 0, limits);
+  }
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  return searchPath(
+    adjacency,
+    sourceId,
+    targetId,
+    (node) => {
+      const position = coordinates[node];
+      if (!position) {
+        return 0;
+      }
+      const dLatitude = radians(goal[0] - position[0]);
+      const dLongitude = radians(goal[1] - position[1]);
+      const a =
+        Math.sin(dLatitude / 2) ** 2 +
+        Math.cos(radians(position[0])) * Math.cos(radians(goal[0])) * Math.sin(dLongitude / 2) ** 2;
+      return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+    },
+    limits
+  );
+}
+
+/**
+ * The k cheapest loopless paths between the first nodes with the given keys,
+ * by Yen's algorithm
+ *
+ * Paths through different relationships between the same nodes count as
+ * different paths.
+ *
+ * @returns Up to k paths, cheapest first and fewest relationships first among
+ *   equal costs
+ */
+export function kShortestPathsJs(
+  adjacency: Adjacency,
+  sourceId: string,
+  targetId: string,
+  k: number,
+  limits: PathLimits = NO_LIMITS
+): ShortestPathResult[] {
+  const paths: ShortestPathResult[] = [];
+  if (k > 0) {
+    for (const route of cheapestRoutes(adjacency, sourceId, targetId, limits)) {
+      if (paths.push(describeRoute(adjacency, route)) >= k) {
+        break;
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Every loopless path of the lowest cost between the first nodes with the
+ * given keys
+ */
+export function allShortestPathsJs(
+  adjacency: Adjacency,
+  sourceId: string,
+  targetId: string,
+  limits: PathLimits = NO_LIMITS
+): ShortestPathResult[] {
+  const paths: ShortestPathResult[] = [];
+  let lowest: number | undefined;
+  for (const route of cheapestRoutes(adjacency, sourceId, targetId, limits)) {
+    lowest ??= route.cost;
+    if (route.cost - lowest > COST_EPSILON * Math.max(1, Math.abs(lowest))) {
+      break;
+    }
+    paths.push(describeRoute(adjacency, route));
+  }
+  return paths;
+}
+
+/**
+ * Shortest paths from the first node with the given key to every node it
+ * reaches within the limits, itself included
+ */
+export function shortestPathsFromJs(adjacency: Adjacency, sourceId: string, limits: PathLimits = NO_LIMITS): ShortestPathsResult {
+  const result: ShortestPathsResult = {};
+  const source = adjacency.ids.indexOf(sourceId);
+  if (source === -1) {
+    return result;
+  }
+  const { states, settled } = search(adjacency, outgoingEdges(adjacency), source, { limits });
+  settled.forEach((index, node) => {
+    const id = adjacency.ids[node] as string;
+    if (index !== -1 && !(id in result)) {
+      result[id] = describeRoute(adjacency, routeTo(adjacency, states, index));
+    }
+  });
+  return result;
+}
+
+/**
+ * A path as relationship indexes into Adjacency.edges, with its nodes
+ */
+interface Route {
+  nodes: number[];
+  edges: number[];
+  cost: number;
+}
+
+/**
+ * A node reached by a path search, linked to the state it was reached from
+ */
+interface SearchState {
+  node: number;
+  hops: number;
+  cost: number;
+  /** Relationship followed to the node, -1 for the start */
+  edge: number;
+  parent: number;
+}
+
+interface SearchOptions {
+  /** Node to stop at once its path is known */
+  target?: number;
+  /** Lower bound on the cost from a node to the target */
+  heuristic?: (node: number) => number;
+  limits?: PathLimits;
+  /** Nodes not to enter */
+  blockedNodes?: Set<number>;
+  /** Relationships not to follow */
+  blockedEdges?: Set<number>;
+}
+
+/**
+ * Relationship indexes leaving each node
+ */
+function outgoingEdges(adjacency: Adjacency): number[][] {
+  const outgoing = adjacency.ids.map((): number[] => []);
+  adjacency.edges.forEach((edge, index) => outgoing[edge.source]?.push(index));
+  return outgoing;
+}
+
+/**
+ * Best-first path search, expanding nodes by cost plus the heuristic
+ *
+ * Under a depth limit a node is expanded again when reached over fewer
+ * relationships, as the cheaper path to it may leave too little depth to go
+ * on.
+ *
+ * @returns The states reached, and the index of the cheapest state of each
+ *   node, or -1 for nodes not reached
+ */
+function search(
+  adjacency: Adjacency,
+  outgoing: number[][],
+  source: number,
+  options: SearchOptions = {}
+): { states: SearchState[]; settled: number[] } {
+  const { target, heuristic = () => 0, limits = NO_LIMITS, blockedNodes, blockedEdges } = options;
+  const limited = limits.maxDepth !== Infinity;
+  const states: SearchState[] = [{ node: source, hops: 0, cost: 0, edge: -1, parent: -1 }];
+  const settled = new Array<number>(adjacency.ids.length).fill(-1);
+  const expandedHops = new Array<number>(adjacency.ids.length).fill(Infinity);
+  const tentative = new Array<number>(adjacency.ids.length).fill(Infinity);
+
+  const queue = new MinQueue();
+  queue.push(0, heuristic(source));
+  for (let entry = queue.pop(); entry; entry = queue.pop()) {
+    const index = entry[0];
+    const state = states[index] as SearchState;
+    const rank = limited ? state.hops : 0;
+    if (rank >= (expandedHops[state.node] as number)) {
+      continue;
+    }
+    expandedHops[state.node] = rank;
+    if (settled[state.node] === -1) {
+      settled[state.node] = index;
+    }
+    if (state.node === target) {
+      break;
+    }
+    if (state.hops >= limits.maxDepth) {
+      continue;
+    }
+    for (const edge of outgoing[state.node] as number[]) {
+      const { target: next, weight } = adjacency.edges[edge] as Adjacency['edges'][number];
+      const cost = state.cost + weight;
+      if (blockedEdges?.has(edge) || blockedNodes?.has(next) || cost > limits.maxCost) {
+        continue;
+      }
+      if (!limited) {
+        if (cost >= (tentative[next] as number)) {
+          continue;
+        }
+        tentative[next] = cost;
+      }
+      states.push({ node: next, hops: state.hops + 1, cost, edge, parent: index });
+      queue.push(states.length - 1, cost + heuristic(next));
+    }
+  }
+  return { states, settled };
+}
+
+/**
+ * The path a search took to one of its states
+ */
+function routeTo(adjacency: Adjacency, states: SearchState[], index: number): Route {
+  const edges: number[] = [];
+  let state = states[index] as SearchState;
+  while (state.edge !== -1) {
+    edges.unshift(state.edge);
+    state = states[state.parent] as SearchState;
+  }
+  return route(adjacency, state.node, edges);
+}
+
+function route(adjacency: Adjacency, source: number, edges: number[]): Route {
+  const nodes = [source];
+  let cost = 0;
+  for (const index of edges) {
+    const edge = adjacency.edges[index] as Adjacency['edges'][number];
+    nodes.push(edge.target);
+    cost += edge.weight;
+  }
+  return { nodes, edges, cost };
+}
+
+function describeRoute(adjacency: Adjacency, route: Route): ShortestPathResult {
+  const edges = route.edges.map((index) => adjacency.edges[index] as Adjacency['edges'][number]);
+  return {
+    path: route.nodes.map((node) => adjacency.ids[node] as string),
+    distance: route.cost,
+    relationships: edges.map((edge) => edge.type),
+    weights: edges.map((edge) => edge.weight),
+  };
+}
+
+function searchPath(
+  adjacency: Adjacency,
+  sourceId: string,
+  targetId: string,
+  heuristic: (node: number) => number,
+  limits: PathLimits
+): ShortestPathResult | null {
+  const source = adjacency.ids.indexOf(sourceId);
+  const target = adjacency.ids.indexOf(targetId);
+  if (source === -1 || target === -1) {
+    return null;
+  }
+  const { states, settled } = search(adjacency, outgoingEdges(adjacency), source, { target, heuristic, limits });
+  const index = settled[target] as number;
+  return index === -1 ? null : describeRoute(adjacency, routeTo(adjacency, states, index));
+}
+
+/**
+ * Loopless paths in order of cost, by Yen's algorithm
+ *
+ * Each path after the first leaves one found before it at a spur node, with
+ * the relationships the found paths take from there blocked, and the nodes
+ * before it too so the path stays loopless.
+ */
+function* cheapestRoutes(adjacency: Adjacency, sourceId: string, targetId: string, limits: PathLimits): Generator<Route> {
+  const source = adjacency.ids.indexOf(sourceId);
+  const target = adjacency.ids.indexOf(targetId);
+  if (source === -1 || target === -1) {
+    return;
+  }
+  const outgoing = outgoingEdges(adjacency);
+  const first = search(adjacency, outgoing, source, { target, limits });
+  if (first.settled[target] === -1) {
+    return;
+  }
+
+  const found = [routeTo(adjacency, first.states, first.settled[target] as number)];
+  const candidates: Route[] = [];
+  const seen = new Set([found[0]?.edges.join(',')]);
+  for (let last = found[0] as Route; ; ) {
+    yield last;
+    for (let spur = 0; spur < last.edges.length; spur++) {
+      const root = last.edges.slice(0, spur);
+      const blockedEdges = new Set<number>();
+      for (const path of found) {
+        if (path.edges.length > spur && root.every((edge, hop) => path.edges[hop] === edge)) {
+          blockedEdges.add(path.edges[spur] as number);
+        }
+      }
+      const rootCost = route(adjacency, source, root).cost;
+      const spurSearch = search(adjacency, outgoing, last.nodes[spur] as number, {
+        target,
+        limits: { maxDepth: limits.maxDepth - spur, maxCost: limits.maxCost - rootCost },
+        blockedNodes: new Set(last.nodes.slice(0, spur)),
+        blockedEdges,
+      });
+      const index = spurSearch.settled[target] as number;
+      if (index === -1) {
+        continue;
+      }
+      const edges = [...root, ...routeTo(adjacency, spurSearch.states, index).edges];
+      const key = edges.join(',');
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(route(adjacency, source, edges));
+      }
+    }
+
+    if (candidates.length === 0) {
+      return;
+    }
+    let next = 0;
+    candidates.forEach((candidate, index) => {
+      const best = candidates[next] as Route;
+      if (candidate.cost < best.cost || (candidate.cost === best.cost && candidate.edges.length < best.edges.length)) {
+        next = index;
+      }
+    });
+    last = candidates.splice(next, 1)[0] as Route;
+    found.push(last);
+  }
+}
+
+/**
+ * Binary heap of numbers, such as nodes, ordered by priority and then by
+ * number, so ties between increasing numbers pop in the order pushed
+ */
+class MinQueue {
+  private readonly heap: Array<[item: number, priority: number]> = [];
+
+  push(item: number, priority: number): void {
+    const heap = this.heap;
+    heap.push([item, priority]);
+    let child = heap.length - 1;
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (!this.before(child, parent)) {
+        break;
+      }
+      [heap[parent], heap[child]] = [heap[child] as [number, number], heap[parent] as [number, number]];
+      child = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      let parent = 0;
+      for (;;) {
+        const left = parent * 2 + 1;
+        const right = left + 1;
+        let smallest = parent;
+        if (left < heap.length && this.before(left, smallest)) {
+          smallest = left;
+        }
+        if (right < heap.length && this.before(right, smallest)) {
+          smallest = right;
+        }
+        if (smallest === parent) {
+          break;
+        }
+        [heap[parent], heap[smallest]] = [heap[smallest] as [number, number], heap[parent] as [number, number]];
+        parent = smallest;
+      }
+    }
+    return top;
+  }
+
+  private before(a: number, b: number): boolean {
+    const [itemA, priorityA] = this.heap[a] as [number, number];
+    const [itemB, priorityB] = this.heap[b] as [number, number];
+    return priorityA < priorityB || (priorityA === priorityB && itemA < itemB);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * JSON Graph Format (JGF) reader and writer
+ *
+ * Writes JGF v2 (`nodes` keyed by id) and reads both v2 and v1 (`nodes` as
+ * an array). Labels and properties go in each element's `metadata`, so
+ * every CypherValue round-trips exactly.
+ *
+ * Keys are strings, so a numeric id is keyed as `#<id>` and a string id that
+ * starts with `#` gets one more; any node whose key differs from its id also
+ * carries it as `id`. Numeric 1 and string '1' thus never share a key.
+ */
+
+import type { CypherValue, NodeId } from './types';
+import type { GraphScan, InterchangeRecord } from './interchange';
+import { invalidInput } from './interchange';
+
+type JsonObject = { [key: string]: CypherValue };
+
+interface Frame {
+  type: 'object' | 'array';
+  /** Key or index of this container within its parent */
+  name: string | number | null;
+  /** Last key read in an object */
+  key: string | null;
+  /** Number of values read in an array */
+  index: number;
+  /** Whether the next string in an object is a key */
+  expectKey: boolean;
+}
+
+interface Capture {
+  section: 'nodes' | 'edges';
+  name: string | number;
+  text: string;
+  depth: number;
+  inString: boolean;
+  escape: boolean;
+}
+
+/**
+ * Streaming scanner that extracts the entries of `graph.nodes` and
+ * `graph.edges` without holding the whole document in memory
+ */
+class JsonGraphScanner {
+  private stack: Frame[] = [];
+  private capture: Capture | null = null;
+  private inString: boolean = false;
+  private escape: boolean = false;
+  private stringIsKey: boolean = false;
+  private token: string = '';
+  private scalar: boolean = false;
+  private started: boolean = false;
+
+  *write(chunk: string): Generator<{ section: 'nodes' | 'edges'; name: string | number; value: CypherValue }> {
+    for (const char of chunk) {
+      const capture = this.capture;
+      if (capture) {
+        capture.text += char;
+        if (capture.inString) {
+          if (capture.escape) capture.escape = false;
+          else if (char === '\\') capture.escape = true;
+          else if (char === '"') capture.inString = false;
+        } else if (char === '"') {
+          capture.inString = true;
+        } else if (char === '{' || char === '[') {
+          capture.depth++;
+        } else if (char === '}' || char === ']') {
+          capture.depth--;
+          if (capture.depth === 0) {
+            this.capture = null;
+            yield { section: capture.section, name: capture.name, value: this.parse(capture.text) };
+            this.afterValue();
+          }
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escape) {
+          this.escape = false;
+        } else if (char === '\\') {
+          this.escape = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.finishString();
+          continue;
+        }
+        this.token += char;
+        continue;
+      }
+
+      if (this.scalar) {
+        if (!/[\s,\]}:]/.test(char)) {
+          this.token += char;
+          continue;
+        }
+        this.scalar = false;
+        this.afterValue();
+      }
+
+      if (/\s/.test(char)) {
+        continue;
+      }
+
+      const top = this.stack[this.stack.length - 1];
+      switch (char) {
+        case '{':
+        case '[': {
+          const name = this.beginValue();
+          const section = this.targetSection();
+          if (section) {
+            if (char !== '{') {
+              throw invalidInput('JSON graph', `entries of graph.${section} must be objects`);
+            }
+            this.capture = { section, name: name as string | number, text: char, depth: 1, inString: false, escape: false };
+          } else {
+            this.stack.push({ type: char === '{' ? 'object' : 'array', name, key: null, index: 0, expectKey: char === '{' });
+          }
+          break;
+        }
+        case '}':
+        case ']':
+          if (!top || top.type !== (char === '}' ? 'object' : 'array')) {
+            throw invalidInput('JSON graph', `unexpected ${char}`);
+          }
+          this.stack.pop();
+          this.afterValue();
+          break;
+        case '"':
+          this.inString = true;
+          this.token = '';
+          this.stringIsKey = top?.type === 'object' && top.expectKey;
+          if (!this.stringIsKey) {
+            this.beginValue();
+            if (this.targetSection()) {
+              throw invalidInput('JSON graph', 'graph entries must be objects');
+            }
+          }
+          break;
+        case ':':
+          if (top?.type === 'object') top.expectKey = false;
+          break;
+        case ',':
+          if (top?.type === 'object') top.expectKey = true;
+          break;
+        default:
+          this.beginValue();
+          this.scalar = true;
+          this.token = char;
+      }
+    }
+  }
+
+  end(): void {
+    if (this.capture || this.inString || this.stack.length > 0 || !this.started) {
+      throw invalidInput('JSON graph', 'unexpected end of input');
+    }
+  }
+
+  /**
+   * Note the start of a value and return its key or index in the parent
+   */
+  private beginValue(): string | number | null {
+    this.started = true;
+    const top = this.stack[this.stack.length - 1];
+    if (!top) return null;
+    return top.type === 'object' ? top.key : top.index;
+  }
+
+  /**
+   * Section whose entries are values of the current container, if any
+   */
+  private targetSection(): 'nodes' | 'edges' | null {
+    if (this.stack.length !== 3 || this.stack[1]?.name !== 'graph') {
+      return null;
+    }
+    const name = this.stack[2]?.name;
+    return name === 'nodes' || name === 'edges' ? name : null;
+  }
+
+  private afterValue(): void {
+    const top = this.stack[this.stack.length - 1];
+    if (top?.type === 'array') {
+      top.index++;
+    }
+  }
+
+  private finishString(): void {
+    const top = this.stack[this.stack.length - 1];
+    if (this.stringIsKey && top) {
+      top.key = this.parse(`"${this.token}"`) as string;
+    } else {
+      this.afterValue();
+    }
+  }
+
+  private parse(text: string): CypherValue {
+    try {
+      return JSON.parse(text) as CypherValue;
+    } catch (error) {
+      throw invalidInput('JSON graph', error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+function isObject(value: CypherValue | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNodeId(value: CypherValue | undefined): value is NodeId {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+function splitMetadata(entry: JsonObject): { labels: CypherValue | undefined; properties: JsonObject } {
+  const metadata = isObject(entry.metadata) ? entry.metadata : {};
+  if (isObject(metadata.properties)) {
+    return { labels: metadata.labels, properties: metadata.properties };
+  }
+  const { labels, ...properties } = metadata;
+  return { labels, properties };
+}
+
+/**
+ * Key of a node in `graph.nodes`, distinct for numeric and string ids
+ */
+function nodeKey(id: NodeId): string {
+  return typeof id === 'number' || id.startsWith('#') ? `#${id}` : id;
+}
+
+function withoutNulls(properties: Record<string, CypherValue>): Record<string, CypherValue> {
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== null));
+}
+
+/**
+ * Write a graph as JSON Graph Format v2
+ */
+export function* writeJsonGraph(scan: GraphScan): Generator<string> {
+  yield '{"graph":{"directed":true,"nodes":{';
+  let first = true;
+  for (const node of scan.nodes()) {
+    const metadata = { labels: node.labels, properties: withoutNulls(node.properties) };
+    const key = nodeKey(node.id);
+    const entry = key === node.id ? { metadata } : { id: node.id, metadata };
+    yield `${first ? '' : ','}\n${JSON.stringify(key)}:${JSON.stringify(entry)}`;
+    first = false;
+  }
+
+  yield '\n},"edges":[';
+  first = true;
+  for (const edge of scan.edges()) {
+    const entry = {
+      source: edge.source,
+      target: edge.target,
+      relation: edge.type,
+      metadata: { properties: withoutNulls(edge.properties) },
+    };
+    yield `${first ? '' : ','}\n${JSON.stringify(entry)}`;
+    first = false;
+  }
+  yield '\n]}}\n';
+}
+
+/**
+ * Read nodes and edges from JSON Graph Format text
+ *
+ * Properties are taken from `metadata.properties`, or from the rest of
+ * `metadata` when that is absent. Labels come from `metadata.labels` or,
+ * failing that, the element's `label`. A node's `id` field takes precedence
+ * over its key, and numeric ids and endpoints are kept as numbers.
+ */
+export async function* readJsonGraph(chunks: AsyncIterable<string>): AsyncGenerator<InterchangeRecord> {
+  const scanner = new JsonGraphScanner();
+
+  for await (const chunk of chunks) {
+    for (const { section, name, value } of scanner.write(chunk)) {
+      const entry = value as JsonObject;
+      const { labels, properties } = splitMetadata(entry);
+
+      if (section === 'nodes') {
+        const id = isNodeId(entry.id) ? entry.id : typeof name === 'string' ? name : null;
+        if (id === null) {
+          throw invalidInput('JSON graph', `node ${name} has no id`);
+        }
+        const nodeLabels = Array.isArray(labels)
+          ? labels.map(String)
+          : typeof entry.label === 'string' ? [entry.label] : [];
+        yield { kind: 'node', id, labels: nodeLabels, properties };
+      } else {
+        if (entry.source == null || entry.target == null) {
+          throw invalidInput('JSON graph', `edge ${name} has no source and target`);
+        }
+        const type = entry.relation ?? entry.label;
+        yield {
+          kind: 'edge',
+          source: isNodeId(entry.source) ? entry.source : String(entry.source),
+          target: isNodeId(entry.target) ? entry.target : String(entry.target),
+          type: typeof type === 'string' && type ? type : 'RELATED',
+          properties,
+        };
+      }
+    }
+  }
+  scanner.end();
+}
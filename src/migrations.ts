@@ -0,0 +1,301 @@
+/**
+ * Versioned schema migrations
+ *
+ * Applied migration ids are recorded in the `_graphqlite_migrations` table of
+ * the database file. Each migration runs in its own transaction together with
+ * its record, so a failing migration leaves neither changes nor a record.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Graph } from './graph';
+import { GraphQLiteError } from './types';
+import { toGraphQLiteError } from './utils';
+import { restoreCypher } from './dump';
+
+const TABLE = '_graphqlite_migrations';
+
+/**
+ * One direction of a migration: a Cypher script, or a function given the
+ * graph, awaited if it returns a Promise
+ */
+export type MigrationStep = string | ((graph: Graph) => unknown);
+
+/**
+ * A migration, applied in order of id
+ */
+export interface Migration {
+  /** Unique id; migrations run in ascending order of id, e.g. `001_add_people` */
+  id: string;
+  /** Changes to apply */
+  up: MigrationStep;
+  /** Changes undoing `up`; without it the migration cannot be rolled back */
+  down?: MigrationStep;
+}
+
+/**
+ * Whether a migration has been applied
+ */
+export interface MigrationStatus {
+  id: string;
+  /** When it was applied, as an ISO 8601 timestamp, or null if pending */
+  appliedAt: string | null;
+  /** False for a migration recorded as applied that is no longer defined */
+  defined: boolean;
+}
+
+/**
+ * Options for Migrator.migrate()
+ */
+export interface MigrateOptions {
+  /** Last migration to apply (default: all pending) */
+  to?: string;
+}
+
+/**
+ * Options for Migrator.rollback(); give at most one
+ */
+export interface RollbackOptions {
+  /** Number of migrations to roll back, most recent first (default: 1) */
+  steps?: number;
+  /** Roll back every migration after this one */
+  to?: string;
+}
+
+type AppliedRow = { id: string; applied_at: string };
+
+const CYPHER_FILE = /^(.+)\.(up|down)\.cypher$/;
+const MODULE_FILE = /^(.+)\.(ts|js|mjs)$/;
+
+/**
+ * Load migrations from a directory
+ *
+ * A migration is either a pair of Cypher scripts, `<id>.up.cypher` and an
+ * optional `<id>.down.cypher`, or a module `<id>.ts` (or `.js`, `.mjs`)
+ * exporting `up` and optionally `down` functions. Other files are ignored.
+ *
+ * @throws GraphQLiteError with INVALID_INPUT for a down script without an up
+ *   script, an id defined twice, or a module without an `up` function
+ */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+  const scripts = new Map<string, Partial<Migration>>();
+  const modules = new Map<string, string>();
+
+  for (const file of fs.readdirSync(directory).sort()) {
+    const script = CYPHER_FILE.exec(file);
+    const module = MODULE_FILE.exec(file);
+    if (script) {
+      const id = script[1] as string;
+      const direction = script[2] as 'up' | 'down';
+      const migration = scripts.get(id) ?? { id };
+      migration[direction] = fs.readFileSync(path.join(directory, file), 'utf8');
+      scripts.set(id, migration);
+    } else if (module && !file.endsWith('.d.ts')) {
+      const id = module[1] as string;
+      if (modules.has(id)) {
+        throw new GraphQLiteError(`Migration ${id} is defined by more than one module`, 'INVALID_INPUT');
+      }
+      modules.set(id, path.resolve(directory, file));
+    }
+  }
+
+  const migrations: Migration[] = [];
+  for (const migration of scripts.values()) {
+    if (migration.up === undefined) {
+      throw new GraphQLiteError(`Migration ${migration.id} has a down script but no up script`, 'INVALID_INPUT');
+    }
+    if (modules.has(migration.id as string)) {
+      throw new GraphQLiteError(`Migration ${migration.id} is defined by both scripts and a module`, 'INVALID_INPUT');
+    }
+    migrations.push(migration as Migration);
+  }
+  for (const [id, file] of modules) {
+    const exports = (await import(pathToFileURL(file).href)) as { up?: unknown; down?: unknown };
+    if (typeof exports.up !== 'function') {
+      throw new GraphQLiteError(`Migration module ${file} does not export an up function`, 'INVALID_INPUT');
+    }
+    const down = typeof exports.down === 'function' ? (exports.down as MigrationStep) : undefined;
+    migrations.push({ id, up: exports.up as MigrationStep, down });
+  }
+  return migrations;
+}
+
+/**
+ * Applies and rolls back migrations on a graph
+ *
+ * @example
+ * ```ts
+ * const migrator = await Migrator.fromDirectory(graph, './migrations');
+ * const applied = await migrator.migrate();
+ * console.log(migrator.status());
+ * await migrator.rollback();
+ * ```
+ */
+export class Migrator {
+  private readonly migrations: Migration[];
+
+  /**
+   * @param graph - Graph to migrate
+   * @param migrations - Every migration, in any order
+   * @throws GraphQLiteError with INVALID_ARGUMENT for empty or repeated ids
+   */
+  constructor(
+    private readonly graph: Graph,
+    migrations: Migration[]
+  ) {
+    const ids = new Set<string>();
+    for (const migration of migrations) {
+      if (typeof migration.id !== 'string' || migration.id.length === 0) {
+        throw new GraphQLiteError('Migration ids must be non-empty strings', 'INVALID_ARGUMENT');
+      }
+      if (ids.has(migration.id)) {
+        throw new GraphQLiteError(`Migration ${migration.id} is defined more than once`, 'INVALID_ARGUMENT');
+      }
+      ids.add(migration.id);
+    }
+    this.migrations = [...migrations].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
+  /**
+   * Create a migrator for the migrations in a directory, as read by loadMigrations()
+   */
+  static async fromDirectory(graph: Graph, directory: string): Promise<Migrator> {
+    return new Migrator(graph, await loadMigrations(directory));
+  }
+
+  /**
+   * Every defined or applied migration, in order of id
+   */
+  status(): MigrationStatus[] {
+    const applied = this.applied();
+    const statuses: MigrationStatus[] = this.migrations.map((migration) => ({
+      id: migration.id,
+      appliedAt: applied.get(migration.id) ?? null,
+      defined: true,
+    }));
+    for (const [id, appliedAt] of applied) {
+      if (!this.migrations.some((migration) => migration.id === id)) {
+        statuses.push({ id, appliedAt, defined: false });
+      }
+    }
+    return statuses.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
+  /**
+   * Apply pending migrations in order of id
+   *
+   * Stops at the first failure; migrations applied before it stay applied.
+   *
+   * @returns Ids of the migrations applied
+   * @throws GraphQLiteError with INVALID_ARGUMENT if `to` is not a defined migration
+   * @throws GraphQLiteError naming the migration that failed
+   */
+  async migrate(options: MigrateOptions = {}): Promise<string[]> {
+    const applied = this.applied();
+    let pending = this.migrations.filter((migration) => !applied.has(migration.id));
+    if (options.to !== undefined) {
+      const to = options.to;
+      if (!this.migrations.some((migration) => migration.id === to)) {
+        throw new GraphQLiteError(`Unknown migration: ${to}`, 'INVALID_ARGUMENT');
+      }
+      pending = pending.filter((migration) => migration.id <= to);
+    }
+
+    const done: string[] = [];
+    for (const migration of pending) {
+      await this.run(migration, 'up');
+      done.push(migration.id);
+    }
+    return done;
+  }
+
+  /**
+   * Roll back applied migrations, most recent id first
+   *
+   * Every migration to roll back is checked for a `down` step before any runs.
+   *
+   * @returns Ids of the migrations rolled back
+   * @throws GraphQLiteError with INVALID_ARGUMENT for conflicting or invalid
+   *   options, or a migration that is undefined or has no down step
+   * @throws GraphQLiteError naming the migration that failed
+   */
+  async rollback(options: RollbackOptions = {}): Promise<string[]> {
+    if (options.steps !== undefined && options.to !== undefined) {
+      throw new GraphQLiteError('Pass either steps or to, not both', 'INVALID_ARGUMENT');
+    }
+    const steps = options.steps ?? 1;
+    if (!Number.isInteger(steps) || steps < 0) {
+      throw new GraphQLiteError(`steps must be a non-negative integer, got ${steps}`, 'INVALID_ARGUMENT');
+    }
+
+    const applied = [...this.applied().keys()].sort().reverse();
+    let ids: string[];
+    if (options.to !== undefined) {
+      const to = options.to;
+      if (!applied.includes(to)) {
+        throw new GraphQLiteError(`Migration ${to} is not applied`, 'INVALID_ARGUMENT');
+      }
+      ids = applied.filter((id) => id > to);
+    } else {
+      ids = applied.slice(0, steps);
+    }
+
+    const migrations = ids.map((id) => {
+      const migration = this.migrations.find((candidate) => candidate.id === id);
+      if (!migration) {
+        throw new GraphQLiteError(`Migration ${id} is applied but not defined`, 'INVALID_ARGUMENT');
+      }
+      if (migration.down === undefined) {
+        throw new GraphQLiteError(`Migration ${id} has no down step`, 'INVALID_ARGUMENT');
+      }
+      return migration;
+    });
+
+    for (const migration of migrations) {
+      await this.run(migration, 'down');
+    }
+    return ids;
+  }
+
+  /**
+   * Applied migration ids and when they were applied
+   */
+  private applied(): Map<string, string> {
+    const db = this.graph.getDatabase();
+    db.run(`CREATE TABLE IF NOT EXISTS ${TABLE} (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL)`);
+    const rows = db.query<AppliedRow, []>(`SELECT id, applied_at FROM ${TABLE}`).all();
+    return new Map(rows.map((row) => [row.id, row.applied_at]));
+  }
+
+  /**
+   * Run one step of a migration and update its record in the same transaction
+   */
+  private async run(migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    const step = migration[direction] as MigrationStep;
+    const db = this.graph.getDatabase();
+
+    try {
+      await this.graph.transactionAsync(async (graph) => {
+        if (typeof step === 'string') {
+          await restoreCypher(graph, step);
+        } else {
+          await step(graph);
+        }
+        if (direction === 'up') {
+          db.query(`INSERT INTO ${TABLE} (id, applied_at) VALUES (?, ?)`).run(migration.id, new Date().toISOString());
+        } else {
+          db.query(`DELETE FROM ${TABLE} WHERE id = ?`).run(migration.id);
+        }
+      });
+    } catch (error) {
+      const cause = toGraphQLiteError(error);
+      throw new GraphQLiteError(`Migration ${migration.id} ${direction} failed: ${cause.message}`, cause.code, {
+        query: cause.query,
+        line: cause.line,
+        column: cause.column,
+        cause,
+      });
+    }
+  }
+}
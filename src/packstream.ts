@@ -0,0 +1,369 @@
+/**
+ * PackStream, the binary value format of the Bolt protocol
+ *
+ * Values are null, booleans, 64-bit integers, doubles, strings, byte arrays,
+ * lists, string-keyed maps and tagged structures. Integers decode to numbers
+ * and are rejected outside the safe integer range.
+ */
+
+import { GraphQLiteError } from './types';
+
+/**
+ * A tagged structure, such as a Bolt message or a node
+ */
+export class Structure {
+  constructor(
+    public readonly tag: number,
+    public readonly fields: PackStreamValue[]
+  ) {}
+}
+
+/**
+ * Any value PackStream can represent
+ */
+export type PackStreamValue =
+  | null
+  | boolean
+  | number
+  | string
+  | Uint8Array
+  | Structure
+  | PackStreamValue[]
+  | { [key: string]: PackStreamValue };
+
+const NULL = 0xc0;
+const FLOAT_64 = 0xc1;
+const FALSE = 0xc2;
+const TRUE = 0xc3;
+const INT_8 = 0xc8;
+const INT_16 = 0xc9;
+const INT_32 = 0xca;
+const INT_64 = 0xcb;
+const BYTES_8 = 0xcc;
+const BYTES_16 = 0xcd;
+const BYTES_32 = 0xce;
+const STRING_8 = 0xd0;
+const STRING_16 = 0xd1;
+const STRING_32 = 0xd2;
+const LIST_8 = 0xd4;
+const LIST_16 = 0xd5;
+const LIST_32 = 0xd6;
+const MAP_8 = 0xd8;
+const MAP_16 = 0xd9;
+const MAP_32 = 0xda;
+
+const TINY_STRING = 0x80;
+const TINY_LIST = 0x90;
+const TINY_MAP = 0xa0;
+const TINY_STRUCT = 0xb0;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Serializes values into a growing buffer
+ */
+export class PackStreamWriter {
+  private buffer: Uint8Array = new Uint8Array(256);
+  private view: DataView = new DataView(this.buffer.buffer);
+  private length: number = 0;
+
+  /**
+   * Append a value
+   *
+   * @throws GraphQLiteError with INVALID_ARGUMENT for values PackStream
+   *   cannot hold, such as structures with more than 15 fields
+   */
+  pack(value: PackStreamValue): this {
+    if (value === null || value === undefined) {
+      this.byte(NULL);
+    } else if (typeof value === 'boolean') {
+      this.byte(value ? TRUE : FALSE);
+    } else if (typeof value === 'number') {
+      this.packNumber(value);
+    } else if (typeof value === 'string') {
+      const bytes = encoder.encode(value);
+      this.header(bytes.length, TINY_STRING, [STRING_8, STRING_16, STRING_32]);
+      this.bytes(bytes);
+    } else if (value instanceof Uint8Array) {
+      this.header(value.length, null, [BYTES_8, BYTES_16, BYTES_32]);
+      this.bytes(value);
+    } else if (value instanceof Structure) {
+      if (value.fields.length > 15) {
+        throw new GraphQLiteError(`Structures hold at most 15 fields, got ${value.fields.length}`, 'INVALID_ARGUMENT');
+      }
+      this.byte(TINY_STRUCT | value.fields.length);
+      this.byte(value.tag);
+      value.fields.forEach((field) => this.pack(field));
+    } else if (Array.isArray(value)) {
+      this.header(value.length, TINY_LIST, [LIST_8, LIST_16, LIST_32]);
+      value.forEach((item) => this.pack(item));
+    } else {
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      this.header(entries.length, TINY_MAP, [MAP_8, MAP_16, MAP_32]);
+      for (const [key, item] of entries) {
+        this.pack(key);
+        this.pack(item);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * The bytes written so far
+   */
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private packNumber(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      this.reserve(9);
+      this.buffer[this.length] = FLOAT_64;
+      this.view.setFloat64(this.length + 1, value);
+      this.length += 9;
+    } else if (value >= -16 && value <= 127) {
+      this.byte(value & 0xff);
+    } else if (value >= -0x80 && value < 0x80) {
+      this.reserve(2);
+      this.buffer[this.length] = INT_8;
+      this.view.setInt8(this.length + 1, value);
+      this.length += 2;
+    } else if (value >= -0x8000 && value < 0x8000) {
+      this.reserve(3);
+      this.buffer[this.length] = INT_16;
+      this.view.setInt16(this.length + 1, value);
+      this.length += 3;
+    } else if (value >= -0x80000000 && value < 0x80000000) {
+      this.reserve(5);
+      this.buffer[this.length] = INT_32;
+      this.view.setInt32(this.length + 1, value);
+      this.length += 5;
+    } else {
+      this.reserve(9);
+      this.buffer[this.length] = INT_64;
+      this.view.setBigInt64(this.length + 1, BigInt(value));
+      this.length += 9;
+    }
+  }
+
+  /**
+   * Write a size marker: the tiny form when there is one, else 8, 16 or 32 bits
+   */
+  private header(size: number, tiny: number | null, markers: [number, number, number]): void {
+    if (tiny !== null && size < 16) {
+      this.byte(tiny | size);
+    } else if (size < 0x100) {
+      this.reserve(2);
+      this.buffer[this.length] = markers[0];
+      this.buffer[this.length + 1] = size;
+      this.length += 2;
+    } else if (size < 0x10000) {
+      this.reserve(3);
+      this.buffer[this.length] = markers[1];
+      this.view.setUint16(this.length + 1, size);
+      this.length += 3;
+    } else {
+      this.reserve(5);
+      this.buffer[this.length] = markers[2];
+      this.view.setUint32(this.length + 1, size);
+      this.length += 5;
+    }
+  }
+
+  private byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  private bytes(value: Uint8Array): void {
+    this.reserve(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) {
+      return;
+    }
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const buffer = new Uint8Array(capacity);
+    buffer.set(this.buffer.subarray(0, this.length));
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+}
+
+/**
+ * Deserializes values from a byte array
+ */
+export class PackStreamReader {
+  private readonly view: DataView;
+  private offset: number = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Whether every byte has been read
+   */
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  /**
+   * Read the next value
+   *
+   * @throws GraphQLiteError with INVALID_INPUT on truncated or malformed data
+   */
+  unpack(): PackStreamValue {
+    const marker = this.uint(1);
+
+    if (marker < 0x80) {
+      return marker;
+    }
+    if (marker >= 0xf0) {
+      return marker - 0x100;
+    }
+
+    switch (marker & 0xf0) {
+      case TINY_STRING:
+        return this.string(marker & 0x0f);
+      case TINY_LIST:
+        return this.list(marker & 0x0f);
+      case TINY_MAP:
+        return this.map(marker & 0x0f);
+      case TINY_STRUCT:
+        return new Structure(this.uint(1), this.list(marker & 0x0f));
+    }
+
+    switch (marker) {
+      case NULL:
+        return null;
+      case FALSE:
+        return false;
+      case TRUE:
+        return true;
+      case FLOAT_64:
+        return this.read(8, () => this.view.getFloat64(this.offset));
+      case INT_8:
+        return this.read(1, () => this.view.getInt8(this.offset));
+      case INT_16:
+        return this.read(2, () => this.view.getInt16(this.offset));
+      case INT_32:
+        return this.read(4, () => this.view.getInt32(this.offset));
+      case INT_64: {
+        const value = this.read(8, () => this.view.getBigInt64(this.offset));
+        if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+          throw new GraphQLiteError(`Integer ${value} is outside the safe integer range`, 'INVALID_INPUT');
+        }
+        return Number(value);
+      }
+      case BYTES_8:
+      case BYTES_16:
+      case BYTES_32:
+        return this.slice(this.size(marker - BYTES_8)).slice();
+      case STRING_8:
+      case STRING_16:
+      case STRING_32:
+        return this.string(this.size(marker - STRING_8));
+      case LIST_8:
+      case LIST_16:
+      case LIST_32:
+        return this.list(this.size(marker - LIST_8));
+      case MAP_8:
+      case MAP_16:
+      case MAP_32:
+        return this.map(this.size(marker - MAP_8));
+      default:
+        throw new GraphQLiteError(`Unknown PackStream marker 0x${marker.toString(16)}`, 'INVALID_INPUT');
+    }
+  }
+
+  /**
+   * Read an 8, 16 or 32-bit size, by the marker's position in its group
+   */
+  private size(width: number): number {
+    return this.uint(2 ** width);
+  }
+
+  private uint(bytes: number): number {
+    return this.read(bytes, () =>
+      bytes === 1 ? this.view.getUint8(this.offset) : bytes === 2 ? this.view.getUint16(this.offset) : this.view.getUint32(this.offset)
+    );
+  }
+
+  private read<T>(bytes: number, get: () => T): T {
+    this.need(bytes);
+    const value = get();
+    this.offset += bytes;
+    return value;
+  }
+
+  private slice(length: number): Uint8Array {
+    this.need(length);
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  private string(length: number): string {
+    const bytes = this.slice(length);
+    try {
+      return decoder.decode(bytes);
+    } catch {
+      throw new GraphQLiteError('Invalid UTF-8 in PackStream string', 'INVALID_INPUT');
+    }
+  }
+
+  private list(length: number): PackStreamValue[] {
+    const items: PackStreamValue[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(this.unpack());
+    }
+    return items;
+  }
+
+  private map(length: number): { [key: string]: PackStreamValue } {
+    const map: { [key: string]: PackStreamValue } = {};
+    for (let i = 0; i < length; i++) {
+      const key = this.unpack();
+      if (typeof key !== 'string') {
+        throw new GraphQLiteError('PackStream map keys must be strings', 'INVALID_INPUT');
+      }
+      map[key] = this.unpack();
+    }
+    return map;
+  }
+
+  private need(bytes: number): void {
+    if (this.offset + bytes > this.bytes.length) {
+      throw new GraphQLiteError('Unexpected end of PackStream data', 'INVALID_INPUT');
+    }
+  }
+}
+
+/**
+ * Serialize one value
+ */
+export function pack(value: PackStreamValue): Uint8Array {
+  return new PackStreamWriter().pack(value).toBytes();
+}
+
+/**
+ * Deserialize exactly one value
+ *
+ * @throws GraphQLiteError with INVALID_INPUT on malformed data or trailing bytes
+ */
+export function unpack(bytes: Uint8Array): PackStreamValue {
+  const reader = new PackStreamReader(bytes);
+  const value = reader.unpack();
+  if (!reader.done) {
+    throw new GraphQLiteError('Unexpected bytes after PackStream value', 'INVALID_INPUT');
+  }
+  return value;
+}
@@ -0,0 +1,429 @@
+/**
+ * Connection pool with concurrent readers and a single writer
+ */
+
+import { AsyncGraph } from './async-graph';
+import type {
+  CypherValue,
+  CypherRow,
+  CypherResult,
+  AsyncGraphOptions,
+  AsyncCallOptions,
+  GraphPoolOptions,
+  PoolStats,
+  GraphStats,
+  GraphSchema,
+  NodeInput,
+  EdgeInput,
+  BatchUpsertOptions,
+  BatchUpsertResult,
+  AlgorithmOptions,
+  PageRankResult,
+  LouvainResult,
+  ShortestPathResult,
+  ShortestPathsResult,
+  DegreeCentralityResult,
+  CentralityResult,
+  ComponentsResult,
+  TriangleCountResult,
+  TraversalStep,
+} from './types';
+import { GraphQLiteError } from './types';
+import { isReadOnlyQuery } from './utils';
+
+/**
+ * Default number of read connections
+ */
+const DEFAULT_READERS = 4;
+
+/**
+ * Default busy timeout for pooled connections, in milliseconds
+ */
+const DEFAULT_BUSY_TIMEOUT = 5000;
+
+/**
+ * A pool of AsyncGraph connections to one database file
+ *
+ * The writer connection switches the database to WAL mode so readers never
+ * block on it. Read-only Cypher goes to the least busy reader and every
+ * other query goes to the writer, so writes are serialized while reads run
+ * in parallel worker threads.
+ *
+ * @example
+ * ```ts
+ * const pool = new GraphPool('my-graph.db', { readers: 4 });
+ * await pool.cypher('CREATE (n:Person {name: $name})', { name: 'Alice' }); // writer
+ * const rows = await pool.cypher('MATCH (n:Person) RETURN n.name AS name'); // a reader
+ * await pool.close();
+ * ```
+ */
+export class GraphPool {
+  private readonly writer: AsyncGraph;
+  private readers: AsyncGraph[] = [];
+  private pendingReads: number[] = [];
+  private pendingWrites: number = 0;
+  private completedReads: number = 0;
+  private completedWrites: number = 0;
+  private closing: Promise<void> | null = null;
+  private readonly readyPromise: Promise<void>;
+
+  /**
+   * Open the writer and reader connections
+   *
+   * @param dbPath - Path to the database file; ':memory:' is not supported
+   * @param options - Connection options plus the number of readers
+   */
+  constructor(dbPath: string, options: GraphPoolOptions = {}) {
+    if (dbPath === '' || dbPath === ':memory:') {
+      throw new GraphQLiteError('GraphPool needs a database file shared by its connections', 'INVALID_ARGUMENT');
+    }
+
+    const { readers = DEFAULT_READERS, ...graphOptions } = options;
+    if (!Number.isInteger(readers) || readers < 1) {
+      throw new GraphQLiteError(`readers must be a positive integer, got ${readers}`, 'INVALID_ARGUMENT');
+    }
+
+    const connectionOptions: AsyncGraphOptions = { busyTimeout: DEFAULT_BUSY_TIMEOUT, ...graphOptions };
+    this.writer = new AsyncGraph(dbPath, { journalMode: 'WAL', ...connectionOptions });
+
+    // Readers open once the writer has switched the file to WAL
+    this.readyPromise = this.writer.ready().then(async () => {
+      const { journalMode, ...readerOptions } = connectionOptions;
+      this.readers = Array.from({ length: readers }, () => new AsyncGraph(dbPath, readerOptions));
+      this.pendingReads = this.readers.map(() => 0);
+      await Promise.all(this.readers.map((reader) => reader.ready()));
+    });
+    this.readyPromise.catch(() => undefined);
+  }
+
+  /**
+   * Wait until every connection has opened the database
+   *
+   * @throws GraphQLiteError if a connection could not be opened
+   */
+  ready(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  /**
+   * Execute a Cypher query on a reader if it only reads, else on the writer
+   */
+  cypher<T extends CypherRow = CypherRow>(
+    query: string,
+    params?: Record<string, CypherValue>,
+    options?: AsyncCallOptions
+  ): Promise<T[]> {
+    const run = (graph: AsyncGraph) => graph.cypher<T>(query, params, options);
+    return isReadOnlyQuery(query) ? this.read(run) : this.write(run);
+  }
+
+  /**
+   * Execute a Cypher query and return raw result, routed like cypher()
+   */
+  cypherRaw(
+    query: string,
+    params?: Record<string, CypherValue>,
+    options?: AsyncCallOptions
+  ): Promise<CypherResult> {
+    const run = (graph: AsyncGraph) => graph.cypherRaw(query, params, options);
+    return isReadOnlyQuery(query) ? this.read(run) : this.write(run);
+  }
+
+  /**
+   * Get graph statistics from a reader
+   */
+  getStats(options?: AsyncCallOptions): Promise<GraphStats> {
+    return this.read((graph) => graph.getStats(options));
+  }
+
+  /**
+   * Describe the labels, relationship types and property keys from a reader
+   */
+  schema(options?: AsyncCallOptions): Promise<GraphSchema> {
+    return this.read((graph) => graph.schema(options));
+  }
+
+  /**
+   * Upsert a node on the writer
+   */
+  upsertNode(
+    nodeId: string,
+    properties: Record<string, CypherValue>,
+    label?: string,
+    options?: AsyncCallOptions
+  ): Promise<void> {
+    return this.write((graph) => graph.upsertNode(nodeId, properties, label, options));
+  }
+
+  /**
+   * Upsert an edge on the writer
+   */
+  upsertEdge(
+    sourceId: string,
+    targetId: string,
+    properties: Record<string, CypherValue>,
+    relType?: string,
+    options?: AsyncCallOptions
+  ): Promise<void> {
+    return this.write((graph) => graph.upsertEdge(sourceId, targetId, properties, relType, options));
+  }
+
+  /**
+   * Upsert many nodes on the writer in one transaction
+   */
+  upsertNodes(
+    items: Iterable<NodeInput> | AsyncIterable<NodeInput>,
+    options?: BatchUpsertOptions & AsyncCallOptions
+  ): Promise<BatchUpsertResult> {
+    return this.write((graph) => graph.upsertNodes(items, options));
+  }
+
+  /**
+   * Upsert many edges on the writer in one transaction
+   */
+  upsertEdges(
+    items: Iterable<EdgeInput> | AsyncIterable<EdgeInput>,
+    options?: BatchUpsertOptions & AsyncCallOptions
+  ): Promise<BatchUpsertResult> {
+    return this.write((graph) => graph.upsertEdges(items, options));
+  }
+
+  /**
+   * Run PageRank on a reader
+   */
+  pagerank(options?: AlgorithmOptions & AsyncCallOptions): Promise<PageRankResult>;
+  pagerank(damping?: number, iterations?: number, options?: AsyncCallOptions): Promise<PageRankResult>;
+  pagerank(
+    dampingOrOptions?: number | (AlgorithmOptions & AsyncCallOptions),
+    iterations?: number,
+    options?: AsyncCallOptions
+  ): Promise<PageRankResult> {
+    if (typeof dampingOrOptions === 'object') {
+      return this.algorithm(dampingOrOptions, (graph) => graph.pagerank(dampingOrOptions));
+    }
+    return this.read((graph) => graph.pagerank(dampingOrOptions, iterations, options));
+  }
+
+  /**
+   * Run Louvain community detection on a reader
+   */
+  louvain(options?: AlgorithmOptions & AsyncCallOptions): Promise<LouvainResult>;
+  louvain(resolution?: number, options?: AsyncCallOptions): Promise<LouvainResult>;
+  louvain(resolutionOrOptions?: number | (AlgorithmOptions & AsyncCallOptions), options?: AsyncCallOptions): Promise<LouvainResult> {
+    if (typeof resolutionOrOptions === 'object') {
+      return this.algorithm(resolutionOrOptions, (graph) => graph.louvain(resolutionOrOptions));
+    }
+    return this.read((graph) => graph.louvain(resolutionOrOptions, options));
+  }
+
+  /**
+   * Find the shortest path between two nodes on a reader
+   */
+  shortestPath(
+    sourceId: string,
+    targetId: string,
+    weight?: string | (AlgorithmOptions & AsyncCallOptions),
+    options?: AsyncCallOptions
+  ): Promise<ShortestPathResult | null> {
+    return this.read((graph) => graph.shortestPath(sourceId, targetId, weight, options));
+  }
+
+  /**
+   * Alias for shortestPath() using Dijkstra's algorithm
+   */
+  dijkstra(
+    sourceId: string,
+    targetId: string,
+    weight?: string | (AlgorithmOptions & AsyncCallOptions),
+    options?: AsyncCallOptions
+  ): Promise<ShortestPathResult | null> {
+    return this.shortestPath(sourceId, targetId, weight, options);
+  }
+
+  /**
+   * Count each node's relationships on a reader
+   */
+  degreeCentrality(options?: AlgorithmOptions & AsyncCallOptions): Promise<DegreeCentralityResult> {
+    return this.algorithm(options, (graph) => graph.degreeCentrality(options));
+  }
+
+  /**
+   * Compute betweenness centrality on a reader
+   */
+  betweennessCentrality(options?: AlgorithmOptions & AsyncCallOptions): Promise<CentralityResult> {
+    return this.algorithm(options, (graph) => graph.betweennessCentrality(options));
+  }
+
+  /**
+   * Compute closeness centrality on a reader
+   */
+  closenessCentrality(options?: AlgorithmOptions & AsyncCallOptions): Promise<CentralityResult> {
+    return this.algorithm(options, (graph) => graph.closenessCentrality(options));
+  }
+
+  /**
+   * Find weakly connected components on a reader
+   */
+  weaklyConnectedComponents(options?: AlgorithmOptions & AsyncCallOptions): Promise<ComponentsResult> {
+    return this.algorithm(options, (graph) => graph.weaklyConnectedComponents(options));
+  }
+
+  /**
+   * Find strongly connected components on a reader
+   */
+  stronglyConnectedComponents(options?: AlgorithmOptions & AsyncCallOptions): Promise<ComponentsResult> {
+    return this.algorithm(options, (graph) => graph.stronglyConnectedComponents(options));
+  }
+
+  /**
+   * Detect communities by label propagation on a reader
+   */
+  labelPropagation(options?: AlgorithmOptions & AsyncCallOptions): Promise<ComponentsResult> {
+    return this.algorithm(options, (graph) => graph.labelPropagation(options));
+  }
+
+  /**
+   * Count the triangles through each node on a reader
+   */
+  triangleCount(options?: AlgorithmOptions & AsyncCallOptions): Promise<TriangleCountResult> {
+    return this.algorithm(options, (graph) => graph.triangleCount(options));
+  }
+
+  /**
+   * Visit nodes breadth-first on a reader
+   */
+  bfs(startId: string, options?: AlgorithmOptions & AsyncCallOptions): Promise<TraversalStep[]> {
+    return this.algorithm(options, (graph) => graph.bfs(startId, options));
+  }
+
+  /**
+   * Visit nodes depth-first on a reader
+   */
+  dfs(startId: string, options?: AlgorithmOptions & AsyncCallOptions): Promise<TraversalStep[]> {
+    return this.algorithm(options, (graph) => graph.dfs(startId, options));
+  }
+
+  /**
+   * Find a shortest path with A* on a reader
+   */
+  astar(
+    sourceId: string,
+    targetId: string,
+    options?: AlgorithmOptions & AsyncCallOptions
+  ): Promise<ShortestPathResult | null> {
+    return this.read((graph) => graph.astar(sourceId, targetId, options));
+  }
+
+  /**
+   * Find the k cheapest paths between two nodes on a reader
+   */
+  kShortestPaths(
+    sourceId: string,
+    targetId: string,
+    k: number,
+    options?: AlgorithmOptions & AsyncCallOptions
+  ): Promise<ShortestPathResult[]> {
+    return this.read((graph) => graph.kShortestPaths(sourceId, targetId, k, options));
+  }
+
+  /**
+   * Find every path of the lowest cost between two nodes on a reader
+   */
+  allShortestPaths(
+    sourceId: string,
+    targetId: string,
+    options?: AlgorithmOptions & AsyncCallOptions
+  ): Promise<ShortestPathResult[]> {
+    return this.read((graph) => graph.allShortestPaths(sourceId, targetId, options));
+  }
+
+  /**
+   * Find the shortest path from a node to every node it reaches on a reader
+   */
+  shortestPathsFrom(sourceId: string, options?: AlgorithmOptions & AsyncCallOptions): Promise<ShortestPathsResult> {
+    return this.read((graph) => graph.shortestPathsFrom(sourceId, options));
+  }
+
+  /**
+   * Get a snapshot of pool activity
+   */
+  stats(): PoolStats {
+    return {
+      readers: this.readers.length,
+      pendingReads: [...this.pendingReads],
+      pendingWrites: this.pendingWrites,
+      completedReads: this.completedReads,
+      completedWrites: this.completedWrites,
+    };
+  }
+
+  /**
+   * Close every connection after the calls already made have finished
+   *
+   * Calls made after close() reject with POOL_CLOSED.
+   */
+  close(): Promise<void> {
+    this.closing ??= (async () => {
+      await this.readyPromise.catch(() => undefined);
+      await Promise.all([this.writer, ...this.readers].map((graph) => graph.close()));
+    })();
+    return this.closing;
+  }
+
+  /**
+   * Run an algorithm on a reader, or on the writer if it writes its results
+   */
+  private algorithm<T>(options: AlgorithmOptions | undefined, fn: (graph: AsyncGraph) => Promise<T>): Promise<T> {
+    return options?.writeProperty === undefined ? this.read(fn) : this.write(fn);
+  }
+
+  /**
+   * Run a call on the least busy reader
+   */
+  private async read<T>(fn: (graph: AsyncGraph) => Promise<T>): Promise<T> {
+    await this.ensureOpen();
+
+    let index = 0;
+    for (let i = 1; i < this.readers.length; i++) {
+      if ((this.pendingReads[i] ?? 0) < (this.pendingReads[index] ?? 0)) {
+        index = i;
+      }
+    }
+
+    this.pendingReads[index] = (this.pendingReads[index] ?? 0) + 1;
+    try {
+      return await fn(this.readers[index] as AsyncGraph);
+    } finally {
+      this.pendingReads[index] = (this.pendingReads[index] ?? 1) - 1;
+      this.completedReads++;
+    }
+  }
+
+  /**
+   * Run a call on the writer
+   */
+  private async write<T>(fn: (graph: AsyncGraph) => Promise<T>): Promise<T> {
+    await this.ensureOpen();
+
+    this.pendingWrites++;
+    try {
+      return await fn(this.writer);
+    } finally {
+      this.pendingWrites--;
+      this.completedWrites++;
+    }
+  }
+
+  /**
+   * Wait for the pool to open, rejecting once close() has been called
+   */
+  private async ensureOpen(): Promise<void> {
+    if (this.closing) {
+      throw new GraphQLiteError('Pool is closed', 'POOL_CLOSED');
+    }
+    await this.readyPromise;
+    if (this.closing) {
+      throw new GraphQLiteError('Pool is closed', 'POOL_CLOSED');
+    }
+  }
+}
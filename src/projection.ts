@@ -0,0 +1,146 @@
+/**
+ * In-memory graph projections
+ *
+ * A ProjectedGraph holds the adjacency list of a projection, read once, so
+ * several algorithms can run over it without reading the graph again.
+ * Algorithms run over it with `mutateProperty` keep their results on it as
+ * node properties, which can be read back or written to the graph later.
+ */
+
+import type { Graph } from './graph';
+import type { CypherValue, GraphProjection } from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier } from './utils';
+import { keyNodeIds } from './js-engine';
+import type { Adjacency } from './js-engine';
+
+/**
+ * Number of nodes written by one UNWIND query
+ */
+const WRITE_CHUNK_SIZE = 500;
+
+/**
+ * Set a property on nodes by internal id, in one transaction
+ *
+ * Writes one UNWIND query per chunk of nodes rather than one per node.
+ *
+ * @param values - Property value for each result key
+ * @param nodeIds - Internal id of the node behind each result key
+ * @returns Number of nodes written
+ */
+export function writeNodeProperty(
+  graph: Graph,
+  property: string,
+  values: Record<string, CypherValue>,
+  nodeIds: Map<string, number>
+): number {
+  const key = quoteIdentifier(property, 'property key');
+  const rows: Array<Record<string, CypherValue>> = [];
+  for (const [id, value] of Object.entries(values)) {
+    const node = nodeIds.get(id);
+    if (node !== undefined) {
+      rows.push({ node, value });
+    }
+  }
+  return graph.transaction((target) => {
+    for (let start = 0; start < rows.length; start += WRITE_CHUNK_SIZE) {
+      target.cypher(`UNWIND $rows AS row MATCH (n) WHERE id(n) = row.node SET n.${key} = row.value`, {
+        rows: rows.slice(start, start + WRITE_CHUNK_SIZE),
+      });
+    }
+    return rows.length;
+  });
+}
+
+/**
+ * A projection of a graph held in memory, created by Graph.project()
+ *
+ * Pass it as the `projection` of an algorithm to run over it. It reflects the
+ * graph when it was projected; later changes to the graph are not seen.
+ *
+ * @example
+ * ```ts
+ * const people = graph.project({ labels: ['Person'], relationshipTypes: ['KNOWS'] });
+ * graph.pagerank({ projection: people, mutateProperty: 'rank' });
+ * graph.louvain({ projection: people, mutateProperty: 'community' });
+ * people.writeNodeProperties(['rank', 'community']);
+ * ```
+ */
+export class ProjectedGraph {
+  private readonly properties = new Map<string, Record<string, CypherValue>>();
+
+  /**
+   * @param graph - Graph the projection was read from
+   * @param projection - The projection read
+   * @param adjacency - Its nodes and relationships
+   */
+  constructor(
+    readonly graph: Graph,
+    readonly projection: GraphProjection,
+    readonly adjacency: Adjacency
+  ) {}
+
+  /**
+   * Number of nodes in the projection
+   */
+  get nodeCount(): number {
+    return this.adjacency.ids.length;
+  }
+
+  /**
+   * Number of relationships in the projection, counting a relationship
+   * followed both ways twice
+   */
+  get relationshipCount(): number {
+    return this.adjacency.edges.length;
+  }
+
+  /**
+   * Names of the node properties kept on the projection, sorted
+   */
+  nodePropertyNames(): string[] {
+    return [...this.properties.keys()].sort();
+  }
+
+  /**
+   * Values of a node property kept on the projection, keyed by node ID
+   */
+  nodeProperty(name: string): Record<string, CypherValue> | undefined {
+    const values = this.properties.get(name);
+    return values && { ...values };
+  }
+
+  /**
+   * Keep a node property on the projection, replacing one of the same name
+   *
+   * @throws GraphQLiteError with INVALID_ARGUMENT for an empty name
+   */
+  mutateNodeProperty(name: string, values: Record<string, CypherValue>): void {
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new GraphQLiteError('Property name must be a non-empty string', 'INVALID_ARGUMENT');
+    }
+    this.properties.set(name, { ...values });
+  }
+
+  /**
+   * Write node properties kept on the projection to the graph, in one transaction
+   *
+   * @param names - Properties to write (default: all)
+   * @returns Number of property values written
+   * @throws GraphQLiteError with INVALID_ARGUMENT for a property not kept
+   */
+  writeNodeProperties(names: string[] = this.nodePropertyNames()): number {
+    for (const name of names) {
+      if (!this.properties.has(name)) {
+        throw new GraphQLiteError(`No node property ${name} on the projection`, 'INVALID_ARGUMENT');
+      }
+    }
+    const nodeIds = keyNodeIds(this.adjacency);
+    return this.graph.transaction((graph) =>
+      names.reduce(
+        (written, name) => written + writeNodeProperty(graph, name, this.properties.get(name) as Record<string, CypherValue>, nodeIds),
+        0
+      )
+    );
+  }
+}
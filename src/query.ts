@@ -0,0 +1,554 @@
+/**
+ * Typed Cypher query builder for GraphQLite
+ */
+
+import type { Graph } from './graph';
+import type { CypherValue, CypherRow } from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier } from './utils';
+
+/**
+ * A named query parameter
+ */
+export class Param<T extends CypherValue = CypherValue> {
+  constructor(
+    public readonly name: string,
+    public readonly value: T
+  ) {}
+}
+
+/**
+ * A raw Cypher expression annotated with the type it evaluates to
+ */
+export class Expr<T extends CypherValue = CypherValue> {
+  /** Phantom field carrying the result type; never set at runtime */
+  declare readonly __type?: T;
+
+  constructor(public readonly text: string) {}
+}
+
+/**
+ * Property values accepted in patterns and SET clauses
+ *
+ * Literal values are bound as generated parameters; Param instances keep
+ * their own name.
+ */
+export type PropertyValues = Record<string, CypherValue | Param>;
+
+/**
+ * Return projection: column alias to expression
+ */
+export type Projection = Record<string, string | Expr<CypherValue>>;
+
+/**
+ * Row type produced by a return projection
+ *
+ * Columns given as Expr<T> are typed T; plain string expressions are CypherValue.
+ */
+export type ProjectionRow<P extends Projection> = {
+  [K in keyof P]: P[K] extends Expr<infer T> ? T : CypherValue;
+};
+
+/**
+ * Compiled query ready to pass to cypher()
+ */
+export interface CompiledQuery {
+  query: string;
+  params: Record<string, CypherValue>;
+}
+
+/**
+ * Create a named query parameter
+ *
+ * @example node('p', 'Person', { name: param('name', 'Alice') })
+ */
+export function param<T extends CypherValue>(name: string, value: T): Param<T> {
+  return new Param(name, value);
+}
+
+/**
+ * Create a typed expression for use in where() and return()
+ *
+ * @example query.return({ age: expr<number>('p.age') })
+ */
+export function expr<T extends CypherValue = CypherValue>(text: string): Expr<T> {
+  return new Expr<T>(text);
+}
+
+/**
+ * Prefix of generated parameter names, reserved so they never collide with param() names
+ */
+const GENERATED_PARAM_PREFIX = '__p';
+
+/**
+ * Set a named parameter, rejecting a different value under the same name
+ */
+function setParam(params: Record<string, CypherValue>, name: string, value: CypherValue): void {
+  if (name in params && JSON.stringify(params[name]) !== JSON.stringify(value)) {
+    throw new GraphQLiteError(`Parameter $${name} is bound to conflicting values`, 'INVALID_ARGUMENT');
+  }
+  params[name] = value;
+}
+
+/**
+ * Collects parameters while a query is compiled
+ */
+class ParamCollector {
+  readonly params: Record<string, CypherValue> = {};
+  private counter = 0;
+
+  /**
+   * Bind a value and return its parameter reference ($name)
+   */
+  bind(value: CypherValue | Param): string {
+    if (value instanceof Param) {
+      this.add(value.name, value.value);
+      return `$${value.name}`;
+    }
+
+    const name = `${GENERATED_PARAM_PREFIX}${this.counter++}`;
+    this.params[name] = value;
+    return `$${name}`;
+  }
+
+  /**
+   * Add an explicitly named parameter, rejecting conflicting values
+   */
+  add(name: string, value: CypherValue): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new GraphQLiteError(`Invalid parameter name: ${JSON.stringify(name)}`, 'INVALID_IDENTIFIER');
+    }
+    if (name.startsWith(GENERATED_PARAM_PREFIX)) {
+      throw new GraphQLiteError(
+        `Invalid parameter name: ${name} uses the reserved prefix ${GENERATED_PARAM_PREFIX}`,
+        'INVALID_IDENTIFIER'
+      );
+    }
+    setParam(this.params, name, value);
+  }
+}
+
+/**
+ * Render a property map such as {name: $__p0, age: $__p1}
+ */
+function renderProperties(properties: PropertyValues, collector: ParamCollector): string {
+  const entries = Object.entries(properties);
+  if (entries.length === 0) {
+    return '';
+  }
+  const pairs = entries.map(
+    ([key, value]) => `${quoteIdentifier(key, 'property key')}: ${collector.bind(value)}`
+  );
+  return ` {${pairs.join(', ')}}`;
+}
+
+/**
+ * Node pattern, e.g. (p:Person {name: $name})
+ */
+export class NodePattern {
+  constructor(
+    public readonly variable?: string,
+    public readonly labels: string[] = [],
+    public readonly properties: PropertyValues = {}
+  ) {}
+
+  /**
+   * Extend to an outgoing relationship: (this)-[rel]->(node)
+   */
+  out(relationship: RelationshipPattern | string, node: NodePattern): PathPattern {
+    return new PathPattern(this).out(relationship, node);
+  }
+
+  /**
+   * Extend to an incoming relationship: (this)<-[rel]-(node)
+   */
+  in(relationship: RelationshipPattern | string, node: NodePattern): PathPattern {
+    return new PathPattern(this).in(relationship, node);
+  }
+
+  /**
+   * Extend to an undirected relationship: (this)-[rel]-(node)
+   */
+  related(relationship: RelationshipPattern | string, node: NodePattern): PathPattern {
+    return new PathPattern(this).related(relationship, node);
+  }
+
+  /** @internal */
+  render(collector: ParamCollector): string {
+    const variable = this.variable ? quoteIdentifier(this.variable, 'variable') : '';
+    const labels = this.labels.map((label) => `:${quoteIdentifier(label, 'label')}`).join('');
+    return `(${variable}${labels}${renderProperties(this.properties, collector)})`;
+  }
+}
+
+/**
+ * Relationship pattern, e.g. [r:KNOWS {since: $since}]
+ */
+export class RelationshipPattern {
+  constructor(
+    public readonly variable?: string,
+    public readonly types: string[] = [],
+    public readonly properties: PropertyValues = {}
+  ) {}
+
+  /** @internal */
+  render(collector: ParamCollector): string {
+    const variable = this.variable ? quoteIdentifier(this.variable, 'variable') : '';
+    const types = this.types.length > 0
+      ? `:${this.types.map((type) => quoteIdentifier(type, 'relationship type')).join('|')}`
+      : '';
+    return `[${variable}${types}${renderProperties(this.properties, collector)}]`;
+  }
+}
+
+type Direction = 'out' | 'in' | 'both';
+
+/**
+ * Path pattern made of alternating nodes and relationships
+ */
+export class PathPattern {
+  private readonly segments: Array<{ direction: Direction; relationship: RelationshipPattern; node: NodePattern }> = [];
+
+  constructor(public readonly start: NodePattern) {}
+
+  /**
+   * Append an outgoing relationship
+   */
+  out(relationship: RelationshipPattern | string, node: NodePattern): PathPattern {
+    return this.append('out', relationship, node);
+  }
+
+  /**
+   * Append an incoming relationship
+   */
+  in(relationship: RelationshipPattern | string, node: NodePattern): PathPattern {
+    return this.append('in', relationship, node);
+  }
+
+  /**
+   * Append an undirected relationship
+   */
+  related(relationship: RelationshipPattern | string, node: NodePattern): PathPattern {
+    return this.append('both', relationship, node);
+  }
+
+  private append(direction: Direction, relationship: RelationshipPattern | string, node: NodePattern): PathPattern {
+    const rel = typeof relationship === 'string'
+      ? new RelationshipPattern(undefined, [relationship])
+      : relationship;
+    this.segments.push({ direction, relationship: rel, node });
+    return this;
+  }
+
+  /** @internal */
+  render(collector: ParamCollector): string {
+    let text = this.start.render(collector);
+    for (const { direction, relationship, node } of this.segments) {
+      const rel = relationship.render(collector);
+      if (direction === 'out') {
+        text += `-${rel}->`;
+      } else if (direction === 'in') {
+        text += `<-${rel}-`;
+      } else {
+        text += `-${rel}-`;
+      }
+      text += node.render(collector);
+    }
+    return text;
+  }
+}
+
+/**
+ * Any pattern accepted by match(), create() and merge()
+ */
+export type Pattern = NodePattern | PathPattern;
+
+/**
+ * Create a node pattern
+ *
+ * @param variable - Variable to bind the node to
+ * @param labels - Label or labels the node must have
+ * @param properties - Properties the node must have
+ * @example node('p', 'Person', { name: param('name', 'Alice') })
+ */
+export function node(variable?: string, labels?: string | string[], properties?: PropertyValues): NodePattern {
+  return new NodePattern(variable, toArray(labels), properties);
+}
+
+/**
+ * Create a relationship pattern
+ *
+ * @param variable - Variable to bind the relationship to
+ * @param types - Relationship type, or alternatives matched with |
+ * @param properties - Properties the relationship must have
+ * @example node('a').out(rel('r', 'KNOWS'), node('b'))
+ */
+export function rel(variable?: string, types?: string | string[], properties?: PropertyValues): RelationshipPattern {
+  return new RelationshipPattern(variable, toArray(types), properties);
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function renderExpression(expression: string | Expr<CypherValue>): string {
+  return typeof expression === 'string' ? expression : expression.text;
+}
+
+function assertCount(value: number, clause: string): void {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new GraphQLiteError(`${clause} expects a non-negative integer, got ${value}`, 'INVALID_ARGUMENT');
+  }
+}
+
+type Clause =
+  | { keyword: 'WHERE'; conditions: Array<string | Expr<CypherValue>>; params: Record<string, CypherValue> }
+  | { keyword: string; render: (collector: ParamCollector) => string };
+
+/**
+ * Fluent Cypher query builder
+ *
+ * Builds a query string plus a params object, and executes it through
+ * Graph.cypher(). The row type is inferred from the return() projection.
+ *
+ * @example
+ * ```ts
+ * const rows = graph.query()
+ *   .match(node('p', 'Person', { name: param('name', 'Alice') }).out('KNOWS', node('f', 'Person')))
+ *   .where('f.age > $minAge', { minAge: 18 })
+ *   .return({ friend: expr<string>('f.name') })
+ *   .run();
+ * // rows: Array<{ friend: string }>
+ * ```
+ */
+export class QueryBuilder<Row extends CypherRow = CypherRow> {
+  private readonly clauses: Clause[] = [];
+
+  /**
+   * @param graph - Graph used by run() and first(); optional when only compiling
+   */
+  constructor(private readonly graph?: Graph) {}
+
+  /**
+   * Add a MATCH clause
+   */
+  match(...patterns: Pattern[]): this {
+    return this.addPatternClause('MATCH', patterns);
+  }
+
+  /**
+   * Add an OPTIONAL MATCH clause
+   */
+  optionalMatch(...patterns: Pattern[]): this {
+    return this.addPatternClause('OPTIONAL MATCH', patterns);
+  }
+
+  /**
+   * Add a CREATE clause
+   */
+  create(...patterns: Pattern[]): this {
+    return this.addPatternClause('CREATE', patterns);
+  }
+
+  /**
+   * Add a MERGE clause
+   */
+  merge(pattern: Pattern): this {
+    return this.addPatternClause('MERGE', [pattern]);
+  }
+
+  /**
+   * Add a WHERE condition; consecutive calls are combined with AND
+   *
+   * @param condition - Cypher boolean expression
+   * @param params - Parameters referenced by the condition
+   * @throws GraphQLiteError with INVALID_ARGUMENT if a parameter name is
+   *   reused with a different value
+   */
+  where(condition: string | Expr<boolean>, params?: Record<string, CypherValue>): this {
+    const last = this.clauses[this.clauses.length - 1];
+    if (last && 'conditions' in last) {
+      for (const [name, value] of Object.entries(params ?? {})) {
+        setParam(last.params, name, value);
+      }
+      last.conditions.push(condition);
+    } else {
+      this.clauses.push({ keyword: 'WHERE', conditions: [condition], params: { ...params } });
+    }
+    return this;
+  }
+
+  /**
+   * Add a SET clause assigning properties on a variable
+   *
+   * @example set('p', { age: 31 }) => SET p.age = $__p0
+   */
+  set(variable: string, properties: PropertyValues): this {
+    this.clauses.push({
+      keyword: 'SET',
+      render: (collector) => {
+        const target = quoteIdentifier(variable, 'variable');
+        const assignments = Object.entries(properties).map(
+          ([key, value]) => `${target}.${quoteIdentifier(key, 'property key')} = ${collector.bind(value)}`
+        );
+        return `SET ${assignments.join(', ')}`;
+      },
+    });
+    return this;
+  }
+
+  /**
+   * Add a DELETE clause
+   */
+  delete(...variables: string[]): this {
+    return this.addVariableClause('DELETE', variables);
+  }
+
+  /**
+   * Add a DETACH DELETE clause
+   */
+  detachDelete(...variables: string[]): this {
+    return this.addVariableClause('DETACH DELETE', variables);
+  }
+
+  /**
+   * Add a WITH clause carrying the given expressions forward
+   */
+  with(...expressions: string[]): this {
+    this.clauses.push({ keyword: 'WITH', render: () => `WITH ${expressions.join(', ')}` });
+    return this;
+  }
+
+  /**
+   * Add a RETURN clause; the builder's row type becomes the projection's row type
+   *
+   * @param projection - Column alias to expression
+   */
+  return<P extends Projection>(projection: P): QueryBuilder<ProjectionRow<P>> {
+    return this.addReturn('RETURN', projection);
+  }
+
+  /**
+   * Add a RETURN DISTINCT clause
+   */
+  returnDistinct<P extends Projection>(projection: P): QueryBuilder<ProjectionRow<P>> {
+    return this.addReturn('RETURN DISTINCT', projection);
+  }
+
+  /**
+   * Add an ORDER BY item; consecutive calls are combined
+   */
+  orderBy(expression: string | Expr<CypherValue>, direction: 'ASC' | 'DESC' = 'ASC'): this {
+    const item = `${renderExpression(expression)} ${direction}`;
+    const last = this.clauses[this.clauses.length - 1];
+    if (last && last.keyword === 'ORDER BY' && 'render' in last) {
+      const previous = last.render;
+      last.render = (collector) => `${previous(collector)}, ${item}`;
+    } else {
+      this.clauses.push({ keyword: 'ORDER BY', render: () => `ORDER BY ${item}` });
+    }
+    return this;
+  }
+
+  /**
+   * Add a SKIP clause
+   */
+  skip(count: number): this {
+    assertCount(count, 'SKIP');
+    this.clauses.push({ keyword: 'SKIP', render: () => `SKIP ${count}` });
+    return this;
+  }
+
+  /**
+   * Add a LIMIT clause
+   */
+  limit(count: number): this {
+    assertCount(count, 'LIMIT');
+    this.clauses.push({ keyword: 'LIMIT', render: () => `LIMIT ${count}` });
+    return this;
+  }
+
+  /**
+   * Compile to a query string and params object
+   */
+  compile(): CompiledQuery {
+    if (this.clauses.length === 0) {
+      throw new GraphQLiteError('Cannot compile an empty query', 'INVALID_ARGUMENT');
+    }
+
+    const collector = new ParamCollector();
+    const parts = this.clauses.map((clause) => {
+      if ('conditions' in clause) {
+        for (const [name, value] of Object.entries(clause.params)) {
+          collector.add(name, value);
+        }
+        const conditions = clause.conditions.map((condition) => {
+          const text = renderExpression(condition);
+          return clause.conditions.length > 1 ? `(${text})` : text;
+        });
+        return `WHERE ${conditions.join(' AND ')}`;
+      }
+      return clause.render(collector);
+    });
+
+    return { query: parts.join(' '), params: collector.params };
+  }
+
+  /**
+   * Compiled query string, for logging
+   */
+  toString(): string {
+    return this.compile().query;
+  }
+
+  /**
+   * Compile and execute the query
+   */
+  run(): Row[] {
+    if (!this.graph) {
+      throw new GraphQLiteError('Query builder is not bound to a graph. Use graph.query().', 'INVALID_ARGUMENT');
+    }
+    const { query, params } = this.compile();
+    return this.graph.cypher<Row>(query, Object.keys(params).length > 0 ? params : undefined);
+  }
+
+  /**
+   * Execute the query and return the first row, or null
+   */
+  first(): Row | null {
+    return this.run()[0] ?? null;
+  }
+
+  private addPatternClause(keyword: string, patterns: Pattern[]): this {
+    if (patterns.length === 0) {
+      throw new GraphQLiteError(`${keyword} requires at least one pattern`, 'INVALID_ARGUMENT');
+    }
+    this.clauses.push({
+      keyword,
+      render: (collector) => `${keyword} ${patterns.map((pattern) => pattern.render(collector)).join(', ')}`,
+    });
+    return this;
+  }
+
+  private addVariableClause(keyword: string, variables: string[]): this {
+    this.clauses.push({
+      keyword,
+      render: () => `${keyword} ${variables.map((variable) => quoteIdentifier(variable, 'variable')).join(', ')}`,
+    });
+    return this;
+  }
+
+  private addReturn<P extends Projection>(keyword: string, projection: P): QueryBuilder<ProjectionRow<P>> {
+    const items = Object.entries(projection).map(
+      ([alias, expression]) => `${renderExpression(expression)} AS ${quoteIdentifier(alias, 'column alias')}`
+    );
+    if (items.length === 0) {
+      throw new GraphQLiteError(`${keyword} requires at least one column`, 'INVALID_ARGUMENT');
+    }
+    this.clauses.push({ keyword, render: () => `${keyword} ${items.join(', ')}` });
+    return this as unknown as QueryBuilder<ProjectionRow<P>>;
+  }
+}
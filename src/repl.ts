@@ -0,0 +1,213 @@
+/**
+ * Interactive Cypher shell for the command-line tool
+ */
+
+import * as fs from 'node:fs';
+import * as readline from 'node:readline';
+import type { Graph } from './graph';
+import type { CypherValue } from './types';
+import { GraphQLiteError } from './types';
+import { toGraphQLiteError } from './utils';
+import { CypherScriptSplitter } from './dump';
+import { formatResult, isOutputFormat } from './format';
+import type { OutputFormat } from './format';
+
+/**
+ * Number of history entries kept in the history file
+ */
+const HISTORY_SIZE = 1000;
+
+const HELP = `Statements end with ';' and may span several lines.
+
+Commands:
+  :help                  Show this help
+  :params                Show query parameters
+  :params {"name": ...}  Replace all query parameters with a JSON object
+  :param name <json>     Set one query parameter, e.g. :param limit 10
+  :param name            Remove one query parameter
+  :format table|json|csv Set the output format
+  :stats                 Show node and edge counts
+  :clear                 Discard the statement being typed
+  :quit                  Exit
+`;
+
+/**
+ * State of an interactive session, independent of the terminal
+ *
+ * Each input line is passed to input(), which returns the text to print.
+ */
+export class ReplSession {
+  private splitter: CypherScriptSplitter = new CypherScriptSplitter();
+  private params: Record<string, CypherValue> = {};
+  /** Set once :quit has been entered */
+  done: boolean = false;
+
+  constructor(
+    private readonly graph: Graph,
+    private format: OutputFormat = 'table'
+  ) {}
+
+  /**
+   * Prompt to show before the next line
+   */
+  get prompt(): string {
+    return this.splitter.pending ? '      ...> ' : 'graphqlite> ';
+  }
+
+  /**
+   * Handle one line of input and return the output for it
+   */
+  input(line: string): string {
+    // Inside a statement a line may start with a label, so only :clear applies
+    const trimmed = line.trim();
+    if (trimmed === ':clear' || (!this.splitter.pending && trimmed.startsWith(':'))) {
+      return this.command(trimmed);
+    }
+
+    let output = '';
+    for (const statement of this.splitter.write(`${line}\n`)) {
+      output += this.run(statement.text);
+    }
+    return output;
+  }
+
+  private run(query: string): string {
+    try {
+      const result = this.graph.cypherRaw(query, Object.keys(this.params).length > 0 ? this.params : undefined);
+      return formatResult(result, this.format);
+    } catch (error) {
+      return `${toGraphQLiteError(error, { query }).format()}\n`;
+    }
+  }
+
+  private command(line: string): string {
+    const [name = '', ...rest] = line.split(/\s+/);
+    const argument = line.slice(name.length).trim();
+
+    try {
+      switch (name) {
+        case ':help':
+          return HELP;
+        case ':quit':
+        case ':exit':
+          this.done = true;
+          return '';
+        case ':clear':
+          this.splitter = new CypherScriptSplitter();
+          return '';
+        case ':format':
+          if (!isOutputFormat(argument)) {
+            return `Unknown format: ${argument || '(none)'}; expected table, json or csv\n`;
+          }
+          this.format = argument;
+          return '';
+        case ':params':
+          if (argument === '') {
+            return `${JSON.stringify(this.params, null, 2)}\n`;
+          }
+          this.params = parseParams(argument);
+          return '';
+        case ':param': {
+          const [key] = rest;
+          if (!key) {
+            return 'Usage: :param name <json>\n';
+          }
+          const value = argument.slice(key.length).trim();
+          if (value === '') {
+            delete this.params[key];
+          } else {
+            this.params[key] = parseJson(value);
+          }
+          return '';
+        }
+        case ':stats': {
+          const stats = this.graph.getStats();
+          return `${stats.nodes} nodes, ${stats.edges} edges\n`;
+        }
+        default:
+          return `Unknown command: ${name}; type :help for a list\n`;
+      }
+    } catch (error) {
+      return `${toGraphQLiteError(error).format()}\n`;
+    }
+  }
+}
+
+function parseJson(text: string): CypherValue {
+  try {
+    return JSON.parse(text) as CypherValue;
+  } catch {
+    throw new GraphQLiteError(`Invalid JSON: ${text}`, 'INVALID_ARGUMENT');
+  }
+}
+
+/**
+ * Parse a JSON object of query parameters
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT if the text is not a JSON object
+ */
+export function parseParams(text: string): Record<string, CypherValue> {
+  const value = parseJson(text);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new GraphQLiteError('Parameters must be a JSON object', 'INVALID_ARGUMENT');
+  }
+  return value as Record<string, CypherValue>;
+}
+
+function loadHistory(historyFile: string): string[] {
+  try {
+    return fs.readFileSync(historyFile, 'utf8').split('\n').filter(Boolean).slice(-HISTORY_SIZE).reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Run an interactive session on the terminal until :quit or end of input
+ *
+ * @param historyFile - File that keeps input history between sessions
+ */
+export async function runRepl(
+  graph: Graph,
+  options: { format?: OutputFormat; historyFile?: string } = {}
+): Promise<void> {
+  const session = new ReplSession(graph, options.format);
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: process.stdin.isTTY === true,
+    history: options.historyFile ? loadHistory(options.historyFile) : [],
+    historySize: HISTORY_SIZE,
+  });
+
+  // Prompts are only shown to a person at a terminal, not to piped input
+  const interactive = process.stdin.isTTY === true;
+  const prompt = () => {
+    if (interactive) {
+      rl.setPrompt(session.prompt);
+      rl.prompt();
+    }
+  };
+
+  if (interactive) {
+    process.stdout.write('Type :help for help, :quit to exit.\n');
+  }
+  prompt();
+
+  for await (const line of rl) {
+    if (options.historyFile && line.trim() !== '') {
+      try {
+        fs.appendFileSync(options.historyFile, `${line.replace(/\n/g, ' ')}\n`);
+      } catch {
+        // History is a convenience; ignore unwritable files
+      }
+    }
+
+    process.stdout.write(session.input(line));
+    if (session.done) {
+      break;
+    }
+    prompt();
+  }
+  rl.close();
+}
@@ -0,0 +1,471 @@
+/**
+ * Typed node and edge models with runtime schema validation
+ */
+
+import type { Graph } from './graph';
+import type { CypherValue } from './types';
+import { GraphQLiteError } from './types';
+import { quoteIdentifier } from './utils';
+import { node, rel, param, expr } from './query';
+import type { PropertyValues, Projection } from './query';
+
+/**
+ * Property types a schema can declare
+ */
+export type PropertyType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'string[]'
+  | 'number[]'
+  | 'boolean[]'
+  | 'json';
+
+/**
+ * Property declaration; a trailing '?' marks the property optional
+ */
+export type PropertySpec = PropertyType | `${PropertyType}?`;
+
+/**
+ * Property declarations keyed by property name
+ */
+export type PropertySchema = Record<string, PropertySpec>;
+
+type BaseType<T extends PropertySpec> = T extends `${infer Base extends PropertyType}?` ? Base : T;
+
+type TypeOf<T extends PropertyType> =
+  T extends 'string' ? string :
+  T extends 'number' ? number :
+  T extends 'boolean' ? boolean :
+  T extends 'string[]' ? string[] :
+  T extends 'number[]' ? number[] :
+  T extends 'boolean[]' ? boolean[] :
+  CypherValue;
+
+type RequiredKeys<S extends PropertySchema> = {
+  [K in keyof S]: S[K] extends `${string}?` ? never : K;
+}[keyof S];
+
+type OptionalKeys<S extends PropertySchema> = Exclude<keyof S, RequiredKeys<S>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Property values described by a schema
+ *
+ * Optional properties may be omitted or null.
+ */
+export type InferProperties<S extends PropertySchema> = Simplify<
+  { [K in RequiredKeys<S>]: TypeOf<BaseType<S[K]>> } &
+  { [K in OptionalKeys<S>]?: TypeOf<BaseType<S[K]>> | null }
+>;
+
+/**
+ * A node as returned by NodeModel
+ */
+export type NodeRecord<S extends PropertySchema> = Simplify<{ id: string } & InferProperties<S>>;
+
+/**
+ * An edge as returned by EdgeModel
+ */
+export type EdgeRecord<S extends PropertySchema> = Simplify<{ from: string; to: string } & InferProperties<S>>;
+
+/**
+ * Node type declared with defineNode()
+ */
+export interface NodeDefinition<L extends string = string, S extends PropertySchema = PropertySchema> {
+  readonly kind: 'node';
+  readonly label: L;
+  readonly properties: S;
+}
+
+/**
+ * Relationship type declared with defineEdge()
+ */
+export interface EdgeDefinition<
+  T extends string = string,
+  S extends PropertySchema = PropertySchema,
+  From extends NodeDefinition = NodeDefinition,
+  To extends NodeDefinition = NodeDefinition,
+> {
+  readonly kind: 'edge';
+  readonly type: T;
+  readonly from: From;
+  readonly to: To;
+  readonly properties: S;
+}
+
+/**
+ * Options for NodeModel.find() and EdgeModel.find()
+ */
+export interface FindOptions {
+  /** Maximum number of records to return */
+  limit?: number;
+  /** Number of records to skip */
+  skip?: number;
+}
+
+const PROPERTY_TYPES: readonly PropertyType[] = [
+  'string', 'number', 'boolean', 'string[]', 'number[]', 'boolean[]', 'json',
+];
+
+/**
+ * Declare a node type
+ *
+ * The `id` property is managed by the model and cannot be declared.
+ *
+ * @param label - Node label
+ * @param properties - Property declarations
+ * @example const Person = defineNode('Person', { name: 'string', age: 'number?' });
+ */
+export function defineNode<L extends string, const S extends PropertySchema>(
+  label: L,
+  properties: S
+): NodeDefinition<L, S> {
+  assertValidSchema(`node ${label}`, properties, ['id']);
+  return { kind: 'node', label, properties };
+}
+
+/**
+ * Declare a relationship type between two node types
+ *
+ * @param type - Relationship type
+ * @param endpoints - Node types at the start and end of the relationship
+ * @param properties - Property declarations
+ * @example const Knows = defineEdge('KNOWS', { from: Person, to: Person }, { since: 'number' });
+ */
+export function defineEdge<
+  T extends string,
+  From extends NodeDefinition,
+  To extends NodeDefinition,
+  const S extends PropertySchema = {},
+>(
+  type: T,
+  endpoints: { from: From; to: To },
+  properties?: S
+): EdgeDefinition<T, S, From, To> {
+  const schema = (properties ?? {}) as S;
+  assertValidSchema(`edge ${type}`, schema, []);
+  return { kind: 'edge', type, from: endpoints.from, to: endpoints.to, properties: schema };
+}
+
+function assertValidSchema(name: string, properties: PropertySchema, reserved: string[]): void {
+  for (const [key, spec] of Object.entries(properties)) {
+    if (reserved.includes(key)) {
+      throw new GraphQLiteError(
+        `Schema for ${name} cannot declare reserved property '${key}'`,
+        'SCHEMA_INVALID_DEFINITION'
+      );
+    }
+    const base = spec.endsWith('?') ? spec.slice(0, -1) : spec;
+    if (!PROPERTY_TYPES.includes(base as PropertyType)) {
+      throw new GraphQLiteError(
+        `Schema for ${name} declares unknown type '${spec}' for property '${key}'`,
+        'SCHEMA_INVALID_DEFINITION'
+      );
+    }
+  }
+}
+
+function matchesType(value: CypherValue, type: PropertyType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'number[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'number' && Number.isFinite(item));
+    case 'boolean[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'boolean');
+    case 'json':
+      return value !== undefined;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Validate property values against a schema
+ *
+ * @param name - Entity name used in error messages, e.g. "Person"
+ * @param schema - Property declarations
+ * @param values - Values to validate
+ * @param partial - When true, required properties may be omitted (but not nulled)
+ * @throws GraphQLiteError with code SCHEMA_UNKNOWN_PROPERTY, SCHEMA_MISSING_PROPERTY
+ *   or SCHEMA_TYPE_MISMATCH
+ */
+export function validateProperties(
+  name: string,
+  schema: PropertySchema,
+  values: Record<string, unknown>,
+  partial: boolean = false
+): void {
+  for (const key of Object.keys(values)) {
+    if (!(key in schema)) {
+      throw new GraphQLiteError(`${name}: unknown property '${key}'`, 'SCHEMA_UNKNOWN_PROPERTY');
+    }
+  }
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const type = (optional ? spec.slice(0, -1) : spec) as PropertyType;
+    const value = values[key];
+
+    if (value === undefined || value === null) {
+      if (optional || (partial && value === undefined)) {
+        continue;
+      }
+      throw new GraphQLiteError(`${name}: missing required property '${key}'`, 'SCHEMA_MISSING_PROPERTY');
+    }
+
+    if (!matchesType(value as CypherValue, type)) {
+      throw new GraphQLiteError(
+        `${name}: property '${key}' must be ${type}, got ${describeValue(value)}`,
+        'SCHEMA_TYPE_MISMATCH'
+      );
+    }
+  }
+}
+
+/**
+ * Build a projection returning every declared property under its own name
+ */
+function propertyProjection(variable: string, schema: PropertySchema, base: Projection): Projection {
+  const projection: Projection = { ...base };
+  for (const key of Object.keys(schema)) {
+    projection[key] = `${variable}.${quoteIdentifier(key, 'property key')}`;
+  }
+  return projection;
+}
+
+function toPropertyValues(values: Record<string, unknown>): PropertyValues {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as PropertyValues;
+}
+
+/**
+ * Typed create/find/update/delete helpers for a node type
+ *
+ * Obtain one with graph.model(definition).
+ */
+export class NodeModel<S extends PropertySchema = PropertySchema> {
+  constructor(
+    private readonly graph: Graph,
+    public readonly definition: NodeDefinition<string, S>
+  ) {}
+
+  /**
+   * Create a node
+   *
+   * @throws GraphQLiteError with a SCHEMA_* code if the properties are invalid
+   *   or a node with this label and id already exists
+   */
+  create(id: string, properties: InferProperties<S>): NodeRecord<S> {
+    const { label, properties: schema } = this.definition;
+    validateProperties(label, schema, properties);
+
+    // The check and the write share a transaction so no other writer can
+    // create the id in between
+    this.graph.transaction(() => {
+      if (this.findById(id)) {
+        throw new GraphQLiteError(`${label}: a node with id '${id}' already exists`, 'SCHEMA_DUPLICATE_ID');
+      }
+      this.graph.query()
+        .create(node('n', label, { ...toPropertyValues(properties), id }))
+        .run();
+    });
+
+    return { id, ...properties } as NodeRecord<S>;
+  }
+
+  /**
+   * Find nodes whose properties equal the given values
+   */
+  find(where: Partial<NodeRecord<S>> = {}, options?: FindOptions): NodeRecord<S>[] {
+    const { label, properties: schema } = this.definition;
+    const { id, ...filters } = where as Record<string, unknown>;
+    validateProperties(label, schema, filters, true);
+
+    const query = this.graph.query()
+      .match(node('n', label, toPropertyValues({ ...filters, id })))
+      .return(propertyProjection('n', schema, { id: expr<string>('n.id') }))
+      .orderBy('n.id');
+    if (options?.skip !== undefined) {
+      query.skip(options.skip);
+    }
+    if (options?.limit !== undefined) {
+      query.limit(options.limit);
+    }
+
+    return query.run() as NodeRecord<S>[];
+  }
+
+  /**
+   * Find a node by id
+   */
+  findById(id: string): NodeRecord<S> | null {
+    return this.find({ id } as Partial<NodeRecord<S>>, { limit: 1 })[0] ?? null;
+  }
+
+  /**
+   * Update properties on a node
+   *
+   * @returns The updated node, or null if it does not exist
+   */
+  update(id: string, changes: Partial<InferProperties<S>>): NodeRecord<S> | null {
+    const { label, properties: schema } = this.definition;
+    validateProperties(label, schema, changes, true);
+
+    const values = toPropertyValues(changes);
+    if (Object.keys(values).length > 0) {
+      this.graph.query()
+        .match(node('n', label, { id: param('id', id) }))
+        .set('n', values)
+        .run();
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Delete a node and its relationships
+   *
+   * @returns Whether a node was deleted
+   */
+  delete(id: string): boolean {
+    if (!this.findById(id)) {
+      return false;
+    }
+
+    this.graph.query()
+      .match(node('n', this.definition.label, { id: param('id', id) }))
+      .detachDelete('n')
+      .run();
+    return true;
+  }
+}
+
+/**
+ * Typed create/find/update/delete helpers for a relationship type
+ *
+ * Obtain one with graph.model(definition).
+ */
+export class EdgeModel<S extends PropertySchema = PropertySchema> {
+  constructor(
+    private readonly graph: Graph,
+    public readonly definition: EdgeDefinition<string, S>
+  ) {}
+
+  /**
+   * Create a relationship between two existing nodes
+   *
+   * @throws GraphQLiteError with code SCHEMA_ENDPOINT_MISMATCH if either endpoint
+   *   does not exist with the declared label, or another SCHEMA_* code if the
+   *   properties are invalid
+   */
+  create(from: string, to: string, properties: InferProperties<S>): EdgeRecord<S> {
+    const { type, properties: schema } = this.definition;
+    validateProperties(type, schema, properties);
+    this.assertEndpoint('from', from);
+    this.assertEndpoint('to', to);
+
+    this.graph.query()
+      .match(this.endpointPattern('a', from, 'from'), this.endpointPattern('b', to, 'to'))
+      .create(node('a').out(rel('r', type, toPropertyValues(properties)), node('b')))
+      .run();
+
+    return { from, to, ...properties } as EdgeRecord<S>;
+  }
+
+  /**
+   * Find relationships by endpoint ids and property values
+   */
+  find(where: Partial<EdgeRecord<S>> = {}, options?: FindOptions): EdgeRecord<S>[] {
+    const { type, properties: schema } = this.definition;
+    const { from, to, ...filters } = where as Record<string, unknown>;
+    validateProperties(type, schema, filters, true);
+
+    const query = this.graph.query()
+      .match(
+        this.endpointPattern('a', from as string | undefined, 'from')
+          .out(rel('r', type, toPropertyValues(filters)), this.endpointPattern('b', to as string | undefined, 'to'))
+      )
+      .return(propertyProjection('r', schema, { from: expr<string>('a.id'), to: expr<string>('b.id') }))
+      .orderBy('a.id')
+      .orderBy('b.id');
+    if (options?.skip !== undefined) {
+      query.skip(options.skip);
+    }
+    if (options?.limit !== undefined) {
+      query.limit(options.limit);
+    }
+
+    return query.run() as EdgeRecord<S>[];
+  }
+
+  /**
+   * Update properties on the relationships between two nodes
+   *
+   * @returns The updated relationships (empty if none exist)
+   */
+  update(from: string, to: string, changes: Partial<InferProperties<S>>): EdgeRecord<S>[] {
+    const { type, properties: schema } = this.definition;
+    validateProperties(type, schema, changes, true);
+
+    const values = toPropertyValues(changes);
+    if (Object.keys(values).length > 0) {
+      this.graph.query()
+        .match(this.endpointPattern('a', from, 'from').out(rel('r', type), this.endpointPattern('b', to, 'to')))
+        .set('r', values)
+        .run();
+    }
+
+    return this.find({ from, to } as Partial<EdgeRecord<S>>);
+  }
+
+  /**
+   * Delete the relationships between two nodes
+   *
+   * @returns Number of relationships deleted
+   */
+  delete(from: string, to: string): number {
+    const existing = this.find({ from, to } as Partial<EdgeRecord<S>>).length;
+    if (existing > 0) {
+      this.graph.query()
+        .match(this.endpointPattern('a', from, 'from').out(rel('r', this.definition.type), this.endpointPattern('b', to, 'to')))
+        .delete('r')
+        .run();
+    }
+    return existing;
+  }
+
+  private endpointPattern(variable: string, id: string | undefined, side: 'from' | 'to') {
+    const label = this.definition[side].label;
+    return node(variable, label, id === undefined ? {} : { id: param(`${side}Id`, id) });
+  }
+
+  private assertEndpoint(side: 'from' | 'to', id: string): void {
+    const label = this.definition[side].label;
+    const found = this.graph.query()
+      .match(node('n', label, { id: param('id', id) }))
+      .return({ cnt: expr<number>('count(n)') })
+      .first();
+
+    if (!found || found.cnt === 0) {
+      throw new GraphQLiteError(
+        `${this.definition.type}: '${side}' node '${id}' with label ${label} does not exist`,
+        'SCHEMA_ENDPOINT_MISMATCH'
+      );
+    }
+  }
+}
@@ -0,0 +1,529 @@
+/**
+ * Neo4j-compatible HTTP transaction endpoint
+ *
+ * Implements the transactional Cypher HTTP API of Neo4j 4 and 5:
+ *
+ * - `POST /db/{name}/tx/commit` runs statements in a transaction of their own
+ * - `POST /db/{name}/tx` opens a transaction, running any statements given
+ * - `POST /db/{name}/tx/{id}` runs statements in an open transaction
+ * - `POST /db/{name}/tx/{id}/commit` runs statements, then commits
+ * - `DELETE /db/{name}/tx/{id}` rolls an open transaction back
+ *
+ * The graph has a single connection, so while a transaction is open other
+ * requests wait until it is committed, rolled back or expires.
+ */
+
+import type { Graph } from './graph';
+import type { CypherValue, CypherResult, GraphQLiteErrorCode, ServeOptions, GraphServer, Transaction } from './types';
+import { GraphQLiteError } from './types';
+import { decodeCypherValue, toGraphQLiteError, GraphLock } from './utils';
+import { Node, Relationship, Path } from './values';
+
+const DEFAULT_PORT = 7474;
+const DEFAULT_HOSTNAME = '127.0.0.1';
+const DEFAULT_DATABASE = 'neo4j';
+const DEFAULT_TRANSACTION_TIMEOUT = 60_000;
+
+/**
+ * Neo4j status codes for GraphQLite error codes
+ */
+const NEO4J_ERROR_CODES: Partial<Record<GraphQLiteErrorCode, string>> = {
+  CYPHER_SYNTAX: 'Neo.ClientError.Statement.SyntaxError',
+  CYPHER_RUNTIME: 'Neo.DatabaseError.Statement.ExecutionFailed',
+  CONSTRAINT_VIOLATION: 'Neo.ClientError.Schema.ConstraintValidationFailed',
+  SQLITE_BUSY: 'Neo.TransientError.Transaction.LockAcquisitionTimeout',
+  TRANSACTION_FAILED: 'Neo.DatabaseError.Transaction.TransactionCommitFailed',
+  INVALID_IDENTIFIER: 'Neo.ClientError.Statement.ArgumentError',
+  INVALID_ARGUMENT: 'Neo.ClientError.Statement.ArgumentError',
+  INVALID_INPUT: 'Neo.ClientError.Request.InvalidFormat',
+  QUERY_TIMEOUT: 'Neo.ClientError.Transaction.TransactionTimedOut',
+  QUERY_CANCELLED: 'Neo.ClientError.Transaction.Terminated',
+  GRAPH_CLOSED: 'Neo.TransientError.General.DatabaseUnavailable',
+};
+
+const UNKNOWN_ERROR = 'Neo.DatabaseError.General.UnknownError';
+
+interface NeoStatement {
+  statement: string;
+  parameters?: Record<string, CypherValue>;
+  resultDataContents?: string[];
+}
+
+interface NeoError {
+  code: string;
+  message: string;
+}
+
+interface NeoGraph {
+  nodes: Array<{ id: string; elementId: string; labels: string[]; properties: Record<string, CypherValue> }>;
+  relationships: Array<{
+    id: string;
+    elementId: string;
+    type: string;
+    startNode: string;
+    endNode: string;
+    properties: Record<string, CypherValue>;
+  }>;
+}
+
+interface NeoResult {
+  columns: string[];
+  data: Array<{ row?: unknown[]; meta?: unknown[]; graph?: NeoGraph }>;
+}
+
+interface OpenTransaction {
+  id: number;
+  handle: Transaction;
+  timer?: ReturnType<typeof setTimeout>;
+  expires: number;
+}
+
+/**
+ * A request the server refuses before running anything
+ */
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Neo4j status code for an error
+ */
+export function toNeo4jErrorCode(error: GraphQLiteError): string {
+  return (error.code && NEO4J_ERROR_CODES[error.code as GraphQLiteErrorCode]) ?? UNKNOWN_ERROR;
+}
+
+function entityMeta(entity: Node | Relationship): Record<string, unknown> {
+  return {
+    id: entity.id,
+    elementId: String(entity.id),
+    type: entity instanceof Node ? 'node' : 'relationship',
+    deleted: false,
+  };
+}
+
+/**
+ * Convert a decoded value to Neo4j's row format and its metadata
+ *
+ * Nodes and relationships appear as their property maps, paths as the
+ * alternating list of those, with identity in the metadata.
+ */
+function toRow(value: CypherValue): { row: unknown; meta: unknown } {
+  if (value instanceof Node || value instanceof Relationship) {
+    return { row: value.properties, meta: entityMeta(value) };
+  }
+  if (value instanceof Path) {
+    const parts = [...value.segments()].flatMap((segment, i) =>
+      i === 0 ? [segment.start, segment.relationship, segment.end] : [segment.relationship, segment.end]
+    );
+    const entities = parts.length > 0 ? parts : value.nodes.slice(0, 1);
+    return { row: entities.map((entity) => entity.properties), meta: entities.map(entityMeta) };
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(toRow);
+    return { row: items.map((item) => item.row), meta: items.map((item) => item.meta) };
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, item]) => [key, toRow(item).row]);
+    return { row: Object.fromEntries(entries), meta: null };
+  }
+  return { row: value, meta: null };
+}
+
+/**
+ * Collect the nodes and relationships in a row for Neo4j's graph format
+ */
+function toGraph(values: CypherValue[]): NeoGraph {
+  const nodes = new Map<string, NeoGraph['nodes'][number]>();
+  const relationships = new Map<string, NeoGraph['relationships'][number]>();
+
+  const visit = (value: CypherValue): void => {
+    if (value instanceof Node) {
+      const id = String(value.id);
+      nodes.set(id, { id, elementId: id, labels: value.labels, properties: value.properties });
+    } else if (value instanceof Relationship) {
+      const id = String(value.id);
+      relationships.set(id, {
+        id,
+        elementId: id,
+        type: value.type,
+        startNode: String(value.start),
+        endNode: String(value.end),
+        properties: value.properties,
+      });
+    } else if (value instanceof Path) {
+      value.nodes.forEach(visit);
+      value.relationships.forEach(visit);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value !== null && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  values.forEach(visit);
+
+  return { nodes: [...nodes.values()], relationships: [...relationships.values()] };
+}
+
+/**
+ * Convert a raw Cypher result to a Neo4j result entry
+ */
+export function toNeo4jResult(result: CypherResult, resultDataContents: string[] = ['row']): NeoResult {
+  const wantRow = resultDataContents.includes('row');
+  const wantGraph = resultDataContents.includes('graph');
+
+  return {
+    columns: result.columns,
+    data: result.data.map((raw) => {
+      const values = raw.map(decodeCypherValue);
+      const entry: NeoResult['data'][number] = {};
+      if (wantRow) {
+        const cells = values.map(toRow);
+        entry.row = cells.map((cell) => cell.row);
+        entry.meta = cells.map((cell) => cell.meta);
+      }
+      if (wantGraph) {
+        entry.graph = toGraph(values);
+      }
+      return entry;
+    }),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read and validate the statements of a request body
+ */
+async function readStatements(request: Request): Promise<NeoStatement[]> {
+  const text = await request.text();
+  if (text.trim() === '') {
+    return [];
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    throw new RequestError(400, 'Neo.ClientError.Request.InvalidFormat', `Unable to parse request body: ${(error as Error).message}`);
+  }
+
+  const statements = isObject(body) ? (body.statements ?? []) : undefined;
+  if (!Array.isArray(statements)) {
+    throw new RequestError(400, 'Neo.ClientError.Request.InvalidFormat', 'Request body must be an object with a statements array');
+  }
+
+  return statements.map((item, index) => {
+    if (!isObject(item) || typeof item.statement !== 'string') {
+      throw new RequestError(400, 'Neo.ClientError.Request.InvalidFormat', `Statement ${index} has no statement text`);
+    }
+    if (item.parameters != null && !isObject(item.parameters)) {
+      throw new RequestError(400, 'Neo.ClientError.Request.InvalidFormat', `Parameters of statement ${index} must be an object`);
+    }
+    const contents = item.resultDataContents;
+    return {
+      statement: item.statement,
+      parameters: (item.parameters ?? undefined) as Record<string, CypherValue> | undefined,
+      resultDataContents: Array.isArray(contents) ? contents.map(String) : undefined,
+    };
+  });
+}
+
+function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json;charset=utf-8', ...headers },
+  });
+}
+
+function errorResponse(status: number, code: string, message: string): Response {
+  return json({ results: [], errors: [{ code, message }] }, status);
+}
+
+/**
+ * Request handling and transaction bookkeeping for one graph
+ */
+class TransactionEndpoint {
+  private readonly transactions = new Map<number, OpenTransaction>();
+  private readonly lock = new GraphLock();
+  private nextId: number = 1;
+
+  constructor(
+    private readonly graph: Graph,
+    private readonly database: string,
+    private readonly timeout: number
+  ) {}
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    try {
+      if (parts.length === 0) {
+        if (request.method !== 'GET') {
+          return errorResponse(405, 'Neo.ClientError.Request.Invalid', `${request.method} is not allowed here`);
+        }
+        return json({
+          transaction: `${url.origin}/db/{databaseName}/tx`,
+          // Clients check the version to pick an API; report the one implemented
+          neo4j_version: '5.0.0',
+          neo4j_edition: 'community',
+        });
+      }
+
+      const [db, name, tx, id, action] = parts;
+      if (db !== 'db' || name === undefined || tx !== 'tx' || parts.length > 5) {
+        return errorResponse(404, 'Neo.ClientError.Request.Invalid', `No endpoint at ${url.pathname}`);
+      }
+      if (name !== this.database) {
+        return errorResponse(404, 'Neo.ClientError.Database.DatabaseNotFound', `Database does not exist: ${name}`);
+      }
+
+      const base = `${url.origin}/db/${encodeURIComponent(name)}/tx`;
+      if (id === undefined && request.method === 'POST') {
+        return await this.begin(await readStatements(request), base);
+      }
+      if (id === 'commit' && action === undefined && request.method === 'POST') {
+        return await this.autocommit(await readStatements(request));
+      }
+
+      // The transaction is looked up only once the body has been read, since
+      // it may expire while the body arrives
+      if (id !== undefined && action === undefined && request.method === 'POST') {
+        const statements = await readStatements(request);
+        return this.run(this.transactions.get(Number(id)), statements, base);
+      }
+      if (id !== undefined && action === 'commit' && request.method === 'POST') {
+        const statements = await readStatements(request);
+        return this.commit(this.transactions.get(Number(id)), statements);
+      }
+      if (id !== undefined && action === undefined && request.method === 'DELETE') {
+        return this.rollback(this.transactions.get(Number(id)));
+      }
+      return errorResponse(405, 'Neo.ClientError.Request.Invalid', `${request.method} is not allowed on ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse(error.status, error.code, error.message);
+      }
+      const cause = toGraphQLiteError(error);
+      return errorResponse(500, toNeo4jErrorCode(cause), cause.message);
+    }
+  }
+
+  /**
+   * Roll back every open transaction
+   */
+  close(): void {
+    for (const open of [...this.transactions.values()]) {
+      this.abandon(open);
+    }
+  }
+
+  private async autocommit(statements: NeoStatement[]): Promise<Response> {
+    await this.lock.acquire();
+    try {
+      const handle = this.graph.beginTransaction();
+      const { results, errors } = this.execute(statements);
+      this.settle(handle, errors);
+      return json({ results, errors });
+    } finally {
+      this.lock.release();
+    }
+  }
+
+  private async begin(statements: NeoStatement[], base: string): Promise<Response> {
+    await this.lock.acquire();
+
+    let handle: Transaction;
+    try {
+      handle = this.graph.beginTransaction();
+    } catch (error) {
+      this.lock.release();
+      throw error;
+    }
+
+    const open: OpenTransaction = { id: this.nextId++, handle, expires: 0 };
+    this.transactions.set(open.id, open);
+    this.touch(open);
+
+    const { results, errors } = this.execute(statements);
+    if (errors.length > 0) {
+      this.abandon(open);
+      return json({ results, errors });
+    }
+
+    return json(
+      { results, errors, commit: `${base}/${open.id}/commit`, transaction: { expires: new Date(open.expires).toUTCString() } },
+      201,
+      { Location: `${base}/${open.id}` }
+    );
+  }
+
+  private run(open: OpenTransaction | undefined, statements: NeoStatement[], base: string): Response {
+    if (!this.isOpen(open)) {
+      return this.notFound();
+    }
+
+    this.touch(open);
+    const { results, errors } = this.execute(statements);
+    if (errors.length > 0) {
+      this.abandon(open);
+      return json({ results, errors });
+    }
+    return json({
+      results,
+      errors,
+      commit: `${base}/${open.id}/commit`,
+      transaction: { expires: new Date(open.expires).toUTCString() },
+    });
+  }
+
+  private commit(open: OpenTransaction | undefined, statements: NeoStatement[]): Response {
+    if (!this.isOpen(open)) {
+      return this.notFound();
+    }
+
+    const { results, errors } = this.execute(statements);
+    this.transactions.delete(open.id);
+    clearTimeout(open.timer);
+    try {
+      this.settle(open.handle, errors);
+    } finally {
+      this.lock.release();
+    }
+    return json({ results, errors });
+  }
+
+  private rollback(open: OpenTransaction | undefined): Response {
+    if (!this.isOpen(open)) {
+      return this.notFound();
+    }
+    this.abandon(open);
+    return json({ results: [], errors: [] });
+  }
+
+  /**
+   * Run statements in order, stopping at the first failure
+   */
+  private execute(statements: NeoStatement[]): { results: NeoResult[]; errors: NeoError[] } {
+    const results: NeoResult[] = [];
+    const errors: NeoError[] = [];
+
+    for (const { statement, parameters, resultDataContents } of statements) {
+      try {
+        results.push(toNeo4jResult(this.graph.cypherRaw(statement, parameters), resultDataContents));
+      } catch (error) {
+        const cause = toGraphQLiteError(error, { query: statement, params: parameters });
+        errors.push({ code: toNeo4jErrorCode(cause), message: cause.message });
+        break;
+      }
+    }
+    return { results, errors };
+  }
+
+  /**
+   * Commit a transaction, or roll it back if there were errors
+   *
+   * A failed commit is added to the errors.
+   */
+  private settle(handle: Transaction, errors: NeoError[]): void {
+    if (errors.length > 0) {
+      handle.rollback();
+      return;
+    }
+    try {
+      handle.commit();
+    } catch (error) {
+      const cause = toGraphQLiteError(error, {}, 'TRANSACTION_FAILED');
+      errors.push({ code: toNeo4jErrorCode(cause), message: cause.message });
+    }
+  }
+
+  /**
+   * Roll back an open transaction and let waiting requests proceed
+   */
+  private abandon(open: OpenTransaction): void {
+    if (!this.transactions.delete(open.id)) {
+      return;
+    }
+    clearTimeout(open.timer);
+    try {
+      open.handle.rollback();
+    } finally {
+      this.lock.release();
+    }
+  }
+
+  /**
+   * Whether a transaction still holds the lock, i.e. has not been committed,
+   * rolled back or expired
+   */
+  private isOpen(open: OpenTransaction | undefined): open is OpenTransaction {
+    return open !== undefined && this.transactions.get(open.id) === open;
+  }
+
+  /**
+   * Push back the expiry of an open transaction
+   */
+  private touch(open: OpenTransaction): void {
+    clearTimeout(open.timer);
+    open.expires = Date.now() + this.timeout;
+    open.timer = setTimeout(() => this.abandon(open), this.timeout);
+  }
+
+  private notFound(): Response {
+    return errorResponse(404, 'Neo.ClientError.Transaction.TransactionNotFound', 'Unrecognized transaction id. Transaction may have timed out and been rolled back.');
+  }
+}
+
+/**
+ * Serve a graph over Neo4j's transactional Cypher HTTP API
+ *
+ * Lets tools that speak the Neo4j HTTP API query the graph. Statements run
+ * through cypherRaw(); nodes, relationships and paths in results are shaped
+ * like Neo4j's (`row`, `meta` and, on request, `graph`), and errors carry
+ * Neo4j status codes mapped from their GraphQLiteError code. Authentication
+ * headers are ignored, so bind to a public interface with care.
+ *
+ * @param graph - Graph to serve; avoid using it elsewhere while serving
+ * @param options - Port, hostname, database name and transaction timeout
+ * @returns The running server
+ *
+ * @example
+ * ```ts
+ * const server = serve(graph, { port: 7474 });
+ * // curl -X POST http://127.0.0.1:7474/db/neo4j/tx/commit \
+ * //   -H 'Content-Type: application/json' \
+ * //   -d '{"statements": [{"statement": "MATCH (n) RETURN count(n)"}]}'
+ * await server.stop();
+ * ```
+ */
+export function serve(graph: Graph, options: ServeOptions = {}): GraphServer {
+  const timeout = options.transactionTimeout ?? DEFAULT_TRANSACTION_TIMEOUT;
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new GraphQLiteError(`transactionTimeout must be a positive number, got ${timeout}`, 'INVALID_ARGUMENT');
+  }
+
+  const endpoint = new TransactionEndpoint(graph, options.database ?? DEFAULT_DATABASE, timeout);
+  const server = Bun.serve({
+    port: options.port ?? DEFAULT_PORT,
+    hostname: options.hostname ?? DEFAULT_HOSTNAME,
+    fetch: (request) => endpoint.handle(request),
+  });
+
+  return {
+    url: server.url.href,
+    port: server.port as number,
+    async stop() {
+      endpoint.close();
+      await server.stop(true);
+    },
+  };
+}
@@ -2,6 +2,9 @@
  * Type definitions for GraphQLite TypeScript bindings
  */
 
+import type { Node, Relationship, Path } from './values';
+import type { ProjectedGraph } from './projection';
+
 /**
  * A value returned from a Cypher query
  */
@@ -10,6 +13,9 @@ export type CypherValue =
   | boolean
   | number
   | string
+  | Node
+  | Relationship
+  | Path
   | CypherValue[]
   | { [key: string]: CypherValue };
 
@@ -36,8 +42,17 @@ export interface GraphOptions {
   extensionPath?: string;
   /** Enable load_extension (required for loading extensions) */
   enableLoadExtension?: boolean;
+  /** SQLite journal mode to set on open, e.g. 'WAL' for concurrent readers */
+  journalMode?: JournalMode;
+  /** Milliseconds to wait on a locked database before failing with SQLITE_BUSY */
+  busyTimeout?: number;
 }
 
+/**
+ * SQLite journal modes accepted by GraphOptions.journalMode
+ */
+export type JournalMode = 'DELETE' | 'TRUNCATE' | 'PERSIST' | 'MEMORY' | 'WAL' | 'OFF';
+
 /**
  * Graph statistics returned from stats methods
  */
@@ -46,6 +61,93 @@ export interface GraphStats {
   edges: number;
 }
 
+/**
+ * Kind of a property value, as reported by Graph.schema()
+ */
+export type PropertyValueType = 'string' | 'integer' | 'float' | 'boolean' | 'list' | 'map';
+
+/**
+ * A property key seen on nodes with a label, or on relationships of a type
+ */
+export interface PropertyKeyInfo {
+  /** Property key */
+  key: string;
+  /** Kinds of the non-null values seen, sorted */
+  types: PropertyValueType[];
+  /** Kinds of the non-null items of list values, sorted; empty if no list held any */
+  itemTypes: PropertyValueType[];
+  /** Share of the nodes or relationships without a value for the key, from 0 to 1 */
+  nullRatio: number;
+  /** Set when an integer value or list item lies outside the 32-bit range */
+  wideIntegers?: true;
+}
+
+/**
+ * A node label with its count and property keys
+ */
+export interface LabelInfo {
+  label: string;
+  /** Number of nodes with the label */
+  count: number;
+  /** Property keys, sorted */
+  properties: PropertyKeyInfo[];
+}
+
+/**
+ * Labels at the ends of relationships of one type
+ */
+export interface RelationshipPairInfo {
+  /** Label of the start node */
+  from: string;
+  /** Label of the end node */
+  to: string;
+  /** Number of relationships between nodes with these labels */
+  count: number;
+}
+
+/**
+ * A relationship type with its count, endpoint labels and property keys
+ */
+export interface RelationshipTypeInfo {
+  type: string;
+  /** Number of relationships of the type */
+  count: number;
+  /** Endpoint label pairs, sorted; a relationship between multi-label nodes counts toward each pair */
+  pairs: RelationshipPairInfo[];
+  /** Property keys, sorted */
+  properties: PropertyKeyInfo[];
+}
+
+/**
+ * Contents of a graph, as returned by Graph.schema()
+ */
+export interface GraphSchema extends GraphStats {
+  /** Labels, sorted */
+  labels: LabelInfo[];
+  /** Relationship types, sorted */
+  relationshipTypes: RelationshipTypeInfo[];
+}
+
+/**
+ * An index or unique constraint on a label and property
+ */
+export interface IndexInfo {
+  /** Name used to drop it */
+  name: string;
+  label: string;
+  property: string;
+  /** Whether it is a unique constraint */
+  unique: boolean;
+}
+
+/**
+ * Options for Graph.createIndex() and Graph.createUniqueConstraint()
+ */
+export interface IndexOptions {
+  /** Name of the index (default: `index_<label>_<property>` or `unique_<label>_<property>`) */
+  name?: string;
+}
+
 /**
  * Options for upserting nodes
  */
@@ -62,6 +164,369 @@ export interface UpsertEdgeOptions {
   relType?: string;
 }
 
+/**
+ * Value of a node's `id` property, a string or a number
+ */
+export type NodeId = string | number;
+
+/**
+ * A node to upsert with upsertNodes()
+ */
+export interface NodeInput {
+  /** Unique identifier for the node */
+  id: NodeId;
+  /** Properties to set on the node */
+  properties?: Record<string, CypherValue>;
+  /** Optional label for the node (defaults to 'Entity') */
+  label?: string;
+  /** Labels for the node, used instead of label when given */
+  labels?: string[];
+}
+
+/**
+ * An edge to upsert with upsertEdges() or create with createEdges()
+ */
+export interface EdgeInput {
+  /** Source node identifier */
+  source: NodeId;
+  /** Target node identifier */
+  target: NodeId;
+  /** Properties to set on the edge */
+  properties?: Record<string, CypherValue>;
+  /** Optional relationship type (defaults to 'RELATED') */
+  relType?: string;
+}
+
+/**
+ * An open transaction returned by Graph.beginTransaction()
+ */
+export interface Transaction {
+  /** Whether the transaction is still open */
+  readonly active: boolean;
+  /** Commit the transaction (or release its savepoint) */
+  commit(): void;
+  /** Roll the transaction (or its savepoint) back */
+  rollback(): void;
+}
+
+/**
+ * Options for batch upserts
+ */
+export interface BatchUpsertOptions {
+  /** Number of items looked up and written per chunk (default: 500) */
+  chunkSize?: number;
+}
+
+/**
+ * Outcome of a batch upsert
+ */
+export interface BatchUpsertResult {
+  /** Number of entities that did not exist and were created */
+  created: number;
+  /** Number of entities that already existed and were updated */
+  updated: number;
+}
+
+/**
+ * Keyset pagination settings for paginate()
+ */
+export interface KeysetOptions {
+  /** Result column holding the ordered key */
+  column: string;
+  /** Query parameter that receives the last key of the previous page (default: 'after') */
+  param?: string;
+  /** Key to start after (default: null, i.e. the first page) */
+  after?: CypherValue;
+}
+
+/**
+ * Options for cypherIterator(), stream() and paginate()
+ */
+export interface PaginateOptions {
+  /** Query parameters */
+  params?: Record<string, CypherValue>;
+  /** Number of rows fetched per query (default: 1000) */
+  pageSize?: number;
+  /** Page on an ordered key instead of SKIP */
+  keyset?: KeysetOptions;
+}
+
+/**
+ * Options for opening an AsyncGraph
+ */
+export interface AsyncGraphOptions extends GraphOptions {
+  /** Default timeout in milliseconds for each call (default: none) */
+  timeout?: number;
+  /**
+   * Terminate the worker when a running call is cancelled or times out, and
+   * reopen the database in a new one (default: false, the call is rejected
+   * but its statement runs to completion first). Needs a database file.
+   */
+  restartOnCancel?: boolean;
+}
+
+/**
+ * Per-call options for AsyncGraph methods
+ */
+export interface AsyncCallOptions {
+  /** Cancels the call when aborted */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds, measured from when the worker starts the call */
+  timeout?: number;
+}
+
+/**
+ * Options for opening a GraphPool
+ */
+export interface GraphPoolOptions extends AsyncGraphOptions {
+  /** Number of read connections (default: 4) */
+  readers?: number;
+}
+
+/**
+ * Snapshot of GraphPool activity
+ */
+export interface PoolStats {
+  /** Number of read connections */
+  readers: number;
+  /** Read calls queued or running on each reader */
+  pendingReads: number[];
+  /** Write calls queued or running on the writer */
+  pendingWrites: number;
+  /** Read calls finished since the pool was opened */
+  completedReads: number;
+  /** Write calls finished since the pool was opened */
+  completedWrites: number;
+}
+
+/**
+ * Formats supported by Graph.export() and Graph.import()
+ */
+export type GraphFormat = 'graphml' | 'gexf' | 'json-graph';
+
+/**
+ * Destination for streamed text, such as a Bun FileSink or a Node stream
+ */
+export interface TextSink {
+  write(chunk: string): unknown;
+}
+
+/**
+ * Source of text: a string, or an iterable of string or UTF-8 byte chunks
+ * such as `Bun.file(path).stream()`
+ */
+export type TextSource = string | Iterable<string> | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Options for Graph.export()
+ */
+export interface ExportOptions {
+  format: GraphFormat;
+  /** Number of rows read per query while scanning the graph (default: 1000) */
+  pageSize?: number;
+}
+
+/**
+ * Options for Graph.import()
+ */
+export interface ImportOptions {
+  format: GraphFormat;
+  /** Number of nodes or edges written per batch (default: 500) */
+  chunkSize?: number;
+  /**
+   * How edges are written (default: 'upsert'). 'upsert' merges an edge into
+   * an existing one with the same endpoints and type, so importing twice is
+   * harmless; 'create' always adds it, keeping parallel edges.
+   */
+  mode?: 'upsert' | 'create';
+}
+
+/**
+ * Outcome of Graph.import()
+ */
+export interface ImportResult {
+  /** Number of nodes read and upserted */
+  nodes: number;
+  /** Number of edges read and upserted */
+  edges: number;
+}
+
+/**
+ * Options for Graph.dumpCypher()
+ */
+export interface DumpOptions {
+  /** Number of rows read per query while scanning the graph (default: 1000) */
+  pageSize?: number;
+}
+
+/**
+ * Outcome of Graph.restoreCypher()
+ */
+export interface RestoreResult {
+  /** Number of statements run */
+  statements: number;
+}
+
+/**
+ * Options for serve()
+ */
+export interface ServeOptions {
+  /** Port to listen on, or 0 for any free port (default: 7474) */
+  port?: number;
+  /** Interface to listen on (default: '127.0.0.1') */
+  hostname?: string;
+  /** Database name accepted in request paths (default: 'neo4j') */
+  database?: string;
+  /** Milliseconds an idle open transaction lives before it is rolled back (default: 60000) */
+  transactionTimeout?: number;
+}
+
+/**
+ * Options for serveBolt()
+ */
+export interface BoltServeOptions {
+  /** Port to listen on, or 0 for any free port (default: 7687) */
+  port?: number;
+  /** Interface to listen on (default: '127.0.0.1') */
+  hostname?: string;
+  /** Database name clients may select (default: 'neo4j') */
+  database?: string;
+}
+
+/**
+ * A running server started by serve() or serveBolt()
+ */
+export interface GraphServer {
+  /** URL the server listens on */
+  readonly url: string;
+  /** Port the server listens on */
+  readonly port: number;
+  /** Roll back open transactions and stop accepting requests or connections */
+  stop(): Promise<void>;
+}
+
+/**
+ * A node CSV file for Graph.importCsv()
+ *
+ * The header uses neo4j-admin import conventions, e.g.
+ * `personId:ID,name,age:int,tags:string[],:LABEL`.
+ */
+export interface CsvNodeFile {
+  source: TextSource;
+  /** Name used in row errors (default: `nodes[<index>]`) */
+  name?: string;
+  /** Header to use instead of the file's first line */
+  header?: string;
+  /** Labels added to every node in the file */
+  labels?: string[];
+}
+
+/**
+ * An edge CSV file for Graph.importCsv()
+ *
+ * The header uses neo4j-admin import conventions, e.g.
+ * `:START_ID,:END_ID,:TYPE,since:int`.
+ */
+export interface CsvEdgeFile {
+  source: TextSource;
+  /** Name used in row errors (default: `edges[<index>]`) */
+  name?: string;
+  /** Header to use instead of the file's first line */
+  header?: string;
+  /** Relationship type for rows without a :TYPE value */
+  type?: string;
+}
+
+/**
+ * Options for Graph.importCsv()
+ */
+export interface CsvImportOptions {
+  nodes?: CsvNodeFile[];
+  edges?: CsvEdgeFile[];
+  /** Field delimiter (default: ',') */
+  delimiter?: string;
+  /** Separator for list values and multiple labels (default: ';') */
+  arrayDelimiter?: string;
+  /** Number of nodes or edges written per batch (default: 500) */
+  chunkSize?: number;
+  /** Skip invalid rows and report them instead of aborting (default: false) */
+  skipInvalidRows?: boolean;
+}
+
+/**
+ * A CSV row that could not be imported
+ */
+export interface CsvRowError {
+  /** File name, or `nodes[<index>]` / `edges[<index>]` */
+  file: string;
+  /** Line the row starts on, counting the header as line 1 */
+  line: number;
+  message: string;
+}
+
+/**
+ * Outcome of Graph.importCsv()
+ */
+export interface CsvImportResult extends ImportResult {
+  /** Rows skipped because they were invalid (only with skipInvalidRows) */
+  errors: CsvRowError[];
+}
+
+/**
+ * Where an algorithm runs: the extension's Cypher functions, or the
+ * TypeScript implementations over an adjacency list read with cypher()
+ */
+export type AlgorithmEngine = 'native' | 'js';
+
+/**
+ * Direction in which a projection follows relationships
+ */
+export type ProjectionDirection = 'outgoing' | 'incoming' | 'both';
+
+/**
+ * The part of the graph an algorithm runs over
+ */
+export interface GraphProjection {
+  /** Include only nodes with at least one of these labels (default: every node) */
+  labels?: string[];
+  /** Follow only relationships of these types (default: every type) */
+  relationshipTypes?: string[];
+  /** Follow relationships as stored, reversed, or both ways (default: 'outgoing') */
+  direction?: ProjectionDirection;
+  /** Relationship property read as the weight by shortest paths, A* and Louvain; missing values count as 1 */
+  weight?: string;
+}
+
+/**
+ * Options shared by the graph algorithms; each reads the ones it needs
+ */
+export interface AlgorithmOptions {
+  /** Engine to run on (default: 'js' with a projection, otherwise 'native') */
+  engine?: AlgorithmEngine;
+  /** Run over part of the graph only, or over a graph projected in memory, on the js engine */
+  projection?: GraphProjection | ProjectedGraph;
+  /** Node property each node's result is written to, in one transaction */
+  writeProperty?: string;
+  /** Name each node's result is kept under on the ProjectedGraph given as `projection` */
+  mutateProperty?: string;
+  /** PageRank damping factor (default: 0.85) */
+  damping?: number;
+  /** Iterations of PageRank (default: 20) or label propagation (default: 10) */
+  iterations?: number;
+  /** Louvain resolution (default: 1.0) */
+  resolution?: number;
+  /** Edge property read as the weight of shortest paths; unweighted when unset, overridden by `projection.weight` */
+  weight?: string;
+  /** Deepest level BFS and DFS visit, the start being 0, and most relationships in a path on the js engine (default: unlimited) */
+  maxDepth?: number;
+  /** Highest total weight of a path on the js engine (default: unlimited) */
+  maxCost?: number;
+  /** Node property holding the latitude used by the A* heuristic */
+  latitude?: string;
+  /** Node property holding the longitude used by the A* heuristic */
+  longitude?: string;
+}
+
 /**
  * PageRank algorithm result
  * Maps node ID to PageRank score
@@ -82,15 +547,199 @@ export interface ShortestPathResult {
   path: string[];
   /** Optional distance/cost of the path */
   distance?: number;
+  /** Type of each relationship followed, on the js engine */
+  relationships?: string[];
+  /** Weight of each relationship followed, on the js engine */
+  weights?: number[];
+}
+
+/**
+ * Single-source shortest paths result
+ * Maps each node reached to its shortest path from the source
+ */
+export type ShortestPathsResult = Record<string, ShortestPathResult>;
+
+/**
+ * Degrees of one node, counting relationships in each direction
+ */
+export interface NodeDegree {
+  inDegree: number;
+  outDegree: number;
+  /** inDegree + outDegree */
+  degree: number;
+}
+
+/**
+ * Degree centrality result
+ * Maps node ID to its degrees
+ */
+export type DegreeCentralityResult = Record<string, NodeDegree>;
+
+/**
+ * Betweenness or closeness centrality result
+ * Maps node ID to its score
+ */
+export type CentralityResult = Record<string, number>;
+
+/**
+ * Connected components or label propagation result
+ * Maps node ID to the ID of its component or community
+ */
+export type ComponentsResult = Record<string, number>;
+
+/**
+ * Triangles through one node
+ */
+export interface NodeTriangles {
+  /** Number of triangles the node is part of */
+  triangles: number;
+  /** Share of the node's neighbour pairs that are connected, from 0 to 1 */
+  clusteringCoefficient: number;
+}
+
+/**
+ * Triangle counting result
+ * Maps node ID to its triangles
+ */
+export type TriangleCountResult = Record<string, NodeTriangles>;
+
+/**
+ * A node reached by BFS or DFS
+ */
+export interface TraversalStep {
+  /** Node ID */
+  id: string;
+  /** Number of hops from the start node */
+  depth: number;
+}
+
+/**
+ * Machine-readable error codes carried by GraphQLiteError
+ */
+export type GraphQLiteErrorCode =
+  /** The extension has not been loaded on this connection */
+  | 'EXTENSION_NOT_LOADED'
+  /** The extension library file does not exist */
+  | 'EXTENSION_NOT_FOUND'
+  /** The extension library exists but could not be loaded or verified */
+  | 'EXTENSION_LOAD_FAILED'
+  /** The Cypher query could not be parsed */
+  | 'CYPHER_SYNTAX'
+  /** The Cypher query parsed but failed while executing */
+  | 'CYPHER_RUNTIME'
+  /** A write violated a uniqueness or other constraint */
+  | 'CONSTRAINT_VIOLATION'
+  /** The database is locked by another connection */
+  | 'SQLITE_BUSY'
+  /** Any other SQLite failure */
+  | 'SQLITE_ERROR'
+  /** BEGIN, COMMIT or ROLLBACK failed */
+  | 'TRANSACTION_FAILED'
+  /** A label, relationship type, property key or parameter name is invalid */
+  | 'INVALID_IDENTIFIER'
+  /** An argument passed to the API is invalid */
+  | 'INVALID_ARGUMENT'
+  /** The result returned by the extension could not be parsed */
+  | 'INVALID_RESULT'
+  /** An imported document is malformed */
+  | 'INVALID_INPUT'
+  /** An AsyncGraph call was cancelled through its AbortSignal */
+  | 'QUERY_CANCELLED'
+  /** An AsyncGraph call ran longer than its timeout */
+  | 'QUERY_TIMEOUT'
+  /** The AsyncGraph worker crashed */
+  | 'WORKER_FAILED'
+  /** The graph has been closed */
+  | 'GRAPH_CLOSED'
+  /** The GraphPool has been closed */
+  | 'POOL_CLOSED'
+  /** Schema model violations, see defineNode()/defineEdge() */
+  | 'SCHEMA_INVALID_DEFINITION'
+  | 'SCHEMA_MISSING_PROPERTY'
+  | 'SCHEMA_TYPE_MISMATCH'
+  | 'SCHEMA_UNKNOWN_PROPERTY'
+  | 'SCHEMA_DUPLICATE_ID'
+  | 'SCHEMA_ENDPOINT_MISMATCH';
+
+/**
+ * Context attached to a GraphQLiteError
+ */
+export interface GraphQLiteErrorDetails {
+  /** Cypher query that failed */
+  query?: string;
+  /** Parameters the query was run with */
+  params?: Record<string, CypherValue>;
+  /** 1-based line of a syntax error within the query */
+  line?: number;
+  /** 1-based column of a syntax error within the query */
+  column?: number;
+  /** Underlying error */
+  cause?: unknown;
 }
 
 /**
  * Error thrown by GraphQLite operations
  */
 export class GraphQLiteError extends Error {
-  constructor(message: string, public readonly code?: string) {
-    super(message);
+  /** Cypher query that failed, if any */
+  readonly query?: string;
+  /** Parameters the query was run with, if any */
+  readonly params?: Record<string, CypherValue>;
+  /** 1-based line of a syntax error within the query */
+  readonly line?: number;
+  /** 1-based column of a syntax error within the query */
+  readonly column?: number;
+
+  /**
+   * @param code - One of the GraphQLiteErrorCode values; other strings are
+   *   still accepted, as `code` was typed `string` in earlier releases
+   */
+  constructor(
+    message: string,
+    public readonly code?: GraphQLiteErrorCode | (string & {}),
+    details?: GraphQLiteErrorDetails
+  ) {
+    super(message, details?.cause !== undefined ? { cause: details.cause } : undefined);
     this.name = 'GraphQLiteError';
+    this.query = details?.query;
+    this.params = details?.params;
+    this.line = details?.line;
+    this.column = details?.column;
+  }
+
+  /**
+   * Format the error for logs, pointing a caret at the failing position
+   *
+   * @example
+   * ```
+   * GraphQLiteError [CYPHER_SYNTAX]: syntax error at line 1, column 10
+   *   MATCH (n RETURN n
+   *            ^
+   *   params: {"name":"Alice"}
+   * ```
+   */
+  format(): string {
+    const lines = [`${this.name}${this.code ? ` [${this.code}]` : ''}: ${this.message}`];
+
+    if (this.query !== undefined) {
+      const queryLines = this.query.split('\n');
+      const errorLine = this.line !== undefined ? queryLines[this.line - 1] : undefined;
+
+      if (errorLine !== undefined) {
+        lines.push(`  ${errorLine}`);
+        if (this.column !== undefined) {
+          lines.push(`  ${' '.repeat(Math.max(this.column - 1, 0))}^`);
+        }
+      } else {
+        lines.push(...queryLines.map((line) => `  ${line}`));
+      }
+    }
+
+    if (this.params !== undefined && Object.keys(this.params).length > 0) {
+      lines.push(`  params: ${JSON.stringify(this.params)}`);
+    }
+
+    return lines.join('\n');
   }
 }
 
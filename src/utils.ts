@@ -3,15 +3,26 @@
  */
 
 import * as fs from 'node:fs';
-import type { CypherResult, CypherRow, CypherValue } from './types';
+import type { CypherResult, CypherRow, CypherValue, GraphQLiteErrorCode } from './types';
+import { GraphQLiteError } from './types';
+import { Node, Relationship, Path } from './values';
 
 /**
  * Parse JSON result from cypher() function
+ *
+ * @param jsonStr - Raw string returned by cypher()
+ * @param query - Query that produced the result, attached to errors
+ * @param params - Parameters the query was run with, attached to errors
+ * @throws GraphQLiteError with a CYPHER_* code if the result is an error message
  */
-export function parseCypherResult(jsonStr: string): CypherResult {
+export function parseCypherResult(
+  jsonStr: string,
+  query?: string,
+  params?: Record<string, CypherValue>
+): CypherResult {
   // Check if it's an error response
   if (typeof jsonStr === 'string' && jsonStr.startsWith('Error')) {
-    throw new Error(jsonStr);
+    throw parseCypherError(jsonStr, query, params);
   }
   
   // Check if it's a success message (for CREATE/UPDATE/DELETE queries)
@@ -20,65 +31,357 @@ export function parseCypherResult(jsonStr: string): CypherResult {
     return { columns: [], data: [] };
   }
   
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(jsonStr);
-    
-    // Check if parsed result is an error
-    if (typeof parsed === 'string' && parsed.startsWith('Error')) {
-      throw new Error(parsed);
-    }
-    
-    // Handle {columns, data} format
-    if (parsed && typeof parsed === 'object' && 'columns' in parsed && 'data' in parsed) {
-      return parsed as CypherResult;
-    }
-    
-    // Handle array format: [{"name":"Alice","age":30}]
-    if (Array.isArray(parsed) && parsed.length > 0) {
-      // Extract columns from first object
-      const firstRow = parsed[0];
-      if (typeof firstRow === 'object' && firstRow !== null) {
-        const columns = Object.keys(firstRow);
-        const data = parsed.map((row: any) => 
-          columns.map(col => row[col] ?? null)
-        );
-        return { columns, data };
-      }
-    }
-    
-    // Handle empty array
-    if (Array.isArray(parsed) && parsed.length === 0) {
-      return { columns: [], data: [] };
-    }
-    
-    // Handle empty result
-    return { columns: [], data: [] };
+    parsed = JSON.parse(jsonStr);
   } catch (error) {
     // If JSON parsing fails, it might be a plain success message
     if (typeof jsonStr === 'string' && jsonStr.includes('successfully')) {
       return { columns: [], data: [] };
     }
+    throw new GraphQLiteError(`Failed to parse Cypher result: ${jsonStr}`, 'INVALID_RESULT', {
+      query,
+      params,
+      cause: error,
+    });
+  }
     
-    if (error instanceof Error) {
-      throw error;
+  // Check if parsed result is an error
+  if (typeof parsed === 'string' && parsed.startsWith('Error')) {
+    throw parseCypherError(parsed, query, params);
+  }
+  
+  // Handle {columns, data} format
+  if (parsed && typeof parsed === 'object' && 'columns' in parsed && 'data' in parsed) {
+    return parsed as CypherResult;
+  }
+  
+  // Handle array format: [{"name":"Alice","age":30}]
+  if (Array.isArray(parsed) && parsed.length > 0) {
+    // Extract columns from first object
+    const firstRow = parsed[0];
+    if (typeof firstRow === 'object' && firstRow !== null) {
+      const columns = Object.keys(firstRow);
+      const data = parsed.map((row: any) => 
+        columns.map(col => row[col] ?? null)
+      );
+      return { columns, data };
     }
-    throw new Error(`Failed to parse Cypher result: ${jsonStr}`);
   }
+  
+  // Handle empty array and empty result
+  return { columns: [], data: [] };
+}
+
+/**
+ * Classify an error message from the extension or SQLite
+ */
+function classifyErrorMessage(message: string): GraphQLiteErrorCode {
+  if (/database is (locked|busy)|SQLITE_BUSY|SQLITE_LOCKED/i.test(message)) {
+    return 'SQLITE_BUSY';
+  }
+  if (/constraint|unique/i.test(message)) {
+    return 'CONSTRAINT_VIOLATION';
+  }
+  if (/syntax|parse error|unexpected/i.test(message)) {
+    return 'CYPHER_SYNTAX';
+  }
+  return 'CYPHER_RUNTIME';
+}
+
+/**
+ * Locate an error position reported as "line L, column C" or "position P"
+ */
+function parseErrorPosition(message: string, query?: string): { line?: number; column?: number } {
+  const line = /\bline[:\s]+(\d+)/i.exec(message);
+  const column = /\bcol(?:umn)?[:\s]+(\d+)/i.exec(message);
+  if (line || column) {
+    return {
+      line: line ? Number(line[1]) : 1,
+      column: column ? Number(column[1]) : undefined,
+    };
+  }
+
+  const position = /\b(?:position|offset)[:\s]+(\d+)/i.exec(message);
+  if (position && query !== undefined) {
+    const offset = Math.min(Number(position[1]), query.length);
+    const before = query.slice(0, offset).split('\n');
+    return { line: before.length, column: (before[before.length - 1]?.length ?? 0) + 1 };
+  }
+
+  return {};
+}
+
+/**
+ * Build a GraphQLiteError from an error message returned by cypher()
+ *
+ * The message is classified into CYPHER_SYNTAX, CYPHER_RUNTIME,
+ * CONSTRAINT_VIOLATION or SQLITE_BUSY, and line/column information is
+ * extracted from syntax errors.
+ *
+ * @example parseCypherError('Error: syntax error at line 1, column 10', 'MATCH (n RETURN n')
+ */
+export function parseCypherError(
+  message: string,
+  query?: string,
+  params?: Record<string, CypherValue>
+): GraphQLiteError {
+  const text = message.replace(/^Error:?\s*/, '') || message;
+  const code = classifyErrorMessage(text);
+  const position = code === 'CYPHER_SYNTAX' ? parseErrorPosition(text, query) : {};
+  return new GraphQLiteError(text, code, { query, params, ...position });
+}
+
+/**
+ * Wrap an error thrown by bun:sqlite in a GraphQLiteError
+ *
+ * SQLite result codes are mapped to SQLITE_BUSY and CONSTRAINT_VIOLATION;
+ * failures raised by the cypher() SQL function are classified by message.
+ *
+ * @param error - Error thrown by bun:sqlite
+ * @param context - Query and params to attach
+ * @param fallback - Code used when nothing more specific applies
+ */
+export function toGraphQLiteError(
+  error: unknown,
+  context: { query?: string; params?: Record<string, CypherValue> } = {},
+  fallback: GraphQLiteErrorCode = 'SQLITE_ERROR'
+): GraphQLiteError {
+  if (error instanceof GraphQLiteError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const sqliteCode = (error as { code?: unknown } | null)?.code;
+
+  let code: GraphQLiteErrorCode = fallback;
+  if (typeof sqliteCode === 'string' && /^SQLITE_(BUSY|LOCKED)/.test(sqliteCode)) {
+    code = 'SQLITE_BUSY';
+  } else if (typeof sqliteCode === 'string' && sqliteCode.startsWith('SQLITE_CONSTRAINT')) {
+    code = 'CONSTRAINT_VIOLATION';
+  } else if (context.query !== undefined) {
+    code = classifyErrorMessage(message);
+  }
+
+  const position = code === 'CYPHER_SYNTAX' ? parseErrorPosition(message, context.query) : {};
+  return new GraphQLiteError(message, code, { ...context, ...position, cause: error });
+}
+
+type JsonObject = { [key: string]: CypherValue };
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * The extension identifies nodes and relationships by their integer row id
+ */
+function isRowId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value);
+}
+
+function hasExactKeys(value: JsonObject, keys: string[]): boolean {
+  const actual = Object.keys(value);
+  return actual.length === keys.length && keys.every((key) => key in value);
+}
+
+function toNode(value: CypherValue): Node | null {
+  if (
+    isPlainObject(value) &&
+    hasExactKeys(value, ['id', 'labels', 'properties']) &&
+    isRowId(value.id) &&
+    Array.isArray(value.labels) &&
+    value.labels.every((label) => typeof label === 'string') &&
+    isPlainObject(value.properties)
+  ) {
+    return new Node(value.id, value.labels as string[], value.properties);
+  }
+  return null;
+}
+
+function toRelationship(value: CypherValue): Relationship | null {
+  if (
+    isPlainObject(value) &&
+    hasExactKeys(value, ['id', 'type', 'startNode', 'endNode', 'properties']) &&
+    isRowId(value.id) &&
+    typeof value.type === 'string' &&
+    isRowId(value.startNode) &&
+    isRowId(value.endNode) &&
+    isPlainObject(value.properties)
+  ) {
+    return new Relationship(value.id, value.type, value.startNode, value.endNode, value.properties);
+  }
+  return null;
+}
+
+function toPath(value: CypherValue): Path | null {
+  if (
+    !isPlainObject(value) ||
+    !hasExactKeys(value, ['nodes', 'relationships']) ||
+    !Array.isArray(value.nodes) ||
+    !Array.isArray(value.relationships)
+  ) {
+    return null;
+  }
+
+  const nodes = value.nodes.map(toNode);
+  const relationships = value.relationships.map(toRelationship);
+  if (nodes.some((node) => node === null) || relationships.some((rel) => rel === null)) {
+    return null;
+  }
+  return new Path(nodes as Node[], relationships as Relationship[]);
+}
+
+/**
+ * Materialize nodes, relationships and paths inside a decoded JSON value
+ *
+ * Only the exact shapes the extension emits are materialized: `{id, labels,
+ * properties}` becomes a Node and `{id, type, startNode, endNode, properties}`
+ * a Relationship, both with integer ids, and `{nodes, relationships}` holding
+ * those becomes a Path. Maps that merely resemble them, such as ones keyed by
+ * a string `id`, stay maps. Lists and maps are
+ * decoded recursively; everything else is returned unchanged.
+ */
+export function decodeCypherValue(value: CypherValue): CypherValue {
+  if (Array.isArray(value)) {
+    return value.map(decodeCypherValue);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const entity = toNode(value) ?? toRelationship(value) ?? toPath(value);
+  if (entity) {
+    return entity;
+  }
+
+  const decoded: JsonObject = {};
+  for (const [key, item] of Object.entries(value)) {
+    decoded[key] = decodeCypherValue(item);
+  }
+  return decoded;
+}
+
+/**
+ * A GraphQLiteError flattened for postMessage()
+ */
+export interface SerializedError {
+  message: string;
+  code?: GraphQLiteError['code'];
+  query?: string;
+  params?: Record<string, CypherValue>;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Flatten an error so it can cross a worker boundary
+ */
+export function serializeError(error: unknown): SerializedError {
+  const wrapped = toGraphQLiteError(error);
+  return {
+    message: wrapped.message,
+    code: wrapped.code,
+    query: wrapped.query,
+    params: wrapped.params,
+    line: wrapped.line,
+    column: wrapped.column,
+  };
+}
+
+/**
+ * Rebuild a GraphQLiteError flattened by serializeError()
+ */
+export function deserializeError(error: SerializedError): GraphQLiteError {
+  return new GraphQLiteError(error.message, error.code, {
+    query: error.query,
+    params: error.params,
+    line: error.line,
+    column: error.column,
+  });
 }
 
 /**
  * Convert CypherResult to array of row objects
+ *
+ * Nodes, relationships and paths are materialized with decodeCypherValue().
  */
 export function resultToRows(result: CypherResult): CypherRow[] {
   return result.data.map((rowData) => {
     const row: CypherRow = {};
     result.columns.forEach((column, index) => {
-      row[column] = rowData[index] ?? null;
+      row[column] = decodeCypherValue(rowData[index] ?? null);
     });
     return row;
   });
 }
 
+/**
+ * Clauses and procedures that may write to the graph
+ */
+const WRITE_CLAUSE = /(?<![.$\w])(CREATE|MERGE|SET|DELETE|REMOVE|DROP|FOREACH|CALL|LOAD\s+CSV)\b/i;
+
+/**
+ * Check whether a Cypher query only reads
+ *
+ * String literals, backtick-quoted names and comments are ignored. CALL is
+ * treated as a write because procedures may modify the graph.
+ */
+export function isReadOnlyQuery(query: string): boolean {
+  let code = '';
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i] as string;
+    const next = query[i + 1];
+
+    if (char === "'" || char === '"' || char === '`') {
+      i++;
+      while (i < query.length && query[i] !== char) {
+        i += query[i] === '\\' && char !== '`' ? 2 : 1;
+      }
+      i++;
+      code += ' ';
+    } else if (char === '/' && next === '/') {
+      const end = query.indexOf('\n', i);
+      i = end === -1 ? query.length : end;
+    } else if (char === '/' && next === '*') {
+      const end = query.indexOf('*/', i + 2);
+      i = end === -1 ? query.length : end + 2;
+      code += ' ';
+    } else {
+      code += char;
+      i++;
+    }
+  }
+
+  return !WRITE_CLAUSE.test(code);
+}
+
+/**
+ * Append a SKIP/LIMIT page clause to a read query
+ *
+ * @param query - Query ending in a RETURN clause, optionally with ORDER BY
+ * @param skip - Rows to skip (omitted from the clause when 0)
+ * @param limit - Maximum rows to return
+ * @throws GraphQLiteError with INVALID_ARGUMENT if the query cannot be paged
+ */
+export function appendPageClause(query: string, skip: number, limit: number): string {
+  const trimmed = query.trim().replace(/;\s*$/, '');
+
+  if (!/\bRETURN\b/i.test(trimmed)) {
+    throw new GraphQLiteError('Paginated queries must end with a RETURN clause', 'INVALID_ARGUMENT', { query });
+  }
+  if (/\bUNION\b/i.test(trimmed)) {
+    throw new GraphQLiteError('UNION queries cannot be paginated', 'INVALID_ARGUMENT', { query });
+  }
+  if (/\b(SKIP|LIMIT)\s+(\$\w+|\d+)\s*$/i.test(trimmed)) {
+    throw new GraphQLiteError('Paginated queries must not end with SKIP or LIMIT', 'INVALID_ARGUMENT', { query });
+  }
+
+  return skip > 0 ? `${trimmed} SKIP ${skip} LIMIT ${limit}` : `${trimmed} LIMIT ${limit}`;
+}
+
 /**
  * Get platform-specific library extension
  */
@@ -142,6 +445,35 @@ export function escapeCypherString(str: string): string {
   return str.replace(/'/g, "\\'");
 }
 
+/**
+ * Quote a label, relationship type or property key for use in a Cypher query
+ *
+ * Plain identifiers are returned unchanged; anything else is wrapped in
+ * backticks with embedded backticks doubled. Empty names and names containing
+ * control characters are rejected.
+ *
+ * @param name - Identifier to quote
+ * @param kind - What the identifier names, used in error messages
+ * @example quoteIdentifier('Person') => "Person"
+ * @example quoteIdentifier('first name') => "`first name`"
+ */
+export function quoteIdentifier(name: string, kind: string = 'identifier'): string {
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new GraphQLiteError(`Invalid ${kind}: must be a non-empty string`, 'INVALID_IDENTIFIER');
+  }
+  if (/[\u0000-\u001f\u007f]/.test(name)) {
+    throw new GraphQLiteError(
+      `Invalid ${kind} ${JSON.stringify(name)}: control characters are not allowed`,
+      'INVALID_IDENTIFIER'
+    );
+  }
+
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    return name;
+  }
+  return `\`${name.replace(/`/g, '``')}\``;
+}
+
 /**
  * Format a Cypher value to its string representation
  */
@@ -179,3 +511,85 @@ export function formatCypherProperties(properties: Record<string, CypherValue>):
     .join(', ');
 }
 
+const STRING_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  "'": "\\'",
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+};
+
+/**
+ * Format a value as a Cypher literal
+ *
+ * Map keys are sorted so the same value always produces the same text.
+ *
+ * @throws GraphQLiteError with INVALID_ARGUMENT for NaN and infinite numbers
+ */
+export function toCypherLiteral(value: CypherValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/[\\'\n\r\t]/g, (char) => STRING_ESCAPES[char] as string)}'`;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new GraphQLiteError(`Cannot write ${value} as a Cypher literal`, 'INVALID_ARGUMENT');
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toCypherLiteral).join(', ')}]`;
+  }
+  return toCypherMap(value as Record<string, CypherValue>);
+}
+
+/**
+ * Format properties as a Cypher map literal with sorted keys, leaving out nulls
+ */
+export function toCypherMap(properties: Record<string, CypherValue>): string {
+  const entries = Object.keys(properties)
+    .sort()
+    .filter((key) => properties[key] !== null && properties[key] !== undefined)
+    .map((key) => `${quoteIdentifier(key, 'property key')}: ${toCypherLiteral(properties[key] as CypherValue)}`);
+  return `{${entries.join(', ')}}`;
+}
+
+
+/**
+ * First-come, first-served lock over a graph's single connection
+ *
+ * Servers hold it for one query, or for as long as a client keeps a
+ * transaction open.
+ */
+export class GraphLock {
+  private locked: boolean = false;
+  private readonly waiters: Array<() => void> = [];
+
+  /**
+   * Wait until no one else holds the lock, then take it
+   */
+  async acquire(): Promise<void> {
+    if (!this.locked) {
+      this.locked = true;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  /**
+   * Hand the lock to the next waiter, or free it
+   */
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.locked = false;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Graph entity values returned from Cypher queries
+ */
+
+import type { CypherValue } from './types';
+
+/**
+ * Identifier the extension assigns to a node or relationship
+ */
+export type EntityId = number | string;
+
+/**
+ * A node returned by a query such as `MATCH (n) RETURN n`
+ */
+export class Node {
+  constructor(
+    /** Internal id assigned by the extension */
+    public readonly id: EntityId,
+    public readonly labels: string[],
+    public readonly properties: Record<string, CypherValue>
+  ) {}
+
+  /**
+   * Check whether the node has a label
+   */
+  hasLabel(label: string): boolean {
+    return this.labels.includes(label);
+  }
+
+  /**
+   * Read a property, or null if it is not set
+   */
+  get(key: string): CypherValue {
+    return this.properties[key] ?? null;
+  }
+
+  toJSON(): { id: EntityId; labels: string[]; properties: Record<string, CypherValue> } {
+    return { id: this.id, labels: this.labels, properties: this.properties };
+  }
+}
+
+/**
+ * A relationship returned by a query such as `MATCH ()-[r]->() RETURN r`
+ */
+export class Relationship {
+  constructor(
+    /** Internal id assigned by the extension */
+    public readonly id: EntityId,
+    public readonly type: string,
+    /** Internal id of the start node */
+    public readonly start: EntityId,
+    /** Internal id of the end node */
+    public readonly end: EntityId,
+    public readonly properties: Record<string, CypherValue>
+  ) {}
+
+  /**
+   * Read a property, or null if it is not set
+   */
+  get(key: string): CypherValue {
+    return this.properties[key] ?? null;
+  }
+
+  toJSON(): { id: EntityId; type: string; start: EntityId; end: EntityId; properties: Record<string, CypherValue> } {
+    return { id: this.id, type: this.type, start: this.start, end: this.end, properties: this.properties };
+  }
+}
+
+/**
+ * One hop of a path
+ */
+export interface PathSegment {
+  start: Node;
+  relationship: Relationship;
+  end: Node;
+}
+
+/**
+ * A path returned by a query such as `MATCH p = (a)-[*]->(b) RETURN p`
+ */
+export class Path {
+  constructor(
+    public readonly nodes: Node[],
+    public readonly relationships: Relationship[]
+  ) {}
+
+  /** First node of the path */
+  get start(): Node | undefined {
+    return this.nodes[0];
+  }
+
+  /** Last node of the path */
+  get end(): Node | undefined {
+    return this.nodes[this.nodes.length - 1];
+  }
+
+  /** Number of relationships in the path */
+  get length(): number {
+    return this.relationships.length;
+  }
+
+  /**
+   * Iterate over the path hop by hop
+   */
+  *segments(): Generator<PathSegment> {
+    for (let i = 0; i < this.relationships.length; i++) {
+      const start = this.nodes[i];
+      const end = this.nodes[i + 1];
+      const relationship = this.relationships[i];
+      if (start && end && relationship) {
+        yield { start, relationship, end };
+      }
+    }
+  }
+
+  toJSON(): { nodes: Node[]; relationships: Relationship[] } {
+    return { nodes: this.nodes, relationships: this.relationships };
+  }
+}
+
+/**
+ * Check whether a value is a Node
+ */
+export function isNode(value: unknown): value is Node {
+  return value instanceof Node;
+}
+
+/**
+ * Check whether a value is a Relationship
+ */
+export function isRelationship(value: unknown): value is Relationship {
+  return value instanceof Relationship;
+}
+
+/**
+ * Check whether a value is a Path
+ */
+export function isPath(value: unknown): value is Path {
+  return value instanceof Path;
+}
@@ -0,0 +1,134 @@
+/**
+ * Worker entry point for AsyncGraph
+ *
+ * Owns the bun:sqlite connection and the loaded extension, and runs Graph
+ * methods one at a time on behalf of the main thread.
+ */
+
+import { Graph } from './graph';
+import type { GraphOptions } from './types';
+import { serializeError } from './utils';
+import type { SerializedError } from './utils';
+
+declare var self: Worker;
+
+/**
+ * Graph methods the main thread may call
+ */
+export type WorkerMethod =
+  | 'cypherRaw'
+  | 'getStats'
+  | 'schema'
+  | 'loadGraph'
+  | 'unloadGraph'
+  | 'reloadGraph'
+  | 'upsertNode'
+  | 'upsertEdge'
+  | 'upsertNodes'
+  | 'upsertEdges'
+  | 'pagerank'
+  | 'louvain'
+  | 'shortestPath'
+  | 'dijkstra'
+  | 'degreeCentrality'
+  | 'betweennessCentrality'
+  | 'closenessCentrality'
+  | 'weaklyConnectedComponents'
+  | 'stronglyConnectedComponents'
+  | 'labelPropagation'
+  | 'triangleCount'
+  | 'bfs'
+  | 'dfs'
+  | 'astar'
+  | 'kShortestPaths'
+  | 'allShortestPaths'
+  | 'shortestPathsFrom';
+
+/**
+ * Messages sent from the main thread to the worker
+ */
+export type WorkerRequest =
+  | { type: 'open'; dbPath: string; options?: GraphOptions }
+  | { type: 'call'; id: number; method: WorkerMethod; args: unknown[] }
+  | { type: 'close'; id: number };
+
+/**
+ * Messages sent from the worker to the main thread
+ *
+ * An `error` without an id means the database could not be opened.
+ */
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id?: number; error: SerializedError };
+
+const METHODS: ReadonlySet<string> = new Set<WorkerMethod>([
+  'cypherRaw',
+  'getStats',
+  'schema',
+  'loadGraph',
+  'unloadGraph',
+  'reloadGraph',
+  'upsertNode',
+  'upsertEdge',
+  'upsertNodes',
+  'upsertEdges',
+  'pagerank',
+  'louvain',
+  'shortestPath',
+  'dijkstra',
+  'degreeCentrality',
+  'betweennessCentrality',
+  'closenessCentrality',
+  'weaklyConnectedComponents',
+  'stronglyConnectedComponents',
+  'labelPropagation',
+  'triangleCount',
+  'bfs',
+  'dfs',
+  'astar',
+  'kShortestPaths',
+  'allShortestPaths',
+  'shortestPathsFrom',
+]);
+
+let graph: Graph | null = null;
+
+function respond(message: WorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'open') {
+    try {
+      graph = new Graph(request.dbPath, request.options);
+      respond({ type: 'ready' });
+    } catch (error) {
+      respond({ type: 'error', error: serializeError(error) });
+    }
+    return;
+  }
+
+  try {
+    if (!graph) {
+      throw new Error('Database is not open');
+    }
+
+    if (request.type === 'close') {
+      graph.close();
+      graph = null;
+      respond({ type: 'result', id: request.id, value: null });
+      return;
+    }
+
+    if (!METHODS.has(request.method)) {
+      throw new Error(`Unknown method: ${request.method}`);
+    }
+    const method = graph[request.method] as (...args: unknown[]) => unknown;
+    respond({ type: 'result', id: request.id, value: method.apply(graph, request.args) });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, error: serializeError(error) });
+  }
+};
@@ -0,0 +1,201 @@
+/**
+ * Minimal streaming XML tokenizer for GraphML and GEXF import
+ *
+ * Handles elements, attributes, text, CDATA and the predefined and numeric
+ * entities. Processing instructions, comments and DOCTYPE declarations are
+ * skipped. Namespaces are not resolved: element names lose their prefix,
+ * attribute names keep it.
+ */
+
+import { GraphQLiteError } from './types';
+
+/**
+ * A token produced by XmlTokenizer
+ */
+export type XmlEvent =
+  | { type: 'open'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; text: string };
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Replace entity references with the characters they stand for
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Escape text for use in XML content or a double-quoted attribute
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/[&<>"'\t\n\r]/g, (char) => {
+    switch (char) {
+      case '&': return '&amp;';
+      case '<': return '&lt;';
+      case '>': return '&gt;';
+      case '"': return '&quot;';
+      case "'": return '&apos;';
+      default: return `&#${char.charCodeAt(0)};`;
+    }
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  for (const match of source.matchAll(pattern)) {
+    attributes[match[1] as string] = decodeXmlEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Incremental XML tokenizer
+ *
+ * Feed text with write() and collect the events it yields; call end() once
+ * the input is exhausted.
+ *
+ * @example
+ * ```ts
+ * const tokenizer = new XmlTokenizer();
+ * for await (const chunk of chunks) {
+ *   for (const event of tokenizer.write(chunk)) handle(event);
+ * }
+ * for (const event of tokenizer.end()) handle(event);
+ * ```
+ */
+export class XmlTokenizer {
+  private buffer: string = '';
+
+  /**
+   * Add text and yield every token it completes
+   */
+  *write(chunk: string): Generator<XmlEvent> {
+    this.buffer += chunk;
+    let position = 0;
+
+    while (position < this.buffer.length) {
+      const tagStart = this.buffer.indexOf('<', position);
+      if (tagStart === -1) {
+        // Keep trailing text until the next tag so entities are not split
+        break;
+      }
+      if (tagStart > position) {
+        yield { type: 'text', text: decodeXmlEntities(this.buffer.slice(position, tagStart)) };
+        position = tagStart;
+      }
+
+      const tagEnd = this.findTagEnd(tagStart);
+      if (tagEnd === -1) {
+        break;
+      }
+
+      const event = this.parseTag(this.buffer.slice(tagStart, tagEnd));
+      if (event) {
+        yield event;
+      }
+      position = tagEnd;
+    }
+
+    this.buffer = this.buffer.slice(position);
+  }
+
+  /**
+   * Signal the end of input, yielding any remaining text
+   *
+   * @throws GraphQLiteError with INVALID_INPUT if a tag is left unfinished
+   */
+  *end(): Generator<XmlEvent> {
+    if (this.buffer.includes('<')) {
+      throw new GraphQLiteError('Unexpected end of XML input inside a tag', 'INVALID_INPUT');
+    }
+    if (this.buffer.length > 0) {
+      yield { type: 'text', text: decodeXmlEntities(this.buffer) };
+    }
+    this.buffer = '';
+  }
+
+  /**
+   * Find the index just past the tag starting at `start`, or -1 if incomplete
+   */
+  private findTagEnd(start: number): number {
+    const rest = this.buffer;
+
+    for (const [open, close] of [['<!--', '-->'], ['<![CDATA[', ']]>'], ['<?', '?>']] as const) {
+      if (rest.startsWith(open, start)) {
+        const end = rest.indexOf(close, start + open.length);
+        return end === -1 ? -1 : end + close.length;
+      }
+    }
+
+    let quote: string | null = null;
+    let bracketDepth = 0;
+    for (let i = start + 1; i < rest.length; i++) {
+      const char = rest[i];
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '[') {
+        bracketDepth++;
+      } else if (char === ']') {
+        bracketDepth--;
+      } else if (char === '>' && bracketDepth <= 0) {
+        return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Turn the source of one complete tag into an event
+   */
+  private parseTag(tag: string): XmlEvent | null {
+    if (tag.startsWith('<![CDATA[')) {
+      return { type: 'text', text: tag.slice(9, -3) };
+    }
+    if (tag.startsWith('<!') || tag.startsWith('<?')) {
+      return null;
+    }
+    if (tag.startsWith('</')) {
+      return { type: 'close', name: localName(tag.slice(2, -1).trim()) };
+    }
+
+    const selfClosing = tag.endsWith('/>');
+    const body = tag.slice(1, selfClosing ? -2 : -1);
+    const nameMatch = /^[^\s/>]+/.exec(body);
+    if (!nameMatch) {
+      throw new GraphQLiteError(`Malformed XML tag: ${tag.slice(0, 50)}`, 'INVALID_INPUT');
+    }
+
+    return {
+      type: 'open',
+      name: localName(nameMatch[0]),
+      attributes: parseAttributes(body.slice(nameMatch[0].length)),
+      selfClosing,
+    };
+  }
+}
@@ -5,6 +5,9 @@
 import { test, expect } from 'bun:test';
 import { Graph } from '../src/graph';
 import { GraphQLiteError } from '../src/types';
+import type { CypherValue } from '../src/types';
+import { pagerank, shortestPath, degreeCentrality, weaklyConnectedComponents, triangleCount, traverse, astar } from '../src/algorithms';
+import { stubGraph } from './helpers';
 
 const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
 
@@ -15,6 +18,15 @@ function createTestGraph(): Graph {
   });
 }
 
+/**
+ * Stand-in graph whose algorithm functions return a fixed value, recording
+ * the queries run
+ */
+function fakeGraph(value: CypherValue): { graph: Graph; queries: () => string[] } {
+  const { graph, queries } = stubGraph(() => [{ column_0: value }]);
+  return { graph, queries: () => queries.map(({ query }) => query) };
+}
+
 test('Graph statistics work', () => {
   const graph = createTestGraph();
 
@@ -22,11 +34,8 @@ test('Graph statistics work', () => {
     graph.cypher("CREATE (a:Person {name: 'Alice'}), (b:Person {name: 'Bob'})");
     graph.cypher("MATCH (a:Person {name: 'Alice'}), (b:Person {name: 'Bob'}) CREATE (a)-[:KNOWS]->(b)");
     
-    const stats = graph.getStats();
-    expect(stats).toStrictEqual({
-      nodes: expect.any(Number),
-      edges: expect.any(Number),
-    });
+    // Counts do not depend on the algorithm cache being loaded
+    expect(graph.getStats()).toStrictEqual({ nodes: 2, edges: 1 });
   } finally {
     graph.close();
   }
@@ -249,3 +258,91 @@ test('upsertEdge handles special characters in properties', () => {
     graph.close();
   }
 });
+
+test('algorithm results are keyed by user id, falling back to node id', () => {
+  const { graph, queries } = fakeGraph([
+    { node_id: 1, user_id: 'alice', score: 0.6 },
+    { node_id: 2, score: 0.4 },
+    { node_id: 3, user_id: 'carol' },
+  ]);
+
+  expect(pagerank(graph, { iterations: 5 })).toStrictEqual({ alice: 0.6, '2': 0.4 });
+  expect(queries()).toStrictEqual(['RETURN pageRank(0.85, 5)']);
+  expect(() => pagerank(graph, { iterations: 1.5 })).toThrow('iterations must be a non-negative integer, got 1.5');
+});
+
+test('algorithm wrappers build calls and parse rows', () => {
+  const degrees = fakeGraph([{ node_id: 1, user_id: 'alice', in_degree: 1, out_degree: 2 }]);
+  expect(degreeCentrality(degrees.graph)).toStrictEqual({ alice: { inDegree: 1, outDegree: 2, degree: 3 } });
+  expect(degrees.queries()).toStrictEqual(['RETURN degreeCentrality()']);
+
+  const components = fakeGraph([
+    { node_id: 1, user_id: 'alice', component: 0 },
+    { node_id: 2, user_id: 'bob', component: 0 },
+  ]);
+  expect(weaklyConnectedComponents(components.graph)).toStrictEqual({ alice: 0, bob: 0 });
+
+  const triangles = fakeGraph([{ node_id: 1, user_id: 'alice', triangles: 1, clustering_coefficient: 1 }]);
+  expect(triangleCount(triangles.graph)).toStrictEqual({ alice: { triangles: 1, clusteringCoefficient: 1 } });
+
+  const steps = fakeGraph([
+    { node_id: 2, user_id: 'bob', depth: 1, order: 1 },
+    { node_id: 1, user_id: 'alice', depth: 0, order: 0 },
+  ]);
+  expect(traverse(steps.graph, 'bfs', "o'brien", { maxDepth: 2 })).toStrictEqual([
+    { id: 'alice', depth: 0 },
+    { id: 'bob', depth: 1 },
+  ]);
+  expect(steps.queries()).toStrictEqual(["RETURN bfs('o\\'brien', 2)"]);
+});
+
+test('path algorithms return null when no path is found', () => {
+  const found = fakeGraph({ path: ['paris', 'berlin'], distance: 878, found: true });
+  expect(astar(found.graph, 'paris', 'berlin', { latitude: 'lat', longitude: 'lon' })).toStrictEqual({
+    path: ['paris', 'berlin'],
+    distance: 878,
+  });
+  expect(found.queries()).toStrictEqual(["RETURN astar('paris', 'berlin', 'lat', 'lon')"]);
+  expect(() => astar(found.graph, 'paris', 'berlin', { latitude: 'lat' })).toThrow(GraphQLiteError);
+
+  const missing = fakeGraph({ path: [], found: false });
+  expect(shortestPath(missing.graph, 'alice', 'bob', { weight: 'cost' })).toBeNull();
+  expect(missing.queries()).toStrictEqual(["RETURN dijkstra('alice', 'bob', 'cost')"]);
+});
+
+test('centrality, component and traversal algorithms run on the extension', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+    graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+    graph.upsertNode('carol', { name: 'Carol' }, 'Person');
+    graph.upsertNode('dave', { name: 'Dave' }, 'Person');
+    graph.upsertEdge('alice', 'bob', {}, 'KNOWS');
+    graph.upsertEdge('bob', 'carol', {}, 'KNOWS');
+    graph.upsertEdge('carol', 'alice', {}, 'KNOWS');
+
+    expect(graph.degreeCentrality().alice).toStrictEqual({ inDegree: 1, outDegree: 1, degree: 2 });
+    expect(Object.keys(graph.betweennessCentrality()).sort()).toStrictEqual(['alice', 'bob', 'carol', 'dave']);
+    expect(Object.keys(graph.closenessCentrality()).sort()).toStrictEqual(['alice', 'bob', 'carol', 'dave']);
+
+    const weak = graph.weaklyConnectedComponents();
+    expect(weak.alice).toBe(weak.carol as number);
+    expect(weak.alice).not.toBe(weak.dave as number);
+    const strong = graph.stronglyConnectedComponents();
+    expect(strong.alice).toBe(strong.bob as number);
+    expect(Object.keys(graph.labelPropagation({ iterations: 5 })).sort()).toStrictEqual(['alice', 'bob', 'carol', 'dave']);
+    expect(graph.triangleCount().alice?.triangles).toBe(1);
+
+    expect(graph.bfs('alice', { maxDepth: 1 })).toStrictEqual([
+      { id: 'alice', depth: 0 },
+      { id: 'bob', depth: 1 },
+      { id: 'carol', depth: 1 },
+    ]);
+    expect(graph.dfs('alice').map((step) => step.id)).toStrictEqual(['alice', 'bob', 'carol']);
+    expect(graph.astar('alice', 'carol')?.path).toStrictEqual(['alice', 'bob', 'carol']);
+    expect(graph.astar('alice', 'dave')).toBeNull();
+  } finally {
+    graph.close();
+  }
+});
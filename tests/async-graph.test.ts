@@ -0,0 +1,150 @@
+/**
+ * AsyncGraph tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AsyncGraph } from '../src/async-graph';
+import { GraphQLiteError } from '../src/types';
+import type { GraphQLiteErrorCode } from '../src/types';
+import { isNode } from '../src/values';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): AsyncGraph {
+  return new AsyncGraph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+async function expectCode(promise: Promise<unknown>, code: GraphQLiteErrorCode): Promise<void> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(GraphQLiteError);
+    expect((error as GraphQLiteError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected GraphQLiteError with code ${code}`);
+}
+
+test('errors raised in the worker keep their code', async () => {
+  const graph = new AsyncGraph(':memory:', { extensionPath: undefined });
+
+  try {
+    await graph.ready();
+    await expectCode(graph.cypher('RETURN 1'), 'EXTENSION_NOT_LOADED');
+  } finally {
+    await graph.close();
+  }
+});
+
+test('open failures reject ready() and every call', async () => {
+  const graph = new AsyncGraph(':memory:', { extensionPath: './does-not-exist.so' });
+
+  try {
+    await expectCode(graph.ready(), 'EXTENSION_NOT_FOUND');
+    await expectCode(graph.cypher('RETURN 1'), 'EXTENSION_NOT_FOUND');
+  } finally {
+    await graph.close();
+  }
+});
+
+test('aborted signals cancel calls before they run', async () => {
+  const graph = new AsyncGraph(':memory:', { extensionPath: undefined });
+
+  try {
+    await expectCode(graph.getStats({ signal: AbortSignal.abort() }), 'QUERY_CANCELLED');
+
+    const controller = new AbortController();
+    const first = graph.cypher('RETURN 1').catch(() => undefined);
+    const second = graph.cypher('RETURN 2', undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expectCode(second, 'QUERY_CANCELLED');
+    await first;
+  } finally {
+    await graph.close();
+  }
+});
+
+test('calls after close() reject with GRAPH_CLOSED', async () => {
+  const graph = new AsyncGraph(':memory:', { extensionPath: undefined });
+  await graph.close();
+  await expectCode(graph.cypher('RETURN 1'), 'GRAPH_CLOSED');
+});
+
+test('cypher() resolves decoded rows', async () => {
+  const graph = createTestGraph();
+
+  try {
+    await graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+    await graph.upsertNodes([{ id: 'bob', properties: { name: 'Bob' }, label: 'Person' }]);
+
+    const rows = await graph.cypher('MATCH (n:Person) RETURN n ORDER BY n.id');
+    expect(rows).toHaveLength(2);
+    expect(isNode(rows[0]?.n)).toBe(true);
+    expect(await graph.getStats()).toStrictEqual({ nodes: 2, edges: 0 });
+  } finally {
+    await graph.close();
+  }
+});
+
+test('algorithms run in the worker', async () => {
+  const graph = createTestGraph();
+
+  try {
+    await graph.upsertNode('a', {}, 'Node');
+    await graph.upsertNode('b', {}, 'Node');
+    await graph.upsertEdge('a', 'b', {}, 'LINKS');
+
+    const ranks = await graph.pagerank();
+    expect(Object.keys(ranks).sort()).toStrictEqual(['a', 'b']);
+    expect((await graph.shortestPath('a', 'b'))?.path).toStrictEqual(['a', 'b']);
+  } finally {
+    await graph.close();
+  }
+});
+
+test('a timed out call keeps the worker and its data for later calls', async () => {
+  const graph = createTestGraph();
+
+  try {
+    await graph.upsertNode('a', {}, 'Node');
+    const slow = graph.cypher('UNWIND range(1, 10000000) AS x RETURN count(x) AS c', undefined, { timeout: 50 });
+    const next = graph.cypher('MATCH (n:Node) RETURN n.id AS id');
+
+    await expectCode(slow, 'QUERY_TIMEOUT');
+    expect(await next).toStrictEqual([{ id: 'a' }]);
+  } finally {
+    await graph.close();
+  }
+});
+
+test('restartOnCancel restarts the worker on the same database file', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphqlite-async-'));
+  const graph = new AsyncGraph(path.join(dir, 'graph.db'), {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+    restartOnCancel: true,
+  });
+
+  try {
+    await graph.upsertNode('a', {}, 'Node');
+    const slow = graph.cypher('UNWIND range(1, 10000000) AS x RETURN count(x) AS c', undefined, { timeout: 50 });
+    const next = graph.cypher('MATCH (n:Node) RETURN n.id AS id');
+
+    await expectCode(slow, 'QUERY_TIMEOUT');
+    expect(await next).toStrictEqual([{ id: 'a' }]);
+  } finally {
+    await graph.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('restartOnCancel is rejected for a :memory: database', () => {
+  expect(() => new AsyncGraph(':memory:', { restartOnCancel: true })).toThrow(GraphQLiteError);
+});
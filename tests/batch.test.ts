@@ -0,0 +1,186 @@
+/**
+ * Batch upsert tests for GraphQLite
+ */
+
+import { test, expect, spyOn } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import type { NodeInput } from '../src/types';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+function* generatePeople(count: number): Generator<NodeInput> {
+  for (let i = 0; i < count; i++) {
+    yield { id: `p${i}`, properties: { name: `Person${i}`, index: i }, label: 'Person' };
+  }
+}
+
+test('upsertNodes creates and updates nodes', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { name: 'Alice', age: 30 }, 'Person');
+
+    const result = graph.upsertNodes([
+      { id: 'alice', properties: { age: 31 }, label: 'Person' },
+      { id: 'bob', properties: { name: 'Bob', age: 25 }, label: 'Person' },
+    ]);
+
+    expect(result).toStrictEqual({ created: 1, updated: 1 });
+
+    const results = graph.cypher('MATCH (n:Person) RETURN n.id as id, n.age as age ORDER BY n.id');
+    expect(results).toStrictEqual([
+      { id: 'alice', age: 31 },
+      { id: 'bob', age: 25 },
+    ]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNodes treats repeated ids within a batch as updates', () => {
+  const graph = createTestGraph();
+
+  try {
+    const result = graph.upsertNodes([
+      { id: 'alice', properties: { age: 30 } },
+      { id: 'alice', properties: { age: 31 } },
+    ]);
+
+    expect(result).toStrictEqual({ created: 1, updated: 1 });
+
+    const results = graph.cypher("MATCH (n {id: 'alice'}) RETURN n.age as age");
+    expect(results).toStrictEqual([{ age: 31 }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNodes accepts iterables across chunk boundaries', () => {
+  const graph = createTestGraph();
+
+  try {
+    const result = graph.upsertNodes(generatePeople(25), { chunkSize: 10 });
+    expect(result).toStrictEqual({ created: 25, updated: 0 });
+
+    const results = graph.cypher<{ cnt: number }>('MATCH (n:Person) RETURN count(n) as cnt');
+    expect(results[0]?.cnt).toBe(25);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNodes accepts async iterables', async () => {
+  const graph = createTestGraph();
+
+  try {
+    async function* source() {
+      yield* generatePeople(5);
+    }
+
+    const result = await graph.upsertNodes(source(), { chunkSize: 2 });
+    expect(result).toStrictEqual({ created: 5, updated: 0 });
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNodes rolls back the whole batch on failure', () => {
+  const graph = createTestGraph();
+
+  try {
+    function* failing(): Generator<NodeInput> {
+      yield* generatePeople(3);
+      throw new Error('source failed');
+    }
+
+    expect(() => graph.upsertNodes(failing(), { chunkSize: 2 })).toThrow('source failed');
+
+    const results = graph.cypher<{ cnt: number }>('MATCH (n:Person) RETURN count(n) as cnt');
+    expect(results[0]?.cnt).toBe(0);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNodes rejects invalid chunk sizes', () => {
+  const graph = createTestGraph();
+
+  try {
+    expect(() => graph.upsertNodes([], { chunkSize: 0 })).toThrow(GraphQLiteError);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertEdges creates and updates edges', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNodes(generatePeople(3));
+
+    const first = graph.upsertEdges([
+      { source: 'p0', target: 'p1', properties: { since: 2020 }, relType: 'KNOWS' },
+      { source: 'p1', target: 'p2', properties: { since: 2021 }, relType: 'KNOWS' },
+    ]);
+    expect(first).toStrictEqual({ created: 2, updated: 0 });
+
+    const second = graph.upsertEdges([
+      { source: 'p0', target: 'p1', properties: { since: 2022 }, relType: 'KNOWS' },
+      { source: 'p0', target: 'p1', properties: {}, relType: 'WORKS_WITH' },
+    ]);
+    expect(second).toStrictEqual({ created: 1, updated: 1 });
+
+    const results = graph.cypher(
+      "MATCH (a {id: 'p0'})-[r:KNOWS]->(b {id: 'p1'}) RETURN r.since as since"
+    );
+    expect(results).toStrictEqual([{ since: 2022 }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('createEdges keeps parallel edges of the same type', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNodes(Array.from(generatePeople(2)));
+    const edges = [
+      { source: 'p0', target: 'p1', properties: { amount: 5 }, relType: 'PAID' },
+      { source: 'p0', target: 'p1', properties: { amount: 7 }, relType: 'PAID' },
+    ];
+
+    expect(graph.createEdges(edges)).toStrictEqual({ created: 2, updated: 0 });
+    expect(graph.upsertEdges(edges)).toStrictEqual({ created: 0, updated: 2 });
+    const results = graph.cypher("MATCH (a {id: 'p0'})-[r:PAID]->(b {id: 'p1'}) RETURN count(r) AS count");
+    expect(results).toStrictEqual([{ count: 2 }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNodes issues a fixed number of queries per chunk', () => {
+  const graph = createTestGraph();
+
+  try {
+    const cypher = spyOn(graph, 'cypher');
+
+    // One existence lookup and one create per chunk of 250
+    expect(graph.upsertNodes(generatePeople(1000), { chunkSize: 250 })).toStrictEqual({ created: 1000, updated: 0 });
+    expect(cypher).toHaveBeenCalledTimes(8);
+
+    // One existence lookup and one update per chunk, whatever the graph size
+    cypher.mockClear();
+    expect(graph.upsertNodes(generatePeople(1000), { chunkSize: 250 })).toStrictEqual({ created: 0, updated: 1000 });
+    expect(cypher).toHaveBeenCalledTimes(8);
+  } finally {
+    graph.close();
+  }
+});
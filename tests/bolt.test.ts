@@ -0,0 +1,334 @@
+/**
+ * Bolt protocol server tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import type { Socket } from 'bun';
+import { Graph } from '../src/graph';
+import { Node, Relationship, Path } from '../src/values';
+import { negotiateVersion, chunkMessage, MessageReader, toBoltValue, serveBolt } from '../src/bolt';
+import { pack, unpack, Structure } from '../src/packstream';
+import type { PackStreamValue } from '../src/packstream';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+const MAGIC = [0x60, 0x60, 0xb0, 0x17];
+
+/**
+ * Build a handshake from [major, minor, range] proposals
+ */
+function handshake(...proposals: Array<[number, number, number]>): Uint8Array {
+  const bytes = new Uint8Array(20);
+  bytes.set(MAGIC);
+  proposals.forEach(([major, minor, range], i) => bytes.set([0, range, minor, major], 4 + i * 4));
+  return bytes;
+}
+
+const SUCCESS = 0x70;
+const RECORD = 0x71;
+const IGNORED = 0x7e;
+const FAILURE = 0x7f;
+
+/**
+ * Minimal Bolt client that sends messages and waits for responses
+ */
+class TestClient {
+  private readonly reader = new MessageReader();
+  private readonly messages: Structure[] = [];
+  private socket: Socket<undefined> | null = null;
+  private version: Uint8Array | null = null;
+  private closed: boolean = false;
+  private notify: () => void = () => {};
+  private signal: Promise<void> = this.arm();
+
+  static async connect(port: number, bytes: Uint8Array = handshake([5, 4, 4], [4, 4, 0])): Promise<TestClient> {
+    const client = new TestClient();
+    client.socket = await Bun.connect({
+      hostname: '127.0.0.1',
+      port,
+      socket: {
+        data: (_socket, data) => client.receive(data),
+        close: () => {
+          client.closed = true;
+          client.wake();
+        },
+      },
+    });
+    client.socket.write(bytes);
+    await client.waitFor(() => client.version !== null || client.closed);
+    return client;
+  }
+
+  /** Version bytes the server answered the handshake with */
+  get agreed(): string {
+    return Buffer.from(this.version ?? []).toString('hex');
+  }
+
+  send(tag: number, ...fields: PackStreamValue[]): void {
+    this.socket?.write(chunkMessage(pack(new Structure(tag, fields))));
+  }
+
+  async next(): Promise<Structure> {
+    await this.waitFor(() => this.messages.length > 0 || this.closed);
+    const message = this.messages.shift();
+    if (!message) {
+      throw new Error('connection closed');
+    }
+    return message;
+  }
+
+  /**
+   * Whether a response arrives within a short time
+   */
+  async responds(within: number): Promise<boolean> {
+    await Bun.sleep(within);
+    return this.messages.length > 0;
+  }
+
+  async close(): Promise<void> {
+    this.socket?.end();
+    await this.waitFor(() => this.closed);
+  }
+
+  private receive(data: Uint8Array): void {
+    let bytes = data;
+    if (this.version === null) {
+      this.version = bytes.slice(0, 4);
+      bytes = bytes.subarray(4);
+    }
+    for (const message of this.reader.write(bytes)) {
+      this.messages.push(unpack(message) as Structure);
+    }
+    this.wake();
+  }
+
+  private arm(): Promise<void> {
+    this.signal = new Promise((resolve) => (this.notify = resolve));
+    return this.signal;
+  }
+
+  private wake(): void {
+    this.notify();
+    this.arm();
+  }
+
+  private async waitFor(ready: () => boolean, timeout: number = 2000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!ready()) {
+      const left = deadline - Date.now();
+      if (left <= 0) {
+        throw new Error('no response');
+      }
+      await Promise.race([this.signal, Bun.sleep(left)]);
+    }
+  }
+}
+
+async function expectResponse(client: TestClient, tag: number): Promise<Record<string, PackStreamValue>> {
+  const message = await client.next();
+  expect(message.tag).toBe(tag);
+  return (message.fields[0] ?? {}) as Record<string, PackStreamValue>;
+}
+
+test('negotiateVersion picks the newest supported version of the preferred proposal', () => {
+  expect(negotiateVersion(handshake([5, 4, 4], [4, 4, 0]))).toStrictEqual({ major: 5, minor: 4 });
+  expect(negotiateVersion(handshake([5, 8, 4], [4, 4, 0]))).toStrictEqual({ major: 5, minor: 4 });
+  expect(negotiateVersion(handshake([5, 2, 0]))).toStrictEqual({ major: 5, minor: 2 });
+  expect(negotiateVersion(handshake([5, 8, 2], [4, 4, 3]))).toStrictEqual({ major: 4, minor: 4 });
+  expect(negotiateVersion(handshake([4, 3, 3], [3, 0, 0]))).toBeNull();
+
+  const http = new TextEncoder().encode('GET / HTTP/1.1\r\nHost: x\r\n');
+  expect(negotiateVersion(http)).toBeNull();
+});
+
+test('chunkMessage and MessageReader split and reassemble messages', () => {
+  const large = new Uint8Array(70_000).map((_, i) => i % 251);
+  const chunked = chunkMessage(large);
+  expect(chunked.length).toBe(70_000 + 2 * 2 + 2);
+  expect(Array.from(chunked.subarray(0, 2))).toStrictEqual([0xff, 0xff]);
+
+  const small = chunkMessage(new Uint8Array([1, 2, 3]));
+  expect(Array.from(small)).toStrictEqual([0, 3, 1, 2, 3, 0, 0]);
+
+  // Keep-alive chunks, then both messages fed a few bytes at a time
+  const stream = new Uint8Array([0, 0, ...small, ...chunked]);
+  const reader = new MessageReader();
+  const messages: Uint8Array[] = [];
+  for (let i = 0; i < stream.length; i += 7_001) {
+    messages.push(...reader.write(stream.subarray(i, i + 7_001)));
+  }
+  expect(messages).toHaveLength(2);
+  expect(Array.from(messages[0] ?? [])).toStrictEqual([1, 2, 3]);
+  expect(messages[1]).toStrictEqual(large);
+});
+
+test('toBoltValue encodes nodes, relationships and paths per version', () => {
+  const alice = new Node(1, ['Person'], { name: 'Alice' });
+  const bob = new Node(2, ['Person'], { name: 'Bob' });
+  const carol = new Node('c', ['Person'], {});
+  const knows = new Relationship(7, 'KNOWS', 1, 2, { since: 2020 });
+  const likes = new Relationship(8, 'LIKES', 'c', 2, {});
+  const v4 = { major: 4, minor: 4 };
+  const v5 = { major: 5, minor: 0 };
+
+  expect(toBoltValue(alice, v4)).toStrictEqual(new Structure(0x4e, [1, ['Person'], { name: 'Alice' }]));
+  expect(toBoltValue(carol, v5)).toStrictEqual(new Structure(0x4e, [-1, ['Person'], {}, 'c']));
+  expect(toBoltValue(knows, v5)).toStrictEqual(new Structure(0x52, [7, 1, 2, 'KNOWS', { since: 2020 }, '7', '1', '2']));
+  expect(toBoltValue({ people: [alice] }, v4)).toStrictEqual({ people: [toBoltValue(alice, v4)] });
+
+  // alice -KNOWS-> bob <-LIKES- carol
+  const path = toBoltValue(new Path([alice, bob, carol], [knows, likes]), v4) as Structure;
+  expect(path.tag).toBe(0x50);
+  const [nodes, rels, indices] = path.fields as [Structure[], Structure[], number[]];
+  expect(nodes.map((node) => node.fields[0])).toStrictEqual([1, 2, -1]);
+  expect(rels).toStrictEqual([new Structure(0x72, [7, 'KNOWS', { since: 2020 }]), new Structure(0x72, [8, 'LIKES', {}])]);
+  expect(indices).toStrictEqual([1, 1, -2, 2]);
+});
+
+test('serveBolt handles the session and transaction messages', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  const server = serveBolt(graph, { port: 0 });
+
+  try {
+    expect(server.url).toBe(`bolt://127.0.0.1:${server.port}`);
+    const client = await TestClient.connect(server.port);
+    expect(client.agreed).toBe('00000405');
+
+    client.send(0x01, { user_agent: 'test/1.0' });
+    const hello = await expectResponse(client, SUCCESS);
+    expect(hello.server).toBe('Neo4j/5.4.0');
+    client.send(0x6a, { scheme: 'basic', principal: 'neo4j', credentials: 'secret' });
+    await expectResponse(client, SUCCESS);
+
+    client.send(0x11, { db: 'neo4j' });
+    await expectResponse(client, SUCCESS);
+    expect(graph.inTransaction()).toBe(true);
+    client.send(0x12);
+    expect(typeof (await expectResponse(client, SUCCESS)).bookmark).toBe('string');
+    expect(graph.inTransaction()).toBe(false);
+
+    // Without the extension queries fail; later messages are ignored until RESET
+    client.send(0x10, 'RETURN 1', {}, {});
+    client.send(0x3f, { n: -1 });
+    expect((await expectResponse(client, FAILURE)).code).toBe('Neo.DatabaseError.General.UnknownError');
+    await expectResponse(client, IGNORED);
+    client.send(0x0f);
+    await expectResponse(client, SUCCESS);
+
+    client.send(0x11, {});
+    await expectResponse(client, SUCCESS);
+    client.send(0x10, 'RETURN $when', { when: new Structure(0x44, [19000]) }, {});
+    expect((await expectResponse(client, FAILURE)).message).toContain('Unsupported parameter value');
+    expect(graph.inTransaction()).toBe(false);
+    client.send(0x0f);
+    await expectResponse(client, SUCCESS);
+
+    client.send(0x10, 'RETURN 1', {}, { db: 'other' });
+    expect((await expectResponse(client, FAILURE)).code).toBe('Neo.ClientError.Database.DatabaseNotFound');
+    client.send(0x0f);
+    await expectResponse(client, SUCCESS);
+
+    client.send(0x12);
+    expect((await expectResponse(client, FAILURE)).code).toBe('Neo.ClientError.Request.Invalid');
+    client.send(0x0f);
+    await expectResponse(client, SUCCESS);
+
+    client.send(0x66, { address: 'localhost:9999' }, [], { db: null });
+    const route = await expectResponse(client, SUCCESS);
+    expect(route.rt).toMatchObject({ db: 'neo4j', servers: [{ addresses: ['localhost:9999'], role: 'WRITE' }, {}, {}] });
+
+    client.send(0x02);
+    await client.close();
+  } finally {
+    await server.stop();
+    graph.close();
+  }
+});
+
+test('serveBolt makes other clients wait for an open transaction', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  const server = serveBolt(graph, { port: 0 });
+
+  try {
+    const first = await TestClient.connect(server.port, handshake([4, 4, 0]));
+    const second = await TestClient.connect(server.port, handshake([4, 4, 0]));
+    expect(first.agreed).toBe('00000404');
+
+    for (const client of [first, second]) {
+      client.send(0x01, { user_agent: 'test/1.0', scheme: 'none' });
+      expect((await expectResponse(client, SUCCESS)).server).toBe('Neo4j/4.4.0');
+    }
+
+    first.send(0x11, {});
+    await expectResponse(first, SUCCESS);
+    second.send(0x11, {});
+    expect(await second.responds(50)).toBe(false);
+
+    // Hanging up rolls the transaction back and lets the next client in
+    await first.close();
+    await expectResponse(second, SUCCESS);
+    expect(graph.inTransaction()).toBe(true);
+    second.send(0x13);
+    await expectResponse(second, SUCCESS);
+    expect(graph.inTransaction()).toBe(false);
+    await second.close();
+  } finally {
+    await server.stop();
+    graph.close();
+  }
+});
+
+test('serveBolt hangs up on unsupported versions', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  const server = serveBolt(graph, { port: 0 });
+
+  try {
+    const client = await TestClient.connect(server.port, handshake([3, 0, 0]));
+    expect(client.agreed).toBe('00000000');
+    await expect(client.next()).rejects.toThrow('connection closed');
+  } finally {
+    await server.stop();
+    graph.close();
+  }
+});
+
+test('serveBolt runs Cypher and streams records', async () => {
+  const graph = createTestGraph();
+  const server = serveBolt(graph, { port: 0 });
+
+  try {
+    const client = await TestClient.connect(server.port, handshake([5, 0, 0]));
+    client.send(0x01, { user_agent: 'test/1.0' });
+    await expectResponse(client, SUCCESS);
+
+    client.send(0x10, "CREATE (:Person {name: 'Alice'}), (:Person {name: 'Bob'})", {}, {});
+    client.send(0x3f, { n: -1 });
+    await expectResponse(client, SUCCESS);
+    expect((await expectResponse(client, SUCCESS)).type).toBe('w');
+
+    client.send(0x10, 'MATCH (n:Person) WHERE n.name <> $skip RETURN n.name AS name, n ORDER BY name', { skip: 'nobody' }, {});
+    expect((await expectResponse(client, SUCCESS)).fields).toStrictEqual(['name', 'n']);
+    client.send(0x3f, { n: 1 });
+    const record = await client.next();
+    expect(record.tag).toBe(RECORD);
+    const [name, node] = record.fields[0] as [string, Structure];
+    expect(name).toBe('Alice');
+    expect(node.tag).toBe(0x4e);
+    expect(node.fields[1]).toStrictEqual(['Person']);
+    expect((await expectResponse(client, SUCCESS)).has_more).toBe(true);
+
+    client.send(0x2f, { n: -1 });
+    expect((await expectResponse(client, SUCCESS)).type).toBe('r');
+    await client.close();
+  } finally {
+    await server.stop();
+    graph.close();
+  }
+});
@@ -0,0 +1,158 @@
+/**
+ * Command-line tool, REPL and result formatting tests for GraphQLite
+ */
+
+import { test, expect, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Graph } from '../src/graph';
+import type { CypherResult } from '../src/types';
+import { formatTable, formatJson, formatCsv } from '../src/format';
+import { ReplSession } from '../src/repl';
+import { runCli, parseFileSpec } from '../src/cli';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+const RESULT: CypherResult = {
+  columns: ['name', 'age', 'tags'],
+  data: [
+    ['Alice', 30, ['a', 'b']],
+    ['Bob "B", Jr.', null, []],
+  ],
+};
+
+let tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tempDirs = [];
+});
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphqlite-cli-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+async function cli(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  const code = await runCli(argv, {
+    stdout: { write: (chunk) => (stdout += chunk) },
+    stderr: { write: (chunk) => (stderr += chunk) },
+  });
+  return { code, stdout, stderr };
+}
+
+test('formatTable aligns columns and counts rows', () => {
+  expect(formatTable(RESULT)).toBe(
+    [
+      '| name         | age | tags      |',
+      '|--------------|-----|-----------|',
+      '| Alice        | 30  | ["a","b"] |',
+      '| Bob "B", Jr. |     | []        |',
+      '(2 rows)',
+      '',
+    ].join('\n')
+  );
+  expect(formatTable({ columns: ['n'], data: [['line\nbreak']] })).toContain('| line\\nbreak |');
+  expect(formatTable({ columns: [], data: [] })).toBe('(0 rows)\n');
+});
+
+test('formatJson and formatCsv render rows', () => {
+  expect(JSON.parse(formatJson(RESULT))).toStrictEqual([
+    { name: 'Alice', age: 30, tags: ['a', 'b'] },
+    { name: 'Bob "B", Jr.', age: null, tags: [] },
+  ]);
+  expect(formatCsv(RESULT)).toBe('name,age,tags\nAlice,30,"[""a"",""b""]"\n"Bob ""B"", Jr.",,[]\n');
+});
+
+test('parseFileSpec splits an optional prefix', () => {
+  expect(parseFileSpec('people.csv')).toStrictEqual({ file: 'people.csv' });
+  expect(parseFileSpec('Person:Admin=data/people.csv')).toStrictEqual({ prefix: 'Person:Admin', file: 'data/people.csv' });
+});
+
+test('ReplSession buffers multiline statements and handles commands', () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    const session = new ReplSession(graph);
+    expect(session.prompt).toBe('graphqlite> ');
+
+    expect(session.input('MATCH (n)')).toBe('');
+    expect(session.prompt).toBe('      ...> ');
+    expect(session.input(':not-a-command-here')).toBe('');
+    expect(session.input(':clear')).toBe('');
+    expect(session.prompt).toBe('graphqlite> ');
+
+    expect(session.input(':params {"name": "Alice"}')).toBe('');
+    expect(session.input(':param limit 10')).toBe('');
+    expect(JSON.parse(session.input(':params'))).toStrictEqual({ name: 'Alice', limit: 10 });
+    expect(session.input(':param name')).toBe('');
+    expect(JSON.parse(session.input(':params'))).toStrictEqual({ limit: 10 });
+    expect(session.input(':params [1]')).toContain('Parameters must be a JSON object');
+
+    expect(session.input(':format yaml')).toContain('Unknown format: yaml');
+    expect(session.input(':format csv')).toBe('');
+    expect(session.input(':bogus')).toContain('Unknown command');
+    expect(session.input(':help')).toContain(':params');
+
+    // Without the extension the query fails, and the error is printed
+    expect(session.input('RETURN 1;')).toContain('GraphQLiteError');
+
+    session.input(':quit');
+    expect(session.done).toBe(true);
+  } finally {
+    graph.close();
+  }
+});
+
+test('runCli prints usage and rejects bad command lines', async () => {
+  const help = await cli('--help');
+  expect(help.code).toBe(0);
+  expect(help.stdout).toContain('Usage: graphqlite');
+
+  for (const argv of [['bogus', 'x.db'], ['query'], ['query', ':memory:', '--nope'], ['algo', 'sort', ':memory:']]) {
+    const result = await cli(...argv);
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain("Run 'graphqlite --help' for usage.");
+  }
+
+  const missing = await cli('stats', path.join(tempDir(), 'missing.db'));
+  expect(missing.code).toBe(1);
+  expect(missing.stderr).toContain('Database not found');
+});
+
+test('graphqlite query, import, export and stats work end to end', async () => {
+  const dir = tempDir();
+  const db = path.join(dir, 'graph.db');
+  const people = path.join(dir, 'people.csv');
+  const knows = path.join(dir, 'knows.csv');
+  fs.writeFileSync(people, 'id:ID,name,age:int\nalice,Alice,30\nbob,Bob,25\n');
+  fs.writeFileSync(knows, ':START_ID,:END_ID\nalice,bob\n');
+
+  const imported = await cli('import', db, '--nodes', `Person=${people}`, '--edges', `KNOWS=${knows}`, '--extension', EXTENSION_PATH);
+  expect(imported.stderr).toBe('');
+  expect(imported.stdout).toBe('Imported 2 nodes and 1 edges\n');
+
+  const query = await cli(
+    'query', db, 'MATCH (n:Person) WHERE n.age > $min RETURN n.name AS name ORDER BY name',
+    '--params', '{"min": 20}', '--format', 'csv', '--extension', EXTENSION_PATH
+  );
+  expect(query.stdout).toBe('name\nAlice\nBob\n');
+
+  const stats = await cli('stats', db, '--format', 'json', '--extension', EXTENSION_PATH);
+  expect(JSON.parse(stats.stdout)).toStrictEqual([{ nodes: 2, edges: 1 }]);
+
+  const dump = path.join(dir, 'graph.cypher');
+  expect((await cli('export', db, dump, '--extension', EXTENSION_PATH)).code).toBe(0);
+  expect(fs.readFileSync(dump, 'utf8')).toContain("CREATE (n:Person {age: 30, id: 'alice', name: 'Alice'});");
+
+  const copy = path.join(dir, 'copy.db');
+  expect((await cli('import', copy, dump, '--extension', EXTENSION_PATH)).stdout).toBe('Ran 3 statements\n');
+  const exported = await cli('export', copy, '--format', 'cypher', '--extension', EXTENSION_PATH);
+  expect(exported.stdout).toBe(fs.readFileSync(dump, 'utf8'));
+});
@@ -0,0 +1,203 @@
+/**
+ * CSV bulk import tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import type { CsvRowError } from '../src/types';
+import { CsvParser, parseCsvHeader, coerceCsvValue, readCsvFile } from '../src/csv';
+import type { CsvRecord } from '../src/csv';
+import type { InterchangeRecord } from '../src/interchange';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+const PEOPLE = [
+  'personId:ID,name,age:int,score:float,active:boolean,tags:string[],:LABEL',
+  'alice,"Smith, Alice",30,1.5,true,a;b,Person;Admin',
+  'bob,Bob,,2,false,,Person',
+  'carol,"Carol ""CJ""\nJones",41,,TRUE,"",Person',
+].join('\r\n');
+
+const KNOWS = [
+  ':START_ID,:END_ID,since:int,:TYPE',
+  'alice,bob,2020,',
+  'bob,carol,2021,LIKES',
+].join('\n');
+
+function parseChunks(text: string, size: number): CsvRecord[] {
+  const parser = new CsvParser();
+  const records: CsvRecord[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    records.push(...parser.write(text.slice(i, i + size)));
+  }
+  records.push(...parser.end());
+  return records;
+}
+
+async function readAll(records: AsyncIterable<InterchangeRecord>): Promise<InterchangeRecord[]> {
+  return Array.fromAsync(records);
+}
+
+test('CsvParser handles quotes, line breaks and CRLF across chunk boundaries', () => {
+  const text = '\uFEFFa,b\r\n"x, ""y""","multi\nline"\n\n1,\n"",2';
+  for (const size of [1, 3, text.length]) {
+    const records = parseChunks(text, size);
+    expect(records.map((record) => record.line)).toStrictEqual([1, 2, 5, 6]);
+    expect(records.map((record) => record.fields.map((field) => field.value))).toStrictEqual([
+      ['a', 'b'],
+      ['x, "y"', 'multi\nline'],
+      ['1', ''],
+      ['', '2'],
+    ]);
+    expect(records[3]?.fields[0]?.quoted).toBe(true);
+    expect(records[2]?.fields[1]?.quoted).toBe(false);
+  }
+});
+
+test('CsvParser reports unterminated quotes', () => {
+  const parser = new CsvParser();
+  [...parser.write('a\n"b,c\n')];
+  expect(() => [...parser.end()]).toThrow('line 2');
+});
+
+test('parseCsvHeader maps neo4j-admin columns', () => {
+  expect(parseCsvHeader(['userId:ID(User)', ':LABEL', 'name', 'age:int', 'tags:string[]', 'skip:IGNORE', 'data:json'])).toStrictEqual([
+    { role: 'id' },
+    { role: 'labels' },
+    { role: 'property', name: 'name', kind: 'string' },
+    { role: 'property', name: 'age', kind: 'long' },
+    { role: 'property', name: 'tags', kind: 'string[]' },
+    { role: 'ignore' },
+    { role: 'property', name: 'data', kind: 'json' },
+  ]);
+  expect(parseCsvHeader([':START_ID', ':END_ID', ':TYPE'])).toStrictEqual([
+    { role: 'start' },
+    { role: 'end' },
+    { role: 'type' },
+  ]);
+
+  for (const field of ['age:date', ':int', 'x:json[]']) {
+    expect(() => parseCsvHeader([field])).toThrow(GraphQLiteError);
+  }
+});
+
+test('coerceCsvValue converts typed columns', () => {
+  expect(coerceCsvValue('42', 'long', ';')).toBe(42);
+  expect(coerceCsvValue('-1.5e2', 'double', ';')).toBe(-150);
+  expect(coerceCsvValue('True', 'boolean', ';')).toBe(true);
+  expect(coerceCsvValue('1;2;3', 'long[]', ';')).toStrictEqual([1, 2, 3]);
+  expect(coerceCsvValue('{"a":[1]}', 'json', ';')).toStrictEqual({ a: [1] });
+  expect(coerceCsvValue('', 'string[]', ';')).toStrictEqual([]);
+
+  expect(() => coerceCsvValue('4.2', 'long', ';')).toThrow('expected an integer');
+  expect(() => coerceCsvValue('abc', 'double', ';')).toThrow('expected a number');
+  expect(() => coerceCsvValue('yes', 'boolean', ';')).toThrow('expected true or false');
+});
+
+test('readCsvFile maps rows to nodes and edges', async () => {
+  const options = { delimiter: ',', arrayDelimiter: ';', onError: (error: CsvRowError) => { throw new Error(error.message); } };
+
+  const nodes = await readAll(readCsvFile('node', { source: PEOPLE, labels: ['Imported'] }, 'people.csv', options));
+  expect(nodes).toStrictEqual([
+    {
+      kind: 'node',
+      id: 'alice',
+      labels: ['Imported', 'Person', 'Admin'],
+      properties: { name: 'Smith, Alice', age: 30, score: 1.5, active: true, tags: ['a', 'b'] },
+    },
+    { kind: 'node', id: 'bob', labels: ['Imported', 'Person'], properties: { name: 'Bob', score: 2, active: false } },
+    {
+      kind: 'node',
+      id: 'carol',
+      labels: ['Imported', 'Person'],
+      properties: { name: 'Carol "CJ"\nJones', age: 41, active: true, tags: [] },
+    },
+  ]);
+
+  const edges = await readAll(readCsvFile('edge', { source: [KNOWS], type: 'KNOWS' }, 'knows.csv', options));
+  expect(edges).toStrictEqual([
+    { kind: 'edge', source: 'alice', target: 'bob', type: 'KNOWS', properties: { since: 2020 } },
+    { kind: 'edge', source: 'bob', target: 'carol', type: 'LIKES', properties: { since: 2021 } },
+  ]);
+});
+
+test('readCsvFile reports bad rows with line numbers', async () => {
+  const errors: CsvRowError[] = [];
+  const options = { delimiter: ';', arrayDelimiter: '|', onError: (error: CsvRowError) => { errors.push(error); } };
+  const text = 'a;"b\nc";1\nb;x;two\n;y;3\nd;z;4;extra\ne;w;5\n';
+
+  const nodes = await readAll(readCsvFile('node', { source: text, header: ':ID;name;n:int' }, 'rows.csv', options));
+  expect(nodes.map((node) => node.kind === 'node' && node.id)).toStrictEqual(['a', 'e']);
+  expect(errors).toStrictEqual([
+    { file: 'rows.csv', line: 3, message: 'column n: expected an integer, got "two"' },
+    { file: 'rows.csv', line: 4, message: 'missing :ID value' },
+    { file: 'rows.csv', line: 5, message: 'expected 3 fields, got 4' },
+  ]);
+});
+
+test('importCsv rejects an invalid header before writing anything', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    await expect(graph.importCsv({ nodes: [{ source: 'id:ID,born:date\n1,2020-01-01' }] })).rejects.toThrow(
+      'Invalid CSV input: nodes[0] line 1: Invalid CSV header field: born:date'
+    );
+    await expect(graph.importCsv({ arrayDelimiter: ',' })).rejects.toThrow('arrayDelimiter');
+  } finally {
+    graph.close();
+  }
+});
+
+test('graph.importCsv() loads node and edge files', async () => {
+  const graph = createTestGraph();
+
+  try {
+    const result = await graph.importCsv({
+      nodes: [{ source: PEOPLE }],
+      edges: [{ source: KNOWS, type: 'KNOWS' }],
+      chunkSize: 2,
+    });
+    expect(result).toStrictEqual({ nodes: 3, edges: 2, errors: [] });
+
+    expect(graph.cypher('MATCH (n:Person) RETURN n.id AS id, n.age AS age, n.tags AS tags ORDER BY id')).toStrictEqual([
+      { id: 'alice', age: 30, tags: ['a', 'b'] },
+      { id: 'bob', age: null, tags: null },
+      { id: 'carol', age: 41, tags: [] },
+    ]);
+    expect(graph.cypher('MATCH (:Admin {id: "alice"})-[r:KNOWS]->(b) RETURN r.since AS since, b.id AS id')).toStrictEqual([
+      { since: 2020, id: 'bob' },
+    ]);
+    expect(graph.cypher('MATCH ()-[r:LIKES]->() RETURN count(r) AS count')).toStrictEqual([{ count: 1 }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('graph.importCsv() rolls back on an invalid row unless told to skip it', async () => {
+  const graph = createTestGraph();
+  const source = ':ID,age:int\na,1\nb,old\nc,3\n';
+
+  try {
+    await expect(graph.importCsv({ nodes: [{ source, name: 'ages.csv' }] })).rejects.toThrow(
+      'Invalid CSV input: ages.csv line 3: column age: expected an integer, got "old"'
+    );
+    expect(graph.cypher('MATCH (n) RETURN count(n) AS count')).toStrictEqual([{ count: 0 }]);
+
+    const result = await graph.importCsv({ nodes: [{ source, name: 'ages.csv' }], skipInvalidRows: true });
+    expect(result).toStrictEqual({
+      nodes: 2,
+      edges: 0,
+      errors: [{ file: 'ages.csv', line: 3, message: 'column age: expected an integer, got "old"' }],
+    });
+  } finally {
+    graph.close();
+  }
+});
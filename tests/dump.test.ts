@@ -0,0 +1,116 @@
+/**
+ * Cypher dump and restore tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import { CypherScriptSplitter } from '../src/dump';
+import { toCypherLiteral } from '../src/utils';
+import type { CypherStatement } from '../src/dump';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+function split(text: string, size: number): CypherStatement[] {
+  const splitter = new CypherScriptSplitter();
+  const statements: CypherStatement[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    statements.push(...splitter.write(text.slice(i, i + size)));
+  }
+  statements.push(...splitter.end());
+  return statements;
+}
+
+test('toCypherLiteral escapes strings and sorts map keys', () => {
+  expect(toCypherLiteral("it's a \\ path\nnext\ttab")).toBe("'it\\'s a \\\\ path\\nnext\\ttab'");
+  expect(toCypherLiteral([1, 2.5, true, null, 'x'])).toBe("[1, 2.5, true, null, 'x']");
+  expect(toCypherLiteral({ b: 1, a: { 'odd key': [] }, c: null })).toBe('{a: {`odd key`: []}, b: 1}');
+  expect(() => toCypherLiteral(Number.NaN)).toThrow(GraphQLiteError);
+});
+
+test('CypherScriptSplitter splits on semicolons outside strings and comments', () => {
+  const script = [
+    '// header; not a statement',
+    "CREATE (n {name: 'a;b', quote: 'it\\'s'});",
+    '',
+    '/* block ; comment */ CREATE (n:`we;ird` {path: "x/y"})',
+    ';;  ',
+    'MATCH (n) RETURN n / 2 // trailing',
+  ].join('\n');
+
+  for (const size of [1, 4, script.length]) {
+    expect(split(script, size)).toStrictEqual([
+      { text: "CREATE (n {name: 'a;b', quote: 'it\\'s'})", line: 2 },
+      { text: 'CREATE (n:`we;ird` {path: "x/y"})', line: 4 },
+      { text: 'MATCH (n) RETURN n / 2', line: 6 },
+    ]);
+  }
+});
+
+test('CypherScriptSplitter reports unterminated strings', () => {
+  expect(() => split("CREATE (n);\nCREATE (n {name: 'oops})", 5)).toThrow('Unterminated string literal in statement on line 2');
+});
+
+test('restoreCypher names the line of a failing statement', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    await expect(graph.restoreCypher('// empty script\n\nCREATE (n:Person {id: 1});')).rejects.toThrow(
+      'Statement on line 3 failed'
+    );
+  } finally {
+    graph.close();
+  }
+});
+
+test('dumpCypher() output is deterministic and restores to an identical graph', async () => {
+  const source = createTestGraph();
+  const target = createTestGraph();
+
+  try {
+    source.upsertNodes([
+      { id: 'bob', label: 'Person', properties: { name: "Bob O'Neil", score: 1.5 } },
+      { id: 'alice', labels: ['Person', 'Admin'], properties: { name: 'Alice', tags: ['x', 'y'], age: 30 } },
+    ]);
+    source.upsertEdge('bob', 'alice', {}, 'KNOWS');
+    source.upsertEdge('alice', 'bob', { since: 2020 }, 'KNOWS');
+
+    const dump = await source.dumpCypher();
+    expect(dump).toBe(
+      [
+        '// GraphQLite Cypher dump',
+        "CREATE (n:Person:Admin {age: 30, id: 'alice', name: 'Alice', tags: ['x', 'y']});",
+        "CREATE (n:Person {id: 'bob', name: 'Bob O\\'Neil', score: 1.5});",
+        "MATCH (a {id: 'alice'}), (b {id: 'bob'}) CREATE (a)-[r:KNOWS {since: 2020}]->(b);",
+        "MATCH (a {id: 'bob'}), (b {id: 'alice'}) CREATE (a)-[r:KNOWS]->(b);",
+        '',
+      ].join('\n')
+    );
+
+    expect(await target.restoreCypher(dump)).toStrictEqual({ statements: 4 });
+    expect(await target.dumpCypher()).toBe(dump);
+  } finally {
+    source.close();
+    target.close();
+  }
+});
+
+test('restoreCypher() keeps nothing when a statement fails', async () => {
+  const graph = createTestGraph();
+
+  try {
+    await expect(graph.restoreCypher("CREATE (n:Person {id: 'a'});\nCREATE (n:Person {id: 'b'\n;")).rejects.toThrow(
+      'Statement on line 2 failed'
+    );
+    expect(graph.cypher('MATCH (n) RETURN count(n) AS count')).toStrictEqual([{ count: 0 }]);
+  } finally {
+    graph.close();
+  }
+});
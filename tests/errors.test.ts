@@ -0,0 +1,134 @@
+/**
+ * Error taxonomy tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import { parseCypherResult, parseCypherError, toGraphQLiteError } from '../src/utils';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+function catchError(fn: () => unknown): GraphQLiteError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(GraphQLiteError);
+    return error as GraphQLiteError;
+  }
+  throw new Error('Expected function to throw');
+}
+
+test('parseCypherError classifies syntax errors and extracts the position', () => {
+  const error = parseCypherError(
+    'Error: syntax error, unexpected RETURN at line 1, column 10',
+    'MATCH (n RETURN n',
+    { name: 'Alice' }
+  );
+
+  expect(error.code).toBe('CYPHER_SYNTAX');
+  expect(error.message).toBe('syntax error, unexpected RETURN at line 1, column 10');
+  expect(error.line).toBe(1);
+  expect(error.column).toBe(10);
+  expect(error.query).toBe('MATCH (n RETURN n');
+  expect(error.params).toStrictEqual({ name: 'Alice' });
+});
+
+test('parseCypherError converts offsets into line and column', () => {
+  const error = parseCypherError('Error: Parse error at position 15', 'MATCH (n)\nRETRN n');
+  expect(error.code).toBe('CYPHER_SYNTAX');
+  expect(error.line).toBe(2);
+  expect(error.column).toBe(6);
+});
+
+test('parseCypherError classifies runtime, constraint and busy errors', () => {
+  expect(parseCypherError('Error: Unknown function foo').code).toBe('CYPHER_RUNTIME');
+  expect(parseCypherError('Error: UNIQUE constraint failed: nodes.id').code).toBe('CONSTRAINT_VIOLATION');
+  expect(parseCypherError('Error: database is locked').code).toBe('SQLITE_BUSY');
+});
+
+test('parseCypherResult throws GraphQLiteError for error results', () => {
+  const error = catchError(() => parseCypherResult('Error: syntax error at line 1', 'RETRN 1'));
+  expect(error.code).toBe('CYPHER_SYNTAX');
+  expect(error.query).toBe('RETRN 1');
+
+  const quoted = catchError(() => parseCypherResult(JSON.stringify('Error: Unknown variable x')));
+  expect(quoted.code).toBe('CYPHER_RUNTIME');
+
+  const invalid = catchError(() => parseCypherResult('not json'));
+  expect(invalid.code).toBe('INVALID_RESULT');
+});
+
+test('toGraphQLiteError maps SQLite result codes', () => {
+  const busy = Object.assign(new Error('database is locked'), { code: 'SQLITE_BUSY' });
+  expect(toGraphQLiteError(busy).code).toBe('SQLITE_BUSY');
+
+  const constraint = Object.assign(new Error('UNIQUE constraint failed'), { code: 'SQLITE_CONSTRAINT_UNIQUE' });
+  expect(toGraphQLiteError(constraint, { query: 'CREATE (n)' }).code).toBe('CONSTRAINT_VIOLATION');
+
+  const other = toGraphQLiteError(new Error('disk I/O error'));
+  expect(other.code).toBe('SQLITE_ERROR');
+  expect(other.cause).toBeInstanceOf(Error);
+
+  const existing = new GraphQLiteError('already wrapped', 'CYPHER_RUNTIME');
+  expect(toGraphQLiteError(existing)).toBe(existing);
+});
+
+test('code accepts the known codes and any other string', () => {
+  const known = new GraphQLiteError('busy', 'SQLITE_BUSY');
+  const custom = new GraphQLiteError('custom', 'APP_SPECIFIC');
+  const code: string | undefined = custom.code;
+
+  expect(known.code === 'SQLITE_BUSY').toBe(true);
+  expect(code).toBe('APP_SPECIFIC');
+  expect(custom.format()).toContain('[APP_SPECIFIC]');
+});
+
+test('format() points a caret at the error position', () => {
+  const error = new GraphQLiteError('syntax error', 'CYPHER_SYNTAX', {
+    query: 'MATCH (n)\nRETRN n',
+    params: { limit: 10 },
+    line: 2,
+    column: 1,
+  });
+
+  expect(error.format()).toBe([
+    'GraphQLiteError [CYPHER_SYNTAX]: syntax error',
+    '  RETRN n',
+    '  ^',
+    '  params: {"limit":10}',
+  ].join('\n'));
+});
+
+test('format() prints the whole query when no position is known', () => {
+  const error = new GraphQLiteError('Unknown function foo', 'CYPHER_RUNTIME', {
+    query: 'RETURN foo()',
+  });
+
+  expect(error.format()).toBe('GraphQLiteError [CYPHER_RUNTIME]: Unknown function foo\n  RETURN foo()');
+});
+
+test('missing extension file is reported as EXTENSION_NOT_FOUND', () => {
+  const error = catchError(() => new Graph(':memory:', { extensionPath: './does-not-exist.so' }));
+  expect(error.code).toBe('EXTENSION_NOT_FOUND');
+});
+
+test('invalid Cypher is reported as CYPHER_SYNTAX with the query attached', () => {
+  const graph = createTestGraph();
+
+  try {
+    const error = catchError(() => graph.cypher('MATCH (n RETURN n', { unused: 1 }));
+    expect(error.code).toBe('CYPHER_SYNTAX');
+    expect(error.query).toBe('MATCH (n RETURN n');
+    expect(error.params).toStrictEqual({ unused: 1 });
+  } finally {
+    graph.close();
+  }
+});
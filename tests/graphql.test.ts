@@ -0,0 +1,185 @@
+/**
+ * GraphQL schema generation and resolver tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import type { CypherValue, GraphSchema, PropertyKeyInfo, PropertyValueType } from '../src/types';
+import { graphqlSchema } from '../src/graphql';
+import type { GraphQLFieldNode, GraphQLResolveInfo, GraphQLSelectionNode, GraphQLValueNode } from '../src/graphql';
+import { stubGraph } from './helpers';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+function property(key: string, types: PropertyValueType[], itemTypes: PropertyValueType[] = []): PropertyKeyInfo {
+  return { key, types, itemTypes, nullRatio: 0 };
+}
+
+const SCHEMA: GraphSchema = {
+  nodes: 3,
+  edges: 2,
+  labels: [
+    {
+      label: 'Movie',
+      count: 1,
+      properties: [
+        property('rating', ['float', 'integer']),
+        { ...property('released', ['integer']), wideIntegers: true },
+        property('title', ['string']),
+      ],
+    },
+    {
+      label: 'Person',
+      count: 2,
+      properties: [
+        property('age', ['integer']),
+        property('first name', ['string']),
+        property('id', ['string']),
+        property('meta', ['map']),
+        property('name', ['string']),
+        property('tags', ['list'], ['string']),
+      ],
+    },
+  ],
+  relationshipTypes: [
+    { type: 'ACTED_IN', count: 1, pairs: [{ from: 'Person', to: 'Movie', count: 1 }], properties: [] },
+    { type: 'KNOWS', count: 1, pairs: [{ from: 'Person', to: 'Person', count: 1 }], properties: [] },
+  ],
+};
+
+/**
+ * Graph stand-in that records queries and answers with fixed rows
+ */
+function recordingGraph(rows: Array<{ value: CypherValue }>): ReturnType<typeof stubGraph> {
+  return stubGraph(() => rows);
+}
+
+function field(
+  name: string,
+  selections?: GraphQLSelectionNode[],
+  options: { alias?: string; args?: Record<string, GraphQLValueNode> } = {}
+): GraphQLFieldNode {
+  return {
+    kind: 'Field',
+    name: { value: name },
+    alias: options.alias ? { value: options.alias } : undefined,
+    arguments: Object.entries(options.args ?? {}).map(([key, value]) => ({ name: { value: key }, value })),
+    selectionSet: selections ? { selections } : undefined,
+  };
+}
+
+function info(root: GraphQLFieldNode, extra: Partial<GraphQLResolveInfo> = {}): GraphQLResolveInfo {
+  return { fieldNodes: [root], fragments: {}, variableValues: {}, path: { key: root.alias?.value ?? root.name.value }, ...extra };
+}
+
+test('graphqlSchema generates types, fields and root fields', () => {
+  const { typeDefs, resolvers } = graphqlSchema(recordingGraph([]).graph, SCHEMA);
+
+  expect(typeDefs).toContain('type Person {\n  "Labels of the node"\n  _labels: [String!]!\n  age: Int\n');
+  expect(typeDefs).toContain('  "Property \\"first name\\""\n  first_name: String\n  id: ID\n');
+  expect(typeDefs).toContain('  "JSON-encoded value of property \\"meta\\""\n  meta: String\n');
+  expect(typeDefs).toContain('  tags: [String]\n');
+  expect(typeDefs).toContain('  rating: Float\n');
+  expect(typeDefs).toContain('  released: Float\n');
+  expect(typeDefs).toContain(
+    '  actedIn(rating: Float, released: Float, title: String, first: Int, offset: Int, orderBy: [MovieOrderBy!]): [Movie!]!\n'
+  );
+  expect(typeDefs).toContain('  incomingActedIn(');
+  expect(typeDefs).toContain('  knows(');
+  expect(typeDefs).toContain('  incomingKnows(');
+  expect(typeDefs).toContain('enum PersonOrderBy {\n  age_ASC\n  age_DESC\n');
+  expect(typeDefs).toContain('type Query {\n  movies(');
+  expect(typeDefs).toContain('  person(id: ID!): Person\n');
+  expect(typeDefs).toContain('  persons(age: Int, first_name: String, id: ID, name: String, first: Int, offset: Int');
+
+  expect(Object.keys(resolvers).sort()).toStrictEqual(['Movie', 'Person', 'Query']);
+  expect(Object.keys(resolvers.Query ?? {})).toStrictEqual(['movies', 'person', 'persons']);
+});
+
+test('root resolvers compile the whole selection into one query', () => {
+  const { graph, queries } = recordingGraph([{ value: { name: 'Alice', friends: [] } }]);
+  const { resolvers } = graphqlSchema(graph, SCHEMA);
+
+  const root = field('persons', [
+    field('name'),
+    field('knows', [field('name'), field('actedIn', [field('title')])], {
+      alias: 'friends',
+      args: { first: { kind: 'Variable', name: { value: 'count' } }, orderBy: { kind: 'EnumValue', value: 'name_DESC' } },
+    }),
+    { kind: 'FragmentSpread', name: { value: 'Films' } },
+  ]);
+  const fragments = { Films: { selectionSet: { selections: [field('actedIn', [field('title')])] } } };
+
+  const result = resolvers.Query?.persons?.(null, { name: 'Alice', first: 5 }, {}, info(root, { fragments, variableValues: { count: 2 } }));
+  expect(result).toStrictEqual([{ name: 'Alice', friends: [] }]);
+  expect(queries).toHaveLength(1);
+  expect(queries[0]?.query).toBe(
+    'MATCH (n0:Person) WHERE n0.name = $p0 WITH n0 ORDER BY n0.id ASC LIMIT 5 ' +
+      'OPTIONAL MATCH (n0)-[:KNOWS]->(n1:Person) ' +
+      'OPTIONAL MATCH (n1)-[:ACTED_IN]->(n2:Movie) ' +
+      'WITH n0, n1, collect(CASE WHEN n2 IS NULL THEN NULL ELSE {title: n2.title} END) AS n2_list ' +
+      'WITH n0, n1, n2_list ORDER BY n1.name DESC ' +
+      'WITH n0, collect(CASE WHEN n1 IS NULL THEN NULL ELSE {name: n1.name, actedIn: n2_list} END) AS n1_list ' +
+      'OPTIONAL MATCH (n0)-[:ACTED_IN]->(n3:Movie) ' +
+      'WITH n0, n1_list, collect(CASE WHEN n3 IS NULL THEN NULL ELSE {title: n3.title} END) AS n3_list ' +
+      'RETURN {name: n0.name, friends: n1_list[0..2], actedIn: n3_list} AS value ORDER BY n0.id ASC'
+  );
+  expect(queries[0]?.params).toStrictEqual({ p0: 'Alice' });
+});
+
+test('lookups return one node or null and field resolvers read by response key', () => {
+  const { graph, queries } = recordingGraph([]);
+  const { resolvers } = graphqlSchema(graph, SCHEMA);
+
+  const root = field('person', [field('_labels'), field('meta'), field('incomingKnows', [field('name')])]);
+  expect(resolvers.Query?.person?.(null, { id: 'alice' }, {}, info(root))).toBeNull();
+  expect(queries[0]?.query).toContain('MATCH (n0:Person) WHERE n0.id = $p0 WITH n0 LIMIT 1');
+  expect(queries[0]?.query).toContain('{_labels: labels(n0), meta: n0.meta, incomingKnows: n1_list}');
+
+  const person = { meta: { likes: ['tea'] }, best: [{ name: 'Bob' }] };
+  expect(resolvers.Person?.meta?.(person, {}, {}, info(field('meta')))).toBe('{"likes":["tea"]}');
+  expect(resolvers.Person?.knows?.(person, {}, {}, info(field('knows', [], { alias: 'best' })))).toStrictEqual([{ name: 'Bob' }]);
+});
+
+test('schema generation and compilation reject bad input', () => {
+  const { graph } = recordingGraph([]);
+  const empty: GraphSchema = { nodes: 0, edges: 0, labels: [], relationshipTypes: [] };
+  expect(() => graphqlSchema(graph, empty)).toThrow(GraphQLiteError);
+
+  const { resolvers } = graphqlSchema(graph, SCHEMA);
+  const root = field('persons', [field('name')]);
+  expect(() => resolvers.Query?.persons?.(null, { orderBy: ['meta_ASC'] }, {}, info(root))).toThrow('Invalid orderBy value');
+  expect(() => resolvers.Query?.persons?.(null, { first: -1 }, {}, info(root))).toThrow('first must be a non-negative integer');
+});
+
+test('graphqlSchema resolves queries against a graph', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { name: 'Alice', age: 30 }, 'Person');
+    graph.upsertNode('bob', { name: 'Bob', age: 25 }, 'Person');
+    graph.upsertNode('matrix', { title: 'The Matrix' }, 'Movie');
+    graph.upsertEdge('alice', 'bob', {}, 'KNOWS');
+    graph.upsertEdge('alice', 'matrix', {}, 'ACTED_IN');
+
+    const { typeDefs, resolvers } = graphqlSchema(graph);
+    expect(typeDefs).toContain('type Person {');
+    expect(typeDefs).toContain('  knows(');
+
+    const root = field('persons', [field('name'), field('knows', [field('name')]), field('actedIn', [field('title')])]);
+    expect(resolvers.Query?.persons?.(null, {}, {}, info(root))).toStrictEqual([
+      { name: 'Alice', knows: [{ name: 'Bob' }], actedIn: [{ title: 'The Matrix' }] },
+      { name: 'Bob', knows: [], actedIn: [] },
+    ]);
+  } finally {
+    graph.close();
+  }
+});
@@ -0,0 +1,51 @@
+/**
+ * Shared helpers for GraphQLite tests
+ */
+
+import type { Graph } from '../src/graph';
+import type { CypherRow, CypherValue } from '../src/types';
+
+/**
+ * A query run against a stub graph
+ */
+export interface RecordedQuery {
+  query: string;
+  params?: Record<string, CypherValue>;
+}
+
+/**
+ * The part of Graph that stub graphs implement
+ */
+type StubbedGraph = Pick<Graph, 'cypher' | 'cypherIterator' | 'transaction'>;
+
+/**
+ * Graph stand-in for code that only runs Cypher, without the extension
+ *
+ * `cypher()` and `cypherIterator()` answer every query with the rows returned
+ * by `answer`, recording the query and its parameters, and `transaction()`
+ * runs its callback directly. Calling any other Graph method throws.
+ */
+export function stubGraph(
+  answer: (query: string, params?: Record<string, CypherValue>) => CypherRow[] = () => []
+): { graph: Graph; queries: RecordedQuery[]; transactions: () => number } {
+  const queries: RecordedQuery[] = [];
+  let transactions = 0;
+
+  const run = (query: string, params?: Record<string, CypherValue>): CypherRow[] => {
+    queries.push({ query, params });
+    return answer(query, params);
+  };
+  const stub: StubbedGraph = {
+    cypher: <T extends CypherRow = CypherRow>(query: string, params?: Record<string, CypherValue>) => run(query, params) as T[],
+    *cypherIterator<T extends CypherRow = CypherRow>(query: string, options?: { params?: Record<string, CypherValue> }) {
+      yield* run(query, options?.params) as T[];
+    },
+    transaction: <T>(fn: (target: Graph) => T): T => {
+      transactions++;
+      return fn(graph);
+    },
+  };
+  // Graph has private fields, so a structural stand-in needs one cast
+  const graph = stub as Graph;
+  return { graph, queries, transactions: () => transactions };
+}
@@ -0,0 +1,223 @@
+/**
+ * Index and unique constraint tests for GraphQLite
+ */
+
+import { test, expect, spyOn } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import { createIndex, listIndexes, dropIndex, findIndexedValues } from '../src/indexes';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+const VALUE_TYPES = { int: 'INTEGER', text: 'TEXT', real: 'REAL', bool: 'INTEGER' };
+
+/**
+ * Graph without the extension, holding the extension's property tables
+ */
+function createStorageGraph(): Graph {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  const db = graph.getDatabase();
+  db.run('CREATE TABLE nodes (id INTEGER PRIMARY KEY AUTOINCREMENT)');
+  db.run('CREATE TABLE node_labels (node_id INTEGER NOT NULL, label TEXT NOT NULL, PRIMARY KEY (node_id, label))');
+  db.run('CREATE TABLE property_keys (id INTEGER PRIMARY KEY AUTOINCREMENT, key TEXT UNIQUE NOT NULL)');
+  for (const [suffix, type] of Object.entries(VALUE_TYPES)) {
+    db.run(
+      `CREATE TABLE node_props_${suffix} (node_id INTEGER NOT NULL, key_id INTEGER NOT NULL, value ${type} NOT NULL, ` +
+        'PRIMARY KEY (node_id, key_id))'
+    );
+  }
+  return graph;
+}
+
+/**
+ * Insert a node the way the extension stores it, properties before labels
+ */
+function addNode(db: Database, labels: string[], properties: Record<string, string | number>): number {
+  const { id } = db.query<{ id: number }, []>('INSERT INTO nodes DEFAULT VALUES RETURNING id').get() as { id: number };
+  for (const [key, value] of Object.entries(properties)) {
+    db.query('INSERT OR IGNORE INTO property_keys (key) VALUES (?)').run(key);
+    const table = typeof value === 'string' ? 'node_props_text' : 'node_props_int';
+    db.query(`INSERT INTO ${table} (node_id, key_id, value) SELECT ?, id, ? FROM property_keys WHERE key = ?`).run(id, value, key);
+  }
+  for (const label of labels) {
+    db.query('INSERT INTO node_labels (node_id, label) VALUES (?, ?)').run(id, label);
+  }
+  return id;
+}
+
+function sqliteIndexes(db: Database): string[] {
+  return db
+    .query<{ name: string }, []>("SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE '_graphqlite_idx_%' ORDER BY name")
+    .all()
+    .map((row) => row.name);
+}
+
+test('createIndex, listIndexes and dropIndex manage shared SQLite indexes', () => {
+  const graph = createStorageGraph();
+  const db = graph.getDatabase();
+
+  try {
+    expect(listIndexes(graph)).toStrictEqual([]);
+    expect(dropIndex(graph, 'index_Person_id')).toBe(false);
+
+    const person = createIndex(graph, 'Person', 'id', false);
+    expect(person).toStrictEqual({ name: 'index_Person_id', label: 'Person', property: 'id', unique: false });
+    expect(createIndex(graph, 'Person', 'id', false)).toStrictEqual(person);
+    createIndex(graph, 'Movie', 'id', false, { name: 'movie_ids' });
+    expect(sqliteIndexes(db)).toStrictEqual(['_graphqlite_idx_1_bool', '_graphqlite_idx_1_int', '_graphqlite_idx_1_real', '_graphqlite_idx_1_text']);
+    expect(listIndexes(graph).map((index) => index.name)).toStrictEqual(['index_Person_id', 'movie_ids']);
+
+    expect(() => createIndex(graph, 'Person', 'name', false, { name: 'movie_ids' })).toThrow('An index named movie_ids already exists');
+    expect(() => createIndex(graph, 'Person', 'id', true)).toThrow('Person.id already has an index, index_Person_id');
+    expect(() => createIndex(graph, 'Person', '', false)).toThrow(GraphQLiteError);
+
+    expect(dropIndex(graph, 'index_Person_id')).toBe(true);
+    expect(sqliteIndexes(db)).toHaveLength(4);
+    expect(dropIndex(graph, 'movie_ids')).toBe(true);
+    expect(sqliteIndexes(db)).toStrictEqual([]);
+    expect(listIndexes(graph)).toStrictEqual([]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('createIndex needs the extension storage tables', () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    expect(() => createIndex(graph, 'Person', 'id', false)).toThrow('Graph storage table node_labels, property_keys');
+    expect(listIndexes(graph)).toStrictEqual([]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('unique constraints reject duplicate values among nodes with the label', () => {
+  const graph = createStorageGraph();
+  const db = graph.getDatabase();
+
+  try {
+    addNode(db, ['Person'], { email: 'a@example.com' });
+    addNode(db, ['Person'], { email: 'a@example.com' });
+    let error: unknown;
+    try {
+      createIndex(graph, 'Person', 'email', true);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(GraphQLiteError);
+    expect((error as GraphQLiteError).code).toBe('CONSTRAINT_VIOLATION');
+    expect(listIndexes(graph)).toStrictEqual([]);
+
+    db.run('DELETE FROM node_props_text');
+    expect(createIndex(graph, 'Person', 'email', true).unique).toBe(true);
+
+    addNode(db, ['Person'], { email: 'b@example.com' });
+    addNode(db, ['Movie'], { email: 'b@example.com' });
+    const violation = 'Unique constraint unique_Person_email violated';
+    expect(() => addNode(db, ['Person', 'Actor'], { email: 'b@example.com' })).toThrow(violation);
+
+    const other = addNode(db, [], { email: 'c@example.com' });
+    addNode(db, ['Person'], { email: 'd@example.com' });
+    expect(() => db.run("UPDATE node_props_text SET value = 'b@example.com' WHERE value = 'd@example.com'")).toThrow(violation);
+    addNode(db, ['Person'], { email: 'c@example.com' });
+    expect(() => db.query("INSERT INTO node_labels (node_id, label) VALUES (?, 'Person')").run(other)).toThrow(violation);
+
+    expect(dropIndex(graph, 'unique_Person_email')).toBe(true);
+    expect(() => db.query("INSERT INTO node_labels (node_id, label) VALUES (?, 'Person')").run(other)).not.toThrow();
+  } finally {
+    graph.close();
+  }
+});
+
+test('findIndexedValues answers from the partial index', () => {
+  const graph = createStorageGraph();
+  const db = graph.getDatabase();
+
+  try {
+    addNode(db, ['Person'], { id: 'alice' });
+    addNode(db, ['Movie'], { id: 'matrix' });
+    addNode(db, ['Person'], { id: 7 });
+    expect(findIndexedValues(graph, 'id', ['alice'])).toBeNull();
+
+    createIndex(graph, 'Person', 'id', false);
+    expect(findIndexedValues(graph, 'id', ['alice', 'matrix', 'bob'])).toStrictEqual(new Set(['alice', 'matrix']));
+    expect(findIndexedValues(graph, 'name', ['alice'])).toBeNull();
+    // Ids are matched by type, like Cypher's equality
+    expect(findIndexedValues(graph, 'id', [7, '7', 8, 7.5])).toStrictEqual(new Set([7]));
+
+    const plan = db
+      .query<{ detail: string }, [string]>(
+        "EXPLAIN QUERY PLAN SELECT DISTINCT value FROM node_props_text WHERE key_id = 1 AND value IN (SELECT value FROM json_each(?))"
+      )
+      .all('[]')
+      .map((row) => row.detail)
+      .join('\n');
+    expect(plan).toContain('_graphqlite_idx_1_text');
+  } finally {
+    graph.close();
+  }
+});
+
+test('an index on id takes upsert lookups off Cypher', () => {
+  const graph = createTestGraph();
+  const people = Array.from({ length: 100 }, (_, i) => ({ id: `p${i}`, label: 'Person' }));
+
+  try {
+    graph.upsertNodes(people);
+    const cypher = spyOn(graph, 'cypher');
+    const lookups = () => cypher.mock.calls.filter(([query]) => query.includes('n.id IN $ids')).length;
+
+    // Without an index, each chunk looks up its ids with a Cypher scan
+    graph.upsertNodes(people, { chunkSize: 20 });
+    expect(lookups()).toBe(5);
+
+    // With one, findIndexedValues reads them from the partial index instead
+    graph.createIndex('Person', 'id');
+    cypher.mockClear();
+    expect(graph.upsertNodes(people, { chunkSize: 20 })).toStrictEqual({ created: 0, updated: 100 });
+    expect(lookups()).toBe(0);
+  } finally {
+    graph.close();
+  }
+});
+
+test('indexes and unique constraints apply to Cypher writes and upserts', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.createIndex('Person', 'id');
+    graph.createUniqueConstraint('Person', 'email');
+    expect(graph.listIndexes().map((index) => index.name)).toStrictEqual(['index_Person_id', 'unique_Person_email']);
+
+    graph.upsertNode('alice', { email: 'alice@example.com' }, 'Person');
+    graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+    expect(graph.upsertNodes([{ id: 'alice', properties: { age: 30 } }, { id: 'bob', label: 'Person' }])).toStrictEqual({
+      created: 1,
+      updated: 1,
+    });
+    expect(graph.cypher('MATCH (n:Person) RETURN count(n) AS count')).toStrictEqual([{ count: 2 }]);
+
+    let error: unknown;
+    try {
+      graph.cypher("CREATE (:Person {id: 'carol', email: 'alice@example.com'})");
+    } catch (caught) {
+      error = caught;
+    }
+    expect((error as GraphQLiteError).code).toBe('CONSTRAINT_VIOLATION');
+    expect(graph.cypher('MATCH (n:Person) RETURN count(n) AS count')).toStrictEqual([{ count: 2 }]);
+
+    expect(graph.dropIndex('unique_Person_email')).toBe(true);
+    graph.cypher("CREATE (:Person {id: 'carol', email: 'alice@example.com'})");
+  } finally {
+    graph.close();
+  }
+});
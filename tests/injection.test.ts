@@ -0,0 +1,121 @@
+/**
+ * Identifier quoting and hostile input tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import { quoteIdentifier } from '../src/utils';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+test('quoteIdentifier leaves plain identifiers unchanged', () => {
+  expect(quoteIdentifier('Person')).toBe('Person');
+  expect(quoteIdentifier('_private_1')).toBe('_private_1');
+});
+
+test('quoteIdentifier backtick-quotes other names', () => {
+  expect(quoteIdentifier('first name')).toBe('`first name`');
+  expect(quoteIdentifier('1st')).toBe('`1st`');
+  expect(quoteIdentifier('a`b')).toBe('`a``b`');
+  expect(quoteIdentifier('Person) DETACH DELETE (m')).toBe('`Person) DETACH DELETE (m`');
+});
+
+test('quoteIdentifier rejects empty names and control characters', () => {
+  expect(() => quoteIdentifier('')).toThrow(GraphQLiteError);
+  expect(() => quoteIdentifier('a\nb')).toThrow(GraphQLiteError);
+  expect(() => quoteIdentifier('a\u0000b', 'label')).toThrow('Invalid label');
+
+  try {
+    quoteIdentifier('');
+  } catch (error) {
+    expect((error as GraphQLiteError).code).toBe('INVALID_IDENTIFIER');
+  }
+});
+
+test('upsertNode supports property keys with spaces', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { 'first name': 'Alice' }, 'Person');
+    graph.upsertNode('alice', { 'first name': 'Alicia' }, 'Person');
+
+    const results = graph.cypher("MATCH (n {id: 'alice'}) RETURN n.`first name` as firstName");
+    expect(results).toStrictEqual([{ firstName: 'Alicia' }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNode stores hostile ids and values verbatim', () => {
+  const graph = createTestGraph();
+
+  try {
+    const hostileId = "x'}) DETACH DELETE n //";
+    const hostileValue = "\\'; MATCH (m) DETACH DELETE m; //";
+
+    graph.upsertNode('victim', { name: 'Victim' }, 'Person');
+    graph.upsertNode(hostileId, { name: hostileValue }, 'Person');
+    graph.upsertNode(hostileId, { note: 'updated' }, 'Person');
+
+    const results = graph.cypher('MATCH (n:Person) RETURN n.id as id, n.name as name ORDER BY n.id');
+    expect(results).toStrictEqual([
+      { id: 'victim', name: 'Victim' },
+      { id: hostileId, name: hostileValue },
+    ]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNode quotes hostile labels instead of executing them', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('victim', { name: 'Victim' }, 'Person');
+    graph.upsertNode('attacker', {}, 'Person) MATCH (m) DETACH DELETE (m');
+
+    const results = graph.cypher("MATCH (n {id: 'victim'}) RETURN n.name as name");
+    expect(results).toStrictEqual([{ name: 'Victim' }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertNode rejects labels with control characters before writing', () => {
+  const graph = createTestGraph();
+
+  try {
+    expect(() => graph.upsertNode('alice', {}, 'Person\n')).toThrow(GraphQLiteError);
+
+    const results = graph.cypher<{ cnt: number }>('MATCH (n) RETURN count(n) as cnt');
+    expect(results[0]?.cnt).toBe(0);
+  } finally {
+    graph.close();
+  }
+});
+
+test('upsertEdge quotes hostile relationship types and property keys', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+    graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+    graph.upsertEdge('alice', 'bob', { 'met at': "Bob's party" }, 'KNOWS]->(b) DETACH DELETE b //');
+
+    const people = graph.cypher<{ cnt: number }>('MATCH (n:Person) RETURN count(n) as cnt');
+    expect(people[0]?.cnt).toBe(2);
+
+    const edges = graph.cypher("MATCH (a {id: 'alice'})-[r]->(b {id: 'bob'}) RETURN r.`met at` as metAt");
+    expect(edges).toStrictEqual([{ metAt: "Bob's party" }]);
+  } finally {
+    graph.close();
+  }
+});
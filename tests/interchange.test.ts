@@ -0,0 +1,270 @@
+/**
+ * GraphML, GEXF and JSON graph import/export tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import type { GraphFormat } from '../src/types';
+import { collectKinds, decodeValue, readText } from '../src/interchange';
+import type { GraphScan, InterchangeNode, InterchangeEdge, InterchangeRecord } from '../src/interchange';
+import { writeGraphml, readGraphml } from '../src/graphml';
+import { writeGexf, readGexf } from '../src/gexf';
+import { writeJsonGraph, readJsonGraph } from '../src/json-graph';
+import { XmlTokenizer } from '../src/xml';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+const NODES: InterchangeNode[] = [
+  {
+    kind: 'node',
+    id: 'alice',
+    labels: ['Person', 'Admin'],
+    properties: {
+      name: 'Alice <"&\'>\nSmith',
+      age: 30,
+      score: 1.5,
+      active: true,
+      tags: ['a', 'b, c', 'd|e'],
+      ratings: [1, 2.5],
+      empty: [],
+      meta: { nested: [1, { deep: true }] },
+      mixed: 1,
+    },
+  },
+  {
+    kind: 'node',
+    id: 'bob',
+    labels: [],
+    properties: { name: 'Bob', score: 2, mixed: 'one', flags: [true, false] },
+  },
+];
+
+const EDGES: InterchangeEdge[] = [
+  { kind: 'edge', source: 'alice', target: 'bob', type: 'KNOWS', properties: { since: 2020, weight: 0.5 } },
+  { kind: 'edge', source: 'bob', target: 'alice', type: 'FOLLOWS', properties: {} },
+];
+
+const scan: GraphScan = { nodes: () => NODES, edges: () => EDGES };
+
+const FORMATS = {
+  graphml: { write: writeGraphml, read: readGraphml },
+  gexf: { write: writeGexf, read: readGexf },
+  'json-graph': { write: writeJsonGraph, read: readJsonGraph },
+} as const;
+
+async function readAll(records: AsyncIterable<InterchangeRecord>): Promise<InterchangeRecord[]> {
+  const result: InterchangeRecord[] = [];
+  for await (const record of records) {
+    result.push(record);
+  }
+  return result;
+}
+
+/**
+ * Feed text in small chunks to exercise the streaming parsers
+ */
+async function* chunked(text: string, size: number = 7): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+test('collectKinds widens and merges property kinds', () => {
+  const kinds = collectKinds(NODES);
+  expect(Object.fromEntries(kinds)).toStrictEqual({
+    name: 'string',
+    age: 'long',
+    score: 'double',
+    active: 'boolean',
+    tags: 'string[]',
+    ratings: 'double[]',
+    empty: 'string[]',
+    meta: 'json',
+    mixed: 'json',
+    flags: 'boolean[]',
+  });
+});
+
+test('decodeValue reads lists written by other tools', () => {
+  expect(decodeValue('long[]', '[1, 2, 3]')).toStrictEqual([1, 2, 3]);
+  expect(decodeValue('string[]', '[a, b]')).toStrictEqual(['a', 'b']);
+  expect(decodeValue('string[]', 'a|b')).toStrictEqual(['a', 'b']);
+  expect(decodeValue('boolean[]', '[]')).toStrictEqual([]);
+});
+
+for (const [format, { write, read }] of Object.entries(FORMATS)) {
+  test(`${format} round-trips labels, types and typed properties`, async () => {
+    const text = [...write(scan)].join('');
+    const records = await readAll(read(chunked(text)));
+    expect(records).toStrictEqual([...NODES, ...EDGES]);
+  });
+}
+
+test('XmlTokenizer handles entities, CDATA and comments across chunk boundaries', async () => {
+  const tokenizer = new XmlTokenizer();
+  const events = [];
+  for await (const chunk of chunked('<?xml version="1.0"?><!-- c --><a x="1 &amp; 2"><![CDATA[<b>]]>&#65;&lt;</a><c/>', 3)) {
+    events.push(...tokenizer.write(chunk));
+  }
+  events.push(...tokenizer.end());
+
+  expect(events).toStrictEqual([
+    { type: 'open', name: 'a', attributes: { x: '1 & 2' }, selfClosing: false },
+    { type: 'text', text: '<b>' },
+    { type: 'text', text: 'A<' },
+    { type: 'close', name: 'a' },
+    { type: 'open', name: 'c', attributes: {}, selfClosing: true },
+  ]);
+});
+
+test('readGraphml applies key defaults and Neo4j-style labels', async () => {
+  const graphml = `<?xml version="1.0"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="weight" attr.type="double"><default>1.0</default></key>
+  <graph edgedefault="directed">
+    <node id="a" labels=":Person:Admin"/>
+    <node id="b"><data key="d0">2.5</data></node>
+    <edge source="a" target="b"/>
+  </graph>
+</graphml>`;
+
+  expect(await readAll(readGraphml(readText(graphml)))).toStrictEqual([
+    { kind: 'node', id: 'a', labels: ['Person', 'Admin'], properties: { weight: 1 } },
+    { kind: 'node', id: 'b', labels: [], properties: { weight: 2.5 } },
+    { kind: 'edge', source: 'a', target: 'b', type: 'RELATED', properties: {} },
+  ]);
+});
+
+test('readJsonGraph accepts JGF v1 node arrays and plain metadata', async () => {
+  const json = JSON.stringify({
+    graph: {
+      nodes: [{ id: 'a', label: 'Person', metadata: { name: 'A' } }],
+      edges: [{ source: 'a', target: 'a', relation: 'SELF' }],
+    },
+  });
+
+  expect(await readAll(readJsonGraph(readText(json)))).toStrictEqual([
+    { kind: 'node', id: 'a', labels: ['Person'], properties: { name: 'A' } },
+    { kind: 'edge', source: 'a', target: 'a', type: 'SELF', properties: {} },
+  ]);
+});
+
+test('JSON graph keeps numeric ids and parallel edges', async () => {
+  const records: InterchangeRecord[] = [
+    { kind: 'node', id: 1, labels: ['Account'], properties: {} },
+    { kind: 'node', id: '1', labels: ['Account'], properties: {} },
+    { kind: 'node', id: '#1', labels: ['Account'], properties: {} },
+    { kind: 'edge', source: 1, target: '1', type: 'PAID', properties: { amount: 5 } },
+    { kind: 'edge', source: 1, target: '1', type: 'PAID', properties: { amount: 5 } },
+  ];
+  const numeric: GraphScan = {
+    nodes: () => records.filter((record): record is InterchangeNode => record.kind === 'node'),
+    edges: () => records.filter((record): record is InterchangeEdge => record.kind === 'edge'),
+  };
+
+  const text = [...writeJsonGraph(numeric)].join('');
+  const nodes = (JSON.parse(text) as { graph: { nodes: Record<string, unknown> } }).graph.nodes;
+  expect(Object.keys(nodes).sort()).toStrictEqual(['##1', '#1', '1']);
+  expect(await readAll(readJsonGraph(readText(text)))).toStrictEqual(records);
+});
+
+test('malformed input is reported as INVALID_INPUT', async () => {
+  const cases: Array<[AsyncIterable<InterchangeRecord>, string]> = [
+    [readGraphml(readText('<graphml><graph><node id="a"')), 'graphml'],
+    [readGexf(readText('<gexf><graph><nodes><node label="x"/></nodes></graph></gexf>')), 'gexf'],
+    [readJsonGraph(readText('{"graph":{"nodes":{"a":{}')), 'json-graph'],
+  ];
+
+  for (const [records, format] of cases) {
+    try {
+      await readAll(records);
+      throw new Error(`Expected ${format} input to be rejected`);
+    } catch (error) {
+      expect(error).toBeInstanceOf(GraphQLiteError);
+      expect((error as GraphQLiteError).code).toBe('INVALID_INPUT');
+    }
+  }
+});
+
+test('export rejects unknown formats', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    await expect(graph.export({ format: 'csv' as GraphFormat })).rejects.toThrow('Unknown graph format');
+  } finally {
+    graph.close();
+  }
+});
+
+for (const format of Object.keys(FORMATS) as GraphFormat[]) {
+  test(`graph.export() and graph.import() round-trip through ${format}`, async () => {
+    const source = createTestGraph();
+    const target = createTestGraph();
+
+    try {
+      source.upsertNodes([
+        { id: 'alice', labels: ['Person', 'Admin'], properties: { name: 'Alice', tags: ['x', 'y'], age: 30 } },
+        { id: 'bob', label: 'Person', properties: { name: 'Bob', score: 1.5 } },
+      ]);
+      source.upsertEdge('alice', 'bob', { since: 2020 }, 'KNOWS');
+
+      const text = await source.export({ format });
+      expect(await target.import(text, { format })).toStrictEqual({ nodes: 2, edges: 1 });
+
+      const rows = target.cypher('MATCH (n:Person) RETURN n.id AS id, n.tags AS tags, labels(n) AS labels ORDER BY id');
+      expect(rows).toStrictEqual([
+        { id: 'alice', tags: ['x', 'y'], labels: ['Person', 'Admin'] },
+        { id: 'bob', tags: null, labels: ['Person'] },
+      ]);
+      expect(target.cypher('MATCH (:Person {id: "alice"})-[r:KNOWS]->(b) RETURN r.since AS since, b.id AS id')).toStrictEqual([
+        { since: 2020, id: 'bob' },
+      ]);
+
+      // Importing again updates rather than duplicates
+      await target.import(text, { format });
+      expect(target.getStats()).toStrictEqual({ nodes: 2, edges: 1 });
+    } finally {
+      source.close();
+      target.close();
+    }
+  });
+}
+
+test('graph.import() keeps numeric ids and parallel edges exported by graph.export()', async () => {
+  const source = createTestGraph();
+  const target = createTestGraph();
+
+  try {
+    source.upsertNodes([
+      { id: 1, label: 'Account', properties: { owner: 'Alice' } },
+      { id: 2, label: 'Account', properties: { owner: 'Bob' } },
+    ]);
+    source.createEdges([
+      { source: 1, target: 2, relType: 'PAID', properties: { amount: 5 } },
+      { source: 1, target: 2, relType: 'PAID', properties: { amount: 5 } },
+    ]);
+
+    const text = await source.export({ format: 'json-graph' });
+    expect(await target.import(text, { format: 'json-graph', mode: 'create' })).toStrictEqual({ nodes: 2, edges: 2 });
+
+    expect(target.cypher('MATCH (n:Account) RETURN n.id AS id, n.owner AS owner ORDER BY id')).toStrictEqual([
+      { id: 1, owner: 'Alice' },
+      { id: 2, owner: 'Bob' },
+    ]);
+    expect(target.cypher('MATCH (a {id: 1})-[r:PAID]->(b {id: 2}) RETURN r.amount AS amount')).toStrictEqual([
+      { amount: 5 },
+      { amount: 5 },
+    ]);
+  } finally {
+    source.close();
+    target.close();
+  }
+});
@@ -0,0 +1,161 @@
+/**
+ * Schema introspection tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import type { CypherRow } from '../src/types';
+import { describeGraph, valueType } from '../src/introspection';
+import { stubGraph } from './helpers';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+/**
+ * Graph stand-in answering the node and relationship scans with fixed rows
+ */
+function scannedGraph(nodes: CypherRow[], relationships: CypherRow[]): Graph {
+  return stubGraph((query) => (query.includes('-[r]->') ? relationships : nodes)).graph;
+}
+
+test('valueType names the kind of a value', () => {
+  expect(valueType('a')).toBe('string');
+  expect(valueType(3)).toBe('integer');
+  expect(valueType(3.5)).toBe('float');
+  expect(valueType(2147483647)).toBe('integer');
+  expect(valueType(-2147483648)).toBe('integer');
+  expect(valueType(1700000000000)).toBe('integer');
+  expect(valueType(-2147483649)).toBe('integer');
+  expect(valueType(false)).toBe('boolean');
+  expect(valueType([1, 'a'])).toBe('list');
+  expect(valueType({ a: 1 })).toBe('map');
+});
+
+test('describeGraph counts labels, relationship types and property keys', () => {
+  const graph = scannedGraph(
+    [
+      { labels: ['Person'], properties: { id: 'alice', name: 'Alice', age: 30, tags: ['a', 'b'] } },
+      { labels: ['Person', 'Actor'], properties: { id: 'bob', age: 25.5, tags: [1, null] } },
+      { labels: ['Movie'], properties: { id: 'matrix', title: 'The Matrix', rating: null } },
+      { labels: [], properties: {} },
+    ],
+    [
+      { from: ['Person'], type: 'KNOWS', to: ['Person', 'Actor'], properties: { since: 2020 } },
+      { from: ['Person', 'Actor'], type: 'ACTED_IN', to: ['Movie'], properties: {} },
+      { from: ['Person'], type: 'ACTED_IN', to: ['Movie'], properties: { role: 'Neo' } },
+    ]
+  );
+
+  expect(describeGraph(graph)).toStrictEqual({
+    nodes: 4,
+    edges: 3,
+    labels: [
+      {
+        label: 'Actor',
+        count: 1,
+        properties: [
+          { key: 'age', types: ['float'], itemTypes: [], nullRatio: 0 },
+          { key: 'id', types: ['string'], itemTypes: [], nullRatio: 0 },
+          { key: 'tags', types: ['list'], itemTypes: ['integer'], nullRatio: 0 },
+        ],
+      },
+      {
+        label: 'Movie',
+        count: 1,
+        properties: [
+          { key: 'id', types: ['string'], itemTypes: [], nullRatio: 0 },
+          { key: 'title', types: ['string'], itemTypes: [], nullRatio: 0 },
+        ],
+      },
+      {
+        label: 'Person',
+        count: 2,
+        properties: [
+          { key: 'age', types: ['float', 'integer'], itemTypes: [], nullRatio: 0 },
+          { key: 'id', types: ['string'], itemTypes: [], nullRatio: 0 },
+          { key: 'name', types: ['string'], itemTypes: [], nullRatio: 0.5 },
+          { key: 'tags', types: ['list'], itemTypes: ['integer', 'string'], nullRatio: 0 },
+        ],
+      },
+    ],
+    relationshipTypes: [
+      {
+        type: 'ACTED_IN',
+        count: 2,
+        pairs: [
+          { from: 'Actor', to: 'Movie', count: 1 },
+          { from: 'Person', to: 'Movie', count: 2 },
+        ],
+        properties: [{ key: 'role', types: ['string'], itemTypes: [], nullRatio: 0.5 }],
+      },
+      {
+        type: 'KNOWS',
+        count: 1,
+        pairs: [
+          { from: 'Person', to: 'Actor', count: 1 },
+          { from: 'Person', to: 'Person', count: 1 },
+        ],
+        properties: [{ key: 'since', types: ['integer'], itemTypes: [], nullRatio: 0 }],
+      },
+    ],
+  });
+});
+
+test('describeGraph flags keys holding integers beyond 32 bits', () => {
+  const graph = scannedGraph(
+    [
+      { labels: ['Event'], properties: { at: 1700000000000, count: 3, ids: [1, -2147483649] } },
+      { labels: ['Event'], properties: { at: 5, count: 4, ids: [] } },
+    ],
+    []
+  );
+
+  expect(describeGraph(graph).labels[0]?.properties).toStrictEqual([
+    { key: 'at', types: ['integer'], itemTypes: [], nullRatio: 0, wideIntegers: true },
+    { key: 'count', types: ['integer'], itemTypes: [], nullRatio: 0 },
+    { key: 'ids', types: ['list'], itemTypes: ['integer'], nullRatio: 0, wideIntegers: true },
+  ]);
+});
+
+test('describeGraph handles an empty graph', () => {
+  expect(describeGraph(scannedGraph([], []))).toStrictEqual({ nodes: 0, edges: 0, labels: [], relationshipTypes: [] });
+});
+
+test('schema() describes a real graph', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { name: 'Alice', age: 30 }, 'Person');
+    graph.upsertNode('bob', { age: 25 }, 'Person');
+    graph.upsertNode('matrix', { title: 'The Matrix' }, 'Movie');
+    graph.upsertEdge('alice', 'bob', { since: 2020 }, 'KNOWS');
+    graph.upsertEdge('alice', 'matrix', {}, 'ACTED_IN');
+
+    const schema = graph.schema();
+    expect(schema.nodes).toBe(3);
+    expect(schema.edges).toBe(2);
+    expect(schema.labels.map(({ label, count }) => [label, count])).toStrictEqual([
+      ['Movie', 1],
+      ['Person', 2],
+    ]);
+    const person = schema.labels.find((info) => info.label === 'Person');
+    expect(person?.properties.find((info) => info.key === 'name')).toStrictEqual({
+      key: 'name',
+      types: ['string'],
+      itemTypes: [],
+      nullRatio: 0.5,
+    });
+    expect(schema.relationshipTypes.map(({ type, pairs }) => [type, pairs])).toStrictEqual([
+      ['ACTED_IN', [{ from: 'Person', to: 'Movie', count: 1 }]],
+      ['KNOWS', [{ from: 'Person', to: 'Person', count: 1 }]],
+    ]);
+  } finally {
+    graph.close();
+  }
+});
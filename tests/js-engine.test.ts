@@ -0,0 +1,373 @@
+/**
+ * TypeScript algorithm engine tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import type { CypherRow, LouvainResult, ShortestPathResult } from '../src/types';
+import {
+  loadAdjacency,
+  pagerankJs,
+  louvainJs,
+  dijkstraJs,
+  degreeCentralityJs,
+  betweennessCentralityJs,
+  closenessCentralityJs,
+  weaklyConnectedComponentsJs,
+  stronglyConnectedComponentsJs,
+  labelPropagationJs,
+  triangleCountJs,
+  traverseJs,
+  astarJs,
+  kShortestPathsJs,
+  allShortestPathsJs,
+  shortestPathsFromJs,
+} from '../src/js-engine';
+import { pagerank, shortestPath, degreeCentrality, kShortestPaths } from '../src/algorithms';
+import type { Adjacency } from '../src/js-engine';
+import { stubGraph } from './helpers';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+/**
+ * Two triangles, a-b-c and d-e-f, joined by c -> d, with weighted edges
+ */
+const TRIANGLES: Adjacency = {
+  ids: ['a', 'b', 'c', 'd', 'e', 'f'],
+  nodeIds: [1, 2, 3, 4, 5, 6],
+  edges: [
+    { source: 0, target: 1, weight: 1, type: 'KNOWS' },
+    { source: 1, target: 2, weight: 1, type: 'KNOWS' },
+    { source: 2, target: 0, weight: 1, type: 'KNOWS' },
+    { source: 2, target: 3, weight: 5, type: 'KNOWS' },
+    { source: 3, target: 4, weight: 1, type: 'KNOWS' },
+    { source: 4, target: 5, weight: 1, type: 'KNOWS' },
+    { source: 5, target: 3, weight: 1, type: 'KNOWS' },
+  ],
+};
+
+const FIXTURE = [
+  "CREATE (:Person {id: 'a'}), (:Person {id: 'b'}), (:Person {id: 'c'}), (:Person {id: 'd'}), (:Person {id: 'e'}), (:Person {id: 'f'})",
+  "MATCH (a {id: 'a'}), (b {id: 'b'}) CREATE (a)-[:KNOWS {cost: 1}]->(b)",
+  "MATCH (b {id: 'b'}), (c {id: 'c'}) CREATE (b)-[:KNOWS {cost: 1}]->(c)",
+  "MATCH (c {id: 'c'}), (a {id: 'a'}) CREATE (c)-[:KNOWS {cost: 1}]->(a)",
+  "MATCH (c {id: 'c'}), (d {id: 'd'}) CREATE (c)-[:KNOWS {cost: 5}]->(d)",
+  "MATCH (d {id: 'd'}), (e {id: 'e'}) CREATE (d)-[:KNOWS {cost: 1}]->(e)",
+  "MATCH (e {id: 'e'}), (f {id: 'f'}) CREATE (e)-[:KNOWS {cost: 1}]->(f)",
+  "MATCH (f {id: 'f'}), (d {id: 'd'}) CREATE (f)-[:KNOWS {cost: 1}]->(d)",
+];
+
+/**
+ * Four ways from s to t: s-a-t and s-b-t costing 2, s-a-b-t costing 2.5 and
+ * the direct s-t costing 3
+ */
+const ROUTES: Adjacency = {
+  ids: ['s', 'a', 'b', 't'],
+  nodeIds: [1, 2, 3, 4],
+  edges: [
+    { source: 0, target: 1, weight: 1, type: 'ROAD' },
+    { source: 1, target: 3, weight: 1, type: 'ROAD' },
+    { source: 0, target: 2, weight: 1, type: 'RAIL' },
+    { source: 2, target: 3, weight: 1, type: 'RAIL' },
+    { source: 0, target: 3, weight: 3, type: 'AIR' },
+    { source: 1, target: 2, weight: 0.5, type: 'ROAD' },
+  ],
+};
+
+const NO_LIMITS = { maxDepth: Infinity, maxCost: Infinity };
+
+function routes(paths: ShortestPathResult[]): string[] {
+  return paths.map((path) => path.path.join(''));
+}
+
+/**
+ * Groups of node IDs sharing a community, independent of community numbering
+ */
+function partition(communities: LouvainResult): string[][] {
+  const groups = new Map<number, string[]>();
+  for (const [id, community] of Object.entries(communities)) {
+    groups.set(community, [...(groups.get(community) ?? []), id].sort());
+  }
+  return [...groups.values()].sort((x, y) => (x[0] as string).localeCompare(y[0] as string));
+}
+
+test('pagerankJs scores sum to 1 and favour well-linked nodes', () => {
+  const ranks = pagerankJs(TRIANGLES, 0.85, 50);
+  const total = Object.values(ranks).reduce((sum, score) => sum + score, 0);
+  expect(total).toBeCloseTo(1, 10);
+  expect(ranks.d as number).toBeGreaterThan(ranks.f as number);
+
+  // A node without outgoing relationships still passes its rank on
+  const chain = pagerankJs({ ids: ['x', 'y'], nodeIds: [1, 2], edges: [{ source: 0, target: 1, weight: 1, type: 'KNOWS' }] }, 0.85, 20);
+  expect((chain.x as number) + (chain.y as number)).toBeCloseTo(1, 10);
+  expect(pagerankJs({ ids: [], nodeIds: [], edges: [] }, 0.85, 20)).toStrictEqual({});
+});
+
+test('louvainJs finds the two triangles', () => {
+  const unweighted: Adjacency = { ...TRIANGLES, edges: TRIANGLES.edges.map((edge) => ({ ...edge, weight: 1 })) };
+  expect(louvainJs(unweighted, 1.0)).toStrictEqual({ a: 0, b: 0, c: 0, d: 1, e: 1, f: 1 });
+
+  // The heavy c -> d relationship pulls c and d together
+  const weighted = louvainJs(TRIANGLES, 1.0);
+  expect(weighted.c).toBe(weighted.d as number);
+  expect(louvainJs({ ids: ['x', 'y'], nodeIds: [1, 2], edges: [] }, 1.0)).toStrictEqual({ x: 0, y: 1 });
+});
+
+test('dijkstraJs follows direction and weights', () => {
+  expect(dijkstraJs(TRIANGLES, 'a', 'f')).toStrictEqual({
+    path: ['a', 'b', 'c', 'd', 'e', 'f'],
+    distance: 9,
+    relationships: ['KNOWS', 'KNOWS', 'KNOWS', 'KNOWS', 'KNOWS'],
+    weights: [1, 1, 5, 1, 1],
+  });
+  expect(dijkstraJs(TRIANGLES, 'a', 'a')).toStrictEqual({ path: ['a'], distance: 0, relationships: [], weights: [] });
+  expect(dijkstraJs(TRIANGLES, 'd', 'a')).toBeNull();
+  expect(dijkstraJs(TRIANGLES, 'a', 'missing')).toBeNull();
+});
+
+test('kShortestPathsJs lists loopless paths cheapest first', () => {
+  expect(routes(kShortestPathsJs(ROUTES, 's', 't', 10))).toStrictEqual(['sat', 'sbt', 'sabt', 'st']);
+  expect(kShortestPathsJs(ROUTES, 's', 't', 3)[2]).toStrictEqual({
+    path: ['s', 'a', 'b', 't'],
+    distance: 2.5,
+    relationships: ['ROAD', 'ROAD', 'RAIL'],
+    weights: [1, 0.5, 1],
+  });
+  expect(routes(kShortestPathsJs(ROUTES, 's', 't', 10, { maxDepth: 2, maxCost: Infinity }))).toStrictEqual(['sat', 'sbt', 'st']);
+  expect(routes(kShortestPathsJs(ROUTES, 's', 't', 10, { maxDepth: Infinity, maxCost: 2.5 }))).toStrictEqual(['sat', 'sbt', 'sabt']);
+  expect(kShortestPathsJs(ROUTES, 's', 't', 0)).toStrictEqual([]);
+  expect(kShortestPathsJs(ROUTES, 't', 's', 3)).toStrictEqual([]);
+
+  // Relationships between the same nodes make different paths
+  const parallel: Adjacency = { ...ROUTES, edges: [...ROUTES.edges, { source: 0, target: 3, weight: 3, type: 'SEA' }] };
+  expect(kShortestPathsJs(parallel, 's', 't', 5).map((path) => path.relationships)).toContainEqual(['SEA']);
+});
+
+test('allShortestPathsJs and shortestPathsFromJs', () => {
+  expect(routes(allShortestPathsJs(ROUTES, 's', 't'))).toStrictEqual(['sat', 'sbt']);
+  expect(routes(allShortestPathsJs(ROUTES, 's', 't', { maxDepth: 1, maxCost: Infinity }))).toStrictEqual(['st']);
+  expect(allShortestPathsJs(ROUTES, 's', 'missing')).toStrictEqual([]);
+
+  const distances = (limits = NO_LIMITS) =>
+    Object.fromEntries(Object.entries(shortestPathsFromJs(ROUTES, 's', limits)).map(([id, path]) => [id, path.distance]));
+  expect(distances()).toStrictEqual({ s: 0, a: 1, b: 1, t: 2 });
+  expect(distances({ maxDepth: Infinity, maxCost: 1 })).toStrictEqual({ s: 0, a: 1, b: 1 });
+  expect(distances({ maxDepth: 1, maxCost: Infinity })).toStrictEqual({ s: 0, a: 1, b: 1, t: 3 });
+  expect(shortestPathsFromJs(ROUTES, 'missing')).toStrictEqual({});
+});
+
+test('a depth limit can make a costlier path to a node the one to follow', () => {
+  // The cheapest way to x takes two relationships, leaving none for x -> t
+  const ladder: Adjacency = {
+    ids: ['s', 'x', 'y', 't'],
+    nodeIds: [1, 2, 3, 4],
+    edges: [
+      { source: 0, target: 1, weight: 5, type: 'R' },
+      { source: 0, target: 2, weight: 1, type: 'R' },
+      { source: 2, target: 1, weight: 1, type: 'R' },
+      { source: 1, target: 3, weight: 1, type: 'R' },
+    ],
+  };
+  expect(dijkstraJs(ladder, 's', 't')?.path).toStrictEqual(['s', 'y', 'x', 't']);
+  expect(dijkstraJs(ladder, 's', 't', { maxDepth: 2, maxCost: Infinity })?.path).toStrictEqual(['s', 'x', 't']);
+  expect(dijkstraJs(ladder, 's', 't', { maxDepth: 2, maxCost: 5 })).toBeNull();
+});
+
+test('degree, betweenness and closeness centrality', () => {
+  expect(degreeCentralityJs(TRIANGLES).c).toStrictEqual({ inDegree: 1, outDegree: 2, degree: 3 });
+
+  const betweenness = betweennessCentralityJs(TRIANGLES);
+  // Every path from the first triangle to the second passes through c and d,
+  // while f only lies between its triangle neighbours e and d
+  expect(betweenness.c).toBe(7);
+  expect(betweenness.d).toBe(7);
+  expect(betweenness.f).toBe(1);
+
+  const closeness = closenessCentralityJs(TRIANGLES);
+  expect(closeness.d).toBeCloseTo(2 / 3, 10);
+  expect(closeness.a).toBeCloseTo(1 / 3, 10);
+});
+
+test('connected components, label propagation and triangles', () => {
+  const split: Adjacency = { ...TRIANGLES, edges: TRIANGLES.edges.filter((edge) => edge.weight === 1) };
+  expect(weaklyConnectedComponentsJs(TRIANGLES)).toStrictEqual({ a: 0, b: 0, c: 0, d: 0, e: 0, f: 0 });
+  expect(weaklyConnectedComponentsJs(split)).toStrictEqual({ a: 0, b: 0, c: 0, d: 1, e: 1, f: 1 });
+  expect(stronglyConnectedComponentsJs(TRIANGLES)).toStrictEqual({ a: 0, b: 0, c: 0, d: 1, e: 1, f: 1 });
+  expect(labelPropagationJs(split, 10)).toStrictEqual({ a: 0, b: 0, c: 0, d: 1, e: 1, f: 1 });
+
+  const triangles = triangleCountJs(TRIANGLES);
+  expect(triangles.a).toStrictEqual({ triangles: 1, clusteringCoefficient: 1 });
+  expect(triangles.c).toStrictEqual({ triangles: 1, clusteringCoefficient: 1 / 3 });
+});
+
+test('traversals respect order and depth limits', () => {
+  expect(traverseJs(TRIANGLES, 'bfs', 'c', 1)).toStrictEqual([
+    { id: 'c', depth: 0 },
+    { id: 'a', depth: 1 },
+    { id: 'd', depth: 1 },
+  ]);
+  expect(traverseJs(TRIANGLES, 'dfs', 'c').map((step) => step.id)).toStrictEqual(['c', 'a', 'b', 'd', 'e', 'f']);
+  expect(traverseJs(TRIANGLES, 'bfs', 'missing')).toStrictEqual([]);
+});
+
+test('astarJs is guided by coordinates', () => {
+  // Kilometre weights between three cities, with a costly direct road
+  const cities: Adjacency = {
+    ids: ['paris', 'brussels', 'berlin'],
+    nodeIds: [1, 2, 3],
+    edges: [
+      { source: 0, target: 1, weight: 264, type: 'ROAD' },
+      { source: 1, target: 2, weight: 651, type: 'ROAD' },
+      { source: 0, target: 2, weight: 2000, type: 'ROAD' },
+    ],
+    coordinates: [
+      [48.8566, 2.3522],
+      [50.8503, 4.3517],
+      [52.52, 13.405],
+    ],
+  };
+  expect(astarJs(cities, 'paris', 'berlin')).toStrictEqual({
+    path: ['paris', 'brussels', 'berlin'],
+    distance: 915,
+    relationships: ['ROAD', 'ROAD'],
+    weights: [264, 651],
+  });
+  expect(astarJs({ ...cities, coordinates: undefined }, 'paris', 'berlin')?.distance).toBe(915);
+});
+
+test('loadAdjacency keeps the projected labels, types and direction', () => {
+  const rows: Record<string, CypherRow[]> = {
+    nodes: [
+      { node_id: 1, user_id: 'alice', labels: ['Person'] },
+      { node_id: 2, user_id: 'bob', labels: ['Person', 'Admin'] },
+      { node_id: 3, user_id: 'acme', labels: ['Company'] },
+    ],
+    edges: [
+      { source: 1, target: 2, type: 'KNOWS', weight: 2 },
+      { source: 1, target: 3, type: 'WORKS_AT', weight: null },
+      { source: 2, target: 1, type: 'LIKES', weight: null },
+    ],
+  };
+  const { graph, queries } = stubGraph((query) => {
+    if (query.startsWith('MATCH (n)')) {
+      return rows.nodes ?? [];
+    }
+    return (query.includes('AS weight') ? rows.edges : rows.edges?.map(({ weight, ...row }) => row)) ?? [];
+  });
+
+  expect(loadAdjacency(graph, { labels: ['Person'], relationshipTypes: ['KNOWS'], direction: 'both', weight: 'since' })).toStrictEqual({
+    ids: ['alice', 'bob'],
+    nodeIds: [1, 2],
+    edges: [
+      { source: 0, target: 1, weight: 2, type: 'KNOWS' },
+      { source: 1, target: 0, weight: 2, type: 'KNOWS' },
+    ],
+    coordinates: undefined,
+  });
+  expect(queries[1]?.query).toContain('r.since AS weight');
+  expect(loadAdjacency(graph, { direction: 'incoming' }).edges).toStrictEqual([
+    { source: 1, target: 0, weight: 1, type: 'KNOWS' },
+    { source: 2, target: 0, weight: 1, type: 'WORKS_AT' },
+    { source: 0, target: 1, weight: 1, type: 'LIKES' },
+  ]);
+  expect(() => loadAdjacency(graph, { direction: 'sideways' as 'both' })).toThrow('direction must be one of');
+
+  // Projections pick the js engine
+  expect(degreeCentrality(graph, { projection: { labels: ['Company'] } })).toStrictEqual({
+    acme: { inDegree: 0, outDegree: 0, degree: 0 },
+  });
+  expect(() => degreeCentrality(graph, { engine: 'native', projection: {} })).toThrow('Projections run on the js engine only');
+});
+
+test('an unknown engine is rejected before the graph is read', () => {
+  const graph = {} as Graph;
+  expect(() => pagerank(graph, { engine: 'wasm' as 'js' })).toThrow("engine must be 'native' or 'js', got wasm");
+  expect(() => shortestPath(graph, 'a', 'b', { engine: 'wasm' as 'js' })).toThrow(GraphQLiteError);
+  expect(() => shortestPath(graph, 'a', 'b', { maxDepth: 3 })).toThrow('maxDepth and maxCost apply on the js engine only');
+  expect(() => kShortestPaths(graph, 'a', 'b', 2, { engine: 'native' })).toThrow('k shortest paths runs on the js engine only');
+  expect(() => kShortestPaths(graph, 'a', 'b', -1)).toThrow('k must be a non-negative integer, got -1');
+});
+
+test('the js engine matches the native engine on the same graph', () => {
+  const graph = createTestGraph();
+
+  try {
+    for (const statement of FIXTURE) {
+      graph.cypher(statement);
+    }
+
+    const native = graph.pagerank({ iterations: 30 });
+    const js = graph.pagerank({ iterations: 30, engine: 'js' });
+    expect(Object.keys(js).sort()).toStrictEqual(Object.keys(native).sort());
+    for (const [id, score] of Object.entries(native)) {
+      expect(js[id] as number).toBeCloseTo(score, 4);
+    }
+
+    expect(partition(graph.louvain({ engine: 'js' }))).toStrictEqual(partition(graph.louvain()));
+
+    // The js engine adds relationship types and weights to the native result
+    expect(graph.shortestPath('a', 'f', { engine: 'js' })).toMatchObject(graph.shortestPath('a', 'f') as ShortestPathResult);
+    expect(graph.shortestPath('a', 'f', { weight: 'cost', engine: 'js' })).toMatchObject(
+      graph.shortestPath('a', 'f', 'cost') as ShortestPathResult
+    );
+    expect(graph.shortestPath('d', 'a', { engine: 'js' })).toBeNull();
+  } finally {
+    graph.close();
+  }
+});
+
+test('projections scope algorithms to labels and relationship types', () => {
+  const graph = createTestGraph();
+
+  try {
+    for (const statement of FIXTURE) {
+      graph.cypher(statement);
+    }
+    graph.cypher("CREATE (:Company {id: 'acme'})");
+    graph.cypher("MATCH (a {id: 'a'}), (c {id: 'acme'}) CREATE (a)-[:WORKS_AT]->(c)");
+
+    const projection = { labels: ['Person'], relationshipTypes: ['KNOWS'] };
+    const ranks = graph.pagerank({ projection });
+    expect(Object.keys(ranks).sort()).toStrictEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(Object.values(ranks).reduce((sum, score) => sum + score, 0)).toBeCloseTo(1, 10);
+    expect(graph.weaklyConnectedComponents({ projection }).acme).toBeUndefined();
+    expect(graph.bfs('a', { projection: { direction: 'incoming' }, maxDepth: 1 })).toStrictEqual([
+      { id: 'a', depth: 0 },
+      { id: 'c', depth: 1 },
+    ]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('path searches report the relationships of the graph', () => {
+  const graph = createTestGraph();
+
+  try {
+    for (const statement of FIXTURE) {
+      graph.cypher(statement);
+    }
+    graph.cypher("MATCH (c {id: 'c'}), (f {id: 'f'}) CREATE (c)-[:WORKS_WITH {cost: 8}]->(f)");
+
+    const paths = graph.kShortestPaths('a', 'f', 3, { weight: 'cost' });
+    expect(paths.map((path) => [path.distance, path.relationships])).toStrictEqual([
+      [9, ['KNOWS', 'KNOWS', 'KNOWS', 'KNOWS', 'KNOWS']],
+      [10, ['KNOWS', 'KNOWS', 'WORKS_WITH']],
+    ]);
+    expect(graph.allShortestPaths('a', 'f', { maxDepth: 3 }).map((path) => path.path)).toStrictEqual([['a', 'b', 'c', 'f']]);
+    expect(graph.shortestPathsFrom('d', { weight: 'cost', maxCost: 1 })).toStrictEqual({
+      d: { path: ['d'], distance: 0, relationships: [], weights: [] },
+      e: { path: ['d', 'e'], distance: 1, relationships: ['KNOWS'], weights: [1] },
+    });
+  } finally {
+    graph.close();
+  }
+});
@@ -0,0 +1,195 @@
+/**
+ * Schema migration tests for GraphQLite
+ */
+
+import { test, expect, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import { Migrator, loadMigrations } from '../src/migrations';
+import type { Migration } from '../src/migrations';
+import { runCli } from '../src/cli';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+let tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tempDirs = [];
+});
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphqlite-migrations-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/**
+ * Migration that adds and drops a SQL table, so it runs without the extension
+ */
+function tableMigration(id: string, withDown: boolean = true): Migration {
+  return {
+    id,
+    up: (graph) => graph.getDatabase().run(`CREATE TABLE t${id} (x)`),
+    down: withDown ? (graph) => graph.getDatabase().run(`DROP TABLE t${id}`) : undefined,
+  };
+}
+
+function tables(graph: Graph): string[] {
+  return graph
+    .getDatabase()
+    .query<{ name: string }, []>("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 't%' ORDER BY name")
+    .all()
+    .map((row) => row.name);
+}
+
+test('migrate applies pending migrations in order of id and records them', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    const order: string[] = [];
+    const migrations = ['2', '1', '3'].map((id) => ({
+      ...tableMigration(id),
+      up: async (target: Graph) => {
+        order.push(id);
+        target.getDatabase().run(`CREATE TABLE t${id} (x)`);
+      },
+    }));
+    const migrator = new Migrator(graph, migrations);
+
+    expect(migrator.status().map((status) => status.appliedAt)).toStrictEqual([null, null, null]);
+    expect(await migrator.migrate({ to: '2' })).toStrictEqual(['1', '2']);
+    expect(await migrator.migrate()).toStrictEqual(['3']);
+    expect(await migrator.migrate()).toStrictEqual([]);
+    expect(order).toStrictEqual(['1', '2', '3']);
+    expect(tables(graph)).toStrictEqual(['t1', 't2', 't3']);
+
+    const status = migrator.status();
+    expect(status.map((entry) => [entry.id, entry.defined])).toStrictEqual([
+      ['1', true],
+      ['2', true],
+      ['3', true],
+    ]);
+    expect(status.every((entry) => !Number.isNaN(Date.parse(entry.appliedAt ?? '')))).toBe(true);
+
+    // Another migrator over fewer definitions sees what was applied
+    expect(new Migrator(graph, [tableMigration('1')]).status().map((entry) => [entry.id, entry.defined])).toStrictEqual([
+      ['1', true],
+      ['2', false],
+      ['3', false],
+    ]);
+    await expect(migrator.migrate({ to: '9' })).rejects.toThrow('Unknown migration: 9');
+  } finally {
+    graph.close();
+  }
+});
+
+test('a failing migration is rolled back with its record', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    const migrator = new Migrator(graph, [
+      tableMigration('1'),
+      {
+        id: '2',
+        up: (target) => {
+          target.getDatabase().run('CREATE TABLE t2 (x)');
+          throw new Error('boom');
+        },
+      },
+      tableMigration('3'),
+    ]);
+
+    await expect(migrator.migrate()).rejects.toThrow('Migration 2 up failed: boom');
+    expect(tables(graph)).toStrictEqual(['t1']);
+    expect(migrator.status().map((entry) => entry.appliedAt !== null)).toStrictEqual([true, false, false]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('rollback undoes the most recent migrations', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    const migrator = new Migrator(graph, ['1', '2', '3', '4'].map((id) => tableMigration(id, id !== '1')));
+    await migrator.migrate();
+
+    expect(await migrator.rollback()).toStrictEqual(['4']);
+    expect(await migrator.rollback({ to: '1' })).toStrictEqual(['3', '2']);
+    expect(tables(graph)).toStrictEqual(['t1']);
+    expect(await migrator.rollback({ steps: 0 })).toStrictEqual([]);
+    await expect(migrator.rollback()).rejects.toThrow('Migration 1 has no down step');
+    await expect(migrator.rollback({ to: '3' })).rejects.toThrow('Migration 3 is not applied');
+    await expect(migrator.rollback({ to: '1', steps: 1 })).rejects.toThrow(GraphQLiteError);
+    await expect(new Migrator(graph, []).rollback()).rejects.toThrow('Migration 1 is applied but not defined');
+
+    expect(() => new Migrator(graph, [tableMigration('1'), tableMigration('1')])).toThrow('Migration 1 is defined more than once');
+  } finally {
+    graph.close();
+  }
+});
+
+test('loadMigrations reads Cypher script pairs and modules', async () => {
+  const dir = tempDir();
+  fs.writeFileSync(path.join(dir, '001_people.up.cypher'), "CREATE (:Person {id: 'alice'});\n");
+  fs.writeFileSync(path.join(dir, '001_people.down.cypher'), "MATCH (n:Person {id: 'alice'}) DELETE n;\n");
+  fs.writeFileSync(path.join(dir, '002_only_up.up.cypher'), 'MATCH (n) SET n.seen = true;\n');
+  fs.writeFileSync(path.join(dir, '003_module.ts'), 'export function up(graph) {}\nexport function down(graph) {}\n');
+  fs.writeFileSync(path.join(dir, 'README.md'), '# Migrations\n');
+
+  const migrations = await loadMigrations(dir);
+  expect(migrations.map((migration) => [migration.id, typeof migration.up, typeof migration.down])).toStrictEqual([
+    ['001_people', 'string', 'string'],
+    ['002_only_up', 'string', 'undefined'],
+    ['003_module', 'function', 'function'],
+  ]);
+  expect(migrations[0]?.up).toBe("CREATE (:Person {id: 'alice'});\n");
+
+  fs.writeFileSync(path.join(dir, '003_module.down.cypher'), 'MATCH (n) DELETE n;\n');
+  await expect(loadMigrations(dir)).rejects.toThrow('Migration 003_module has a down script but no up script');
+  fs.writeFileSync(path.join(dir, '003_module.up.cypher'), 'MATCH (n) DELETE n;\n');
+  await expect(loadMigrations(dir)).rejects.toThrow('Migration 003_module is defined by both scripts and a module');
+});
+
+test('graphqlite migrate, status and rollback run Cypher migrations', async () => {
+  const dir = tempDir();
+  const db = path.join(dir, 'graph.db');
+  const migrations = path.join(dir, 'migrations');
+  fs.mkdirSync(migrations);
+  fs.writeFileSync(path.join(migrations, '001_people.up.cypher'), "CREATE (:Person {id: 'alice'});\n");
+  fs.writeFileSync(path.join(migrations, '001_people.down.cypher'), "MATCH (n:Person {id: 'alice'}) DELETE n;\n");
+  fs.writeFileSync(path.join(migrations, '002_names.up.cypher'), "MATCH (n:Person) SET n.name = 'Alice';\n");
+  fs.writeFileSync(path.join(migrations, '002_names.down.cypher'), 'MATCH (n:Person) REMOVE n.name;\n');
+
+  let stdout = '';
+  const cli = (...argv: string[]) =>
+    runCli([...argv, '--extension', EXTENSION_PATH], { stdout: { write: (chunk) => (stdout += chunk) }, stderr: { write: () => {} } });
+
+  expect(await cli('migrate', db, migrations)).toBe(0);
+  expect(stdout).toBe('Applied 001_people\nApplied 002_names\n');
+
+  stdout = '';
+  expect(await cli('rollback', db, migrations)).toBe(0);
+  expect(stdout).toBe('Rolled back 002_names\n');
+
+  stdout = '';
+  expect(await cli('status', db, migrations, '--format', 'json')).toBe(0);
+  const status = JSON.parse(stdout) as Array<{ id: string; status: string }>;
+  expect(status.map((entry) => [entry.id, entry.status])).toStrictEqual([
+    ['001_people', 'applied'],
+    ['002_names', 'pending'],
+  ]);
+
+  const graph = new Graph(db, { extensionPath: EXTENSION_PATH });
+  try {
+    expect(graph.cypher('MATCH (n:Person) RETURN n.id AS id, n.name AS name')).toStrictEqual([{ id: 'alice', name: null }]);
+  } finally {
+    graph.close();
+  }
+});
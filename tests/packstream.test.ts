@@ -0,0 +1,89 @@
+/**
+ * PackStream serialization tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { GraphQLiteError } from '../src/types';
+import { pack, unpack, Structure } from '../src/packstream';
+import type { PackStreamValue } from '../src/packstream';
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+test('pack uses the smallest encoding for each value', () => {
+  expect(hex(pack(null))).toBe('c0');
+  expect(hex(pack(true))).toBe('c3');
+  expect(hex(pack(false))).toBe('c2');
+  expect(hex(pack(1))).toBe('01');
+  expect(hex(pack(-16))).toBe('f0');
+  expect(hex(pack(-17))).toBe('c8ef');
+  expect(hex(pack(128))).toBe('c90080');
+  expect(hex(pack(-32769))).toBe('caffff7fff');
+  expect(hex(pack(2 ** 31))).toBe('cb0000000080000000');
+  expect(hex(pack(1.5))).toBe('c13ff8000000000000');
+  expect(hex(pack('A'))).toBe('8141');
+  expect(hex(pack('a'.repeat(16)))).toBe(`d010${'61'.repeat(16)}`);
+  expect(hex(pack(new Uint8Array([1, 2])))).toBe('cc020102');
+  expect(hex(pack([1, 2, 3]))).toBe('93010203');
+  expect(hex(pack({ a: 1 }))).toBe('a1816101');
+  expect(hex(pack(new Structure(0x4e, [1, ['L'], {}])))).toBe('b34e0191814ca0');
+});
+
+test('unpack reverses pack', () => {
+  const values: PackStreamValue[] = [
+    null,
+    true,
+    0,
+    -1,
+    127,
+    -128,
+    40_000,
+    -2_000_000_000,
+    Number.MAX_SAFE_INTEGER,
+    Number.MIN_SAFE_INTEGER,
+    3.25,
+    -0.5,
+    '',
+    'héllo wörld',
+    'x'.repeat(70_000),
+    new Uint8Array(300).fill(7),
+    Array.from({ length: 20 }, (_, i) => i),
+    { name: 'Alice', tags: ['a', 'b'], nested: { deep: [null, false] } },
+    Object.fromEntries(Array.from({ length: 300 }, (_, i) => [`k${i}`, i])),
+  ];
+
+  for (const value of values) {
+    expect(unpack(pack(value))).toStrictEqual(value);
+  }
+
+  const structure = unpack(pack(new Structure(0x70, [{ fields: ['n'] }])));
+  expect(structure).toBeInstanceOf(Structure);
+  expect((structure as Structure).tag).toBe(0x70);
+  expect((structure as Structure).fields).toStrictEqual([{ fields: ['n'] }]);
+});
+
+test('unpack rejects malformed data', () => {
+  const cases: Array<[string, string]> = [
+    ['d1ff', 'Unexpected end of PackStream data'],
+    ['c9', 'Unexpected end of PackStream data'],
+    ['c7', 'Unknown PackStream marker 0xc7'],
+    ['a10101', 'map keys must be strings'],
+    ['cb0020000000000000', 'outside the safe integer range'],
+    ['82c328', 'Invalid UTF-8'],
+    ['0101', 'Unexpected bytes after PackStream value'],
+  ];
+
+  for (const [bytes, message] of cases) {
+    try {
+      unpack(new Uint8Array(Buffer.from(bytes, 'hex')));
+      throw new Error(`expected ${bytes} to be rejected`);
+    } catch (error) {
+      expect(error).toBeInstanceOf(GraphQLiteError);
+      expect((error as GraphQLiteError).code).toBe('INVALID_INPUT');
+      expect((error as GraphQLiteError).message).toContain(message);
+    }
+  }
+
+  expect(() => pack(new Structure(0x01, new Array(16).fill(null)))).toThrow('at most 15 fields');
+});
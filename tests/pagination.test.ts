@@ -0,0 +1,143 @@
+/**
+ * Streaming and pagination tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import { appendPageClause } from '../src/utils';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+function seedPeople(graph: Graph, count: number): void {
+  graph.upsertNodes(
+    Array.from({ length: count }, (_, i) => ({
+      id: `p${String(i).padStart(4, '0')}`,
+      properties: { rank: i },
+      label: 'Person',
+    }))
+  );
+}
+
+test('appendPageClause appends SKIP and LIMIT', () => {
+  expect(appendPageClause('MATCH (n) RETURN n.id AS id ORDER BY id', 0, 10)).toBe(
+    'MATCH (n) RETURN n.id AS id ORDER BY id LIMIT 10'
+  );
+  expect(appendPageClause('  MATCH (n) RETURN n;  ', 20, 10)).toBe('MATCH (n) RETURN n SKIP 20 LIMIT 10');
+});
+
+test('appendPageClause rejects queries that cannot be paged', () => {
+  for (const query of [
+    'MATCH (n) RETURN n LIMIT 5',
+    'MATCH (n) RETURN n SKIP $offset',
+    'CREATE (n:Person)',
+    'MATCH (a) RETURN a.id AS id UNION MATCH (b) RETURN b.id AS id',
+  ]) {
+    try {
+      appendPageClause(query, 0, 10);
+      throw new Error(`Expected ${query} to be rejected`);
+    } catch (error) {
+      expect(error).toBeInstanceOf(GraphQLiteError);
+      expect((error as GraphQLiteError).code).toBe('INVALID_ARGUMENT');
+    }
+  }
+});
+
+test('paginate validates options before querying', () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    expect(() => graph.paginate('MATCH (n) RETURN n', { pageSize: 0 }).next()).toThrow(GraphQLiteError);
+    expect(() =>
+      graph.paginate('MATCH (n) RETURN n.id AS id ORDER BY id', { keyset: { column: 'id' } }).next()
+    ).toThrow('$after');
+    expect(() =>
+      graph.paginate('MATCH (n) WHERE $after IS NULL OR n.id > $after RETURN n.id AS id', { keyset: { column: 'id' } }).next()
+    ).toThrow('ORDER BY');
+  } finally {
+    graph.close();
+  }
+});
+
+test('cypherIterator yields every row across pages', () => {
+  const graph = createTestGraph();
+
+  try {
+    seedPeople(graph, 25);
+
+    const ids = [...graph.cypherIterator('MATCH (n:Person) RETURN n.id AS id ORDER BY id', { pageSize: 10 })].map(
+      (row) => row.id
+    );
+    expect(ids).toHaveLength(25);
+    expect(ids[0]).toBe('p0000');
+    expect(ids[24]).toBe('p0024');
+  } finally {
+    graph.close();
+  }
+});
+
+test('paginate uses SKIP/LIMIT pages by default', () => {
+  const graph = createTestGraph();
+
+  try {
+    seedPeople(graph, 25);
+
+    const sizes = [...graph.paginate('MATCH (n:Person) RETURN n.id AS id ORDER BY id', { pageSize: 10 })].map(
+      (page) => page.length
+    );
+    expect(sizes).toStrictEqual([10, 10, 5]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('paginate supports keyset pagination', () => {
+  const graph = createTestGraph();
+
+  try {
+    seedPeople(graph, 25);
+
+    const pages = [
+      ...graph.paginate(
+        'MATCH (n:Person) WHERE $after IS NULL OR n.rank > $after RETURN n.rank AS rank ORDER BY rank',
+        { pageSize: 10, keyset: { column: 'rank' } }
+      ),
+    ];
+    expect(pages.map((page) => page.length)).toStrictEqual([10, 10, 5]);
+    expect(pages[1]?.[0]?.rank).toBe(10);
+
+    const resumed = [
+      ...graph.paginate(
+        'MATCH (n:Person) WHERE n.rank > $cursor RETURN n.rank AS rank ORDER BY rank',
+        { pageSize: 10, keyset: { column: 'rank', param: 'cursor', after: 19 } }
+      ),
+    ];
+    expect(resumed.flat().map((row) => row.rank)).toStrictEqual([20, 21, 22, 23, 24]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('stream yields rows asynchronously', async () => {
+  const graph = createTestGraph();
+
+  try {
+    seedPeople(graph, 12);
+
+    let count = 0;
+    for await (const row of graph.stream('MATCH (n:Person) RETURN n.id AS id ORDER BY id', { pageSize: 5 })) {
+      expect(typeof row.id).toBe('string');
+      count++;
+    }
+    expect(count).toBe(12);
+  } finally {
+    graph.close();
+  }
+});
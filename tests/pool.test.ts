@@ -0,0 +1,112 @@
+/**
+ * GraphPool tests for GraphQLite
+ */
+
+import { test, expect, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { GraphPool } from '../src/pool';
+import { GraphQLiteError } from '../src/types';
+import { isReadOnlyQuery } from '../src/utils';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+const tempDirs: string[] = [];
+
+function tempDbPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphqlite-pool-'));
+  tempDirs.push(dir);
+  return path.join(dir, 'graph.db');
+}
+
+function createTestPool(readers: number = 2): GraphPool {
+  return new GraphPool(tempDbPath(), {
+    readers,
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('isReadOnlyQuery detects write clauses', () => {
+  expect(isReadOnlyQuery('MATCH (n:Person) RETURN n.name')).toBe(true);
+  expect(isReadOnlyQuery('MATCH (n) WHERE n.created > 1 RETURN n.set AS flag')).toBe(true);
+  expect(isReadOnlyQuery("MATCH (n {name: 'CREATE me'}) RETURN n // DELETE")).toBe(true);
+  expect(isReadOnlyQuery('MATCH (n:`SET`) /* MERGE */ RETURN n')).toBe(true);
+
+  expect(isReadOnlyQuery('CREATE (n:Person)')).toBe(false);
+  expect(isReadOnlyQuery('MATCH (n) SET n.age = 1')).toBe(false);
+  expect(isReadOnlyQuery('MATCH (n) detach delete n')).toBe(false);
+  expect(isReadOnlyQuery('MERGE (n {id: "a"}) RETURN n')).toBe(false);
+  expect(isReadOnlyQuery('MATCH (n) REMOVE n.age')).toBe(false);
+  expect(isReadOnlyQuery('CALL db.labels()')).toBe(false);
+});
+
+test('GraphPool rejects in-memory databases and bad reader counts', () => {
+  expect(() => new GraphPool(':memory:')).toThrow(GraphQLiteError);
+  expect(() => new GraphPool(tempDbPath(), { readers: 0 })).toThrow('readers');
+});
+
+test('GraphPool enables WAL and routes reads and writes', async () => {
+  const dbPath = tempDbPath();
+  const pool = new GraphPool(dbPath, { readers: 2, extensionPath: undefined });
+
+  try {
+    await pool.ready();
+    const db = new Database(dbPath);
+    expect(db.prepare('PRAGMA journal_mode').get()).toStrictEqual({ journal_mode: 'wal' });
+    db.close();
+
+    // Without the extension the calls fail, but still reach their connection
+    await pool.cypher('MATCH (n) RETURN n').catch(() => undefined);
+    await pool.cypher('CREATE (n)').catch(() => undefined);
+
+    expect(pool.stats()).toStrictEqual({
+      readers: 2,
+      pendingReads: [0, 0],
+      pendingWrites: 0,
+      completedReads: 1,
+      completedWrites: 1,
+    });
+  } finally {
+    await pool.close();
+  }
+});
+
+test('calls after close() reject with POOL_CLOSED', async () => {
+  const pool = new GraphPool(tempDbPath(), { readers: 1, extensionPath: undefined });
+  await pool.close();
+
+  try {
+    await pool.cypher('MATCH (n) RETURN n');
+    throw new Error('Expected POOL_CLOSED');
+  } catch (error) {
+    expect((error as GraphQLiteError).code).toBe('POOL_CLOSED');
+  }
+});
+
+test('readers see committed writes', async () => {
+  const pool = createTestPool();
+
+  try {
+    await pool.upsertNode('alice', { name: 'Alice' }, 'Person');
+    await pool.upsertNodes([{ id: 'bob', properties: { name: 'Bob' }, label: 'Person' }]);
+
+    const reads = await Promise.all(
+      Array.from({ length: 4 }, () => pool.cypher('MATCH (n:Person) RETURN n.id AS id ORDER BY id'))
+    );
+    for (const rows of reads) {
+      expect(rows).toStrictEqual([{ id: 'alice' }, { id: 'bob' }]);
+    }
+    expect(pool.stats().completedReads).toBe(4);
+  } finally {
+    await pool.close();
+  }
+});
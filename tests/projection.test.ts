@@ -0,0 +1,161 @@
+/**
+ * Projected graph and algorithm result storage tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { AsyncGraph } from '../src/async-graph';
+import type { CypherValue } from '../src/types';
+import { ProjectedGraph, writeNodeProperty } from '../src/projection';
+import { pagerank, degreeCentrality, shortestPath, traverse } from '../src/algorithms';
+import type { Adjacency } from '../src/js-engine';
+import { stubGraph } from './helpers';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+/**
+ * a -> b -> c, with a node without an `id` property
+ */
+const CHAIN: Adjacency = {
+  ids: ['a', 'b', 'c', '9'],
+  nodeIds: [1, 2, 3, 9],
+  edges: [
+    { source: 0, target: 1, weight: 1, type: 'KNOWS' },
+    { source: 1, target: 2, weight: 1, type: 'KNOWS' },
+  ],
+};
+
+/**
+ * Rows written by each query
+ */
+function writtenRows(writes: Array<{ params?: Record<string, CypherValue> }>): CypherValue[][] {
+  return writes.map((write) => write.params?.rows as CypherValue[]);
+}
+
+test('writeNodeProperty sets the property by internal id in one transaction', () => {
+  const { graph, queries: writes, transactions } = stubGraph();
+
+  const written = writeNodeProperty(graph, 'rank', { a: 0.5, b: 0.25, missing: 1 }, new Map([['a', 1], ['b', 2]]));
+  expect(written).toBe(2);
+  expect(transactions()).toBe(1);
+  expect(writes).toStrictEqual([
+    {
+      query: 'UNWIND $rows AS row MATCH (n) WHERE id(n) = row.node SET n.rank = row.value',
+      params: { rows: [{ node: 1, value: 0.5 }, { node: 2, value: 0.25 }] },
+    },
+  ]);
+  expect(() => writeNodeProperty(graph, '', {}, new Map())).toThrow('Invalid property key');
+});
+
+test('writeNodeProperty writes one query per chunk of 500 nodes', () => {
+  const { graph, queries: writes } = stubGraph();
+  const keys = Array.from({ length: 1_200 }, (_, i) => `n${i}`);
+
+  const written = writeNodeProperty(
+    graph,
+    'rank',
+    Object.fromEntries(keys.map((key, i) => [key, i])),
+    new Map(keys.map((key, i) => [key, i]))
+  );
+  expect(written).toBe(1_200);
+  expect(writtenRows(writes).map((rows) => rows.length)).toStrictEqual([500, 500, 200]);
+});
+
+test('mutateProperty keeps results on the ProjectedGraph until written', () => {
+  const { graph, queries: writes, transactions } = stubGraph();
+  const projected = new ProjectedGraph(graph, { labels: ['Person'] }, CHAIN);
+
+  expect(projected.nodeCount).toBe(4);
+  expect(projected.relationshipCount).toBe(2);
+
+  const degrees = degreeCentrality(graph, { projection: projected, mutateProperty: 'degree' });
+  expect(degrees.b).toStrictEqual({ inDegree: 1, outDegree: 1, degree: 2 });
+  traverse(graph, 'bfs', 'a', { projection: projected, mutateProperty: 'depth' });
+  expect(writes).toStrictEqual([]);
+
+  expect(projected.nodePropertyNames()).toStrictEqual(['degree', 'depth']);
+  expect(projected.nodeProperty('degree')).toStrictEqual({ a: 1, b: 2, c: 1, '9': 0 });
+  expect(projected.nodeProperty('depth')).toStrictEqual({ a: 0, b: 1, c: 2 });
+  expect(projected.nodeProperty('rank')).toBeUndefined();
+
+  expect(projected.writeNodeProperties(['depth'])).toBe(3);
+  expect(writtenRows(writes)).toStrictEqual([
+    [
+      { node: 1, value: 0 },
+      { node: 2, value: 1 },
+      { node: 3, value: 2 },
+    ],
+  ]);
+  expect(projected.writeNodeProperties()).toBe(7);
+  // Each write runs in a savepoint of the projection's transaction
+  expect(transactions()).toBe(5);
+  expect(() => projected.writeNodeProperties(['rank'])).toThrow('No node property rank on the projection');
+});
+
+test('writeProperty writes results and storage is checked before running', () => {
+  const { graph, queries: writes } = stubGraph();
+  const projected = new ProjectedGraph(graph, {}, CHAIN);
+
+  const ranks = pagerank(graph, { projection: projected, writeProperty: 'rank', mutateProperty: 'rank' });
+  expect(writtenRows(writes).flat().map((row) => (row as { value: CypherValue }).value)).toStrictEqual(Object.values(ranks));
+  expect(projected.nodeProperty('rank')).toStrictEqual(ranks);
+
+  expect(() => pagerank(graph, { projection: { labels: ['Person'] }, mutateProperty: 'rank' })).toThrow(
+    'mutateProperty needs a ProjectedGraph from graph.project() as the projection'
+  );
+  expect(() => shortestPath(graph, 'a', 'c', { writeProperty: 'cost' })).toThrow(
+    'Shortest path results cannot be stored as node properties'
+  );
+  expect(() => pagerank(graph, { writeProperty: '' })).toThrow('Invalid property key');
+  expect(() => pagerank({} as Graph, { projection: projected })).toThrow('The ProjectedGraph was projected from another graph');
+  expect(() => shortestPath(graph, 'a', 'c', { projection: projected, weight: 'cost' })).toThrow(
+    'The ProjectedGraph was not projected with weight cost'
+  );
+});
+
+test('AsyncGraph rejects a ProjectedGraph', async () => {
+  const graph = new AsyncGraph(':memory:', { extensionPath: undefined });
+
+  try {
+    const projected = new ProjectedGraph({} as Graph, {}, CHAIN);
+    await expect(graph.pagerank({ projection: projected })).rejects.toThrow('A ProjectedGraph cannot be used with AsyncGraph');
+  } finally {
+    await graph.close();
+  }
+});
+
+test('algorithm results are written to and projected from the graph', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.cypher("CREATE (:Person {id: 'a'}), (:Person {id: 'b'}), (:Person {id: 'c'}), (:Company {id: 'acme'})");
+    graph.cypher("MATCH (a {id: 'a'}), (b {id: 'b'}) CREATE (a)-[:KNOWS]->(b)");
+    graph.cypher("MATCH (b {id: 'b'}), (c {id: 'c'}) CREATE (b)-[:KNOWS]->(c)");
+    graph.cypher("MATCH (a {id: 'a'}), (c {id: 'acme'}) CREATE (a)-[:WORKS_AT]->(c)");
+
+    const components = graph.weaklyConnectedComponents({ writeProperty: 'component' });
+    const rows = graph.cypher<{ id: string; component: number }>('MATCH (n) RETURN n.id AS id, n.component AS component ORDER BY id');
+    expect(rows).toStrictEqual(rows.map((row) => ({ id: row.id, component: components[row.id] as number })));
+
+    const people = graph.project({ labels: ['Person'], relationshipTypes: ['KNOWS'] });
+    expect(people.nodeCount).toBe(3);
+    graph.bfs('a', { projection: people, mutateProperty: 'hops' });
+    expect(graph.cypher('MATCH (n) WHERE n.hops IS NOT NULL RETURN n.id AS id')).toStrictEqual([]);
+
+    expect(people.writeNodeProperties()).toBe(3);
+    expect(graph.cypher('MATCH (n:Person) RETURN n.id AS id, n.hops AS hops ORDER BY id')).toStrictEqual([
+      { id: 'a', hops: 0 },
+      { id: 'b', hops: 1 },
+      { id: 'c', hops: 2 },
+    ]);
+  } finally {
+    graph.close();
+  }
+});
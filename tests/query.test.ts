@@ -0,0 +1,158 @@
+/**
+ * Query builder tests for GraphQLite
+ */
+
+import { test, expect, expectTypeOf } from 'bun:test';
+import { Graph } from '../src/graph';
+import { QueryBuilder, node, rel, param, expr } from '../src/query';
+import { GraphQLiteError } from '../src/types';
+import type { CypherValue } from '../src/types';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+test('compiles MATCH with named and generated parameters', () => {
+  const compiled = new QueryBuilder()
+    .match(node('p', 'Person', { name: param('name', 'Alice'), age: 30 }))
+    .return({ name: 'p.name' })
+    .compile();
+
+  expect(compiled).toStrictEqual({
+    query: 'MATCH (p:Person {name: $name, age: $__p0}) RETURN p.name AS name',
+    params: { name: 'Alice', __p0: 30 },
+  });
+});
+
+test('compiles relationship paths in every direction', () => {
+  const { query } = new QueryBuilder()
+    .match(
+      node('a', 'Person')
+        .out(rel('r', 'KNOWS'), node('b'))
+        .in('WORKS_AT', node('c', 'Company'))
+        .related(rel(undefined, ['LIKES', 'LOVES']), node('d'))
+    )
+    .return({ a: 'a.name' })
+    .compile();
+
+  expect(query).toBe(
+    'MATCH (a:Person)-[r:KNOWS]->(b)<-[:WORKS_AT]-(c:Company)-[:LIKES|LOVES]-(d) RETURN a.name AS a'
+  );
+});
+
+test('combines WHERE conditions and merges their params', () => {
+  const compiled = new QueryBuilder()
+    .match(node('p', 'Person'))
+    .where('p.age > $minAge', { minAge: 18 })
+    .where(expr<boolean>('p.active = true'))
+    .return({ name: 'p.name' })
+    .orderBy('p.name')
+    .orderBy('p.age', 'DESC')
+    .skip(10)
+    .limit(5)
+    .compile();
+
+  expect(compiled).toStrictEqual({
+    query: 'MATCH (p:Person) WHERE (p.age > $minAge) AND (p.active = true) RETURN p.name AS name ORDER BY p.name ASC, p.age DESC SKIP 10 LIMIT 5',
+    params: { minAge: 18 },
+  });
+});
+
+test('compiles CREATE, MERGE, SET and DELETE clauses', () => {
+  expect(new QueryBuilder().create(node('p', 'Person', { name: 'Bob' })).compile()).toStrictEqual({
+    query: 'CREATE (p:Person {name: $__p0})',
+    params: { __p0: 'Bob' },
+  });
+
+  expect(
+    new QueryBuilder()
+      .merge(node('p', 'Person', { id: param('id', 'bob') }))
+      .set('p', { age: 25, 'nick name': 'B' })
+      .compile()
+  ).toStrictEqual({
+    query: 'MERGE (p:Person {id: $id}) SET p.age = $__p0, p.`nick name` = $__p1',
+    params: { id: 'bob', __p0: 25, __p1: 'B' },
+  });
+
+  expect(new QueryBuilder().match(node('p')).detachDelete('p').toString()).toBe('MATCH (p) DETACH DELETE p');
+});
+
+test('quotes hostile labels and property keys', () => {
+  const { query } = new QueryBuilder()
+    .match(node('n', 'Person) DETACH DELETE (m', { 'a b': 1 }))
+    .return({ 'the name': 'n.name' })
+    .compile();
+
+  expect(query).toBe('MATCH (n:`Person) DETACH DELETE (m` {`a b`: $__p0}) RETURN n.name AS `the name`');
+});
+
+test('rejects conflicting parameter values and invalid counts', () => {
+  const builder = new QueryBuilder()
+    .match(node('p', 'Person', { name: param('name', 'Alice') }))
+    .where('p.nick = $name', { name: 'Al' });
+  expect(() => builder.compile()).toThrow(GraphQLiteError);
+
+  const chained = new QueryBuilder().match(node('p', 'Person')).where('p.age > $min', { min: 18 });
+  expect(() => chained.where('p.score > $min', { min: 5 })).toThrow('Parameter $min is bound to conflicting values');
+  expect(chained.where('p.rank > $min', { min: 18 }).compile().params).toStrictEqual({ min: 18 });
+
+  expect(() => new QueryBuilder().match(node('p', 'Person', { name: param('__p0', 'Al') })).compile()).toThrow(
+    'uses the reserved prefix __p'
+  );
+
+  expect(() => new QueryBuilder().limit(-1)).toThrow(GraphQLiteError);
+  expect(() => new QueryBuilder().compile()).toThrow(GraphQLiteError);
+});
+
+test('generated parameters never collide with named ones', () => {
+  const { query, params } = new QueryBuilder()
+    .match(node('p', 'Person', { age: 30 }))
+    .where('p.name = $p0', { p0: 'Alice' })
+    .return({ name: 'p.name' })
+    .compile();
+  expect(query).toBe('MATCH (p:Person {age: $__p0}) WHERE p.name = $p0 RETURN p.name AS name');
+  expect(params).toStrictEqual({ __p0: 30, p0: 'Alice' });
+});
+
+test('run() requires a bound graph', () => {
+  expect(() => new QueryBuilder().match(node('n')).return({ n: 'n' }).run()).toThrow(GraphQLiteError);
+});
+
+test('return() infers the row type from the projection', () => {
+  const builder = new QueryBuilder()
+    .match(node('p', 'Person'))
+    .return({ name: expr<string>('p.name'), age: expr<number>('p.age'), raw: 'p.city' });
+
+  expectTypeOf(builder).toEqualTypeOf<QueryBuilder<{ name: string; age: number; raw: CypherValue }>>();
+});
+
+test('graph.query() executes through cypher()', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.query().create(node('p', 'Person', { name: 'Alice', age: 30 })).run();
+    graph.query().create(node('p', 'Person', { name: 'Bob', age: 25 })).run();
+
+    const rows = graph.query()
+      .match(node('p', 'Person'))
+      .where('p.age > $minAge', { minAge: 26 })
+      .return({ name: expr<string>('p.name'), age: expr<number>('p.age') })
+      .run();
+
+    expect(rows).toStrictEqual([{ name: 'Alice', age: 30 }]);
+
+    const first = graph.query()
+      .match(node('p', 'Person', { name: param('name', 'Bob') }))
+      .return({ age: expr<number>('p.age') })
+      .first();
+
+    expect(first).toStrictEqual({ age: 25 });
+  } finally {
+    graph.close();
+  }
+});
@@ -0,0 +1,170 @@
+/**
+ * Schema definition and model tests for GraphQLite
+ */
+
+import { test, expect, expectTypeOf, spyOn } from 'bun:test';
+import { Graph } from '../src/graph';
+import { defineNode, defineEdge, validateProperties } from '../src/schema';
+import type { NodeModel, EdgeModel, InferProperties } from '../src/schema';
+import { GraphQLiteError } from '../src/types';
+import type { CypherValue, GraphQLiteErrorCode } from '../src/types';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+const Person = defineNode('Person', { name: 'string', age: 'number?', tags: 'string[]?' });
+const Company = defineNode('Company', { name: 'string' });
+const Knows = defineEdge('KNOWS', { from: Person, to: Person }, { since: 'number' });
+const WorksAt = defineEdge('WORKS_AT', { from: Person, to: Company });
+
+function expectCode(fn: () => unknown, code: GraphQLiteErrorCode): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(GraphQLiteError);
+    expect((error as GraphQLiteError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected GraphQLiteError with code ${code}`);
+}
+
+test('defineNode infers property types', () => {
+  expectTypeOf<InferProperties<typeof Person.properties>>().toEqualTypeOf<{
+    name: string;
+    age?: number | null;
+    tags?: string[] | null;
+  }>();
+  expectTypeOf<InferProperties<{ data: 'json' }>>().toEqualTypeOf<{ data: CypherValue }>();
+});
+
+test('definitions reject reserved properties and unknown types', () => {
+  expectCode(() => defineNode('Bad', { id: 'string' }), 'SCHEMA_INVALID_DEFINITION');
+  expectCode(() => defineNode('Bad', { name: 'text' as 'string' }), 'SCHEMA_INVALID_DEFINITION');
+});
+
+test('validateProperties reports violations with distinct codes', () => {
+  const schema = Person.properties;
+
+  expect(() => validateProperties('Person', schema, { name: 'Alice', age: 30 })).not.toThrow();
+  expect(() => validateProperties('Person', schema, { name: 'Alice', age: null })).not.toThrow();
+  expect(() => validateProperties('Person', schema, { age: 31 }, true)).not.toThrow();
+
+  expectCode(() => validateProperties('Person', schema, { age: 30 }), 'SCHEMA_MISSING_PROPERTY');
+  expectCode(() => validateProperties('Person', schema, { name: null }, true), 'SCHEMA_MISSING_PROPERTY');
+  expectCode(() => validateProperties('Person', schema, { name: 42 }), 'SCHEMA_TYPE_MISMATCH');
+  expectCode(() => validateProperties('Person', schema, { name: 'A', age: NaN }), 'SCHEMA_TYPE_MISMATCH');
+  expectCode(() => validateProperties('Person', schema, { name: 'A', tags: ['x', 1] }), 'SCHEMA_TYPE_MISMATCH');
+  expectCode(() => validateProperties('Person', schema, { name: 'A', email: 'a@b' }), 'SCHEMA_UNKNOWN_PROPERTY');
+});
+
+test('graph.model() returns typed helpers', () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+
+  try {
+    expectTypeOf(graph.model(Person)).toEqualTypeOf<NodeModel<typeof Person.properties>>();
+    expectTypeOf(graph.model(Knows)).toEqualTypeOf<EdgeModel<typeof Knows.properties>>();
+  } finally {
+    graph.close();
+  }
+});
+
+test('NodeModel create, find, update and delete', () => {
+  const graph = createTestGraph();
+
+  try {
+    const people = graph.model(Person);
+
+    expect(people.create('alice', { name: 'Alice', age: 30 })).toStrictEqual({ id: 'alice', name: 'Alice', age: 30 });
+    people.create('bob', { name: 'Bob' });
+
+    expect(people.findById('alice')).toStrictEqual({ id: 'alice', name: 'Alice', age: 30, tags: null });
+    expect(people.find({ name: 'Bob' })).toStrictEqual([{ id: 'bob', name: 'Bob', age: null, tags: null }]);
+    expect(people.find({}, { limit: 1 })).toHaveLength(1);
+
+    expect(people.update('alice', { age: 31 })).toStrictEqual({ id: 'alice', name: 'Alice', age: 31, tags: null });
+    expect(people.update('nobody', { age: 1 })).toBeNull();
+
+    expect(people.delete('bob')).toBe(true);
+    expect(people.delete('bob')).toBe(false);
+    expect(people.find()).toHaveLength(1);
+  } finally {
+    graph.close();
+  }
+});
+
+test('NodeModel create checks for a duplicate id in the same transaction as the write', () => {
+  const graph = createTestGraph();
+
+  try {
+    const people = graph.model(Person);
+    const transaction = spyOn(graph, 'transaction');
+
+    people.create('alice', { name: 'Alice' });
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expectCode(() => people.create('alice', { name: 'Other' }), 'SCHEMA_DUPLICATE_ID');
+    expect(graph.inTransaction()).toBe(false);
+    expect(people.find()).toStrictEqual([{ id: 'alice', name: 'Alice', age: null, tags: null }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('NodeModel validates writes before querying', () => {
+  const graph = createTestGraph();
+
+  try {
+    const people = graph.model(Person);
+
+    expectCode(() => people.create('alice', { name: 42 } as never), 'SCHEMA_TYPE_MISMATCH');
+    expectCode(() => people.update('alice', { name: null } as never), 'SCHEMA_MISSING_PROPERTY');
+    expect(people.find()).toStrictEqual([]);
+
+    people.create('alice', { name: 'Alice' });
+    expectCode(() => people.create('alice', { name: 'Alice again' }), 'SCHEMA_DUPLICATE_ID');
+  } finally {
+    graph.close();
+  }
+});
+
+test('EdgeModel create, find, update and delete', () => {
+  const graph = createTestGraph();
+
+  try {
+    const people = graph.model(Person);
+    const knows = graph.model(Knows);
+
+    people.create('alice', { name: 'Alice' });
+    people.create('bob', { name: 'Bob' });
+
+    expect(knows.create('alice', 'bob', { since: 2020 })).toStrictEqual({ from: 'alice', to: 'bob', since: 2020 });
+    expect(knows.find({ from: 'alice' })).toStrictEqual([{ from: 'alice', to: 'bob', since: 2020 }]);
+    expect(knows.update('alice', 'bob', { since: 2021 })).toStrictEqual([{ from: 'alice', to: 'bob', since: 2021 }]);
+    expect(knows.delete('alice', 'bob')).toBe(1);
+    expect(knows.find()).toStrictEqual([]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('EdgeModel rejects endpoints with the wrong label', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.model(Person).create('alice', { name: 'Alice' });
+    graph.model(Person).create('bob', { name: 'Bob' });
+    graph.model(Company).create('acme', { name: 'Acme' });
+
+    const worksAt = graph.model(WorksAt);
+    expectCode(() => worksAt.create('alice', 'bob', {}), 'SCHEMA_ENDPOINT_MISMATCH');
+    expectCode(() => worksAt.create('alice', 'missing', {}), 'SCHEMA_ENDPOINT_MISMATCH');
+    expect(worksAt.create('alice', 'acme', {})).toStrictEqual({ from: 'alice', to: 'acme' });
+  } finally {
+    graph.close();
+  }
+});
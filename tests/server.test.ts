@@ -0,0 +1,226 @@
+/**
+ * Neo4j-compatible HTTP endpoint tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+import type { GraphServer } from '../src/types';
+import { serve, toNeo4jResult, toNeo4jErrorCode } from '../src/server';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+interface ResponseBody {
+  results: Array<{ columns: string[]; data: Array<{ row: unknown[]; meta: Array<{ type: string } | null> }> }>;
+  errors: Array<{ code: string; message: string }>;
+  commit?: string;
+  transaction?: { expires: string };
+}
+
+async function readBody(response: Response): Promise<ResponseBody> {
+  return (await response.json()) as ResponseBody;
+}
+
+async function post(url: string, body?: unknown): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+async function withServer(graph: Graph, fn: (server: GraphServer) => Promise<void>, timeout?: number): Promise<void> {
+  const server = serve(graph, { port: 0, transactionTimeout: timeout });
+  try {
+    await fn(server);
+  } finally {
+    await server.stop();
+    graph.close();
+  }
+}
+
+test('toNeo4jResult shapes rows, metadata and graphs like Neo4j', () => {
+  const alice = { id: 1, labels: ['Person'], properties: { name: 'Alice' } };
+  const bob = { id: 2, labels: ['Person'], properties: { name: 'Bob' } };
+  const knows = { id: 7, type: 'KNOWS', startNode: 1, endNode: 2, properties: { since: 2020 } };
+
+  const result = toNeo4jResult(
+    {
+      columns: ['a', 'r', 'p', 'n'],
+      data: [[alice, knows, { nodes: [alice, bob], relationships: [knows] }, 3]],
+    },
+    ['row', 'graph']
+  );
+
+  const entry = result.data[0];
+  expect(result.columns).toStrictEqual(['a', 'r', 'p', 'n']);
+  expect(entry?.row).toStrictEqual([{ name: 'Alice' }, { since: 2020 }, [{ name: 'Alice' }, { since: 2020 }, { name: 'Bob' }], 3]);
+  expect(entry?.meta?.[0]).toStrictEqual({ id: 1, elementId: '1', type: 'node', deleted: false });
+  expect(entry?.meta?.[3]).toBeNull();
+  expect(entry?.graph?.nodes.map((n) => n.id)).toStrictEqual(['1', '2']);
+  expect(entry?.graph?.relationships).toStrictEqual([
+    { id: '7', elementId: '7', type: 'KNOWS', startNode: '1', endNode: '2', properties: { since: 2020 } },
+  ]);
+
+  expect(toNeo4jResult({ columns: ['x'], data: [[1]] }, ['graph']).data[0]).toStrictEqual({
+    graph: { nodes: [], relationships: [] },
+  });
+});
+
+test('toNeo4jErrorCode maps GraphQLite error codes', () => {
+  expect(toNeo4jErrorCode(new GraphQLiteError('bad', 'CYPHER_SYNTAX'))).toBe('Neo.ClientError.Statement.SyntaxError');
+  expect(toNeo4jErrorCode(new GraphQLiteError('bad', 'QUERY_TIMEOUT'))).toBe('Neo.ClientError.Transaction.TransactionTimedOut');
+  expect(toNeo4jErrorCode(new GraphQLiteError('bad'))).toBe('Neo.DatabaseError.General.UnknownError');
+});
+
+test('serve answers discovery and rejects bad requests', async () => {
+  await withServer(new Graph(':memory:', { extensionPath: undefined }), async (server) => {
+    expect(server.url).toBe(`http://127.0.0.1:${server.port}/`);
+
+    const discovery = await fetch(server.url);
+    expect(await discovery.json()).toMatchObject({ transaction: `http://127.0.0.1:${server.port}/db/{databaseName}/tx` });
+
+    const missing = await post(`${server.url}db/other/tx/commit`, { statements: [] });
+    expect(missing.status).toBe(404);
+    expect((await readBody(missing)).errors[0]?.code).toBe('Neo.ClientError.Database.DatabaseNotFound');
+
+    const invalid = await post(`${server.url}db/neo4j/tx/commit`, '{"statements": ');
+    expect(invalid.status).toBe(400);
+    expect((await readBody(invalid)).errors[0]?.code).toBe('Neo.ClientError.Request.InvalidFormat');
+
+    const untexted = await post(`${server.url}db/neo4j/tx/commit`, { statements: [{ parameters: {} }] });
+    expect(untexted.status).toBe(400);
+
+    const unknown = await post(`${server.url}db/neo4j/tx/42/commit`);
+    expect(unknown.status).toBe(404);
+    expect((await readBody(unknown)).errors[0]?.code).toBe('Neo.ClientError.Transaction.TransactionNotFound');
+
+    expect((await fetch(`${server.url}db/neo4j/tx/commit`)).status).toBe(405);
+  });
+});
+
+test('serve reports statement errors and rolls back', async () => {
+  // Without the extension every statement fails, which exercises error mapping
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  await withServer(graph, async (server) => {
+    const response = await post(`${server.url}db/neo4j/tx/commit`, { statements: [{ statement: 'RETURN 1' }] });
+    expect(response.status).toBe(200);
+    const body = await readBody(response);
+    expect(body.results).toStrictEqual([]);
+    expect(body.errors).toHaveLength(1);
+    expect(body.errors[0]?.code).toBe('Neo.DatabaseError.General.UnknownError');
+    expect(graph.inTransaction()).toBe(false);
+  });
+});
+
+test('serve opens, commits and rolls back transactions', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  await withServer(
+    graph,
+    async (server) => {
+      const opened = await post(`${server.url}db/neo4j/tx`);
+      expect(opened.status).toBe(201);
+      const location = opened.headers.get('Location') as string;
+      const body = await readBody(opened);
+      expect(body.commit).toBe(`${location}/commit`);
+      expect(typeof body.transaction?.expires).toBe('string');
+      expect(graph.inTransaction()).toBe(true);
+
+      expect((await post(location, { statements: [] })).status).toBe(200);
+      const committed = await post(`${location}/commit`);
+      expect(await committed.json()).toStrictEqual({ results: [], errors: [] });
+      expect(graph.inTransaction()).toBe(false);
+      expect((await post(`${location}/commit`)).status).toBe(404);
+
+      const second = (await post(`${server.url}db/neo4j/tx`)).headers.get('Location') as string;
+      expect(second).not.toBe(location);
+      expect((await fetch(second, { method: 'DELETE' })).status).toBe(200);
+      expect(graph.inTransaction()).toBe(false);
+    }
+  );
+});
+
+test('serve holds other requests until an open transaction expires', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  await withServer(
+    graph,
+    async (server) => {
+      const location = (await post(`${server.url}db/neo4j/tx`)).headers.get('Location') as string;
+      const waiting = await post(`${server.url}db/neo4j/tx/commit`);
+      expect(waiting.status).toBe(200);
+      expect(graph.inTransaction()).toBe(false);
+      expect((await post(location)).status).toBe(404);
+    },
+    50
+  );
+});
+
+test('serve ignores a transaction that expires while a request body arrives', async () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  await withServer(
+    graph,
+    async (server) => {
+      const first = (await post(`${server.url}db/neo4j/tx`)).headers.get('Location') as string;
+      const slowBody = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          await Bun.sleep(300);
+          controller.enqueue(new TextEncoder().encode('{"statements": []}'));
+          controller.close();
+        },
+      });
+      const late = fetch(`${first}/commit`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: slowBody });
+      // Takes the lock once the first transaction expires, before the body arrives
+      const second = post(`${server.url}db/neo4j/tx`);
+
+      expect((await late).status).toBe(404);
+      const location = (await second).headers.get('Location') as string;
+      expect(graph.inTransaction()).toBe(true);
+
+      let settled = false;
+      const waiting = post(`${server.url}db/neo4j/tx/commit`).then((response) => {
+        settled = true;
+        return response;
+      });
+      await Bun.sleep(20);
+      expect(settled).toBe(false);
+      expect((await post(`${location}/commit`)).status).toBe(200);
+      expect((await waiting).status).toBe(200);
+    },
+    200
+  );
+});
+
+test('serve runs Cypher over HTTP', async () => {
+  const graph = createTestGraph();
+  await withServer(graph, async (server) => {
+    const opened = await post(`${server.url}db/neo4j/tx`, {
+      statements: [{ statement: 'CREATE (n:Person {name: $name})', parameters: { name: 'Alice' } }],
+    });
+    expect(opened.status).toBe(201);
+    const location = opened.headers.get('Location') as string;
+
+    await post(`${location}/commit`, { statements: [{ statement: "CREATE (n:Person {name: 'Bob'})" }] });
+
+    const response = await post(`${server.url}db/neo4j/tx/commit`, {
+      statements: [{ statement: 'MATCH (n:Person) RETURN n.name AS name, n ORDER BY name' }],
+    });
+    const body = await readBody(response);
+    expect(body.errors).toStrictEqual([]);
+    expect(body.results[0]?.columns).toStrictEqual(['name', 'n']);
+    expect(body.results[0]?.data.map((entry) => entry.row)).toStrictEqual([
+      ['Alice', { name: 'Alice' }],
+      ['Bob', { name: 'Bob' }],
+    ]);
+    expect(body.results[0]?.data[0]?.meta[1]?.type).toBe('node');
+
+    const syntax = await post(`${server.url}db/neo4j/tx/commit`, { statements: [{ statement: 'MATCH (n RETURN n' }] });
+    expect((await readBody(syntax)).errors[0]?.code).toMatch(/^Neo\./);
+  });
+});
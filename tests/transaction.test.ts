@@ -0,0 +1,210 @@
+/**
+ * Transaction tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { GraphQLiteError } from '../src/types';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+function countPeople(graph: Graph): number {
+  const results = graph.cypher<{ cnt: number }>('MATCH (n:Person) RETURN count(n) as cnt');
+  return results[0]?.cnt ?? 0;
+}
+
+test('transaction commits all writes', () => {
+  const graph = createTestGraph();
+
+  try {
+    const result = graph.transaction(() => {
+      graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+      graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+      graph.upsertEdge('alice', 'bob', {}, 'KNOWS');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(graph.inTransaction()).toBe(false);
+    expect(countPeople(graph)).toBe(2);
+  } finally {
+    graph.close();
+  }
+});
+
+test('transaction rolls back on thrown error', () => {
+  const graph = createTestGraph();
+
+  try {
+    expect(() => {
+      graph.transaction(() => {
+        graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+        throw new Error('import failed');
+      });
+    }).toThrow('import failed');
+
+    expect(graph.inTransaction()).toBe(false);
+    expect(countPeople(graph)).toBe(0);
+  } finally {
+    graph.close();
+  }
+});
+
+test('nested transaction rolls back only the inner savepoint', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.transaction(() => {
+      graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+
+      expect(() => {
+        graph.transaction(() => {
+          graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+          throw new Error('inner failure');
+        });
+      }).toThrow('inner failure');
+
+      graph.upsertNode('charlie', { name: 'Charlie' }, 'Person');
+    });
+
+    const results = graph.cypher('MATCH (n:Person) RETURN n.name as name ORDER BY n.name');
+    expect(results).toStrictEqual([{ name: 'Alice' }, { name: 'Charlie' }]);
+  } finally {
+    graph.close();
+  }
+});
+
+test('inner failure propagating to outer transaction rolls back everything', () => {
+  const graph = createTestGraph();
+
+  try {
+    expect(() => {
+      graph.transaction(() => {
+        graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+        graph.transaction(() => {
+          graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+          throw new Error('inner failure');
+        });
+      });
+    }).toThrow('inner failure');
+
+    expect(countPeople(graph)).toBe(0);
+  } finally {
+    graph.close();
+  }
+});
+
+test('transaction rejects async callbacks', () => {
+  const graph = createTestGraph();
+
+  try {
+    expect(() => {
+      graph.transaction(async () => {
+        graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+      });
+    }).toThrow(GraphQLiteError);
+
+    expect(graph.inTransaction()).toBe(false);
+    expect(countPeople(graph)).toBe(0);
+  } finally {
+    graph.close();
+  }
+});
+
+test('transactionAsync commits after the callback resolves', async () => {
+  const graph = createTestGraph();
+
+  try {
+    const result = await graph.transactionAsync(async () => {
+      graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+      await Promise.resolve();
+      graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+      return 2;
+    });
+
+    expect(result).toBe(2);
+    expect(countPeople(graph)).toBe(2);
+  } finally {
+    graph.close();
+  }
+});
+
+test('transactionAsync rolls back on rejection', async () => {
+  const graph = createTestGraph();
+
+  try {
+    await expect(
+      graph.transactionAsync(async () => {
+        graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+        await Promise.resolve();
+        throw new Error('async failure');
+      })
+    ).rejects.toThrow('async failure');
+
+    expect(graph.inTransaction()).toBe(false);
+    expect(countPeople(graph)).toBe(0);
+  } finally {
+    graph.close();
+  }
+});
+
+test('rollback reloads the algorithm cache', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+    graph.loadGraph();
+
+    expect(() => {
+      graph.transaction(() => {
+        graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+        graph.reloadGraph();
+        throw new Error('rollback');
+      });
+    }).toThrow('rollback');
+
+    // The cache no longer holds the rolled-back node
+    expect(Object.keys(graph.pagerank())).toStrictEqual(['alice']);
+    expect(graph.getStats()).toStrictEqual({ nodes: 1, edges: 0 });
+  } finally {
+    graph.close();
+  }
+});
+
+test('beginTransaction handles commit, roll back and nest', () => {
+  const graph = new Graph(':memory:', { extensionPath: undefined });
+  const db = graph.getDatabase();
+  const count = () => (db.query('SELECT count(*) AS n FROM items').get() as { n: number }).n;
+
+  try {
+    db.run('CREATE TABLE items (name TEXT)');
+
+    const outer = graph.beginTransaction();
+    db.run("INSERT INTO items VALUES ('kept')");
+    const inner = graph.beginTransaction();
+    db.run("INSERT INTO items VALUES ('dropped')");
+
+    expect(() => outer.commit()).toThrow('nested one is open');
+    inner.rollback();
+    expect(inner.active).toBe(false);
+    expect(() => inner.commit()).toThrow(GraphQLiteError);
+
+    outer.commit();
+    expect(graph.inTransaction()).toBe(false);
+    expect(count()).toBe(1);
+
+    const discarded = graph.beginTransaction();
+    db.run("INSERT INTO items VALUES ('discarded')");
+    discarded.rollback();
+    expect(count()).toBe(1);
+  } finally {
+    graph.close();
+  }
+});
@@ -0,0 +1,107 @@
+/**
+ * Node, relationship and path decoding tests for GraphQLite
+ */
+
+import { test, expect } from 'bun:test';
+import { Graph } from '../src/graph';
+import { Node, Relationship, Path, isNode, isRelationship, isPath } from '../src/values';
+import { resultToRows, decodeCypherValue } from '../src/utils';
+
+const EXTENSION_PATH = process.env.GRAPHQLITE_EXTENSION_PATH || './native/graphqlite.so';
+
+function createTestGraph(): Graph {
+  return new Graph(':memory:', {
+    extensionPath: EXTENSION_PATH,
+    enableLoadExtension: true,
+  });
+}
+
+const alice = { id: 1, labels: ['Person'], properties: { id: 'alice', name: 'Alice' } };
+const bob = { id: 2, labels: ['Person'], properties: { id: 'bob', name: 'Bob' } };
+const knows = { id: 7, type: 'KNOWS', startNode: 1, endNode: 2, properties: { since: 2020 } };
+
+test('resultToRows materializes nodes and relationships', () => {
+  const [row] = resultToRows({ columns: ['a', 'r'], data: [[alice, knows]] });
+
+  expect(isNode(row?.a)).toBe(true);
+  const a = row?.a as Node;
+  expect(a.id).toBe(1);
+  expect(a.hasLabel('Person')).toBe(true);
+  expect(a.get('name')).toBe('Alice');
+  expect(a.get('missing')).toBeNull();
+
+  expect(isRelationship(row?.r)).toBe(true);
+  const r = row?.r as Relationship;
+  expect(r.type).toBe('KNOWS');
+  expect(r.start).toBe(1);
+  expect(r.end).toBe(2);
+  expect(r.get('since')).toBe(2020);
+});
+
+test('resultToRows materializes paths and walks their segments', () => {
+  const [row] = resultToRows({ columns: ['p'], data: [[{ nodes: [alice, bob], relationships: [knows] }]] });
+
+  expect(isPath(row?.p)).toBe(true);
+  const p = row?.p as Path;
+  expect(p.length).toBe(1);
+  expect(p.start?.get('name')).toBe('Alice');
+  expect(p.end?.get('name')).toBe('Bob');
+
+  const segments = [...p.segments()];
+  expect(segments).toHaveLength(1);
+  expect(segments[0]?.relationship.type).toBe('KNOWS');
+});
+
+test('decodeCypherValue recurses into lists and maps and leaves other values alone', () => {
+  const decoded = decodeCypherValue({ people: [alice, bob], count: 2 }) as { people: unknown[]; count: number };
+  expect(decoded.people.every(isNode)).toBe(true);
+  expect(decoded.count).toBe(2);
+
+  expect(decodeCypherValue({ id: 1, labels: ['Person'] })).toStrictEqual({ id: 1, labels: ['Person'] });
+  expect(decodeCypherValue({ id: 1, labels: ['A'], properties: {}, extra: true })).not.toBeInstanceOf(Node);
+  expect(decodeCypherValue({ name: 'Alice', type: 'person' })).toStrictEqual({ name: 'Alice', type: 'person' });
+  expect(decodeCypherValue('Alice')).toBe('Alice');
+  expect(isNode({ id: 1, labels: [], properties: {} })).toBe(false);
+});
+
+test('decodeCypherValue leaves maps that only resemble entities as maps', () => {
+  const person = { id: 'alice', labels: ['Person'], properties: { name: 'Alice' } };
+  expect(decodeCypherValue(person)).toStrictEqual(person);
+  expect(decodeCypherValue(person)).not.toBeInstanceOf(Node);
+
+  const link = { id: 7, type: 'KNOWS', source: 1, target: 2, properties: {} };
+  expect(decodeCypherValue(link)).toStrictEqual(link);
+  expect(decodeCypherValue({ ...knows, start: 1 })).not.toBeInstanceOf(Relationship);
+  expect(decodeCypherValue({ nodes: [alice, bob], edges: [knows] })).not.toBeInstanceOf(Path);
+});
+
+test('decoded values serialize back to plain JSON', () => {
+  const [row] = resultToRows({ columns: ['p'], data: [[{ nodes: [alice, bob], relationships: [knows] }]] });
+
+  expect(JSON.parse(JSON.stringify(row))).toStrictEqual({
+    p: {
+      nodes: [alice, bob],
+      relationships: [{ id: 7, type: 'KNOWS', start: 1, end: 2, properties: { since: 2020 } }],
+    },
+  });
+});
+
+test('RETURN n yields Node instances', () => {
+  const graph = createTestGraph();
+
+  try {
+    graph.upsertNode('alice', { name: 'Alice' }, 'Person');
+    graph.upsertNode('bob', { name: 'Bob' }, 'Person');
+    graph.upsertEdge('alice', 'bob', { since: 2020 }, 'KNOWS');
+
+    const [row] = graph.cypher('MATCH (a:Person {id: $id})-[r:KNOWS]->(b) RETURN a, r, b', { id: 'alice' });
+    expect(isNode(row?.a)).toBe(true);
+    expect((row?.a as Node).hasLabel('Person')).toBe(true);
+    expect((row?.a as Node).get('name')).toBe('Alice');
+    expect(isRelationship(row?.r)).toBe(true);
+    expect((row?.r as Relationship).type).toBe('KNOWS');
+    expect((row?.b as Node).get('name')).toBe('Bob');
+  } finally {
+    graph.close();
+  }
+});